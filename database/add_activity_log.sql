@@ -0,0 +1,102 @@
+-- Migration: Add the project activity log
+-- This migration records who created, changed or deleted projects, tasks and notes, and what changed
+
+-- Create project activity table (append-only history of changes to a project, its tasks and notes).
+-- Rows are written by the log_activity trigger; changes holds {"field": {"from": ..., "to": ...}} for updates.
+create table if not exists public.project_activity (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    actor_id uuid references public.profiles(id) on delete set null,
+    entity_type text not null check (entity_type in ('project', 'task', 'note')),
+    entity_id uuid not null,
+    -- Name or title at the time of the change, so deleted items can still be described
+    entity_name text,
+    action text not null check (action in ('created', 'updated', 'deleted')),
+    changes jsonb,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.project_activity enable row level security;
+
+-- Create RLS policies for project_activity table
+-- There are no write policies: only the log_activity trigger adds rows, and they are never changed
+create policy "Members can view their project's activity" on public.project_activity
+    for select using (public.is_project_member(project_id));
+
+create index if not exists project_activity_project_id_created_at_idx on public.project_activity(project_id, created_at desc);
+
+-- Create function to record inserts, updates and deletes of projects, tasks and notes.
+-- Security definer so it can write to project_activity, which has no insert policy.
+create or replace function public.log_activity()
+returns trigger as $$
+declare
+    old_data jsonb;
+    new_data jsonb;
+    row_data jsonb;
+    target_project_id uuid;
+    changes jsonb;
+begin
+    if tg_op <> 'INSERT' then
+        old_data := to_jsonb(old);
+    end if;
+    if tg_op <> 'DELETE' then
+        new_data := to_jsonb(new);
+    end if;
+    row_data := coalesce(new_data, old_data);
+
+    if tg_table_name = 'projects' then
+        target_project_id := (row_data ->> 'id')::uuid;
+    elsif tg_table_name = 'tasks' then
+        target_project_id := (row_data ->> 'project_id')::uuid;
+    else
+        select tasks.project_id into target_project_id
+        from public.tasks
+        where tasks.id = (row_data ->> 'task_id')::uuid;
+    end if;
+
+    -- Rows deleted along with their project have no history left to add to
+    if target_project_id is null
+        or not exists (select 1 from public.projects where projects.id = target_project_id) then
+        return null;
+    end if;
+
+    if tg_op = 'UPDATE' then
+        select jsonb_object_agg(fields.key, jsonb_build_object('from', old_data -> fields.key, 'to', fields.value))
+        into changes
+        from jsonb_each(new_data) as fields
+        where fields.key not in ('id', 'user_id', 'position', 'created_at', 'updated_at')
+        and fields.value is distinct from old_data -> fields.key;
+
+        -- Skip updates that only touched bookkeeping columns, such as reordering on the board
+        if changes is null then
+            return null;
+        end if;
+    end if;
+
+    insert into public.project_activity (project_id, actor_id, entity_type, entity_id, entity_name, action, changes)
+    values (
+        target_project_id,
+        auth.uid(),
+        case tg_table_name when 'projects' then 'project' when 'tasks' then 'task' else 'note' end,
+        (row_data ->> 'id')::uuid,
+        coalesce(row_data ->> 'name', row_data ->> 'title'),
+        case tg_op when 'INSERT' then 'created' when 'UPDATE' then 'updated' else 'deleted' end,
+        changes
+    );
+
+    return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create triggers for the activity log
+drop trigger if exists log_activity on public.projects;
+create trigger log_activity after insert or update or delete on public.projects
+    for each row execute procedure public.log_activity();
+
+drop trigger if exists log_activity on public.tasks;
+create trigger log_activity after insert or update or delete on public.tasks
+    for each row execute procedure public.log_activity();
+
+drop trigger if exists log_activity on public.notes;
+create trigger log_activity after insert or update or delete on public.notes
+    for each row execute procedure public.log_activity();
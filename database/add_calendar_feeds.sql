@@ -0,0 +1,81 @@
+-- Migration: Add calendar feeds
+-- This migration adds per-user calendar subscription tokens and the function that serves the feed
+
+-- Create calendar feeds table (one secret subscription token per user).
+-- Anyone holding the token can read the user's due dates through get_calendar_feed.
+create table if not exists public.calendar_feeds (
+    user_id uuid references auth.users(id) on delete cascade primary key,
+    token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.calendar_feeds enable row level security;
+
+-- Create RLS policies for calendar_feeds table
+-- Feed tokens are private to their user; a new token is issued by deleting and re-inserting the row
+create policy "Users can view their own calendar feed" on public.calendar_feeds
+    for select using (auth.uid() = user_id);
+
+create policy "Users can create their own calendar feed" on public.calendar_feeds
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete their own calendar feed" on public.calendar_feeds
+    for delete using (auth.uid() = user_id);
+
+-- Create function to list the due dates in a calendar feed: deadlines of the feed owner's projects
+-- and of their tasks, from 90 days ago onwards. Security definer because calendar apps
+-- fetch the feed without signing in; the token is the only credential.
+create or replace function public.get_calendar_feed(feed_token text)
+returns table (
+    item_type text,
+    id uuid,
+    project_id uuid,
+    project_name text,
+    name text,
+    priority text,
+    due_date date,
+    completed boolean,
+    updated_at timestamp with time zone
+) as $$
+#variable_conflict use_column
+declare
+    feed_user_id uuid;
+begin
+    select calendar_feeds.user_id into feed_user_id from public.calendar_feeds
+    where calendar_feeds.token = feed_token;
+
+    if not found then
+        raise exception 'Calendar feed not found' using errcode = 'no_data_found';
+    end if;
+
+    return query
+    with feed_projects as (
+        select projects.* from public.projects
+        where projects.deleted_at is null
+        and (
+            projects.user_id = feed_user_id
+            or exists (
+                select 1 from public.project_members
+                where project_members.project_id = projects.id
+                and project_members.user_id = feed_user_id
+            )
+        )
+    )
+    select * from (
+        select 'project'::text, p.id, p.id, p.name, p.name, null::text, p.due_date, false, p.updated_at
+        from feed_projects p
+        where p.due_date >= current_date - 90
+
+        union all
+
+        select 'task'::text, t.id, t.project_id, p.name, t.name, t.priority, t.due_date, coalesce(t.completed, false), t.updated_at
+        from public.tasks t
+        join feed_projects p on p.id = t.project_id
+        where t.deleted_at is null
+        and t.due_date >= current_date - 90
+    ) items
+    order by items.due_date;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+grant execute on function public.get_calendar_feed(text) to anon, authenticated;
@@ -0,0 +1,86 @@
+-- Migration: Add full-text search across projects, tasks and notes
+-- This migration adds search indexes and the search_all function used by the search palette
+
+-- Create functions that build the full-text search documents (immutable so they can back indexes)
+create or replace function public.project_search_vector(name text, description text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(description, '')), 'B');
+$$ language sql immutable;
+
+create or replace function public.task_search_vector(name text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(name, '')), 'A');
+$$ language sql immutable;
+
+create or replace function public.note_search_vector(title text, content text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(content, '')), 'B');
+$$ language sql immutable;
+
+-- Create full-text search indexes
+create index if not exists projects_search_idx on public.projects using gin (public.project_search_vector(name, description));
+create index if not exists tasks_search_idx on public.tasks using gin (public.task_search_vector(name));
+create index if not exists notes_search_idx on public.notes using gin (public.note_search_vector(title, content));
+
+-- Create function to search projects, tasks and notes in one ranked list.
+-- Every word is matched as a prefix so results appear while typing; matches in
+-- snippets are wrapped in <mark></mark>. Runs as the caller, so RLS limits results
+-- to the user's own data.
+create or replace function public.search_all(search_query text, result_limit integer default 20)
+returns table (
+    result_type text,
+    id uuid,
+    project_id uuid,
+    task_id uuid,
+    title text,
+    snippet text,
+    project_name text,
+    task_name text,
+    rank real
+) as $$
+    with query as (
+        -- Words are quoted as tsquery lexemes with backslashes and quotes escaped; quote_literal
+        -- can't be used because to_tsquery rejects the E'...' strings it returns for backslashes
+        select to_tsquery('english', string_agg('''' || replace(replace(word, '\', '\\'), '''', '''''') || ''':*', ' & ')) as q
+        from regexp_split_to_table(trim(search_query), '\s+') as word
+        where word <> ''
+    )
+    select * from (
+        select
+            'project', p.id, p.id, null::uuid, p.name,
+            ts_headline('english', coalesce(nullif(p.description, ''), p.name), query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, null::text,
+            ts_rank(public.project_search_vector(p.name, p.description), query.q)
+        from public.projects p, query
+        where public.project_search_vector(p.name, p.description) @@ query.q
+
+        union all
+
+        select
+            'task', t.id, t.project_id, t.id, t.name,
+            ts_headline('english', t.name, query.q, 'StartSel="<mark>", StopSel="</mark>", HighlightAll=true'),
+            p.name, t.name,
+            ts_rank(public.task_search_vector(t.name), query.q)
+        from public.tasks t
+        join public.projects p on p.id = t.project_id, query
+        where public.task_search_vector(t.name) @@ query.q
+
+        union all
+
+        select
+            'note', n.id, t.project_id, n.task_id, n.title,
+            ts_headline('english', n.content, query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, t.name,
+            ts_rank(public.note_search_vector(n.title, n.content), query.q)
+        from public.notes n
+        join public.tasks t on t.id = n.task_id
+        join public.projects p on p.id = t.project_id, query
+        where public.note_search_vector(n.title, n.content) @@ query.q
+    ) results
+    order by rank desc
+    limit result_limit;
+$$ language sql stable;
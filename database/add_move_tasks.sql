@@ -0,0 +1,35 @@
+-- Migration: Add move_tasks
+-- This migration adds the function that moves tasks between projects, and undoes such moves, in one statement
+
+-- Create function to move tasks to another project in one statement, so a failure leaves every task where it was.
+-- moved_tasks is [{"id", "parent_task_id", "assignee_id"}]: the parent is kept only if it is in the target project
+-- or moves too, and the assignee only if they are a member of the target project. Passing the values from before
+-- a move puts the tasks back as they were. Runs with the caller's permissions.
+create or replace function public.move_tasks(moved_tasks jsonb, target_project_id uuid)
+returns setof uuid as $$
+    update public.tasks set
+        project_id = target_project_id,
+        parent_task_id = case
+            when moved.parent_task_id in (select (value ->> 'id')::uuid from jsonb_array_elements(moved_tasks))
+                or exists (
+                    select 1 from public.tasks parent
+                    where parent.id = moved.parent_task_id
+                    and parent.project_id = target_project_id
+                    and parent.deleted_at is null
+                )
+            then moved.parent_task_id
+        end,
+        assignee_id = case
+            when exists (
+                select 1 from public.project_members
+                where project_members.project_id = target_project_id
+                and project_members.user_id = moved.assignee_id
+            )
+            then moved.assignee_id
+        end,
+        updated_at = timezone('utc'::text, now())
+    from jsonb_to_recordset(moved_tasks) as moved(id uuid, parent_task_id uuid, assignee_id uuid)
+    where tasks.id = moved.id
+    and tasks.deleted_at is null
+    returning tasks.id;
+$$ language sql;
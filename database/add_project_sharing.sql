@@ -0,0 +1,465 @@
+-- Migration: Add project sharing
+-- This migration adds profiles, project members with owner/editor/viewer roles and
+-- email invitations, and rewrites every RLS policy to honour project membership
+
+-- Create profiles table (one row per auth user, so collaborators can be shown by email)
+create table if not exists public.profiles (
+    id uuid references auth.users(id) on delete cascade primary key,
+    email text not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create project members table (everyone with access to a project; its creator is added as an owner)
+create table if not exists public.project_members (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    role text not null check (role in ('owner', 'editor', 'viewer')) default 'viewer',
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, user_id)
+);
+
+-- Create project invitations table (pending invites by email, accepted with accept_project_invitation)
+create table if not exists public.project_invitations (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    email text not null check (email = lower(email) and email ~ '^[^@\s]+@[^@\s]+$'),
+    role text not null check (role in ('owner', 'editor', 'viewer')) default 'viewer',
+    invited_by uuid references public.profiles(id) on delete set null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, email)
+);
+
+-- Create functions that resolve the current user's access to a project.
+-- Security definer so policies can call them without recursing through the
+-- projects and project_members policies.
+create or replace function public.project_role(target_project_id uuid)
+returns text as $$
+    select case
+        when exists (
+            select 1 from public.projects
+            where projects.id = target_project_id
+            and projects.user_id = auth.uid()
+        ) then 'owner'
+        else (
+            select project_members.role from public.project_members
+            where project_members.project_id = target_project_id
+            and project_members.user_id = auth.uid()
+        )
+    end;
+$$ language sql stable security definer set search_path = public;
+
+create or replace function public.is_project_member(target_project_id uuid)
+returns boolean as $$
+    select public.project_role(target_project_id) is not null;
+$$ language sql stable;
+
+create or replace function public.can_edit_project(target_project_id uuid)
+returns boolean as $$
+    select coalesce(public.project_role(target_project_id) in ('owner', 'editor'), false);
+$$ language sql stable;
+
+-- Give existing users a profile
+insert into public.profiles (id, email)
+select id, lower(email) from auth.users
+on conflict (id) do nothing;
+
+-- Add each project's creator as its first owner
+insert into public.project_members (project_id, user_id, role)
+select id, user_id, 'owner' from public.projects
+on conflict (project_id, user_id) do nothing;
+
+alter table public.profiles enable row level security;
+alter table public.project_members enable row level security;
+alter table public.project_invitations enable row level security;
+
+-- Replace the owner-only policies
+drop policy if exists "Users can view their own projects" on public.projects;
+drop policy if exists "Users can insert their own projects" on public.projects;
+drop policy if exists "Users can update their own projects" on public.projects;
+drop policy if exists "Users can delete their own projects" on public.projects;
+drop policy if exists "Users can view task statuses from their projects" on public.task_statuses;
+drop policy if exists "Users can insert task statuses to their projects" on public.task_statuses;
+drop policy if exists "Users can update task statuses from their projects" on public.task_statuses;
+drop policy if exists "Users can delete task statuses from their projects" on public.task_statuses;
+drop policy if exists "Users can view tasks from their projects" on public.tasks;
+drop policy if exists "Users can insert tasks to their projects" on public.tasks;
+drop policy if exists "Users can update tasks from their projects" on public.tasks;
+drop policy if exists "Users can delete tasks from their projects" on public.tasks;
+drop policy if exists "Users can view notes from their tasks" on public.notes;
+drop policy if exists "Users can insert notes to their tasks" on public.notes;
+drop policy if exists "Users can update notes from their tasks" on public.notes;
+drop policy if exists "Users can delete notes from their tasks" on public.notes;
+drop policy if exists "Users can view dependencies between their tasks" on public.task_dependencies;
+drop policy if exists "Users can insert dependencies between their tasks" on public.task_dependencies;
+drop policy if exists "Users can update dependencies between their tasks" on public.task_dependencies;
+drop policy if exists "Users can delete dependencies between their tasks" on public.task_dependencies;
+drop policy if exists "Users can view their own tags" on public.tags;
+drop policy if exists "Users can insert their own tags" on public.tags;
+drop policy if exists "Users can update their own tags" on public.tags;
+drop policy if exists "Users can delete their own tags" on public.tags;
+drop policy if exists "Users can view tags on their tasks" on public.task_tags;
+drop policy if exists "Users can add tags to their tasks" on public.task_tags;
+drop policy if exists "Users can remove tags from their tasks" on public.task_tags;
+drop policy if exists "Users can view tags on their projects" on public.project_tags;
+drop policy if exists "Users can add tags to their projects" on public.project_tags;
+drop policy if exists "Users can remove tags from their projects" on public.project_tags;
+
+-- Create RLS policies for projects table
+-- The creator is checked directly so a new project is visible to the insert that creates it
+create policy "Members can view their projects" on public.projects
+    for select using (auth.uid() = user_id or public.is_project_member(id));
+
+create policy "Users can insert their own projects" on public.projects
+    for insert with check (auth.uid() = user_id);
+
+create policy "Owners and editors can update projects" on public.projects
+    for update using (public.can_edit_project(id));
+
+create policy "Owners can delete projects" on public.projects
+    for delete using (public.project_role(id) = 'owner');
+
+-- Create RLS policies for profiles table
+-- RLS on project_members limits the subquery to people sharing a project with the user
+create policy "Users can view their own and collaborators' profiles" on public.profiles
+    for select using (
+        auth.uid() = id
+        or exists (
+            select 1 from public.project_members 
+            where project_members.user_id = profiles.id
+        )
+        or exists (
+            select 1 from public.projects 
+            where projects.user_id = profiles.id
+        )
+    );
+
+create policy "Users can insert their own profile" on public.profiles
+    for insert with check (auth.uid() = id);
+
+create policy "Users can update their own profile" on public.profiles
+    for update using (auth.uid() = id);
+
+-- Create RLS policies for project_members table
+create policy "Members can view their project's members" on public.project_members
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners can add project members" on public.project_members
+    for insert with check (public.project_role(project_id) = 'owner');
+
+create policy "Owners can change project member roles" on public.project_members
+    for update using (public.project_role(project_id) = 'owner');
+
+create policy "Owners can remove members and members can leave" on public.project_members
+    for delete using (public.project_role(project_id) = 'owner' or auth.uid() = user_id);
+
+-- Create RLS policies for project_invitations table
+-- Invitees can see and decline invitations sent to their email address
+create policy "Owners and invitees can view invitations" on public.project_invitations
+    for select using (
+        public.project_role(project_id) = 'owner'
+        or email = lower(auth.jwt() ->> 'email')
+    );
+
+create policy "Owners can invite people" on public.project_invitations
+    for insert with check (public.project_role(project_id) = 'owner');
+
+create policy "Owners can revoke and invitees can decline invitations" on public.project_invitations
+    for delete using (
+        public.project_role(project_id) = 'owner'
+        or email = lower(auth.jwt() ->> 'email')
+    );
+
+-- Create RLS policies for task_statuses table
+create policy "Members can view task statuses" on public.task_statuses
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can insert task statuses" on public.task_statuses
+    for insert with check (public.can_edit_project(project_id));
+
+create policy "Owners and editors can update task statuses" on public.task_statuses
+    for update using (public.can_edit_project(project_id));
+
+create policy "Owners and editors can delete task statuses" on public.task_statuses
+    for delete using (public.can_edit_project(project_id));
+
+-- Create RLS policies for tasks table
+create policy "Members can view tasks" on public.tasks
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can insert tasks" on public.tasks
+    for insert with check (public.can_edit_project(project_id));
+
+-- Checked again after the update so tasks can't be moved into a read-only project
+create policy "Owners and editors can update tasks" on public.tasks
+    for update using (public.can_edit_project(project_id))
+    with check (public.can_edit_project(project_id));
+
+create policy "Owners and editors can delete tasks" on public.tasks
+    for delete using (public.can_edit_project(project_id));
+
+-- Create RLS policies for notes table
+create policy "Members can view notes" on public.notes
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can insert notes" on public.notes
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can update notes" on public.notes
+    for update using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can delete notes" on public.notes
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+-- Create RLS policies for task_dependencies table
+-- Both ends must be visible; changing a task's prerequisites needs edit access to that task
+create policy "Members can view dependencies between their tasks" on public.task_dependencies
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can insert dependencies" on public.task_dependencies
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can update dependencies" on public.task_dependencies
+    for update using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can delete dependencies" on public.task_dependencies
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+-- Create RLS policies for tags table
+-- Tags stay user-owned, but anyone who can see a tagged task or project can see its tags
+create policy "Users can view their own tags and tags on shared work" on public.tags
+    for select using (
+        auth.uid() = user_id
+        or exists (
+            select 1 from public.task_tags 
+            where task_tags.tag_id = tags.id
+        )
+        or exists (
+            select 1 from public.project_tags 
+            where project_tags.tag_id = tags.id
+        )
+    );
+
+create policy "Users can insert their own tags" on public.tags
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags" on public.tags
+    for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags" on public.tags
+    for delete using (auth.uid() = user_id);
+
+-- Create RLS policies for task_tags table
+-- Users attach their own tags to tasks they can edit
+create policy "Members can view tags on tasks" on public.task_tags
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can add their tags to tasks" on public.task_tags
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = task_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Owners and editors can remove tags from tasks" on public.task_tags
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+-- Create RLS policies for project_tags table
+-- Users attach their own tags to projects they can edit
+create policy "Members can view tags on projects" on public.project_tags
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can add their tags to projects" on public.project_tags
+    for insert with check (
+        public.can_edit_project(project_id)
+        and exists (
+            select 1 from public.tags 
+            where tags.id = project_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Owners and editors can remove tags from projects" on public.project_tags
+    for delete using (public.can_edit_project(project_id));
+
+-- Indexes for looking up a user's memberships and invitations
+create index if not exists project_members_user_id_idx on public.project_members(user_id);
+create index if not exists project_invitations_email_idx on public.project_invitations(email);
+
+-- Create function to give every new user a profile
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+    insert into public.profiles (id, email) values (new.id, lower(new.email));
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to add a project's creator as its first owner
+create or replace function public.add_project_creator()
+returns trigger as $$
+begin
+    insert into public.project_members (project_id, user_id, role) values (new.id, new.user_id, 'owner');
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to stop a project's creator from being changed (editors can update projects)
+create or replace function public.protect_project_owner()
+returns trigger as $$
+begin
+    if new.user_id is distinct from old.user_id then
+        raise exception 'A project''s owner cannot be changed';
+    end if;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to accept an invitation sent to the current user's email address.
+-- Security definer because the invitee is not yet a member when adding themselves.
+create or replace function public.accept_project_invitation(invitation_id uuid)
+returns uuid as $$
+declare
+    invitation public.project_invitations%rowtype;
+begin
+    select * into invitation from public.project_invitations
+    where id = invitation_id
+    and email = lower(auth.jwt() ->> 'email');
+
+    if not found then
+        raise exception 'Invitation not found';
+    end if;
+
+    insert into public.project_members (project_id, user_id, role)
+    values (invitation.project_id, auth.uid(), invitation.role)
+    on conflict (project_id, user_id) do update set role = excluded.role;
+
+    delete from public.project_invitations where id = invitation.id;
+
+    return invitation.project_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to list the current user's pending invitations with the project's name,
+-- which invitees can't read through the projects policies until they accept
+create or replace function public.get_my_project_invitations()
+returns table (
+    id uuid,
+    project_id uuid,
+    project_name text,
+    role text,
+    invited_by_email text,
+    created_at timestamp with time zone
+) as $$
+    select
+        project_invitations.id,
+        project_invitations.project_id,
+        projects.name,
+        project_invitations.role,
+        profiles.email,
+        project_invitations.created_at
+    from public.project_invitations
+    join public.projects on projects.id = project_invitations.project_id
+    left join public.profiles on profiles.id = project_invitations.invited_by
+    where project_invitations.email = lower(auth.jwt() ->> 'email')
+    order by project_invitations.created_at desc;
+$$ language sql stable security definer set search_path = public;
+
+create trigger handle_updated_at before update on public.profiles
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.project_members
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_new_user after insert on auth.users
+    for each row execute procedure public.handle_new_user();
+
+create trigger add_project_creator after insert on public.projects
+    for each row execute procedure public.add_project_creator();
+
+create trigger protect_project_owner before update of user_id on public.projects
+    for each row execute procedure public.protect_project_owner();
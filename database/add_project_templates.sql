@@ -0,0 +1,35 @@
+-- Migration: Add project templates
+-- This migration adds user-owned templates that new projects can be created from
+
+-- Create project templates table (a user's reusable project outlines).
+-- data holds the description, tasks with due-date offsets in days from the project start, and note skeletons.
+create table if not exists public.project_templates (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references auth.users(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 100),
+    data jsonb not null default '{}'::jsonb,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.project_templates enable row level security;
+
+-- Create RLS policies for project_templates table
+-- Templates are private to the user who saved them
+create policy "Users can view their own templates" on public.project_templates
+    for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own templates" on public.project_templates
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own templates" on public.project_templates
+    for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own templates" on public.project_templates
+    for delete using (auth.uid() = user_id);
+
+create index if not exists project_templates_user_id_idx on public.project_templates(user_id);
+
+drop trigger if exists handle_updated_at on public.project_templates;
+create trigger handle_updated_at before update on public.project_templates
+    for each row execute procedure public.handle_updated_at();
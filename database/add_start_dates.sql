@@ -0,0 +1,18 @@
+-- Migration: Add start_date column to projects and tasks tables
+-- This migration adds support for the Gantt-style timeline view
+
+-- Add start_date columns (optional; a start date may not fall after the due date)
+ALTER TABLE public.projects 
+ADD COLUMN start_date date;
+
+ALTER TABLE public.projects 
+ADD CONSTRAINT projects_start_date_check check (start_date <= due_date);
+
+ALTER TABLE public.tasks 
+ADD COLUMN start_date date;
+
+ALTER TABLE public.tasks 
+ADD CONSTRAINT tasks_start_date_check check (start_date <= due_date);
+
+COMMENT ON COLUMN public.projects.start_date IS 'Date work on the project begins; null when unscheduled';
+COMMENT ON COLUMN public.tasks.start_date IS 'Date work on the task begins; null when unscheduled';
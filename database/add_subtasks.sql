@@ -0,0 +1,15 @@
+-- Migration: Add parent_task_id column to tasks table
+-- This migration adds support for nested subtasks
+
+-- Add parent_task_id column to tasks table (subtasks are removed with their parent)
+ALTER TABLE public.tasks 
+ADD COLUMN parent_task_id uuid references public.tasks(id) on delete cascade;
+
+-- A task cannot be its own parent
+ALTER TABLE public.tasks 
+ADD CONSTRAINT tasks_parent_task_id_check check (parent_task_id <> id);
+
+-- Index for loading the children of a task
+CREATE INDEX IF NOT EXISTS tasks_parent_task_id_idx ON public.tasks(parent_task_id);
+
+COMMENT ON COLUMN public.tasks.parent_task_id IS 'Parent task for subtasks; null for top-level tasks';
@@ -0,0 +1,134 @@
+-- Migration: Add tags
+-- This migration adds user-owned, coloured tags that can be attached to tasks and projects
+
+-- Create tags table (user-owned labels such as "@phone" or a client name)
+create table if not exists public.tags (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references auth.users(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 50),
+    color text not null check (color ~ '^#[0-9a-fA-F]{6}$') default '#6b7280',
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (user_id, name)
+);
+
+-- Create join tables linking tags to tasks and projects
+create table if not exists public.task_tags (
+    task_id uuid references public.tasks(id) on delete cascade not null,
+    tag_id uuid references public.tags(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    primary key (task_id, tag_id)
+);
+
+create table if not exists public.project_tags (
+    project_id uuid references public.projects(id) on delete cascade not null,
+    tag_id uuid references public.tags(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    primary key (project_id, tag_id)
+);
+
+alter table public.tags enable row level security;
+alter table public.task_tags enable row level security;
+alter table public.project_tags enable row level security;
+
+-- Create RLS policies for tags table
+create policy "Users can view their own tags" on public.tags
+    for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own tags" on public.tags
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags" on public.tags
+    for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags" on public.tags
+    for delete using (auth.uid() = user_id);
+
+-- Create RLS policies for task_tags table
+-- Both the task and the tag must belong to the user
+create policy "Users can view tags on their tasks" on public.task_tags
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_tags.task_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = task_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can add tags to their tasks" on public.task_tags
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_tags.task_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = task_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can remove tags from their tasks" on public.task_tags
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_tags.task_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+-- Create RLS policies for project_tags table
+-- Both the project and the tag must belong to the user
+create policy "Users can view tags on their projects" on public.project_tags
+    for select using (
+        exists (
+            select 1 from public.projects 
+            where projects.id = project_tags.project_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = project_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can add tags to their projects" on public.project_tags
+    for insert with check (
+        exists (
+            select 1 from public.projects 
+            where projects.id = project_tags.project_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = project_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can remove tags from their projects" on public.project_tags
+    for delete using (
+        exists (
+            select 1 from public.projects 
+            where projects.id = project_tags.project_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+-- Indexes for looking up a user's tags and everything carrying a tag
+create index if not exists tags_user_id_idx on public.tags(user_id);
+create index if not exists task_tags_tag_id_idx on public.task_tags(tag_id);
+create index if not exists project_tags_tag_id_idx on public.project_tags(tag_id);
+
+create trigger handle_updated_at before update on public.tags
+    for each row execute procedure public.handle_updated_at();
@@ -0,0 +1,27 @@
+-- Migration: Add assignee_id to tasks
+-- This migration lets a task be assigned to one of its project's members.
+-- Run add_project_sharing.sql first, since assignees are project members' profiles.
+
+-- Add assignee column (null means unassigned)
+ALTER TABLE public.tasks 
+ADD COLUMN assignee_id uuid references public.profiles(id) on delete set null;
+
+COMMENT ON COLUMN public.tasks.assignee_id IS 'The project member doing the work; null when unassigned';
+
+create index if not exists tasks_assignee_id_idx on public.tasks(assignee_id);
+
+-- Unassign tasks from someone who leaves or is removed from a project.
+-- Security definer because members leaving may not be allowed to update the project's tasks.
+create or replace function public.unassign_removed_member()
+returns trigger as $$
+begin
+    update public.tasks set assignee_id = null
+    where project_id = old.project_id
+    and assignee_id = old.user_id;
+    return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists unassign_removed_member on public.project_members;
+create trigger unassign_removed_member after delete on public.project_members
+    for each row execute procedure public.unassign_removed_member();
@@ -0,0 +1,78 @@
+-- Migration: Add task_dependencies table
+-- This migration adds "blocks / blocked by" links between tasks
+
+-- Create task dependencies table (task_id is blocked by depends_on_task_id)
+create table if not exists public.task_dependencies (
+    id uuid default gen_random_uuid() primary key,
+    task_id uuid references public.tasks(id) on delete cascade not null,
+    depends_on_task_id uuid references public.tasks(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (task_id, depends_on_task_id),
+    check (task_id <> depends_on_task_id)
+);
+
+alter table public.task_dependencies enable row level security;
+
+-- Create RLS policies for task_dependencies table
+-- Both ends of a dependency must be tasks in projects the user owns
+create policy "Users can view dependencies between their tasks" on public.task_dependencies
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.task_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can insert dependencies between their tasks" on public.task_dependencies
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.task_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can update dependencies between their tasks" on public.task_dependencies
+    for update using (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.task_id 
+            and projects.user_id = auth.uid()
+        )
+        and exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can delete dependencies between their tasks" on public.task_dependencies
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            join public.projects on projects.id = tasks.project_id
+            where tasks.id = task_dependencies.task_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+-- Indexes for looking up prerequisites and dependents
+create index if not exists task_dependencies_task_id_idx on public.task_dependencies(task_id);
+create index if not exists task_dependencies_depends_on_task_id_idx on public.task_dependencies(depends_on_task_id);
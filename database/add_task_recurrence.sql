@@ -0,0 +1,12 @@
+-- Migration: Add recurrence column to tasks table
+-- This migration adds support for recurring tasks
+
+-- Add recurrence rule column (null for one-off tasks)
+ALTER TABLE public.tasks 
+ADD COLUMN recurrence jsonb;
+
+-- Only known rule types are allowed
+ALTER TABLE public.tasks 
+ADD CONSTRAINT tasks_recurrence_check check (recurrence is null or recurrence->>'type' in ('daily', 'weekly', 'monthly', 'after_completion'));
+
+COMMENT ON COLUMN public.tasks.recurrence IS 'Recurrence rule, e.g. {"type": "weekly", "weekdays": [1, 5]}; moves to the next occurrence when the task is completed';
@@ -0,0 +1,24 @@
+-- Migration: Add status and position columns to tasks table
+-- This migration adds support for the Kanban board view
+
+-- Add workflow status column to tasks table
+ALTER TABLE public.tasks 
+ADD COLUMN status text check (status in ('todo', 'in_progress', 'done')) default 'todo' not null;
+
+-- Add manual sort position used to order cards within a board column
+ALTER TABLE public.tasks 
+ADD COLUMN position double precision default extract(epoch from now()) not null;
+
+-- Map existing completion state onto the new status column
+UPDATE public.tasks 
+SET status = CASE WHEN completed THEN 'done' ELSE 'todo' END;
+
+-- Preserve the existing creation order within each column
+UPDATE public.tasks 
+SET position = extract(epoch from created_at);
+
+-- Index for loading a project's board columns in order
+CREATE INDEX IF NOT EXISTS tasks_project_status_position_idx ON public.tasks(project_id, status, position);
+
+COMMENT ON COLUMN public.tasks.status IS 'Workflow status (todo, in_progress, done); kept in sync with completed';
+COMMENT ON COLUMN public.tasks.position IS 'Manual sort position within a board column (ascending)';
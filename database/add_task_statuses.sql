@@ -0,0 +1,181 @@
+-- Migration: Add task_statuses table and replace the fixed task status
+-- This migration adds per-project configurable task statuses
+
+-- Create task statuses table (per-project workflow columns)
+create table if not exists public.task_statuses (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 50),
+    color text not null check (color ~ '^#[0-9a-fA-F]{6}$') default '#6b7280',
+    is_done boolean default false not null,
+    position double precision default extract(epoch from now()) not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, name)
+);
+
+alter table public.task_statuses enable row level security;
+
+-- Create RLS policies for task_statuses table
+create policy "Users can view task statuses from their projects" on public.task_statuses
+    for select using (
+        exists (
+            select 1 from public.projects 
+            where projects.id = task_statuses.project_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can insert task statuses to their projects" on public.task_statuses
+    for insert with check (
+        exists (
+            select 1 from public.projects 
+            where projects.id = task_statuses.project_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can update task statuses from their projects" on public.task_statuses
+    for update using (
+        exists (
+            select 1 from public.projects 
+            where projects.id = task_statuses.project_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+create policy "Users can delete task statuses from their projects" on public.task_statuses
+    for delete using (
+        exists (
+            select 1 from public.projects 
+            where projects.id = task_statuses.project_id 
+            and projects.user_id = auth.uid()
+        )
+    );
+
+CREATE INDEX IF NOT EXISTS task_statuses_project_id_idx ON public.task_statuses(project_id);
+
+-- Create function to seed the default statuses for new projects
+create or replace function public.create_default_task_statuses()
+returns trigger as $$
+begin
+    insert into public.task_statuses (project_id, name, color, is_done, position) values
+        (new.id, 'To Do', '#6b7280', false, 1),
+        (new.id, 'In Progress', '#3b82f6', false, 2),
+        (new.id, 'Done', '#10b981', true, 3);
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to assign task statuses and keep completed in sync with them
+create or replace function public.handle_task_status()
+returns trigger as $$
+declare
+    task_status public.task_statuses%rowtype;
+begin
+    if new.status_id is not null then
+        select * into task_status from public.task_statuses where id = new.status_id;
+    end if;
+
+    -- A task moved to another project takes the matching status there (same name, then same done state)
+    if task_status.id is not null and task_status.project_id <> new.project_id then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id
+        order by (name = task_status.name) desc, (is_done = task_status.is_done) desc, position
+        limit 1;
+    end if;
+
+    -- Completion toggled directly: move to the first status with the requested done state
+    if tg_op = 'UPDATE'
+        and new.completed is distinct from old.completed
+        and new.status_id is not distinct from old.status_id
+        and task_status.is_done is distinct from new.completed then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id and is_done = new.completed
+        order by position
+        limit 1;
+
+        if task_status.id is null then
+            raise exception 'Project has no % status', case when new.completed then 'done' else 'open' end;
+        end if;
+    end if;
+
+    -- Tasks without a status start in the first status that is not done
+    if task_status.id is null then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id
+        order by is_done, position
+        limit 1;
+    end if;
+
+    if task_status.id is null then
+        raise exception 'Project has no task statuses';
+    end if;
+
+    new.status_id = task_status.id;
+    new.completed = task_status.is_done;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to update task completion when a status changes its done state
+create or replace function public.handle_task_status_done_change()
+returns trigger as $$
+begin
+    update public.tasks set completed = new.is_done where status_id = new.id;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Seed the default statuses for every existing project
+INSERT INTO public.task_statuses (project_id, name, color, is_done, position)
+SELECT projects.id, defaults.name, defaults.color, defaults.is_done, defaults.position
+FROM public.projects
+CROSS JOIN (VALUES
+    ('To Do', '#6b7280', false, 1),
+    ('In Progress', '#3b82f6', false, 2),
+    ('Done', '#10b981', true, 3)
+) AS defaults(name, color, is_done, position)
+ON CONFLICT (project_id, name) DO NOTHING;
+
+-- Add status_id column to tasks table
+ALTER TABLE public.tasks 
+ADD COLUMN status_id uuid references public.task_statuses(id);
+
+-- Map existing completion and board status onto the seeded statuses
+UPDATE public.tasks 
+SET status_id = task_statuses.id
+FROM public.task_statuses
+WHERE task_statuses.project_id = tasks.project_id
+AND task_statuses.name = CASE
+    WHEN tasks.completed OR tasks.status = 'done' THEN 'Done'
+    WHEN tasks.status = 'in_progress' THEN 'In Progress'
+    ELSE 'To Do'
+END;
+
+ALTER TABLE public.tasks 
+ALTER COLUMN status_id SET NOT NULL;
+
+-- The fixed status column is replaced by status_id
+DROP INDEX IF EXISTS public.tasks_project_status_position_idx;
+ALTER TABLE public.tasks 
+DROP COLUMN status;
+
+CREATE INDEX IF NOT EXISTS tasks_status_id_position_idx ON public.tasks(status_id, position);
+
+-- Create triggers for automatic updated_at and status handling
+create trigger handle_updated_at before update on public.task_statuses
+    for each row execute procedure public.handle_updated_at();
+
+-- Create triggers for task statuses
+create trigger create_default_task_statuses after insert on public.projects
+    for each row execute procedure public.create_default_task_statuses();
+
+create trigger handle_task_status before insert or update on public.tasks
+    for each row execute procedure public.handle_task_status();
+
+create trigger handle_task_status_done_change after update of is_done on public.task_statuses
+    for each row when (old.is_done is distinct from new.is_done)
+    execute procedure public.handle_task_status_done_change();
+
+COMMENT ON COLUMN public.tasks.status_id IS 'Current status from the project''s task_statuses; completed mirrors its is_done flag';
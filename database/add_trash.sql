@@ -0,0 +1,271 @@
+-- Migration: Add the trash
+-- This migration replaces hard deletes of projects, tasks and notes with a deleted_at timestamp,
+-- so deleted items can be restored until they are purged after the retention period.
+-- Run add_activity_log.sql first, since deletes and restores are recorded in the activity log.
+
+-- Add deleted_at columns (null means not in the trash)
+ALTER TABLE public.projects 
+ADD COLUMN deleted_at timestamp with time zone;
+
+ALTER TABLE public.tasks 
+ADD COLUMN deleted_at timestamp with time zone;
+
+ALTER TABLE public.notes 
+ADD COLUMN deleted_at timestamp with time zone;
+
+COMMENT ON COLUMN public.projects.deleted_at IS 'Set while the project is in the trash; purge_trash deletes it for good after the retention period';
+COMMENT ON COLUMN public.tasks.deleted_at IS 'Set while the task is in the trash';
+COMMENT ON COLUMN public.notes.deleted_at IS 'Set while the note is in the trash';
+
+-- Allow restores in the activity log
+ALTER TABLE public.project_activity 
+DROP CONSTRAINT IF EXISTS project_activity_action_check;
+
+ALTER TABLE public.project_activity 
+ADD CONSTRAINT project_activity_action_check CHECK (action in ('created', 'updated', 'deleted', 'restored'));
+
+create index if not exists projects_deleted_at_idx on public.projects(deleted_at) where deleted_at is not null;
+create index if not exists tasks_deleted_at_idx on public.tasks(deleted_at) where deleted_at is not null;
+create index if not exists notes_deleted_at_idx on public.notes(deleted_at) where deleted_at is not null;
+
+-- Create function to move a project's tasks, or a task's subtasks and notes, to and from the trash with it.
+-- Children take the parent's deleted_at, so restoring it only brings back what was deleted at the same time.
+create or replace function public.cascade_trash()
+returns trigger as $$
+begin
+    if tg_table_name = 'projects' then
+        update public.tasks set deleted_at = new.deleted_at
+        where project_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+    else
+        update public.tasks set deleted_at = new.deleted_at
+        where parent_task_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+
+        update public.notes set deleted_at = new.deleted_at
+        where task_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+    end if;
+    return null;
+end;
+$$ language plpgsql;
+
+-- Create function to stop editors from deleting or restoring a project (editors can update projects)
+create or replace function public.protect_project_trash()
+returns trigger as $$
+begin
+    if public.project_role(new.id) is distinct from 'owner' then
+        raise exception 'Only project owners can delete or restore a project';
+    end if;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to permanently delete items that have been in the trash longer than the retention period.
+-- Deleting a project or task also removes everything that was trashed with it.
+create or replace function public.purge_trash(retention_days integer default 30)
+returns void as $$
+declare
+    cutoff timestamp with time zone := now() - make_interval(days => retention_days);
+begin
+    delete from public.projects where deleted_at < cutoff;
+    delete from public.tasks where deleted_at < cutoff;
+    delete from public.notes where deleted_at < cutoff;
+end;
+$$ language plpgsql;
+
+-- Only the scheduled job runs the purge
+revoke execute on function public.purge_trash(integer) from public, anon, authenticated;
+
+drop trigger if exists cascade_trash on public.projects;
+create trigger cascade_trash after update of deleted_at on public.projects
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.cascade_trash();
+
+drop trigger if exists cascade_trash on public.tasks;
+create trigger cascade_trash after update of deleted_at on public.tasks
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.cascade_trash();
+
+drop trigger if exists protect_project_trash on public.projects;
+create trigger protect_project_trash before update of deleted_at on public.projects
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.protect_project_trash();
+
+-- Log moves to and from the trash as deletes and restores
+-- Create function to record inserts, updates and deletes of projects, tasks and notes.
+-- Security definer so it can write to project_activity, which has no insert policy.
+create or replace function public.log_activity()
+returns trigger as $$
+declare
+    old_data jsonb;
+    new_data jsonb;
+    row_data jsonb;
+    target_project_id uuid;
+    changes jsonb;
+    activity_action text;
+begin
+    if tg_op <> 'INSERT' then
+        old_data := to_jsonb(old);
+    end if;
+    if tg_op <> 'DELETE' then
+        new_data := to_jsonb(new);
+    end if;
+    row_data := coalesce(new_data, old_data);
+
+    -- Rows purged from the trash were logged when they were deleted
+    if tg_op = 'DELETE' and old_data ->> 'deleted_at' is not null then
+        return null;
+    end if;
+
+    if tg_table_name = 'projects' then
+        target_project_id := (row_data ->> 'id')::uuid;
+    elsif tg_table_name = 'tasks' then
+        target_project_id := (row_data ->> 'project_id')::uuid;
+    else
+        select tasks.project_id into target_project_id
+        from public.tasks
+        where tasks.id = (row_data ->> 'task_id')::uuid;
+    end if;
+
+    -- Rows deleted along with their project have no history left to add to
+    if target_project_id is null
+        or not exists (select 1 from public.projects where projects.id = target_project_id) then
+        return null;
+    end if;
+
+    if tg_op = 'UPDATE' and new_data -> 'deleted_at' is distinct from old_data -> 'deleted_at' then
+        -- Rows moved to or from the trash along with their project or parent task
+        -- (by the cascade_trash trigger) are covered by its entry
+        if pg_trigger_depth() > 1 then
+            return null;
+        end if;
+        activity_action := case when new_data ->> 'deleted_at' is null then 'restored' else 'deleted' end;
+    elsif tg_op = 'UPDATE' then
+        activity_action := 'updated';
+
+        select jsonb_object_agg(fields.key, jsonb_build_object('from', old_data -> fields.key, 'to', fields.value))
+        into changes
+        from jsonb_each(new_data) as fields
+        where fields.key not in ('id', 'user_id', 'position', 'created_at', 'updated_at')
+        and fields.value is distinct from old_data -> fields.key;
+
+        -- Skip updates that only touched bookkeeping columns, such as reordering on the board
+        if changes is null then
+            return null;
+        end if;
+    else
+        activity_action := case tg_op when 'INSERT' then 'created' else 'deleted' end;
+    end if;
+
+    insert into public.project_activity (project_id, actor_id, entity_type, entity_id, entity_name, action, changes)
+    values (
+        target_project_id,
+        auth.uid(),
+        case tg_table_name when 'projects' then 'project' when 'tasks' then 'task' else 'note' end,
+        (row_data ->> 'id')::uuid,
+        coalesce(row_data ->> 'name', row_data ->> 'title'),
+        activity_action,
+        changes
+    );
+
+    return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Leave trashed items out of invitations and search results
+-- Create function to list the current user's pending invitations with the project's name,
+-- which invitees can't read through the projects policies until they accept
+create or replace function public.get_my_project_invitations()
+returns table (
+    id uuid,
+    project_id uuid,
+    project_name text,
+    role text,
+    invited_by_email text,
+    created_at timestamp with time zone
+) as $$
+    select
+        project_invitations.id,
+        project_invitations.project_id,
+        projects.name,
+        project_invitations.role,
+        profiles.email,
+        project_invitations.created_at
+    from public.project_invitations
+    join public.projects on projects.id = project_invitations.project_id
+    left join public.profiles on profiles.id = project_invitations.invited_by
+    where project_invitations.email = lower(auth.jwt() ->> 'email')
+    and projects.deleted_at is null
+    order by project_invitations.created_at desc;
+$$ language sql stable security definer set search_path = public;
+
+-- Create function to search projects, tasks and notes in one ranked list.
+-- Every word is matched as a prefix so results appear while typing; matches in
+-- snippets are wrapped in <mark></mark>. Runs as the caller, so RLS limits results
+-- to projects the user is a member of.
+create or replace function public.search_all(search_query text, result_limit integer default 20)
+returns table (
+    result_type text,
+    id uuid,
+    project_id uuid,
+    task_id uuid,
+    title text,
+    snippet text,
+    project_name text,
+    task_name text,
+    rank real
+) as $$
+    with query as (
+        -- Words are quoted as tsquery lexemes with backslashes and quotes escaped; quote_literal
+        -- can't be used because to_tsquery rejects the E'...' strings it returns for backslashes
+        select to_tsquery('english', string_agg('''' || replace(replace(word, '\', '\\'), '''', '''''') || ''':*', ' & ')) as q
+        from regexp_split_to_table(trim(search_query), '\s+') as word
+        where word <> ''
+    )
+    select * from (
+        select
+            'project', p.id, p.id, null::uuid, p.name,
+            ts_headline('english', coalesce(nullif(p.description, ''), p.name), query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, null::text,
+            ts_rank(public.project_search_vector(p.name, p.description), query.q)
+        from public.projects p, query
+        where public.project_search_vector(p.name, p.description) @@ query.q
+        and p.deleted_at is null
+
+        union all
+
+        select
+            'task', t.id, t.project_id, t.id, t.name,
+            ts_headline('english', t.name, query.q, 'StartSel="<mark>", StopSel="</mark>", HighlightAll=true'),
+            p.name, t.name,
+            ts_rank(public.task_search_vector(t.name), query.q)
+        from public.tasks t
+        join public.projects p on p.id = t.project_id, query
+        where public.task_search_vector(t.name) @@ query.q
+        and t.deleted_at is null
+
+        union all
+
+        select
+            'note', n.id, t.project_id, n.task_id, n.title,
+            ts_headline('english', n.content, query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, t.name,
+            ts_rank(public.note_search_vector(n.title, n.content), query.q)
+        from public.notes n
+        join public.tasks t on t.id = n.task_id
+        join public.projects p on p.id = t.project_id, query
+        where public.note_search_vector(n.title, n.content) @@ query.q
+        and n.deleted_at is null
+    ) results
+    order by rank desc
+    limit result_limit;
+$$ language sql stable;
+
+-- Schedule the nightly trash purge with pg_cron. To keep deleted items for a different
+-- number of days, change 30 here and set NEXT_PUBLIC_TRASH_RETENTION_DAYS to match.
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-trash', '0 3 * * *', 'select public.purge_trash(30)');
@@ -1,27 +1,64 @@
 -- Personal Project Management Software Database Schema
 -- This script creates the necessary tables and Row Level Security policies
 
+-- Create profiles table (one row per auth user, so collaborators can be shown by email)
+create table if not exists public.profiles (
+    id uuid references auth.users(id) on delete cascade primary key,
+    email text not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
 -- Create projects table
 create table if not exists public.projects (
     id uuid default gen_random_uuid() primary key,
     user_id uuid references auth.users(id) on delete cascade not null,
     name text not null check (char_length(name) > 0 and char_length(name) <= 100),
     description text check (char_length(description) <= 500),
+    start_date date,
     due_date date,
+    -- Set while the project is in the trash; purge_trash deletes it for good after the retention period
+    deleted_at timestamp with time zone,
     created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    check (start_date <= due_date)
+);
+
+-- Create task statuses table (per-project workflow columns)
+create table if not exists public.task_statuses (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 50),
+    color text not null check (color ~ '^#[0-9a-fA-F]{6}$') default '#6b7280',
+    is_done boolean default false not null,
+    position double precision default extract(epoch from now()) not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, name)
 );
 
 -- Create tasks table
 create table if not exists public.tasks (
     id uuid default gen_random_uuid() primary key,
     project_id uuid references public.projects(id) on delete cascade not null,
+    parent_task_id uuid references public.tasks(id) on delete cascade check (parent_task_id <> id),
     name text not null check (char_length(name) > 0 and char_length(name) <= 100),
+    start_date date,
     due_date date,
     priority text check (priority in ('High', 'Medium', 'Low')) default 'Medium',
+    -- completed is derived from the status's is_done flag by the handle_task_status trigger
     completed boolean default false,
+    status_id uuid references public.task_statuses(id) not null,
+    position double precision default extract(epoch from now()) not null,
+    -- Recurrence rule, e.g. {"type": "weekly", "weekdays": [1, 5]}; moves to the next occurrence on completion
+    recurrence jsonb check (recurrence is null or recurrence->>'type' in ('daily', 'weekly', 'monthly', 'after_completion')),
+    -- The project member doing the work; cleared when they leave the project
+    assignee_id uuid references public.profiles(id) on delete set null,
+    -- Set while the task is in the trash
+    deleted_at timestamp with time zone,
     created_at timestamp with time zone default timezone('utc'::text, now()) not null,
-    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    check (start_date <= due_date)
 );
 
 -- Create notes table
@@ -30,113 +67,461 @@ create table if not exists public.notes (
     task_id uuid references public.tasks(id) on delete cascade not null,
     title text not null check (char_length(title) > 0 and char_length(title) <= 100) default 'Note',
     content text not null check (char_length(content) > 0 and char_length(content) <= 10000),
+    -- Set while the note is in the trash
+    deleted_at timestamp with time zone,
     created_at timestamp with time zone default timezone('utc'::text, now()) not null,
     updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+-- Create task dependencies table (task_id is blocked by depends_on_task_id)
+create table if not exists public.task_dependencies (
+    id uuid default gen_random_uuid() primary key,
+    task_id uuid references public.tasks(id) on delete cascade not null,
+    depends_on_task_id uuid references public.tasks(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (task_id, depends_on_task_id),
+    check (task_id <> depends_on_task_id)
+);
+
+-- Create tags table (user-owned labels such as "@phone" or a client name)
+create table if not exists public.tags (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references auth.users(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 50),
+    color text not null check (color ~ '^#[0-9a-fA-F]{6}$') default '#6b7280',
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (user_id, name)
+);
+
+-- Create join tables linking tags to tasks and projects
+create table if not exists public.task_tags (
+    task_id uuid references public.tasks(id) on delete cascade not null,
+    tag_id uuid references public.tags(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    primary key (task_id, tag_id)
+);
+
+create table if not exists public.project_tags (
+    project_id uuid references public.projects(id) on delete cascade not null,
+    tag_id uuid references public.tags(id) on delete cascade not null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    primary key (project_id, tag_id)
+);
+
+-- Create project members table (everyone with access to a project; its creator is added as an owner)
+create table if not exists public.project_members (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    user_id uuid references public.profiles(id) on delete cascade not null,
+    role text not null check (role in ('owner', 'editor', 'viewer')) default 'viewer',
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, user_id)
+);
+
+-- Create project invitations table (pending invites by email, accepted with accept_project_invitation)
+create table if not exists public.project_invitations (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    email text not null check (email = lower(email) and email ~ '^[^@\s]+@[^@\s]+$'),
+    role text not null check (role in ('owner', 'editor', 'viewer')) default 'viewer',
+    invited_by uuid references public.profiles(id) on delete set null,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    unique (project_id, email)
+);
+
+-- Create project activity table (append-only history of changes to a project, its tasks and notes).
+-- Rows are written by the log_activity trigger; changes holds {"field": {"from": ..., "to": ...}} for updates.
+create table if not exists public.project_activity (
+    id uuid default gen_random_uuid() primary key,
+    project_id uuid references public.projects(id) on delete cascade not null,
+    actor_id uuid references public.profiles(id) on delete set null,
+    entity_type text not null check (entity_type in ('project', 'task', 'note')),
+    entity_id uuid not null,
+    -- Name or title at the time of the change, so deleted items can still be described
+    entity_name text,
+    action text not null check (action in ('created', 'updated', 'deleted', 'restored')),
+    changes jsonb,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create project templates table (a user's reusable project outlines).
+-- data holds the description, tasks with due-date offsets in days from the project start, and note skeletons.
+create table if not exists public.project_templates (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid references auth.users(id) on delete cascade not null,
+    name text not null check (char_length(name) > 0 and char_length(name) <= 100),
+    data jsonb not null default '{}'::jsonb,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+    updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create calendar feeds table (one secret subscription token per user).
+-- Anyone holding the token can read the user's due dates through get_calendar_feed.
+create table if not exists public.calendar_feeds (
+    user_id uuid references auth.users(id) on delete cascade primary key,
+    token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- Create functions that resolve the current user's access to a project.
+-- Security definer so policies can call them without recursing through the
+-- projects and project_members policies.
+create or replace function public.project_role(target_project_id uuid)
+returns text as $$
+    select case
+        when exists (
+            select 1 from public.projects
+            where projects.id = target_project_id
+            and projects.user_id = auth.uid()
+        ) then 'owner'
+        else (
+            select project_members.role from public.project_members
+            where project_members.project_id = target_project_id
+            and project_members.user_id = auth.uid()
+        )
+    end;
+$$ language sql stable security definer set search_path = public;
+
+create or replace function public.is_project_member(target_project_id uuid)
+returns boolean as $$
+    select public.project_role(target_project_id) is not null;
+$$ language sql stable;
+
+create or replace function public.can_edit_project(target_project_id uuid)
+returns boolean as $$
+    select coalesce(public.project_role(target_project_id) in ('owner', 'editor'), false);
+$$ language sql stable;
+
 -- Enable Row Level Security on all tables
 alter table public.projects enable row level security;
+alter table public.task_statuses enable row level security;
 alter table public.tasks enable row level security;
 alter table public.notes enable row level security;
+alter table public.task_dependencies enable row level security;
+alter table public.tags enable row level security;
+alter table public.task_tags enable row level security;
+alter table public.project_tags enable row level security;
+alter table public.profiles enable row level security;
+alter table public.project_members enable row level security;
+alter table public.project_invitations enable row level security;
+alter table public.project_activity enable row level security;
+alter table public.project_templates enable row level security;
+alter table public.calendar_feeds enable row level security;
 
 -- Create RLS policies for projects table
-create policy "Users can view their own projects" on public.projects
-    for select using (auth.uid() = user_id);
+-- The creator is checked directly so a new project is visible to the insert that creates it
+create policy "Members can view their projects" on public.projects
+    for select using (auth.uid() = user_id or public.is_project_member(id));
 
 create policy "Users can insert their own projects" on public.projects
     for insert with check (auth.uid() = user_id);
 
-create policy "Users can update their own projects" on public.projects
-    for update using (auth.uid() = user_id);
+create policy "Owners and editors can update projects" on public.projects
+    for update using (public.can_edit_project(id));
 
-create policy "Users can delete their own projects" on public.projects
-    for delete using (auth.uid() = user_id);
+create policy "Owners can delete projects" on public.projects
+    for delete using (public.project_role(id) = 'owner');
+
+-- Create RLS policies for profiles table
+-- RLS on project_members limits the subquery to people sharing a project with the user
+create policy "Users can view their own and collaborators' profiles" on public.profiles
+    for select using (
+        auth.uid() = id
+        or exists (
+            select 1 from public.project_members 
+            where project_members.user_id = profiles.id
+        )
+        or exists (
+            select 1 from public.projects 
+            where projects.user_id = profiles.id
+        )
+    );
+
+create policy "Users can insert their own profile" on public.profiles
+    for insert with check (auth.uid() = id);
+
+create policy "Users can update their own profile" on public.profiles
+    for update using (auth.uid() = id);
+
+-- Create RLS policies for project_members table
+create policy "Members can view their project's members" on public.project_members
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners can add project members" on public.project_members
+    for insert with check (public.project_role(project_id) = 'owner');
+
+create policy "Owners can change project member roles" on public.project_members
+    for update using (public.project_role(project_id) = 'owner');
+
+create policy "Owners can remove members and members can leave" on public.project_members
+    for delete using (public.project_role(project_id) = 'owner' or auth.uid() = user_id);
+
+-- Create RLS policies for project_invitations table
+-- Invitees can see and decline invitations sent to their email address
+create policy "Owners and invitees can view invitations" on public.project_invitations
+    for select using (
+        public.project_role(project_id) = 'owner'
+        or email = lower(auth.jwt() ->> 'email')
+    );
+
+create policy "Owners can invite people" on public.project_invitations
+    for insert with check (public.project_role(project_id) = 'owner');
+
+create policy "Owners can revoke and invitees can decline invitations" on public.project_invitations
+    for delete using (
+        public.project_role(project_id) = 'owner'
+        or email = lower(auth.jwt() ->> 'email')
+    );
+
+-- Create RLS policies for task_statuses table
+create policy "Members can view task statuses" on public.task_statuses
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can insert task statuses" on public.task_statuses
+    for insert with check (public.can_edit_project(project_id));
+
+create policy "Owners and editors can update task statuses" on public.task_statuses
+    for update using (public.can_edit_project(project_id));
+
+create policy "Owners and editors can delete task statuses" on public.task_statuses
+    for delete using (public.can_edit_project(project_id));
 
 -- Create RLS policies for tasks table
-create policy "Users can view tasks from their projects" on public.tasks
+create policy "Members can view tasks" on public.tasks
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can insert tasks" on public.tasks
+    for insert with check (public.can_edit_project(project_id));
+
+-- Checked again after the update so tasks can't be moved into a read-only project
+create policy "Owners and editors can update tasks" on public.tasks
+    for update using (public.can_edit_project(project_id))
+    with check (public.can_edit_project(project_id));
+
+create policy "Owners and editors can delete tasks" on public.tasks
+    for delete using (public.can_edit_project(project_id));
+
+-- Create RLS policies for notes table
+create policy "Members can view notes" on public.notes
     for select using (
         exists (
-            select 1 from public.projects 
-            where projects.id = tasks.project_id 
-            and projects.user_id = auth.uid()
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.is_project_member(tasks.project_id)
         )
     );
 
-create policy "Users can insert tasks to their projects" on public.tasks
+create policy "Owners and editors can insert notes" on public.notes
     for insert with check (
         exists (
-            select 1 from public.projects 
-            where projects.id = tasks.project_id 
-            and projects.user_id = auth.uid()
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
         )
     );
 
-create policy "Users can update tasks from their projects" on public.tasks
+create policy "Owners and editors can update notes" on public.notes
     for update using (
         exists (
-            select 1 from public.projects 
-            where projects.id = tasks.project_id 
-            and projects.user_id = auth.uid()
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
         )
     );
 
-create policy "Users can delete tasks from their projects" on public.tasks
+create policy "Owners and editors can delete notes" on public.notes
     for delete using (
         exists (
-            select 1 from public.projects 
-            where projects.id = tasks.project_id 
-            and projects.user_id = auth.uid()
+            select 1 from public.tasks 
+            where tasks.id = notes.task_id 
+            and public.can_edit_project(tasks.project_id)
         )
     );
 
--- Create RLS policies for notes table
-create policy "Users can view notes from their tasks" on public.notes
+-- Create RLS policies for task_dependencies table
+-- Both ends must be visible; changing a task's prerequisites needs edit access to that task
+create policy "Members can view dependencies between their tasks" on public.task_dependencies
     for select using (
         exists (
             select 1 from public.tasks 
-            join public.projects on projects.id = tasks.project_id
-            where tasks.id = notes.task_id 
-            and projects.user_id = auth.uid()
+            where tasks.id = task_dependencies.task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
         )
     );
 
-create policy "Users can insert notes to their tasks" on public.notes
+create policy "Owners and editors can insert dependencies" on public.task_dependencies
     for insert with check (
         exists (
             select 1 from public.tasks 
-            join public.projects on projects.id = tasks.project_id
-            where tasks.id = notes.task_id 
-            and projects.user_id = auth.uid()
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
         )
     );
 
-create policy "Users can update notes from their tasks" on public.notes
+create policy "Owners and editors can update dependencies" on public.task_dependencies
     for update using (
         exists (
             select 1 from public.tasks 
-            join public.projects on projects.id = tasks.project_id
-            where tasks.id = notes.task_id 
-            and projects.user_id = auth.uid()
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tasks 
+            where tasks.id = task_dependencies.depends_on_task_id 
+            and public.is_project_member(tasks.project_id)
         )
     );
 
-create policy "Users can delete notes from their tasks" on public.notes
+create policy "Owners and editors can delete dependencies" on public.task_dependencies
     for delete using (
         exists (
             select 1 from public.tasks 
-            join public.projects on projects.id = tasks.project_id
-            where tasks.id = notes.task_id 
-            and projects.user_id = auth.uid()
+            where tasks.id = task_dependencies.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+    );
+
+-- Create RLS policies for tags table
+-- Tags stay user-owned, but anyone who can see a tagged task or project can see its tags
+create policy "Users can view their own tags and tags on shared work" on public.tags
+    for select using (
+        auth.uid() = user_id
+        or exists (
+            select 1 from public.task_tags 
+            where task_tags.tag_id = tags.id
+        )
+        or exists (
+            select 1 from public.project_tags 
+            where project_tags.tag_id = tags.id
+        )
+    );
+
+create policy "Users can insert their own tags" on public.tags
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags" on public.tags
+    for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags" on public.tags
+    for delete using (auth.uid() = user_id);
+
+-- Create RLS policies for task_tags table
+-- Users attach their own tags to tasks they can edit
+create policy "Members can view tags on tasks" on public.task_tags
+    for select using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.is_project_member(tasks.project_id)
+        )
+    );
+
+create policy "Owners and editors can add their tags to tasks" on public.task_tags
+    for insert with check (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.can_edit_project(tasks.project_id)
+        )
+        and exists (
+            select 1 from public.tags 
+            where tags.id = task_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Owners and editors can remove tags from tasks" on public.task_tags
+    for delete using (
+        exists (
+            select 1 from public.tasks 
+            where tasks.id = task_tags.task_id 
+            and public.can_edit_project(tasks.project_id)
         )
     );
 
+-- Create RLS policies for project_tags table
+-- Users attach their own tags to projects they can edit
+create policy "Members can view tags on projects" on public.project_tags
+    for select using (public.is_project_member(project_id));
+
+create policy "Owners and editors can add their tags to projects" on public.project_tags
+    for insert with check (
+        public.can_edit_project(project_id)
+        and exists (
+            select 1 from public.tags 
+            where tags.id = project_tags.tag_id 
+            and tags.user_id = auth.uid()
+        )
+    );
+
+create policy "Owners and editors can remove tags from projects" on public.project_tags
+    for delete using (public.can_edit_project(project_id));
+
+-- Create RLS policies for project_activity table
+-- There are no write policies: only the log_activity trigger adds rows, and they are never changed
+create policy "Members can view their project's activity" on public.project_activity
+    for select using (public.is_project_member(project_id));
+
+-- Create RLS policies for project_templates table
+-- Templates are private to the user who saved them
+create policy "Users can view their own templates" on public.project_templates
+    for select using (auth.uid() = user_id);
+
+create policy "Users can insert their own templates" on public.project_templates
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their own templates" on public.project_templates
+    for update using (auth.uid() = user_id);
+
+create policy "Users can delete their own templates" on public.project_templates
+    for delete using (auth.uid() = user_id);
+
+-- Create RLS policies for calendar_feeds table
+-- Feed tokens are private to their user; a new token is issued by deleting and re-inserting the row
+create policy "Users can view their own calendar feed" on public.calendar_feeds
+    for select using (auth.uid() = user_id);
+
+create policy "Users can create their own calendar feed" on public.calendar_feeds
+    for insert with check (auth.uid() = user_id);
+
+create policy "Users can delete their own calendar feed" on public.calendar_feeds
+    for delete using (auth.uid() = user_id);
+
 -- Create indexes for better performance
 create index if not exists projects_user_id_idx on public.projects(user_id);
 create index if not exists projects_due_date_idx on public.projects(due_date);
+create index if not exists task_statuses_project_id_idx on public.task_statuses(project_id);
 create index if not exists tasks_project_id_idx on public.tasks(project_id);
+create index if not exists tasks_parent_task_id_idx on public.tasks(parent_task_id);
 create index if not exists tasks_due_date_idx on public.tasks(due_date);
 create index if not exists tasks_priority_idx on public.tasks(priority);
+create index if not exists tasks_status_id_position_idx on public.tasks(status_id, position);
+create index if not exists tasks_assignee_id_idx on public.tasks(assignee_id);
 create index if not exists notes_task_id_idx on public.notes(task_id);
+create index if not exists task_dependencies_task_id_idx on public.task_dependencies(task_id);
+create index if not exists task_dependencies_depends_on_task_id_idx on public.task_dependencies(depends_on_task_id);
+create index if not exists tags_user_id_idx on public.tags(user_id);
+create index if not exists task_tags_tag_id_idx on public.task_tags(tag_id);
+create index if not exists project_tags_tag_id_idx on public.project_tags(tag_id);
+create index if not exists project_members_user_id_idx on public.project_members(user_id);
+create index if not exists project_invitations_email_idx on public.project_invitations(email);
+create index if not exists project_activity_project_id_created_at_idx on public.project_activity(project_id, created_at desc);
+create index if not exists projects_deleted_at_idx on public.projects(deleted_at) where deleted_at is not null;
+create index if not exists tasks_deleted_at_idx on public.tasks(deleted_at) where deleted_at is not null;
+create index if not exists notes_deleted_at_idx on public.notes(deleted_at) where deleted_at is not null;
+create index if not exists project_templates_user_id_idx on public.project_templates(user_id);
 
 -- Create functions to update updated_at timestamp
 create or replace function public.handle_updated_at()
@@ -147,6 +532,332 @@ begin
 end;
 $$ language plpgsql;
 
+-- Create function to seed the default statuses for new projects
+create or replace function public.create_default_task_statuses()
+returns trigger as $$
+begin
+    insert into public.task_statuses (project_id, name, color, is_done, position) values
+        (new.id, 'To Do', '#6b7280', false, 1),
+        (new.id, 'In Progress', '#3b82f6', false, 2),
+        (new.id, 'Done', '#10b981', true, 3);
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to assign task statuses and keep completed in sync with them
+create or replace function public.handle_task_status()
+returns trigger as $$
+declare
+    task_status public.task_statuses%rowtype;
+begin
+    if new.status_id is not null then
+        select * into task_status from public.task_statuses where id = new.status_id;
+    end if;
+
+    -- A task moved to another project takes the matching status there (same name, then same done state)
+    if task_status.id is not null and task_status.project_id <> new.project_id then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id
+        order by (name = task_status.name) desc, (is_done = task_status.is_done) desc, position
+        limit 1;
+    end if;
+
+    -- Completion toggled directly: move to the first status with the requested done state
+    if tg_op = 'UPDATE'
+        and new.completed is distinct from old.completed
+        and new.status_id is not distinct from old.status_id
+        and task_status.is_done is distinct from new.completed then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id and is_done = new.completed
+        order by position
+        limit 1;
+
+        if task_status.id is null then
+            raise exception 'Project has no % status', case when new.completed then 'done' else 'open' end;
+        end if;
+    end if;
+
+    -- Tasks without a status start in the first status that is not done
+    if task_status.id is null then
+        select * into task_status from public.task_statuses
+        where project_id = new.project_id
+        order by is_done, position
+        limit 1;
+    end if;
+
+    if task_status.id is null then
+        raise exception 'Project has no task statuses';
+    end if;
+
+    new.status_id = task_status.id;
+    new.completed = task_status.is_done;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to update task completion when a status changes its done state
+create or replace function public.handle_task_status_done_change()
+returns trigger as $$
+begin
+    update public.tasks set completed = new.is_done where status_id = new.id;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to give every new user a profile
+create or replace function public.handle_new_user()
+returns trigger as $$
+begin
+    insert into public.profiles (id, email) values (new.id, lower(new.email));
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to add a project's creator as its first owner
+create or replace function public.add_project_creator()
+returns trigger as $$
+begin
+    insert into public.project_members (project_id, user_id, role) values (new.id, new.user_id, 'owner');
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to stop a project's creator from being changed (editors can update projects)
+create or replace function public.protect_project_owner()
+returns trigger as $$
+begin
+    if new.user_id is distinct from old.user_id then
+        raise exception 'A project''s owner cannot be changed';
+    end if;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to unassign tasks from someone who leaves or is removed from a project.
+-- Security definer because members leaving may not be allowed to update the project's tasks.
+create or replace function public.unassign_removed_member()
+returns trigger as $$
+begin
+    update public.tasks set assignee_id = null
+    where project_id = old.project_id
+    and assignee_id = old.user_id;
+    return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to move tasks to another project in one statement, so a failure leaves every task where it was.
+-- moved_tasks is [{"id", "parent_task_id", "assignee_id"}]: the parent is kept only if it is in the target project
+-- or moves too, and the assignee only if they are a member of the target project. Passing the values from before
+-- a move puts the tasks back as they were. Runs with the caller's permissions.
+create or replace function public.move_tasks(moved_tasks jsonb, target_project_id uuid)
+returns setof uuid as $$
+    update public.tasks set
+        project_id = target_project_id,
+        parent_task_id = case
+            when moved.parent_task_id in (select (value ->> 'id')::uuid from jsonb_array_elements(moved_tasks))
+                or exists (
+                    select 1 from public.tasks parent
+                    where parent.id = moved.parent_task_id
+                    and parent.project_id = target_project_id
+                    and parent.deleted_at is null
+                )
+            then moved.parent_task_id
+        end,
+        assignee_id = case
+            when exists (
+                select 1 from public.project_members
+                where project_members.project_id = target_project_id
+                and project_members.user_id = moved.assignee_id
+            )
+            then moved.assignee_id
+        end,
+        updated_at = timezone('utc'::text, now())
+    from jsonb_to_recordset(moved_tasks) as moved(id uuid, parent_task_id uuid, assignee_id uuid)
+    where tasks.id = moved.id
+    and tasks.deleted_at is null
+    returning tasks.id;
+$$ language sql;
+
+-- Create function to accept an invitation sent to the current user's email address.
+-- Security definer because the invitee is not yet a member when adding themselves.
+create or replace function public.accept_project_invitation(invitation_id uuid)
+returns uuid as $$
+declare
+    invitation public.project_invitations%rowtype;
+begin
+    select * into invitation from public.project_invitations
+    where id = invitation_id
+    and email = lower(auth.jwt() ->> 'email');
+
+    if not found then
+        raise exception 'Invitation not found';
+    end if;
+
+    insert into public.project_members (project_id, user_id, role)
+    values (invitation.project_id, auth.uid(), invitation.role)
+    on conflict (project_id, user_id) do update set role = excluded.role;
+
+    delete from public.project_invitations where id = invitation.id;
+
+    return invitation.project_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to list the current user's pending invitations with the project's name,
+-- which invitees can't read through the projects policies until they accept
+create or replace function public.get_my_project_invitations()
+returns table (
+    id uuid,
+    project_id uuid,
+    project_name text,
+    role text,
+    invited_by_email text,
+    created_at timestamp with time zone
+) as $$
+    select
+        project_invitations.id,
+        project_invitations.project_id,
+        projects.name,
+        project_invitations.role,
+        profiles.email,
+        project_invitations.created_at
+    from public.project_invitations
+    join public.projects on projects.id = project_invitations.project_id
+    left join public.profiles on profiles.id = project_invitations.invited_by
+    where project_invitations.email = lower(auth.jwt() ->> 'email')
+    and projects.deleted_at is null
+    order by project_invitations.created_at desc;
+$$ language sql stable security definer set search_path = public;
+
+-- Create function to record inserts, updates and deletes of projects, tasks and notes.
+-- Security definer so it can write to project_activity, which has no insert policy.
+create or replace function public.log_activity()
+returns trigger as $$
+declare
+    old_data jsonb;
+    new_data jsonb;
+    row_data jsonb;
+    target_project_id uuid;
+    changes jsonb;
+    activity_action text;
+begin
+    if tg_op <> 'INSERT' then
+        old_data := to_jsonb(old);
+    end if;
+    if tg_op <> 'DELETE' then
+        new_data := to_jsonb(new);
+    end if;
+    row_data := coalesce(new_data, old_data);
+
+    -- Rows purged from the trash were logged when they were deleted
+    if tg_op = 'DELETE' and old_data ->> 'deleted_at' is not null then
+        return null;
+    end if;
+
+    if tg_table_name = 'projects' then
+        target_project_id := (row_data ->> 'id')::uuid;
+    elsif tg_table_name = 'tasks' then
+        target_project_id := (row_data ->> 'project_id')::uuid;
+    else
+        select tasks.project_id into target_project_id
+        from public.tasks
+        where tasks.id = (row_data ->> 'task_id')::uuid;
+    end if;
+
+    -- Rows deleted along with their project have no history left to add to
+    if target_project_id is null
+        or not exists (select 1 from public.projects where projects.id = target_project_id) then
+        return null;
+    end if;
+
+    if tg_op = 'UPDATE' and new_data -> 'deleted_at' is distinct from old_data -> 'deleted_at' then
+        -- Rows moved to or from the trash along with their project or parent task
+        -- (by the cascade_trash trigger) are covered by its entry
+        if pg_trigger_depth() > 1 then
+            return null;
+        end if;
+        activity_action := case when new_data ->> 'deleted_at' is null then 'restored' else 'deleted' end;
+    elsif tg_op = 'UPDATE' then
+        activity_action := 'updated';
+
+        select jsonb_object_agg(fields.key, jsonb_build_object('from', old_data -> fields.key, 'to', fields.value))
+        into changes
+        from jsonb_each(new_data) as fields
+        where fields.key not in ('id', 'user_id', 'position', 'created_at', 'updated_at')
+        and fields.value is distinct from old_data -> fields.key;
+
+        -- Skip updates that only touched bookkeeping columns, such as reordering on the board
+        if changes is null then
+            return null;
+        end if;
+    else
+        activity_action := case tg_op when 'INSERT' then 'created' else 'deleted' end;
+    end if;
+
+    insert into public.project_activity (project_id, actor_id, entity_type, entity_id, entity_name, action, changes)
+    values (
+        target_project_id,
+        auth.uid(),
+        case tg_table_name when 'projects' then 'project' when 'tasks' then 'task' else 'note' end,
+        (row_data ->> 'id')::uuid,
+        coalesce(row_data ->> 'name', row_data ->> 'title'),
+        activity_action,
+        changes
+    );
+
+    return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Create function to move a project's tasks, or a task's subtasks and notes, to and from the trash with it.
+-- Children take the parent's deleted_at, so restoring it only brings back what was deleted at the same time.
+create or replace function public.cascade_trash()
+returns trigger as $$
+begin
+    if tg_table_name = 'projects' then
+        update public.tasks set deleted_at = new.deleted_at
+        where project_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+    else
+        update public.tasks set deleted_at = new.deleted_at
+        where parent_task_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+
+        update public.notes set deleted_at = new.deleted_at
+        where task_id = new.id
+        and deleted_at is not distinct from old.deleted_at;
+    end if;
+    return null;
+end;
+$$ language plpgsql;
+
+-- Create function to stop editors from deleting or restoring a project (editors can update projects)
+create or replace function public.protect_project_trash()
+returns trigger as $$
+begin
+    if public.project_role(new.id) is distinct from 'owner' then
+        raise exception 'Only project owners can delete or restore a project';
+    end if;
+    return new;
+end;
+$$ language plpgsql;
+
+-- Create function to permanently delete items that have been in the trash longer than the retention period.
+-- Deleting a project or task also removes everything that was trashed with it.
+create or replace function public.purge_trash(retention_days integer default 30)
+returns void as $$
+declare
+    cutoff timestamp with time zone := now() - make_interval(days => retention_days);
+begin
+    delete from public.projects where deleted_at < cutoff;
+    delete from public.tasks where deleted_at < cutoff;
+    delete from public.notes where deleted_at < cutoff;
+end;
+$$ language plpgsql;
+
+-- Only the scheduled job runs the purge
+revoke execute on function public.purge_trash(integer) from public, anon, authenticated;
+
 -- Create triggers to automatically update updated_at
 create trigger handle_updated_at before update on public.projects
     for each row execute procedure public.handle_updated_at();
@@ -155,4 +866,217 @@ create trigger handle_updated_at before update on public.tasks
     for each row execute procedure public.handle_updated_at();
 
 create trigger handle_updated_at before update on public.notes
-    for each row execute procedure public.handle_updated_at(); 
\ No newline at end of file
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.task_statuses
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.tags
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.profiles
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.project_members
+    for each row execute procedure public.handle_updated_at();
+
+create trigger handle_updated_at before update on public.project_templates
+    for each row execute procedure public.handle_updated_at();
+
+-- Create triggers for task statuses
+create trigger create_default_task_statuses after insert on public.projects
+    for each row execute procedure public.create_default_task_statuses();
+
+create trigger handle_task_status before insert or update on public.tasks
+    for each row execute procedure public.handle_task_status();
+
+create trigger handle_task_status_done_change after update of is_done on public.task_statuses
+    for each row when (old.is_done is distinct from new.is_done)
+    execute procedure public.handle_task_status_done_change(); 
+
+-- Create triggers for sharing
+create trigger handle_new_user after insert on auth.users
+    for each row execute procedure public.handle_new_user();
+
+create trigger add_project_creator after insert on public.projects
+    for each row execute procedure public.add_project_creator();
+
+create trigger protect_project_owner before update of user_id on public.projects
+    for each row execute procedure public.protect_project_owner();
+
+create trigger unassign_removed_member after delete on public.project_members
+    for each row execute procedure public.unassign_removed_member();
+
+-- Create triggers for the activity log
+create trigger log_activity after insert or update or delete on public.projects
+    for each row execute procedure public.log_activity();
+
+create trigger log_activity after insert or update or delete on public.tasks
+    for each row execute procedure public.log_activity();
+
+create trigger log_activity after insert or update or delete on public.notes
+    for each row execute procedure public.log_activity();
+
+-- Create triggers for the trash
+create trigger cascade_trash after update of deleted_at on public.projects
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.cascade_trash();
+
+create trigger cascade_trash after update of deleted_at on public.tasks
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.cascade_trash();
+
+create trigger protect_project_trash before update of deleted_at on public.projects
+    for each row when (old.deleted_at is distinct from new.deleted_at)
+    execute procedure public.protect_project_trash();
+
+-- Create functions that build the full-text search documents (immutable so they can back indexes)
+create or replace function public.project_search_vector(name text, description text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(description, '')), 'B');
+$$ language sql immutable;
+
+create or replace function public.task_search_vector(name text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(name, '')), 'A');
+$$ language sql immutable;
+
+create or replace function public.note_search_vector(title text, content text)
+returns tsvector as $$
+    select setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+           setweight(to_tsvector('english', coalesce(content, '')), 'B');
+$$ language sql immutable;
+
+-- Create full-text search indexes
+create index if not exists projects_search_idx on public.projects using gin (public.project_search_vector(name, description));
+create index if not exists tasks_search_idx on public.tasks using gin (public.task_search_vector(name));
+create index if not exists notes_search_idx on public.notes using gin (public.note_search_vector(title, content));
+
+-- Create function to search projects, tasks and notes in one ranked list.
+-- Every word is matched as a prefix so results appear while typing; matches in
+-- snippets are wrapped in <mark></mark>. Runs as the caller, so RLS limits results
+-- to projects the user is a member of.
+create or replace function public.search_all(search_query text, result_limit integer default 20)
+returns table (
+    result_type text,
+    id uuid,
+    project_id uuid,
+    task_id uuid,
+    title text,
+    snippet text,
+    project_name text,
+    task_name text,
+    rank real
+) as $$
+    with query as (
+        -- Words are quoted as tsquery lexemes with backslashes and quotes escaped; quote_literal
+        -- can't be used because to_tsquery rejects the E'...' strings it returns for backslashes
+        select to_tsquery('english', string_agg('''' || replace(replace(word, '\', '\\'), '''', '''''') || ''':*', ' & ')) as q
+        from regexp_split_to_table(trim(search_query), '\s+') as word
+        where word <> ''
+    )
+    select * from (
+        select
+            'project', p.id, p.id, null::uuid, p.name,
+            ts_headline('english', coalesce(nullif(p.description, ''), p.name), query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, null::text,
+            ts_rank(public.project_search_vector(p.name, p.description), query.q)
+        from public.projects p, query
+        where public.project_search_vector(p.name, p.description) @@ query.q
+        and p.deleted_at is null
+
+        union all
+
+        select
+            'task', t.id, t.project_id, t.id, t.name,
+            ts_headline('english', t.name, query.q, 'StartSel="<mark>", StopSel="</mark>", HighlightAll=true'),
+            p.name, t.name,
+            ts_rank(public.task_search_vector(t.name), query.q)
+        from public.tasks t
+        join public.projects p on p.id = t.project_id, query
+        where public.task_search_vector(t.name) @@ query.q
+        and t.deleted_at is null
+
+        union all
+
+        select
+            'note', n.id, t.project_id, n.task_id, n.title,
+            ts_headline('english', n.content, query.q,
+                'StartSel="<mark>", StopSel="</mark>", MaxWords=25, MinWords=8, MaxFragments=2'),
+            p.name, t.name,
+            ts_rank(public.note_search_vector(n.title, n.content), query.q)
+        from public.notes n
+        join public.tasks t on t.id = n.task_id
+        join public.projects p on p.id = t.project_id, query
+        where public.note_search_vector(n.title, n.content) @@ query.q
+        and n.deleted_at is null
+    ) results
+    order by rank desc
+    limit result_limit;
+$$ language sql stable;
+
+-- Create function to list the due dates in a calendar feed: deadlines of the feed owner's projects
+-- and of their tasks, from 90 days ago onwards. Security definer because calendar apps
+-- fetch the feed without signing in; the token is the only credential.
+create or replace function public.get_calendar_feed(feed_token text)
+returns table (
+    item_type text,
+    id uuid,
+    project_id uuid,
+    project_name text,
+    name text,
+    priority text,
+    due_date date,
+    completed boolean,
+    updated_at timestamp with time zone
+) as $$
+#variable_conflict use_column
+declare
+    feed_user_id uuid;
+begin
+    select calendar_feeds.user_id into feed_user_id from public.calendar_feeds
+    where calendar_feeds.token = feed_token;
+
+    if not found then
+        raise exception 'Calendar feed not found' using errcode = 'no_data_found';
+    end if;
+
+    return query
+    with feed_projects as (
+        select projects.* from public.projects
+        where projects.deleted_at is null
+        and (
+            projects.user_id = feed_user_id
+            or exists (
+                select 1 from public.project_members
+                where project_members.project_id = projects.id
+                and project_members.user_id = feed_user_id
+            )
+        )
+    )
+    select * from (
+        select 'project'::text, p.id, p.id, p.name, p.name, null::text, p.due_date, false, p.updated_at
+        from feed_projects p
+        where p.due_date >= current_date - 90
+
+        union all
+
+        select 'task'::text, t.id, t.project_id, p.name, t.name, t.priority, t.due_date, coalesce(t.completed, false), t.updated_at
+        from public.tasks t
+        join feed_projects p on p.id = t.project_id
+        where t.deleted_at is null
+        and t.due_date >= current_date - 90
+    ) items
+    order by items.due_date;
+end;
+$$ language plpgsql stable security definer set search_path = public;
+
+grant execute on function public.get_calendar_feed(text) to anon, authenticated;
+
+-- Schedule the nightly trash purge with pg_cron. To keep deleted items for a different
+-- number of days, change 30 here and set NEXT_PUBLIC_TRASH_RETENTION_DAYS to match.
+create extension if not exists pg_cron;
+
+select cron.schedule('purge-trash', '0 3 * * *', 'select public.purge_trash(30)');
@@ -88,7 +88,9 @@ export async function middleware(request: NextRequest) {
   // Define protected routes that require authentication
   const protectedRoutes = [
     '/projects',
+    '/calendar',
     '/dashboard',
+    '/trash',
     '/profile',
     '/settings',
   ]
@@ -55,17 +55,6 @@ const nextConfig: NextConfig = {
       },
     ];
   },
-
-  // Redirect configuration for authentication flow
-  async redirects() {
-    return [
-      {
-        source: '/dashboard',
-        destination: '/projects',
-        permanent: true,
-      },
-    ];
-  },
 };
 
 export default nextConfig;
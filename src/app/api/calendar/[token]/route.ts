@@ -0,0 +1,54 @@
+import { createSupabaseClient } from '@/lib/supabase'
+import { generateICalendar } from '@/lib/ical'
+import { CalendarFeedItem } from '@/types'
+
+// Feeds are read on every calendar refresh, so they are never cached
+export const dynamic = 'force-dynamic'
+
+// Tokens are 64 hex characters generated by the calendar_feeds table
+const TOKEN_PATTERN = /^[0-9a-f]{64}$/
+
+/**
+ * Serve a user's task and project due dates as an iCalendar feed. Calendar apps can't
+ * sign in, so the token in the URL authenticates the request.
+ * Add ?completed=exclude to leave completed tasks out.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token: tokenParam } = await params
+  const token = tokenParam.replace(/\.ics$/, '')
+
+  if (!TOKEN_PATTERN.test(token)) {
+    return new Response('Calendar feed not found', { status: 404 })
+  }
+
+  try {
+    const supabase = createSupabaseClient()
+    const { data, error } = await supabase.rpc('get_calendar_feed', { feed_token: token })
+
+    if (error) {
+      // no_data_found: the token was never issued or has been reset
+      if (error.code === 'P0002') {
+        return new Response('Calendar feed not found', { status: 404 })
+      }
+      console.error('Database error fetching calendar feed:', error)
+      return new Response('Failed to load calendar feed', { status: 500 })
+    }
+
+    const url = new URL(request.url)
+    const calendar = generateICalendar((data || []) as CalendarFeedItem[], {
+      appUrl: url.origin,
+      excludeCompleted: url.searchParams.get('completed') === 'exclude'
+    })
+
+    return new Response(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="taskflow.ics"',
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Unexpected error serving calendar feed:', error)
+    return new Response('Failed to load calendar feed', { status: 500 })
+  }
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek
+} from 'date-fns'
+import { CalendarDays, CalendarPlus, ChevronLeft, ChevronRight, AlertCircle, CheckCircle2, Eye, EyeOff } from 'lucide-react'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { getProjects, getTasks, updateProject, updateTask } from '@/lib/database'
+import { CalendarItem, Project, Task } from '@/types'
+import { CalendarGrid } from '@/components/calendar/CalendarGrid'
+import { CalendarFeedDialog } from '@/components/calendar/CalendarFeedDialog'
+import { AuthHeader } from '@/components/common/AuthHeader'
+import { Button } from '@/components/ui/button'
+
+type CalendarView = 'month' | 'week'
+
+// Weeks start on Monday to match the grid's column headers
+const WEEK_OPTIONS = { weekStartsOn: 1 as const }
+
+export default function CalendarPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [view, setView] = useState<CalendarView>('month')
+  const [currentDate, setCurrentDate] = useState(() => new Date())
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [showCompleted, setShowCompleted] = useState(true)
+  const [showFeedDialog, setShowFeedDialog] = useState(false)
+
+  // Visible range: full weeks covering the month, or the current week
+  const rangeStart = view === 'month'
+    ? startOfWeek(startOfMonth(currentDate), WEEK_OPTIONS)
+    : startOfWeek(currentDate, WEEK_OPTIONS)
+  const rangeEnd = view === 'month'
+    ? endOfWeek(endOfMonth(currentDate), WEEK_OPTIONS)
+    : endOfWeek(currentDate, WEEK_OPTIONS)
+  const rangeStartKey = format(rangeStart, 'yyyy-MM-dd')
+  const rangeEndKey = format(rangeEnd, 'yyyy-MM-dd')
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Projects are needed in full to label tasks; deadlines are filtered to the range below
+      const [tasksResult, projectsResult] = await Promise.all([
+        getTasks({ due_date_after: rangeStartKey, due_date_before: rangeEndKey }),
+        getProjects()
+      ])
+
+      if (tasksResult.success && tasksResult.data) {
+        setTasks(tasksResult.data)
+      } else {
+        setError(tasksResult.error || 'Failed to load tasks')
+      }
+
+      if (projectsResult.success && projectsResult.data) {
+        setProjects(projectsResult.data)
+      } else {
+        setError(projectsResult.error || 'Failed to load projects')
+      }
+    } catch (err) {
+      setError('Failed to load calendar')
+      console.error('Error loading calendar data:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [rangeStartKey, rangeEndKey])
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user, loadData])
+
+  const showMessage = (message: string, type: 'success' | 'error') => {
+    if (type === 'success') {
+      setSuccess(message)
+      setTimeout(() => setSuccess(null), 3000)
+    } else {
+      setError(message)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const handleReschedule = async (item: CalendarItem, date: string) => {
+    if (item.type === 'task') {
+      const previousTasks = tasks
+      setTasks(prev => prev.map(t => t.id === item.id ? { ...t, due_date: date } : t))
+
+      try {
+        const result = await updateTask({ id: item.id, due_date: date })
+        if (result.success && result.data) {
+          setTasks(prev => prev.map(t => t.id === item.id ? result.data! : t))
+          showMessage(`"${result.data.name}" moved to ${format(parseISO(date), 'MMM d')}`, 'success')
+        } else {
+          setTasks(previousTasks)
+          showMessage(result.error || 'Failed to reschedule task', 'error')
+        }
+      } catch (err) {
+        setTasks(previousTasks)
+        showMessage('Failed to reschedule task', 'error')
+        console.error('Error rescheduling task:', err)
+      }
+    } else {
+      const previousProjects = projects
+      setProjects(prev => prev.map(p => p.id === item.id ? { ...p, due_date: date } : p))
+
+      try {
+        const result = await updateProject({ id: item.id, due_date: date })
+        if (result.success && result.data) {
+          setProjects(prev => prev.map(p => p.id === item.id ? result.data! : p))
+          showMessage(`"${result.data.name}" deadline moved to ${format(parseISO(date), 'MMM d')}`, 'success')
+        } else {
+          setProjects(previousProjects)
+          showMessage(result.error || 'Failed to reschedule project', 'error')
+        }
+      } catch (err) {
+        setProjects(previousProjects)
+        showMessage('Failed to reschedule project', 'error')
+        console.error('Error rescheduling project:', err)
+      }
+    }
+  }
+
+  const handleItemClick = (item: CalendarItem) => {
+    router.push(item.type === 'task' ? `/projects/${item.task.project_id}?task=${item.id}` : `/projects/${item.project.id}`)
+  }
+
+  const navigate = (direction: -1 | 1) => {
+    setCurrentDate(prev => view === 'month' ? addMonths(prev, direction) : addWeeks(prev, direction))
+  }
+
+  // Group tasks and project deadlines by due date
+  const projectNames = Object.fromEntries(projects.map(p => [p.id, p.name]))
+  const items: CalendarItem[] = [
+    ...projects
+      .filter(p => p.due_date && p.due_date >= rangeStartKey && p.due_date <= rangeEndKey)
+      .map(p => ({ type: 'project' as const, id: p.id, date: p.due_date!, project: p })),
+    ...tasks
+      .filter(t => t.due_date && (showCompleted || !t.completed))
+      .map(t => ({ type: 'task' as const, id: t.id, date: t.due_date!, task: t, projectName: projectNames[t.project_id] || 'Unknown project' }))
+  ]
+  const priorityOrder = { High: 0, Medium: 1, Low: 2 }
+  const itemsByDate = items.reduce<Record<string, CalendarItem[]>>((groups, item) => {
+    groups[item.date] = [...(groups[item.date] || []), item]
+    return groups
+  }, {})
+  // Project deadlines first, then tasks by priority
+  Object.values(itemsByDate).forEach(dayItems => dayItems.sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'project' ? -1 : 1
+    if (a.type === 'task' && b.type === 'task') {
+      return priorityOrder[a.task.priority] - priorityOrder[b.task.priority]
+    }
+    return 0
+  }))
+
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd })
+  const title = view === 'month'
+    ? format(currentDate, 'MMMM yyyy')
+    : `${format(rangeStart, 'MMM d')} – ${format(rangeEnd, 'MMM d, yyyy')}`
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+      <AuthHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <CalendarDays className="size-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{title}</h1>
+              <p className="text-gray-600 text-sm">Drag tasks and project deadlines to reschedule them</p>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center rounded-lg border border-gray-200 bg-white/70 p-0.5" role="group" aria-label="Calendar view">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setView('month')}
+                className={view === 'month' ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+                aria-pressed={view === 'month'}
+              >
+                Month
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setView('week')}
+                className={view === 'week' ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+                aria-pressed={view === 'week'}
+              >
+                Week
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowCompleted(prev => !prev)}
+              className="bg-white/70 border-gray-200"
+            >
+              {showCompleted ? <EyeOff className="size-4 mr-1" /> : <Eye className="size-4 mr-1" />}
+              {showCompleted ? 'Hide completed' : 'Show completed'}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowFeedDialog(true)}
+              className="bg-white/70 border-gray-200"
+            >
+              <CalendarPlus className="size-4 mr-1" />
+              Subscribe
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate(-1)} aria-label={`Previous ${view}`} className="bg-white/70 border-gray-200">
+              <ChevronLeft className="size-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(new Date())} className="bg-white/70 border-gray-200">
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => navigate(1)} aria-label={`Next ${view}`} className="bg-white/70 border-gray-200">
+              <ChevronRight className="size-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-red-100 border border-red-300" />High priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-yellow-100 border border-yellow-300" />Medium priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-green-100 border border-green-300" />Low priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-purple-100 border border-purple-300" />Project deadline</span>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" role="status">
+            <CheckCircle2 className="size-4" />
+            {success}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="h-[600px] bg-gray-200 rounded-xl animate-pulse"></div>
+        ) : (
+          <CalendarGrid
+            days={days}
+            currentMonth={currentDate}
+            view={view}
+            itemsByDate={itemsByDate}
+            onReschedule={handleReschedule}
+            onItemClick={handleItemClick}
+          />
+        )}
+      </div>
+
+      <CalendarFeedDialog isOpen={showFeedDialog} onClose={() => setShowFeedDialog(false)} />
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { endOfWeek, format } from 'date-fns'
+import { ListChecks, AlertCircle, AlertTriangle, CalendarClock, CalendarDays, Zap, FolderOpen, Target, CheckCircle2, ChevronRight, UserRound } from 'lucide-react'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { getTasks, getProjects, getTaskCount, getProjectCount, toggleTaskCompletion } from '@/lib/database'
+import { getDescendantIds } from '@/lib/task-utils'
+import { Project, Task } from '@/types'
+import { TaskCard } from '@/components/task/TaskCard'
+import { AuthHeader } from '@/components/common/AuthHeader'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+
+type SectionKey = 'overdue' | 'today' | 'week' | 'high'
+
+const SECTIONS: { key: SectionKey; title: string; description: string; icon: typeof AlertTriangle; color: string }[] = [
+  { key: 'overdue', title: 'Overdue', description: 'Past their due date', icon: AlertTriangle, color: 'text-red-600 bg-red-50 border-red-200' },
+  { key: 'today', title: 'Due Today', description: 'Due before the day is out', icon: CalendarClock, color: 'text-orange-600 bg-orange-50 border-orange-200' },
+  { key: 'week', title: 'Due This Week', description: 'Due later this week', icon: CalendarDays, color: 'text-blue-600 bg-blue-50 border-blue-200' },
+  { key: 'high', title: 'High Priority', description: 'Not due this week, but important', icon: Zap, color: 'text-purple-600 bg-purple-50 border-purple-200' }
+]
+
+const priorityOrder = { High: 0, Medium: 1, Low: 2 }
+
+export default function DashboardPage() {
+  const { user } = useAuth()
+  const router = useRouter()
+
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [taskCount, setTaskCount] = useState(0)
+  const [projectCount, setProjectCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  // Limit the view to tasks assigned to the current user
+  const [assignedToMe, setAssignedToMe] = useState(false)
+
+  const todayKey = format(new Date(), 'yyyy-MM-dd')
+  const weekEndKey = format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  const userId = user?.id
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // Open tasks due by the end of the week (including overdue ones), plus all open high-priority tasks
+      const assigneeFilter = assignedToMe && userId ? { assignee_id: userId } : {}
+      const [dueResult, highPriorityResult, projectsResult, taskCountResult, projectCountResult] = await Promise.all([
+        getTasks({ completed: false, due_date_before: weekEndKey, ...assigneeFilter }),
+        getTasks({ completed: false, priority: 'High', ...assigneeFilter }),
+        getProjects(),
+        getTaskCount(),
+        getProjectCount()
+      ])
+
+      if (dueResult.success && dueResult.data && highPriorityResult.success && highPriorityResult.data) {
+        const tasksById = new Map([...dueResult.data, ...highPriorityResult.data].map(task => [task.id, task]))
+        setTasks(Array.from(tasksById.values()))
+      } else {
+        setError(dueResult.error || highPriorityResult.error || 'Failed to load tasks')
+      }
+
+      if (projectsResult.success && projectsResult.data) {
+        setProjects(projectsResult.data)
+      }
+      if (taskCountResult.success && taskCountResult.data !== undefined) {
+        setTaskCount(taskCountResult.data)
+      }
+      if (projectCountResult.success && projectCountResult.data !== undefined) {
+        setProjectCount(projectCountResult.data)
+      }
+    } catch (err) {
+      setError('Failed to load dashboard')
+      console.error('Error loading dashboard data:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [weekEndKey, assignedToMe, userId])
+
+  useEffect(() => {
+    if (user) {
+      loadData()
+    }
+  }, [user, loadData])
+
+  const showMessage = (message: string, type: 'success' | 'error') => {
+    if (type === 'success') {
+      setSuccess(message)
+      setTimeout(() => setSuccess(null), 3000)
+    } else {
+      setError(message)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  // Completed tasks stay in place so an accidental click can be undone
+  const handleToggleComplete = async (taskId: string, completed: boolean) => {
+    try {
+      const result = await toggleTaskCompletion(taskId, { cascade: completed })
+
+      if (result.success && result.data) {
+        const { task: updatedTask, next_occurrence: nextOccurrence } = result.data
+        setTasks(prev => {
+          const cascadedIds = completed ? getDescendantIds(prev, taskId) : []
+          const updatedTasks = prev.map(t => {
+            if (t.id === taskId) return updatedTask
+            if (cascadedIds.includes(t.id)) return { ...t, completed: updatedTask.completed, status_id: updatedTask.status_id }
+            return t
+          })
+          return nextOccurrence ? [...updatedTasks, nextOccurrence] : updatedTasks
+        })
+        showMessage(`"${updatedTask.name}" marked as ${updatedTask.completed ? 'completed' : 'incomplete'}`, 'success')
+      } else {
+        showMessage(result.error || 'Failed to toggle task completion', 'error')
+      }
+    } catch (err) {
+      showMessage('Failed to toggle task completion', 'error')
+      console.error('Error toggling task completion:', err)
+    }
+  }
+
+  const getSection = (task: Task): SectionKey | null => {
+    if (task.due_date && task.due_date < todayKey) return 'overdue'
+    if (task.due_date === todayKey) return 'today'
+    if (task.due_date && task.due_date <= weekEndKey) return 'week'
+    if (task.priority === 'High') return 'high'
+    return null
+  }
+
+  // Group each section's tasks by project, soonest due and most urgent first
+  const groupByProject = (sectionTasks: Task[]) => {
+    const sorted = [...sectionTasks].sort((a, b) =>
+      (a.due_date || '9999-12-31').localeCompare(b.due_date || '9999-12-31') ||
+      priorityOrder[a.priority] - priorityOrder[b.priority]
+    )
+    return projects
+      .map(project => ({ project, tasks: sorted.filter(task => task.project_id === project.id) }))
+      .filter(group => group.tasks.length > 0)
+  }
+
+  const tasksBySection = tasks.reduce<Record<SectionKey, Task[]>>((sections, task) => {
+    const section = getSection(task)
+    if (section) {
+      sections[section].push(task)
+    }
+    return sections
+  }, { overdue: [], today: [], week: [], high: [] })
+
+  const openCount = (section: SectionKey) => tasksBySection[section].filter(task => !task.completed).length
+  const hasTasks = SECTIONS.some(({ key }) => tasksBySection[key].length > 0)
+
+  const stats = [
+    { label: 'Projects', value: projectCount, icon: FolderOpen, color: 'text-blue-700 bg-blue-50 border-blue-200/50' },
+    { label: 'Tasks', value: taskCount, icon: Target, color: 'text-indigo-700 bg-indigo-50 border-indigo-200/50' },
+    { label: 'Overdue', value: openCount('overdue'), icon: AlertTriangle, color: 'text-red-700 bg-red-50 border-red-200/50' },
+    { label: 'Due This Week', value: openCount('today') + openCount('week'), icon: CalendarDays, color: 'text-orange-700 bg-orange-50 border-orange-200/50' }
+  ]
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+      <AuthHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <ListChecks className="size-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900">My Tasks</h1>
+              <p className="text-gray-600 text-sm">
+                {assignedToMe ? 'What needs attention from you across all of your projects' : 'What needs attention across all of your projects'}
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center rounded-lg border border-gray-200 bg-white/70 p-0.5" role="group" aria-label="Tasks shown">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setAssignedToMe(false)}
+              className={!assignedToMe ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+              aria-pressed={!assignedToMe}
+            >
+              <ListChecks className="size-4 mr-1" />
+              All tasks
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setAssignedToMe(true)}
+              className={assignedToMe ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+              aria-pressed={assignedToMe}
+            >
+              <UserRound className="size-4 mr-1" />
+              Assigned to me
+            </Button>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+          {stats.map(({ label, value, icon: Icon, color }) => (
+            <div key={label} className={`flex items-center gap-3 p-4 rounded-xl border ${color}`}>
+              <Icon className="size-5 shrink-0" />
+              <div>
+                <p className="text-2xl font-bold">{loading ? '–' : value}</p>
+                <p className="text-xs font-medium opacity-80">{label}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" role="status">
+            <CheckCircle2 className="size-4" />
+            {success}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {[1, 2, 3, 4, 5, 6].map(i => (
+              <div key={i} className="h-48 bg-gray-200 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : !hasTasks ? (
+          <Card className="bg-gradient-to-br from-green-50 to-emerald-50/50 border-green-200/50">
+            <CardContent className="py-16 text-center">
+              <div className="w-16 h-16 mx-auto bg-green-100 rounded-full flex items-center justify-center mb-4">
+                <CheckCircle2 className="size-8 text-green-600" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900 mb-1">You&apos;re all caught up</h2>
+              <p className="text-gray-600">
+                Nothing {assignedToMe ? 'assigned to you ' : ''}is overdue, due this week or marked high priority.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-10">
+            {SECTIONS.filter(({ key }) => tasksBySection[key].length > 0).map(({ key, title, description, icon: Icon, color }) => (
+              <section key={key} aria-labelledby={`section-${key}`}>
+                <div className="flex items-center gap-3 mb-4">
+                  <div className={`p-2 rounded-lg border ${color}`}>
+                    <Icon className="size-5" />
+                  </div>
+                  <div>
+                    <h2 id={`section-${key}`} className="text-xl font-bold text-gray-900">
+                      {title} <span className="text-gray-400 font-medium">({openCount(key)})</span>
+                    </h2>
+                    <p className="text-sm text-gray-600">{description}</p>
+                  </div>
+                </div>
+
+                <div className="space-y-6">
+                  {groupByProject(tasksBySection[key]).map(({ project, tasks: projectTasks }) => (
+                    <div key={project.id}>
+                      <Link
+                        href={`/projects/${project.id}`}
+                        className="group inline-flex items-center gap-1.5 mb-3 text-sm font-semibold text-gray-700 hover:text-blue-700"
+                      >
+                        <FolderOpen className="size-4" />
+                        {project.name}
+                        <ChevronRight className="size-4 transition-transform duration-200 group-hover:translate-x-0.5" />
+                      </Link>
+                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                        {projectTasks.map(task => (
+                          <TaskCard
+                            key={task.id}
+                            task={task}
+                            onToggleComplete={handleToggleComplete}
+                            onViewDetails={() => router.push(`/projects/${project.id}?task=${task.id}`)}
+                            showActions={false}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { UndoProvider } from "@/contexts/UndoContext";
 import { validateEnvironmentOrThrow, logEnvironmentStatus } from "@/lib/env-validation";
 import { DevelopmentEnvironmentValidator } from "@/components/common/EnvironmentValidator";
 import "./globals.css";
@@ -43,11 +44,13 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30 transition-colors duration-500`}
       >
         <AuthProvider>
-          <div className="min-h-screen flex flex-col animate-in fade-in duration-700">
-            <main className="flex-1 transition-all duration-300 ease-out">
-              {children}
-            </main>
-          </div>
+          <UndoProvider>
+            <div className="min-h-screen flex flex-col animate-in fade-in duration-700">
+              <main className="flex-1 transition-all duration-300 ease-out">
+                {children}
+              </main>
+            </div>
+          </UndoProvider>
           {/* Environment validation (development only) */}
           <DevelopmentEnvironmentValidator />
         </AuthProvider>
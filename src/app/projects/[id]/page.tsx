@@ -1,17 +1,29 @@
 'use client'
 
 import { useEffect, useState, useCallback } from 'react'
-import { useRouter, useParams } from 'next/navigation'
-import { ArrowLeft, Plus, FolderOpen, Calendar, Clock, FileText, Target, Zap, CheckCircle2, AlertCircle, ArrowUpDown, Flag } from 'lucide-react'
+import { useRouter, useParams, useSearchParams } from 'next/navigation'
+import { format, parseISO } from 'date-fns'
+import { ArrowLeft, Plus, FolderOpen, Calendar, Clock, FileText, Target, Zap, CheckCircle2, AlertCircle, ArrowUpDown, Flag, PlayCircle, List, SquareKanban, Settings2, GanttChart, Users, Eye, History, LayoutTemplate, FileSpreadsheet } from 'lucide-react'
 
 import { useAuth } from '@/contexts/AuthContext'
-import { getProject, getTasksByProject, createTask, updateTask, deleteTask } from '@/lib/database'
-import { Project, Task, CreateTaskData, UpdateTaskData } from '@/types'
+import { useUndo } from '@/contexts/UndoContext'
+import { getProject, getTasksByProject, getTaskStatuses, getProjectTaskDependencies, createTask, updateTask, deleteTask, toggleTaskCompletion, restoreTask, revertTasks, undoTaskCompletion, bulkUpdateTasks, bulkMoveTasks, undoMoveTasks, bulkDeleteTasks } from '@/lib/database'
+import { buildTaskTree, flattenTaskTree, getDescendantIds, groupPrerequisitesByTask, getIncompletePrerequisites, isTaskDone, hasAnyTag, getUniqueTags } from '@/lib/task-utils'
+import { Project, Task, CreateTaskData, UpdateTaskData, BulkUpdateTaskData, LinkedTask, TaskStatus } from '@/types'
 import { TaskCard } from '@/components/task/TaskCard'
 import { TaskForm } from '@/components/task/TaskForm'
+import { TaskBoard } from '@/components/task/TaskBoard'
+import { TaskStatusManager } from '@/components/task/TaskStatusManager'
 import { TaskDetailModal } from '@/components/task/TaskDetailModal'
+import { BulkTaskActionBar } from '@/components/task/BulkTaskActionBar'
+import { TaskProjectDialog, TaskProjectAction } from '@/components/task/TaskProjectDialog'
+import { TaskCsvImportDialog } from '@/components/task/TaskCsvImportDialog'
+import { ProjectMembersDialog } from '@/components/project/ProjectMembersDialog'
+import { ProjectActivityFeed } from '@/components/project/ProjectActivityFeed'
+import { SaveTemplateDialog } from '@/components/project/SaveTemplateDialog'
 import { ExportButton } from '@/components/common/ExportButton'
 import { AuthHeader } from '@/components/common/AuthHeader'
+import { TagFilter } from '@/components/tag/TagFilter'
 import { 
   Card, 
   CardContent 
@@ -33,12 +45,18 @@ import {
 
 export default function ProjectDetailPage() {
   const { user } = useAuth()
+  const { pushUndo } = useUndo()
   const router = useRouter()
   const params = useParams()
+  const searchParams = useSearchParams()
   const projectId = params.id as string
+  // Task to open on arrival, e.g. from a search result
+  const linkedTaskId = searchParams.get('task')
 
   const [project, setProject] = useState<Project | null>(null)
   const [tasks, setTasks] = useState<Task[]>([])
+  const [statuses, setStatuses] = useState<TaskStatus[]>([])
+  const [prerequisitesByTask, setPrerequisitesByTask] = useState<Record<string, LinkedTask[]>>({})
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
@@ -46,6 +64,7 @@ export default function ProjectDetailPage() {
   // Task form states
   const [showTaskForm, setShowTaskForm] = useState(false)
   const [editingTask, setEditingTask] = useState<Task | null>(null)
+  const [parentTaskForForm, setParentTaskForForm] = useState<Task | null>(null)
   const [taskFormLoading, setTaskFormLoading] = useState(false)
   
   // Task detail modal states
@@ -56,8 +75,24 @@ export default function ProjectDetailPage() {
   const [isVisible, setIsVisible] = useState(false)
   const [showTasks, setShowTasks] = useState(false)
 
-  // Task sorting state
+  // Task sorting and filtering state
   const [taskSortBy, setTaskSortBy] = useState<string>('created-desc')
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
+
+  // Task view state
+  const [taskView, setTaskView] = useState<'list' | 'board'>('list')
+  const [showStatusManager, setShowStatusManager] = useState(false)
+  const [showMembersDialog, setShowMembersDialog] = useState(false)
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false)
+  const [showCsvImport, setShowCsvImport] = useState(false)
+  const [showActivity, setShowActivity] = useState(false)
+
+  // Multi-select for bulk actions in the list view
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([])
+  const [lastSelectedTaskId, setLastSelectedTaskId] = useState<string | null>(null)
+
+  // Task being moved or copied to another project
+  const [projectDialog, setProjectDialog] = useState<{ task: Task; action: TaskProjectAction } | null>(null)
 
   useEffect(() => {
     if (user && projectId) {
@@ -65,6 +100,18 @@ export default function ProjectDetailPage() {
     }
   }, [user, projectId]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  useEffect(() => {
+    if (!linkedTaskId || loading) return
+
+    const linkedTask = tasks.find(t => t.id === linkedTaskId)
+    if (linkedTask) {
+      setSelectedTask(linkedTask)
+      setShowTaskDetail(true)
+    }
+    // Drop the parameter so closing the modal or refreshing doesn't reopen it
+    router.replace(`/projects/${projectId}`, { scroll: false })
+  }, [linkedTaskId, loading]) // eslint-disable-line react-hooks/exhaustive-deps
+
   useEffect(() => {
     // Trigger entrance animations
     const timer1 = setTimeout(() => setIsVisible(true), 100)
@@ -78,9 +125,11 @@ export default function ProjectDetailPage() {
   const loadData = useCallback(async () => {
     try {
       setLoading(true)
-      const [projectResult, tasksResult] = await Promise.all([
+      const [projectResult, tasksResult, statusesResult, dependenciesResult] = await Promise.all([
         getProject(projectId),
-        getTasksByProject(projectId)
+        getTasksByProject(projectId),
+        getTaskStatuses(projectId),
+        getProjectTaskDependencies(projectId)
       ])
       
       if (projectResult.success && projectResult.data) {
@@ -91,11 +140,20 @@ export default function ProjectDetailPage() {
       }
       
       if (tasksResult.success && tasksResult.data) {
-        setTasks(tasksResult.data)
+        // Keep tasks flat in state; the hierarchy is rebuilt when rendering
+        setTasks(flattenTaskTree(tasksResult.data))
       } else {
         setError(tasksResult.error || 'Failed to load tasks')
         setTasks([]) // Ensure tasks is always an array
       }
+
+      if (statusesResult.success && statusesResult.data) {
+        setStatuses(statusesResult.data)
+      }
+
+      if (dependenciesResult.success && dependenciesResult.data) {
+        setPrerequisitesByTask(groupPrerequisitesByTask(dependenciesResult.data))
+      }
     } catch (err) {
       setError('Failed to load project data')
       console.error('Error loading project data:', err)
@@ -105,6 +163,21 @@ export default function ProjectDetailPage() {
     }
   }, [projectId])
 
+  // Refresh tasks and their dependencies without showing the loading state, e.g. after an undo
+  const reloadTasks = useCallback(async () => {
+    const [tasksResult, dependenciesResult] = await Promise.all([
+      getTasksByProject(projectId),
+      getProjectTaskDependencies(projectId)
+    ])
+
+    if (tasksResult.success && tasksResult.data) {
+      setTasks(flattenTaskTree(tasksResult.data))
+    }
+    if (dependenciesResult.success && dependenciesResult.data) {
+      setPrerequisitesByTask(groupPrerequisitesByTask(dependenciesResult.data))
+    }
+  }, [projectId])
+
   const handleTaskSubmit = async (data: CreateTaskData | UpdateTaskData) => {
     try {
       setTaskFormLoading(true)
@@ -130,7 +203,8 @@ export default function ProjectDetailPage() {
         if (result.success && result.data) {
           setTasks(prev => [result.data!, ...prev])
           setShowTaskForm(false)
-          setSuccess('Task created successfully!')
+          setParentTaskForForm(null)
+          setSuccess(result.data.parent_task_id ? 'Subtask created successfully!' : 'Task created successfully!')
           setTimeout(() => setSuccess(null), 3000)
         } else {
           setError(result.error || 'Failed to create task')
@@ -146,12 +220,36 @@ export default function ProjectDetailPage() {
     }
   }
 
+  // Subtasks go to the trash with their parent, and links to them are hidden while they are there
+  const removeTrashedTasks = (taskIds: string[]) => {
+    const removedIds = taskIds.flatMap(id => [id, ...getDescendantIds(tasks, id)])
+    setTasks(prev => prev.filter(t => !removedIds.includes(t.id)))
+    setPrerequisitesByTask(prev => Object.fromEntries(
+      Object.entries(prev)
+        .filter(([id]) => !removedIds.includes(id))
+        .map(([id, prerequisites]) => [id, prerequisites.filter(p => !removedIds.includes(p.id))])
+    ))
+  }
+
   const handleDeleteTask = async (taskId: string) => {
     try {
-      await deleteTask(taskId)
-      setTasks(prev => prev.filter(t => t.id !== taskId))
-      setSuccess('Task deleted successfully!')
-      setTimeout(() => setSuccess(null), 3000)
+      const task = tasks.find(t => t.id === taskId)
+      const result = await deleteTask(taskId)
+      if (!result.success) {
+        setError(result.error || 'Failed to delete task')
+        setTimeout(() => setError(null), 3000)
+        return
+      }
+
+      removeTrashedTasks([taskId])
+      pushUndo({
+        label: `"${task?.name || 'Task'}" moved to the trash`,
+        undo: async () => {
+          const restoreResult = await restoreTask(taskId)
+          if (restoreResult.success) await reloadTasks()
+          return restoreResult
+        }
+      })
     } catch (err) {
       setError('Failed to delete task')
       console.error('Error deleting task:', err)
@@ -161,13 +259,34 @@ export default function ProjectDetailPage() {
 
   const handleToggleComplete = async (taskId: string, completed: boolean) => {
     try {
-      const result = await updateTask({
-        id: taskId,
-        completed
-      })
+      // Completing a task also completes its subtasks; reopening leaves them untouched
+      const affectedIds = [taskId, ...(completed ? getDescendantIds(tasks, taskId) : [])]
+      const previousTasks = tasks.filter(t => affectedIds.includes(t.id))
+      const result = await toggleTaskCompletion(taskId, { cascade: completed })
       
       if (result.success && result.data) {
-        setTasks(prev => prev.map(t => t.id === taskId ? result.data! : t))
+        const { task: updatedTask, next_occurrence: nextOccurrence } = result.data
+        pushUndo({
+          label: `"${updatedTask.name}" marked as ${completed ? 'completed' : 'not completed'}`,
+          undo: async () => {
+            const undoResult = await undoTaskCompletion(previousTasks, nextOccurrence ? [nextOccurrence] : [])
+            if (undoResult.success) await reloadTasks()
+            return undoResult
+          }
+        })
+        setTasks(prev => {
+          const cascadedIds = completed ? getDescendantIds(prev, taskId) : []
+          const updatedTasks = prev.map(t => {
+            if (t.id === taskId) return updatedTask
+            if (cascadedIds.includes(t.id)) return { ...t, completed: updatedTask.completed, status_id: updatedTask.status_id }
+            return t
+          })
+          return nextOccurrence ? [nextOccurrence, ...updatedTasks] : updatedTasks
+        })
+        if (nextOccurrence?.due_date) {
+          setSuccess(`Next occurrence scheduled for ${format(parseISO(nextOccurrence.due_date), 'MMM d, yyyy')}`)
+          setTimeout(() => setSuccess(null), 3000)
+        }
       } else {
         setError(result.error || 'Failed to toggle task completion')
         setTimeout(() => setError(null), 3000)
@@ -179,6 +298,179 @@ export default function ProjectDetailPage() {
     }
   }
 
+  const handleMoveTask = async (taskId: string, statusId: string, position: number) => {
+    const previousTasks = tasks
+    const isDone = statuses.find(s => s.id === statusId)?.is_done || false
+    // Move the card immediately; roll back if the update fails
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, status_id: statusId, position, completed: isDone } : t))
+
+    try {
+      const result = await updateTask({ id: taskId, status_id: statusId, position })
+      
+      if (result.success && result.data) {
+        setTasks(prev => prev.map(t => t.id === taskId ? result.data! : t))
+        const previousTask = previousTasks.find(t => t.id === taskId)
+        if (previousTask) {
+          pushUndo({
+            label: `"${previousTask.name}" moved to ${statuses.find(s => s.id === statusId)?.name || 'another status'}`,
+            undo: async () => {
+              const undoResult = await revertTasks([previousTask])
+              if (undoResult.success && undoResult.data) {
+                const [reverted] = undoResult.data
+                setTasks(prev => prev.map(t => t.id === reverted.id ? reverted : t))
+              }
+              return undoResult
+            }
+          })
+        }
+      } else {
+        setTasks(previousTasks)
+        setError(result.error || 'Failed to move task')
+        setTimeout(() => setError(null), 3000)
+      }
+    } catch (err) {
+      setTasks(previousTasks)
+      setError('Failed to move task')
+      console.error('Error moving task:', err)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const handleSelectTask = (taskId: string, range: boolean) => {
+    const orderedIds = taskTree.map(task => task.id)
+
+    // Shift-click selects everything between the last clicked card and this one
+    if (range && lastSelectedTaskId && orderedIds.includes(lastSelectedTaskId)) {
+      const [from, to] = [orderedIds.indexOf(lastSelectedTaskId), orderedIds.indexOf(taskId)].sort((a, b) => a - b)
+      const rangeIds = orderedIds.slice(from, to + 1)
+      setSelectedTaskIds(prev => Array.from(new Set([...prev, ...rangeIds])))
+    } else {
+      setSelectedTaskIds(prev => prev.includes(taskId) ? prev.filter(id => id !== taskId) : [...prev, taskId])
+    }
+    setLastSelectedTaskId(taskId)
+  }
+
+  const clearSelection = () => {
+    setSelectedTaskIds([])
+    setLastSelectedTaskId(null)
+  }
+
+  const describeTaskCount = (count: number) => count === 1 ? '1 task' : `${count} tasks`
+
+  const describeBulkUpdate = (updates: BulkUpdateTaskData) => {
+    if (updates.completed !== undefined) return `marked as ${updates.completed ? 'completed' : 'not completed'}`
+    if (updates.priority) return `set to ${updates.priority} priority`
+    return updates.due_date ? `due ${format(parseISO(updates.due_date), 'MMM d, yyyy')}` : 'no longer have a due date'
+  }
+
+  const handleBulkUpdate = async (updates: BulkUpdateTaskData) => {
+    const taskIds = selectedIds
+    // Completing also completes subtasks, so keep their previous state for undo too
+    const affectedIds = taskIds.flatMap(id => [id, ...(updates.completed ? getDescendantIds(tasks, id) : [])])
+    const previousTasks = tasks.filter(t => affectedIds.includes(t.id))
+
+    try {
+      const result = await bulkUpdateTasks(taskIds, updates)
+
+      if (result.success && result.data) {
+        const { tasks: updatedTasks, next_occurrences: nextOccurrences } = result.data
+        setTasks(prev => [...nextOccurrences, ...prev.map(t => updatedTasks.find(updated => updated.id === t.id) || t)])
+        pushUndo({
+          label: `${describeTaskCount(taskIds.length)} ${describeBulkUpdate(updates)}`,
+          undo: async () => {
+            const undoResult = updates.completed !== undefined
+              ? await undoTaskCompletion(previousTasks, nextOccurrences)
+              : await revertTasks(previousTasks)
+            if (undoResult.success) await reloadTasks()
+            return undoResult
+          }
+        })
+      } else {
+        setError(result.error || 'Failed to update tasks')
+        setTimeout(() => setError(null), 3000)
+      }
+    } catch (err) {
+      setError('Failed to update tasks')
+      console.error('Error updating tasks:', err)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const handleBulkMove = async (targetProject: Project) => {
+    const taskIds = selectedIds
+
+    try {
+      const result = await bulkMoveTasks(taskIds, targetProject.id)
+
+      if (result.success && result.data) {
+        const movedIds = result.data
+        // The move detaches and unassigns some tasks, so keep what to restore
+        const previousTasks = tasks.filter(t => movedIds.includes(t.id))
+        setTasks(prev => prev.filter(t => !movedIds.includes(t.id)))
+        clearSelection()
+        pushUndo({
+          label: `${describeTaskCount(taskIds.length)} moved to ${targetProject.name}`,
+          undo: async () => {
+            const undoResult = await undoMoveTasks(previousTasks, projectId)
+            if (undoResult.success) await reloadTasks()
+            return undoResult
+          }
+        })
+      } else {
+        setError(result.error || 'Failed to move tasks')
+        setTimeout(() => setError(null), 3000)
+      }
+    } catch (err) {
+      setError('Failed to move tasks')
+      console.error('Error moving tasks:', err)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const handleBulkDelete = async () => {
+    const taskIds = selectedIds
+
+    try {
+      const result = await bulkDeleteTasks(taskIds)
+
+      if (result.success) {
+        removeTrashedTasks(taskIds)
+        clearSelection()
+        pushUndo({
+          label: `${describeTaskCount(taskIds.length)} moved to the trash`,
+          undo: async () => {
+            for (const taskId of taskIds) {
+              const restoreResult = await restoreTask(taskId)
+              if (!restoreResult.success) return restoreResult
+            }
+            await reloadTasks()
+            return { success: true, data: null }
+          }
+        })
+      } else {
+        setError(result.error || 'Failed to delete tasks')
+        setTimeout(() => setError(null), 3000)
+      }
+    } catch (err) {
+      setError('Failed to delete tasks')
+      console.error('Error deleting tasks:', err)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const handleStatusesChange = (nextStatuses: TaskStatus[]) => {
+    setStatuses(nextStatuses)
+
+    // Tasks from a deleted status were moved server-side, so reload them
+    if (tasks.some(t => !nextStatuses.some(s => s.id === t.status_id))) {
+      loadData()
+      return
+    }
+
+    // Completion follows each status's done flag
+    setTasks(prev => prev.map(t => ({ ...t, completed: isTaskDone(t, nextStatuses) })))
+  }
+
   const handleViewTask = (task: Task) => {
     setSelectedTask(task)
     setShowTaskDetail(true)
@@ -186,6 +478,13 @@ export default function ProjectDetailPage() {
 
   const openCreateTaskForm = () => {
     setEditingTask(null)
+    setParentTaskForForm(null)
+    setShowTaskForm(true)
+  }
+
+  const openCreateSubtaskForm = (parentTask: Task) => {
+    setEditingTask(null)
+    setParentTaskForForm(parentTask)
     setShowTaskForm(true)
   }
 
@@ -197,6 +496,7 @@ export default function ProjectDetailPage() {
   const closeTaskForm = () => {
     setShowTaskForm(false)
     setEditingTask(null)
+    setParentTaskForForm(null)
   }
 
   const closeTaskDetail = () => {
@@ -206,7 +506,66 @@ export default function ProjectDetailPage() {
 
   const handleTaskUpdate = (updatedTask: Task) => {
     setTasks(prev => prev.map(t => t.id === updatedTask.id ? updatedTask : t))
-    setSelectedTask(updatedTask) // Update the selected task for the modal
+    // Update the selected task for the modal, unless it has since moved on to another task
+    setSelectedTask(prev => prev?.id === updatedTask.id ? updatedTask : prev)
+  }
+
+  const handleTaskRemoved = (taskId: string) => {
+    setTasks(prev => prev.filter(t => t.id !== taskId))
+  }
+
+  const handleTaskMovedToProject = (task: Task, targetProject: Project) => {
+    // Subtasks move with the task
+    const movedIds = [task.id, ...getDescendantIds(tasks, task.id)]
+    // The move detaches the task from its parent and may unassign tasks, so keep what to restore
+    const previousTasks = tasks.filter(t => movedIds.includes(t.id))
+    setTasks(prev => prev.filter(t => !movedIds.includes(t.id)))
+    if (selectedTask?.id === task.id) {
+      closeTaskDetail()
+    }
+    pushUndo({
+      label: `"${task.name}" moved to ${targetProject.name}`,
+      undo: async () => {
+        const undoResult = await undoMoveTasks(previousTasks, projectId)
+        if (undoResult.success) await reloadTasks()
+        return undoResult
+      }
+    })
+  }
+
+  const handleTaskDuplicated = (copy: Task, targetProject: Project) => {
+    if (copy.project_id === projectId) {
+      setTasks(prev => [copy, ...prev])
+    }
+    pushUndo({
+      label: `"${copy.name}" copied to ${targetProject.name}`,
+      undo: async () => {
+        const undoResult = await deleteTask(copy.id)
+        if (undoResult.success) {
+          setTasks(prev => prev.filter(t => t.id !== copy.id))
+        }
+        return undoResult
+      }
+    })
+  }
+
+  const handleTaskCreated = (newTask: Task) => {
+    setTasks(prev => [newTask, ...prev])
+  }
+
+  const handleDependenciesChange = (taskId: string, prerequisites: LinkedTask[]) => {
+    setPrerequisitesByTask(prev => ({ ...prev, [taskId]: prerequisites }))
+  }
+
+  // Prerequisites in this project reflect local completion changes; others use the loaded state
+  const getBlockedBy = (taskId: string): LinkedTask[] => {
+    return (prerequisitesByTask[taskId] || []).map(prerequisite => 
+      tasks.find(t => t.id === prerequisite.id) || prerequisite
+    )
+  }
+
+  const isTaskBlocked = (task: Task) => {
+    return !task.completed && getIncompletePrerequisites(getBlockedBy(task.id)).length > 0
   }
 
   // Task sorting function
@@ -268,13 +627,32 @@ export default function ProjectDetailPage() {
           return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
         })
       
+      case 'ready-first':
+        return tasksCopy.sort((a, b) => {
+          // Tasks that can be started now, then blocked tasks, then completed tasks
+          const rank = (task: Task) => task.completed ? 2 : isTaskBlocked(task) ? 1 : 0
+          const rankDiff = rank(a) - rank(b)
+          if (rankDiff !== 0) return rankDiff
+          // Secondary sort by creation date (newest first) for same readiness
+          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        })
+      
       default:
         return tasksCopy
     }
   }
 
-  // Get sorted tasks
-  const sortedTasks = sortTasks(tasks, taskSortBy)
+  // Only offer tags used in this project; drop the filter once its tag is no longer on any task
+  const projectTags = getUniqueTags(tasks)
+  const activeTagFilter = projectTags.some(tag => tag.id === tagFilter) ? tagFilter : null
+  // Subtasks matching the filter without their parent are shown at the top level
+  const visibleTasks = tasks.filter(t => hasAnyTag(t, activeTagFilter ? [activeTagFilter] : []))
+
+  // Get sorted tasks, nesting subtasks under their parents (siblings keep the sort order)
+  const sortedTasks = sortTasks(visibleTasks, taskSortBy)
+  const taskTree = buildTaskTree(sortedTasks)
+  // Selection only covers the cards currently listed
+  const selectedIds = selectedTaskIds.filter(id => taskTree.some(task => task.id === id))
 
   // Calculate task statistics
   const completedTasks = tasks.filter(t => t.completed).length
@@ -285,6 +663,10 @@ export default function ProjectDetailPage() {
     return new Date(t.due_date) < new Date() && !t.completed
   }).length
 
+  // Viewers get a read-only page; only owners manage members
+  const canEdit = project?.role !== 'viewer'
+  const isOwner = !project?.role || project.role === 'owner'
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -425,6 +807,12 @@ export default function ProjectDetailPage() {
                             <span className="text-sm font-semibold text-red-700">{overdueTasks} Overdue</span>
                           </div>
                         )}
+                        {!canEdit && (
+                          <div className="flex items-center gap-2 px-3 py-1.5 bg-purple-50 rounded-lg border border-purple-200/50">
+                            <Eye className="size-4 text-purple-600" />
+                            <span className="text-sm font-semibold text-purple-700">View only</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -438,12 +826,50 @@ export default function ProjectDetailPage() {
                     size="sm"
                   />
                   <Button
-                    onClick={openCreateTaskForm}
-                    className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold px-4 py-2 h-10 transition-all duration-300 hover:scale-105 hover:shadow-lg"
+                    variant="outline"
+                    onClick={() => setShowSaveTemplate(true)}
+                    className="h-10 bg-white/70 border-gray-200 hover:bg-blue-50 hover:text-blue-700"
+                  >
+                    <LayoutTemplate className="size-4 mr-2" />
+                    Save as Template
+                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowCsvImport(true)}
+                      className="h-10 bg-white/70 border-gray-200 hover:bg-blue-50 hover:text-blue-700"
+                    >
+                      <FileSpreadsheet className="size-4 mr-2" />
+                      Import CSV
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push(`/projects/${projectId}/timeline`)}
+                    className="h-10 bg-white/70 border-gray-200 hover:bg-blue-50 hover:text-blue-700"
                   >
-                    <Plus className="size-4 mr-2" />
-                    Add Task
+                    <GanttChart className="size-4 mr-2" />
+                    Timeline
                   </Button>
+                  {isOwner && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowMembersDialog(true)}
+                      className="h-10 bg-white/70 border-gray-200 hover:bg-blue-50 hover:text-blue-700"
+                    >
+                      <Users className="size-4 mr-2" />
+                      Share
+                    </Button>
+                  )}
+                  {canEdit && (
+                    <Button
+                      onClick={openCreateTaskForm}
+                      className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold px-4 py-2 h-10 transition-all duration-300 hover:scale-105 hover:shadow-lg"
+                    >
+                      <Plus className="size-4 mr-2" />
+                      Add Task
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -490,71 +916,166 @@ export default function ProjectDetailPage() {
                 </div>
               </div>
               
-              {/* Sort Dropdown */}
-              {tasks.length > 0 && (
-                <div className="flex items-center gap-2">
-                  <ArrowUpDown className="size-4 text-gray-500" />
-                  <Select value={taskSortBy} onValueChange={setTaskSortBy}>
-                    <SelectTrigger className="w-48 bg-white/70 backdrop-blur-sm border-gray-200 hover:bg-white transition-all duration-200">
-                      <SelectValue placeholder="Sort tasks..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="created-desc">
-                        <div className="flex items-center gap-2">
-                          <Clock className="size-4 text-gray-500" />
-                          <span>Newest First</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="created-asc">
-                        <div className="flex items-center gap-2">
-                          <Clock className="size-4 text-gray-500" />
-                          <span>Oldest First</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="priority-high">
-                        <div className="flex items-center gap-2">
-                          <Flag className="size-4 text-red-500" />
-                          <span>High Priority First</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="priority-low">
-                        <div className="flex items-center gap-2">
-                          <Flag className="size-4 text-green-500" />
-                          <span>Low Priority First</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="due-earliest">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="size-4 text-orange-500" />
-                          <span>Due Date (Earliest)</span>
-                        </div>
-                      </SelectItem>
-                      <SelectItem value="due-latest">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="size-4 text-blue-500" />
-                          <span>Due Date (Latest)</span>
-                        </div>
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
+              <div className="flex items-center gap-3">
+                {/* View Toggle */}
+                {tasks.length > 0 && (
+                  <div className="flex items-center rounded-lg border border-gray-200 bg-white/70 p-0.5" role="group" aria-label="Task view">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTaskView('list')}
+                      className={taskView === 'list' ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+                      aria-pressed={taskView === 'list'}
+                    >
+                      <List className="size-4 mr-1" />
+                      List
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setTaskView('board')}
+                      className={taskView === 'board' ? 'bg-blue-50 text-blue-700' : 'text-gray-600'}
+                      aria-pressed={taskView === 'board'}
+                    >
+                      <SquareKanban className="size-4 mr-1" />
+                      Board
+                    </Button>
+                  </div>
+                )}
+
+                {/* Status Management */}
+                {canEdit && tasks.length > 0 && taskView === 'board' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowStatusManager(true)}
+                    className="bg-white/70 border-gray-200 hover:bg-white"
+                  >
+                    <Settings2 className="size-4 mr-1" />
+                    Statuses
+                  </Button>
+                )}
+
+                {/* Tag Filter */}
+                {projectTags.length > 0 && (
+                  <TagFilter tags={projectTags} value={activeTagFilter} onChange={setTagFilter} />
+                )}
+
+                {/* Sort Dropdown (the board is ordered manually) */}
+                {tasks.length > 0 && taskView === 'list' && (
+                  <div className="flex items-center gap-2">
+                    <ArrowUpDown className="size-4 text-gray-500" />
+                    <Select value={taskSortBy} onValueChange={setTaskSortBy}>
+                      <SelectTrigger className="w-48 bg-white/70 backdrop-blur-sm border-gray-200 hover:bg-white transition-all duration-200">
+                        <SelectValue placeholder="Sort tasks..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="created-desc">
+                          <div className="flex items-center gap-2">
+                            <Clock className="size-4 text-gray-500" />
+                            <span>Newest First</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="created-asc">
+                          <div className="flex items-center gap-2">
+                            <Clock className="size-4 text-gray-500" />
+                            <span>Oldest First</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="priority-high">
+                          <div className="flex items-center gap-2">
+                            <Flag className="size-4 text-red-500" />
+                            <span>High Priority First</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="priority-low">
+                          <div className="flex items-center gap-2">
+                            <Flag className="size-4 text-green-500" />
+                            <span>Low Priority First</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="due-earliest">
+                          <div className="flex items-center gap-2">
+                            <Calendar className="size-4 text-orange-500" />
+                            <span>Due Date (Earliest)</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="due-latest">
+                          <div className="flex items-center gap-2">
+                            <Calendar className="size-4 text-blue-500" />
+                            <span>Due Date (Latest)</span>
+                          </div>
+                        </SelectItem>
+                        <SelectItem value="ready-first">
+                          <div className="flex items-center gap-2">
+                            <PlayCircle className="size-4 text-green-500" />
+                            <span>Ready to Start</span>
+                          </div>
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
             </div>
 
-            {tasks.length > 0 ? (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {sortedTasks.map((task, index) => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onEdit={openEditTaskForm}
-                    onDelete={handleDeleteTask}
-                    onViewDetails={handleViewTask}
-                    onToggleComplete={handleToggleComplete}
-                    animationDelay={index * 100}
+            {tasks.length > 0 && visibleTasks.length === 0 ? (
+              <Card className="border-2 border-dashed border-gray-200 bg-gray-50/50">
+                <CardContent className="p-8 text-center">
+                  <p className="text-gray-600 mb-4">No tasks have this tag</p>
+                  <Button variant="outline" onClick={() => setTagFilter(null)}>
+                    Show all tasks
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : tasks.length > 0 && taskView === 'board' ? (
+              <TaskBoard
+                tasks={buildTaskTree(visibleTasks)}
+                statuses={statuses}
+                getBlockedBy={getBlockedBy}
+                onMoveTask={canEdit ? handleMoveTask : undefined}
+                onEdit={openEditTaskForm}
+                onDelete={handleDeleteTask}
+                onViewDetails={handleViewTask}
+                onToggleComplete={canEdit ? handleToggleComplete : undefined}
+                onAddSubtask={openCreateSubtaskForm}
+              />
+            ) : tasks.length > 0 ? (
+              <>
+                {canEdit && selectedIds.length > 0 && (
+                  <BulkTaskActionBar
+                    projectId={projectId}
+                    selectedCount={selectedIds.length}
+                    totalCount={taskTree.length}
+                    onUpdate={handleBulkUpdate}
+                    onMove={handleBulkMove}
+                    onDelete={handleBulkDelete}
+                    onSelectAll={() => setSelectedTaskIds(taskTree.map(task => task.id))}
+                    onClearSelection={clearSelection}
                   />
-                ))}
-              </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {taskTree.map(({ subtasks, ...task }, index) => (
+                    <TaskCard
+                      key={task.id}
+                      task={task}
+                      subtasks={subtasks}
+                      blockedBy={getBlockedBy(task.id)}
+                      onEdit={openEditTaskForm}
+                      onDelete={handleDeleteTask}
+                      onViewDetails={handleViewTask}
+                      onToggleComplete={canEdit ? handleToggleComplete : undefined}
+                      onAddSubtask={openCreateSubtaskForm}
+                      onMoveToProject={canEdit ? (task) => setProjectDialog({ task, action: 'move' }) : undefined}
+                      onDuplicateToProject={canEdit ? (task) => setProjectDialog({ task, action: 'duplicate' }) : undefined}
+                      onSelect={canEdit ? handleSelectTask : undefined}
+                      isSelected={selectedIds.includes(task.id)}
+                      showActions={canEdit}
+                      animationDelay={index * 100}
+                    />
+                  ))}
+                </div>
+              </>
             ) : (
               <Card className="border-2 border-dashed border-blue-200 bg-blue-50/30">
                 <CardContent className="p-8 text-center">
@@ -562,21 +1083,50 @@ export default function ProjectDetailPage() {
                     <FileText className="size-8 text-blue-600" />
                   </div>
                   <h4 className="text-lg font-semibold text-gray-900 mb-2">No tasks yet</h4>
-                  <p className="text-gray-600 mb-4">Create your first task to get started</p>
-                  <Button
-                    onClick={openCreateTaskForm}
-                    variant="outline"
-                    className="border-blue-300 text-blue-700 hover:bg-blue-50"
-                  >
-                    <Plus className="size-4 mr-2" />
-                    Create Task
-                  </Button>
+                  <p className="text-gray-600 mb-4">
+                    {canEdit ? 'Create your first task to get started' : 'Nobody has added tasks to this project yet'}
+                  </p>
+                  {canEdit && (
+                    <Button
+                      onClick={openCreateTaskForm}
+                      variant="outline"
+                      className="border-blue-300 text-blue-700 hover:bg-blue-50"
+                    >
+                      <Plus className="size-4 mr-2" />
+                      Create Task
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             )}
           </div>
 
-          
+          {/* Activity Section */}
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-gray-100 to-gray-200 rounded-lg shadow-sm">
+                  <History className="size-6 text-gray-700" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold text-gray-900">Activity</h3>
+                  <p className="text-gray-600 text-sm">Who changed what, and when</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowActivity(prev => !prev)}
+                aria-expanded={showActivity}
+              >
+                {showActivity ? 'Hide activity' : 'Show activity'}
+              </Button>
+            </div>
+
+            {showActivity && (
+              <ProjectActivityFeed projectId={projectId} statuses={statuses} />
+            )}
+          </div>
         </div>
       </div>
 
@@ -590,7 +1140,7 @@ export default function ProjectDetailPage() {
                 <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
                   <FileText className="size-6 text-white" />
                 </div>
-                {editingTask ? 'Edit Task' : 'Create New Task'}
+                {editingTask ? 'Edit Task' : parentTaskForForm ? 'Create New Subtask' : 'Create New Task'}
               </DialogTitle>
             </DialogHeader>
             
@@ -599,6 +1149,7 @@ export default function ProjectDetailPage() {
               onClose={closeTaskForm}
               onSubmit={handleTaskSubmit}
               task={editingTask}
+              parentTask={parentTaskForForm}
               projectId={projectId}
               isLoading={taskFormLoading}
             />
@@ -612,7 +1163,75 @@ export default function ProjectDetailPage() {
         isOpen={showTaskDetail}
         onClose={closeTaskDetail}
         onTaskUpdate={handleTaskUpdate}
+        onTaskCreated={handleTaskCreated}
+        onTaskRemoved={handleTaskRemoved}
+        onMoveToProject={(task) => setProjectDialog({ task, action: 'move' })}
+        onDuplicateToProject={(task) => setProjectDialog({ task, action: 'duplicate' })}
+        onDependenciesChange={handleDependenciesChange}
+        statuses={statuses}
+        readOnly={!canEdit}
+      />
+
+      {/* Move or copy a task to another project */}
+      <TaskProjectDialog
+        task={projectDialog?.task || null}
+        action={projectDialog?.action || 'move'}
+        isOpen={projectDialog !== null}
+        onClose={() => setProjectDialog(null)}
+        onMoved={handleTaskMovedToProject}
+        onDuplicated={handleTaskDuplicated}
+      />
+
+      {/* Task Status Manager */}
+      <TaskStatusManager
+        isOpen={showStatusManager}
+        onClose={() => setShowStatusManager(false)}
+        projectId={projectId}
+        statuses={statuses}
+        taskCounts={tasks.reduce<Record<string, number>>((counts, t) => {
+          counts[t.status_id] = (counts[t.status_id] || 0) + 1
+          return counts
+        }, {})}
+        onStatusesChange={handleStatusesChange}
       />
+
+      {/* Members and Invitations */}
+      {project && isOwner && (
+        <ProjectMembersDialog
+          isOpen={showMembersDialog}
+          onClose={() => setShowMembersDialog(false)}
+          projectId={projectId}
+          creatorId={project.user_id}
+        />
+      )}
+
+      {/* CSV Task Import */}
+      {canEdit && (
+        <TaskCsvImportDialog
+          projectId={projectId}
+          statuses={statuses}
+          isOpen={showCsvImport}
+          onClose={() => setShowCsvImport(false)}
+          onImported={async (importedTasks) => {
+            await reloadTasks()
+            setSuccess(`Imported ${importedTasks.length} ${importedTasks.length === 1 ? 'task' : 'tasks'}`)
+            setTimeout(() => setSuccess(null), 3000)
+          }}
+        />
+      )}
+
+      {/* Save as Template */}
+      {project && (
+        <SaveTemplateDialog
+          project={project}
+          isOpen={showSaveTemplate}
+          onClose={() => setShowSaveTemplate(false)}
+          onSaved={(template) => {
+            setSuccess(`Saved template "${template.name}"`)
+            setTimeout(() => setSuccess(null), 3000)
+          }}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import { useRouter, useParams } from 'next/navigation'
+import { addDays, eachDayOfInterval, format, max, min, parseISO, startOfWeek } from 'date-fns'
+import { ArrowLeft, GanttChart, AlertCircle, CheckCircle2, CalendarOff } from 'lucide-react'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { getProject, getTasksByProject, updateProject, updateTask } from '@/lib/database'
+import { Project, Task, TaskWithSubtasks } from '@/types'
+import { TaskTimeline, TimelineItem } from '@/components/task/TaskTimeline'
+import { AuthHeader } from '@/components/common/AuthHeader'
+import { Button } from '@/components/ui/button'
+
+// Minimum number of days shown, so short projects still get a usable grid
+const MIN_TIMELINE_DAYS = 28
+
+/**
+ * Flatten a task tree into timeline rows, keeping each subtask under its parent
+ */
+const toTimelineItems = (tasks: TaskWithSubtasks[], depth = 0): TimelineItem[] => {
+  return tasks.flatMap(({ subtasks, ...task }) => [
+    { type: 'task' as const, id: task.id, task, depth },
+    ...toTimelineItems(subtasks, depth + 1)
+  ])
+}
+
+export default function ProjectTimelinePage() {
+  const { user } = useAuth()
+  const router = useRouter()
+  const params = useParams()
+  const projectId = params.id as string
+
+  const [project, setProject] = useState<Project | null>(null)
+  const [tasks, setTasks] = useState<TaskWithSubtasks[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [projectResult, tasksResult] = await Promise.all([
+        getProject(projectId),
+        getTasksByProject(projectId)
+      ])
+
+      if (projectResult.success && projectResult.data) {
+        setProject(projectResult.data)
+      } else {
+        setError(projectResult.error || 'Failed to load project')
+        return
+      }
+
+      if (tasksResult.success && tasksResult.data) {
+        setTasks(tasksResult.data)
+      } else {
+        setError(tasksResult.error || 'Failed to load tasks')
+      }
+    } catch (err) {
+      setError('Failed to load timeline')
+      console.error('Error loading timeline data:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    if (user && projectId) {
+      loadData()
+    }
+  }, [user, projectId, loadData])
+
+  const showMessage = (message: string, type: 'success' | 'error') => {
+    if (type === 'success') {
+      setSuccess(message)
+      setTimeout(() => setSuccess(null), 3000)
+    } else {
+      setError(message)
+      setTimeout(() => setError(null), 3000)
+    }
+  }
+
+  const replaceTask = (tree: TaskWithSubtasks[], updated: Task): TaskWithSubtasks[] => {
+    return tree.map(t => t.id === updated.id
+      ? { ...t, ...updated }
+      : { ...t, subtasks: replaceTask(t.subtasks, updated) })
+  }
+
+  const handleChangeDates = async (item: TimelineItem, startDate: string | null, dueDate: string | null) => {
+    const rangeLabel = [startDate, dueDate].filter(Boolean).map(d => format(parseISO(d!), 'MMM d')).join(' – ')
+
+    if (item.type === 'task') {
+      const previousTasks = tasks
+      setTasks(prev => replaceTask(prev, { ...item.task, start_date: startDate, due_date: dueDate }))
+
+      try {
+        const result = await updateTask({ id: item.id, start_date: startDate, due_date: dueDate })
+        if (result.success && result.data) {
+          setTasks(prev => replaceTask(prev, result.data!))
+          showMessage(`"${result.data.name}" rescheduled to ${rangeLabel}`, 'success')
+        } else {
+          setTasks(previousTasks)
+          showMessage(result.error || 'Failed to reschedule task', 'error')
+        }
+      } catch (err) {
+        setTasks(previousTasks)
+        showMessage('Failed to reschedule task', 'error')
+        console.error('Error rescheduling task:', err)
+      }
+    } else {
+      const previousProject = project
+      setProject(prev => prev && { ...prev, start_date: startDate, due_date: dueDate })
+
+      try {
+        const result = await updateProject({ id: item.id, start_date: startDate, due_date: dueDate })
+        if (result.success && result.data) {
+          setProject(result.data)
+          showMessage(`Project rescheduled to ${rangeLabel}`, 'success')
+        } else {
+          setProject(previousProject)
+          showMessage(result.error || 'Failed to reschedule project', 'error')
+        }
+      } catch (err) {
+        setProject(previousProject)
+        showMessage('Failed to reschedule project', 'error')
+        console.error('Error rescheduling project:', err)
+      }
+    }
+  }
+
+  const handleItemClick = (item: TimelineItem) => {
+    router.push(item.type === 'task' ? `/projects/${projectId}?task=${item.id}` : `/projects/${projectId}`)
+  }
+
+  if (!user || loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+        <AuthHeader />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="h-10 w-64 bg-gray-200 rounded mb-6 animate-pulse"></div>
+          <div className="h-[500px] bg-gray-200 rounded-xl animate-pulse"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!project) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+        <AuthHeader />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-16">
+            <div className="w-24 h-24 mx-auto bg-red-100 rounded-full flex items-center justify-center mb-6">
+              <AlertCircle className="size-12 text-red-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Project Not Found</h2>
+            <p className="text-gray-600 mb-8">The project you&apos;re looking for doesn&apos;t exist or you don&apos;t have access to it.</p>
+            <Button
+              onClick={() => router.push('/projects')}
+              className="bg-blue-600 hover:bg-blue-700 text-white"
+            >
+              <ArrowLeft className="size-4 mr-2" />
+              Back to Projects
+            </Button>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const items: TimelineItem[] = [
+    { type: 'project', id: project.id, project },
+    ...toTimelineItems(tasks)
+  ]
+  const unscheduledTasks = items.flatMap(item =>
+    item.type === 'task' && !item.task.start_date && !item.task.due_date ? [item] : []
+  )
+
+  // Span every scheduled date plus today, padded by a few days on each side
+  const scheduledDates = items.flatMap(item => {
+    const dates = item.type === 'task'
+      ? [item.task.start_date, item.task.due_date]
+      : [item.project.start_date, item.project.due_date]
+    return dates.filter((d): d is string => Boolean(d)).map(d => parseISO(d))
+  })
+  const today = new Date()
+  const rangeStart = startOfWeek(addDays(min([today, ...scheduledDates]), -3), { weekStartsOn: 1 })
+  const rangeEnd = max([addDays(max([today, ...scheduledDates]), 7), addDays(rangeStart, MIN_TIMELINE_DAYS - 1)])
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+      <AuthHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => router.push(`/projects/${projectId}`)}
+            className="group hover:bg-blue-50 hover:text-blue-700 transition-all duration-300 hover:scale-105"
+          >
+            <ArrowLeft className="size-4 mr-2 transition-transform duration-300 group-hover:-translate-x-1" />
+            Back to Project
+          </Button>
+        </div>
+
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+            <GanttChart className="size-6 text-white" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900 truncate">{project.name} Timeline</h1>
+            <p className="text-gray-600 text-sm">Drag a bar to move it, or drag its edges to change the start and due dates</p>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-red-200 border border-red-400" />High priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-yellow-200 border border-yellow-400" />Medium priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-green-200 border border-green-400" />Low priority</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-gray-200 border border-gray-300" />Completed</span>
+          <span className="flex items-center gap-1"><span className="size-3 rounded bg-purple-200 border border-purple-400" />Project</span>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" role="status">
+            <CheckCircle2 className="size-4" />
+            {success}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4" />
+            {error}
+          </div>
+        )}
+
+        <TaskTimeline
+          items={items}
+          days={days}
+          onChangeDates={handleChangeDates}
+          onItemClick={handleItemClick}
+        />
+
+        {/* Tasks without dates can't be drawn; list them so nothing is hidden */}
+        {unscheduledTasks.length > 0 && (
+          <div className="mt-6 rounded-xl border border-gray-200/60 bg-white/80 p-4">
+            <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-1">
+              <CalendarOff className="size-4 text-gray-500" />
+              Unscheduled ({unscheduledTasks.length})
+            </h2>
+            <p className="text-xs text-gray-500 mb-3">Give these tasks a start or due date to place them on the timeline.</p>
+            <ul className="flex flex-wrap gap-2">
+              {unscheduledTasks.map(item => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    onClick={() => handleItemClick(item)}
+                    className="px-2 py-1 rounded border border-gray-200 bg-white text-xs font-medium text-gray-700 hover:border-blue-300 hover:text-blue-700"
+                  >
+                    {item.task.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,17 +2,23 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
-import { Plus, FolderPlus, BarChart3, Target, CheckCircle2, Clock, TrendingUp, Activity, Sparkles, RefreshCw, WifiOff, AlertTriangle, X } from 'lucide-react'
+import { Plus, FolderPlus, BarChart3, Target, CheckCircle2, Clock, TrendingUp, Activity, Sparkles, RefreshCw, WifiOff, AlertTriangle, X, Upload } from 'lucide-react'
 
-import { Project } from '@/types'
-import { getProjects, createProject, updateProject, deleteProject } from '@/lib/database'
+import { Project, Tag, CreateProjectData } from '@/types'
+import { getProjects, getTags, createProject, createProjectFromTemplate, updateProject, deleteProject, restoreProject } from '@/lib/database'
 import { useAuth } from '@/contexts/AuthContext'
+import { useUndo } from '@/contexts/UndoContext'
 
 import { Button } from '@/components/ui/button'
 import { Card, CardHeader, CardContent } from '@/components/ui/card'
 import { ProjectCard } from '@/components/project/ProjectCard'
 import { ProjectForm } from '@/components/project/ProjectForm'
+import { DuplicateProjectDialog } from '@/components/project/DuplicateProjectDialog'
+import { ImportProjectDialog } from '@/components/project/ImportProjectDialog'
 import { AuthHeader } from '@/components/common/AuthHeader'
+import { AccountExportButton } from '@/components/common/AccountExportButton'
+import { TagFilter } from '@/components/tag/TagFilter'
+import { PendingInvitations } from '@/components/project/PendingInvitations'
 
 interface ErrorState {
   message: string
@@ -28,16 +34,21 @@ interface CustomError extends Error {
 export default function ProjectsPage() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
+  const { pushUndo } = useUndo()
   
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<ErrorState | null>(null)
   const [isCreating, setIsCreating] = useState(false)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [duplicatingProject, setDuplicatingProject] = useState<Project | null>(null)
+  const [showImportDialog, setShowImportDialog] = useState(false)
   const [showSuccessMessage, setShowSuccessMessage] = useState(false)
   const [successMessage, setSuccessMessage] = useState('')
   const [isOnline, setIsOnline] = useState(typeof navigator !== 'undefined' ? navigator.onLine : true)
   const [isRetrying, setIsRetrying] = useState(false)
+  const [tags, setTags] = useState<Tag[]>([])
+  const [tagFilter, setTagFilter] = useState<string | null>(null)
 
   // Enhanced error classification
   const classifyError = (error: unknown, retryCount: number = 0): ErrorState => {
@@ -149,7 +160,7 @@ export default function ProjectsPage() {
       setError(null)
       
       const response = await retryWithBackoff(async () => {
-      const result = await getProjects()
+      const result = await getProjects(tagFilter ? { tag_ids: [tagFilter] } : undefined)
         if (!result.success) {
           const customError = new Error(result.error || 'Failed to load projects') as CustomError
           customError.status = 500 // Default status for API errors
@@ -181,7 +192,15 @@ export default function ProjectsPage() {
       setLoading(false)
       setIsRetrying(false)
     }
-  }, [user])
+  }, [user, tagFilter])
+
+  // Tags can be created from the project form, so these are reloaded after saving
+  const loadTags = useCallback(async () => {
+    const result = await getTags()
+    if (result.success && result.data) {
+      setTags(result.data)
+    }
+  }, [])
 
   useEffect(() => {
     if (user) {
@@ -189,6 +208,12 @@ export default function ProjectsPage() {
     }
   }, [user, loadProjects])
 
+  useEffect(() => {
+    if (user) {
+      loadTags()
+    }
+  }, [user, loadTags])
+
   // Enhanced retry handler
   const handleRetry = async () => {
     if (error?.type === 'validation' && error.message.includes('session has expired')) {
@@ -235,7 +260,7 @@ export default function ProjectsPage() {
     setTimeout(() => setShowSuccessMessage(false), 4000)
   }
 
-  const handleCreateProject = async (data: { name: string; description: string | null; due_date: string | null }) => {
+  const handleCreateProject = async (data: CreateProjectData, templateId?: string) => {
     if (!user) return
     
     try {
@@ -243,11 +268,9 @@ export default function ProjectsPage() {
       setError(null)
       
       await retryWithBackoff(async () => {
-        const result = await createProject({
-          name: data.name,
-          description: data.description,
-          due_date: data.due_date
-        })
+        const result = templateId
+          ? await createProjectFromTemplate(templateId, data)
+          : await createProject(data)
         
         if (!result.success) {
           const customError = new Error(result.error || 'Failed to create project') as CustomError
@@ -255,9 +278,9 @@ export default function ProjectsPage() {
           throw customError
         }
         return result
-      })
+      }, 3) // A failed template project is removed, so retrying won't leave duplicates
       
-      await loadProjects()
+      await Promise.all([loadProjects(), loadTags()])
       showSuccess('🎉 Project created successfully!')
     } catch (err: unknown) {
       console.error('Error creating project:', err)
@@ -268,7 +291,7 @@ export default function ProjectsPage() {
     }
   }
 
-  const handleEditProject = async (data: { name: string; description: string | null; due_date: string | null }) => {
+  const handleEditProject = async (data: CreateProjectData) => {
     if (!editingProject) return
     
     try {
@@ -276,10 +299,8 @@ export default function ProjectsPage() {
       
       await retryWithBackoff(async () => {
         const result = await updateProject({
-        id: editingProject.id,
-          name: data.name,
-          description: data.description,
-          due_date: data.due_date
+          id: editingProject.id,
+          ...data
         })
         
         if (!result.success) {
@@ -290,7 +311,7 @@ export default function ProjectsPage() {
         return result
       })
       
-      await loadProjects()
+      await Promise.all([loadProjects(), loadTags()])
       setEditingProject(null)
       showSuccess('✅ Project updated successfully!')
     } catch (err: unknown) {
@@ -315,8 +336,16 @@ export default function ProjectsPage() {
         return result
       })
       
+      const projectName = projects.find(p => p.id === projectId)?.name || 'Project'
       await loadProjects()
-      showSuccess('🗑️ Project deleted successfully!')
+      pushUndo({
+        label: `"${projectName}" moved to the trash`,
+        undo: async () => {
+          const result = await restoreProject(projectId)
+          if (result.success) await loadProjects()
+          return result
+        }
+      })
     } catch (err: unknown) {
       console.error('Error deleting project:', err)
       const errorState = classifyError(err)
@@ -478,6 +507,14 @@ export default function ProjectsPage() {
           </div>
         )}
 
+        {/* Invitations to other people's projects */}
+        <PendingInvitations
+          onAccepted={(invitation) => {
+            loadProjects()
+            showSuccess(`🤝 You joined "${invitation.project_name}"`)
+          }}
+        />
+
         {/* Enhanced Error Message with Recovery Options */}
           {error && (
           <div className="animate-in slide-in-from-top-4 duration-300">
@@ -572,14 +609,29 @@ export default function ProjectsPage() {
                   </div>
                 </div>
 
-                <Button
-                  onClick={() => setIsCreating(true)}
-                  className="bg-white text-blue-700 hover:bg-blue-50 hover:text-blue-800 font-semibold px-6 py-3 h-auto transition-all duration-300 hover:scale-105 hover:shadow-xl border-2 border-white/20"
-                  disabled={loading}
-                >
-                  <Plus className="size-5 mr-2" />
-                  Create New Project
-                </Button>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <AccountExportButton
+                    disabled={loading || projects.length === 0}
+                    className="bg-white/10 text-white hover:bg-white/20 hover:text-white font-semibold px-6 py-3 h-auto transition-all duration-300 border-2 border-white/30"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowImportDialog(true)}
+                    className="bg-white/10 text-white hover:bg-white/20 hover:text-white font-semibold px-6 py-3 h-auto transition-all duration-300 border-2 border-white/30"
+                    disabled={loading}
+                  >
+                    <Upload className="size-5 mr-2" />
+                    Import
+                  </Button>
+                  <Button
+                    onClick={() => setIsCreating(true)}
+                    className="bg-white text-blue-700 hover:bg-blue-50 hover:text-blue-800 font-semibold px-6 py-3 h-auto transition-all duration-300 hover:scale-105 hover:shadow-xl border-2 border-white/20"
+                    disabled={loading}
+                  >
+                    <Plus className="size-5 mr-2" />
+                    Create New Project
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -657,16 +709,30 @@ export default function ProjectsPage() {
               </div>
             </div>
             
-            {projects.length > 0 && (
-              <div className="flex items-center gap-2 px-3 py-2 rounded-full bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200/50">
-                <Activity className="h-4 w-4 text-blue-600" />
-                <span className="text-sm font-medium text-blue-700">{projects.length} Active</span>
-              </div>
-            )}
+            <div className="flex items-center gap-3">
+              {tags.length > 0 && (
+                <TagFilter tags={tags} value={tagFilter} onChange={setTagFilter} />
+              )}
+              {projects.length > 0 && (
+                <div className="flex items-center gap-2 px-3 py-2 rounded-full bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200/50">
+                  <Activity className="h-4 w-4 text-blue-600" />
+                  <span className="text-sm font-medium text-blue-700">{projects.length} Active</span>
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Projects Grid */}
-          {projects.length > 0 ? (
+          {tagFilter && projects.length === 0 ? (
+            <Card className="border-2 border-dashed border-gray-200 bg-gray-50/50">
+              <CardContent className="p-8 text-center">
+                <p className="text-gray-600 mb-4">No projects have this tag yet</p>
+                <Button variant="outline" onClick={() => setTagFilter(null)}>
+                  Show all projects
+                </Button>
+              </CardContent>
+            </Card>
+          ) : projects.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {projects.map((project, index) => (
                 <ProjectCard
@@ -674,6 +740,7 @@ export default function ProjectsPage() {
                   project={project}
                   onEdit={setEditingProject}
                   onDelete={handleDeleteProject}
+                  onDuplicate={setDuplicatingProject}
                   onView={handleViewProject}
                   animationDelay={index * 100}
                 />
@@ -742,6 +809,25 @@ export default function ProjectsPage() {
         initialData={editingProject || undefined}
           mode={editingProject ? 'edit' : 'create'}
       />
+
+      <DuplicateProjectDialog
+        project={duplicatingProject}
+        isOpen={!!duplicatingProject}
+        onClose={() => setDuplicatingProject(null)}
+        onDuplicated={async (copy) => {
+          await Promise.all([loadProjects(), loadTags()])
+          showSuccess(`Created "${copy.name}"`)
+        }}
+      />
+
+      <ImportProjectDialog
+        isOpen={showImportDialog}
+        onClose={() => setShowImportDialog(false)}
+        onImported={async (project) => {
+          await loadProjects()
+          showSuccess(`Imported "${project.name}"`)
+        }}
+      />
       </div>
     </div>
   )
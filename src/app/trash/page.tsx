@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useState, useCallback } from 'react'
+import Link from 'next/link'
+import { format, formatDistanceToNow } from 'date-fns'
+import { Trash2, AlertCircle, CheckCircle2, FolderOpen, Target, StickyNote, RotateCcw } from 'lucide-react'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { getTrash, restoreProject, restoreTask, restoreNote } from '@/lib/database'
+import { TRASH_RETENTION_DAYS, getTrashPurgeDate } from '@/lib/task-utils'
+import { TrashItem } from '@/types'
+import { AuthHeader } from '@/components/common/AuthHeader'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+
+const ITEM_ICONS: Record<TrashItem['item_type'], typeof FolderOpen> = {
+  project: FolderOpen,
+  task: Target,
+  note: StickyNote
+}
+
+const RESTORE_FUNCTIONS = {
+  project: restoreProject,
+  task: restoreTask,
+  note: restoreNote
+}
+
+export default function TrashPage() {
+  const { user } = useAuth()
+
+  const [items, setItems] = useState<TrashItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const result = await getTrash()
+      if (result.success && result.data) {
+        setItems(result.data)
+      } else {
+        setError(result.error || 'Failed to load the trash')
+      }
+    } catch (err) {
+      setError('Failed to load the trash')
+      console.error('Error loading trash:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (user) {
+      loadTrash()
+    }
+  }, [user, loadTrash])
+
+  const handleRestore = async (item: TrashItem) => {
+    if (restoringId) return
+
+    setRestoringId(item.id)
+    setError(null)
+
+    try {
+      const result = await RESTORE_FUNCTIONS[item.item_type](item.id)
+      if (result.success) {
+        // Restoring a project or task can make other items restorable, so reload the whole list
+        await loadTrash()
+        setSuccess(`"${item.name}" restored`)
+        setTimeout(() => setSuccess(null), 3000)
+      } else {
+        setError(result.error || 'Failed to restore item')
+      }
+    } catch (err) {
+      setError('Failed to restore item')
+      console.error('Error restoring item:', err)
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  const describeLocation = (item: TrashItem) => {
+    if (item.item_type === 'project') return null
+    if (item.item_type === 'note') return `On "${item.task_name}" in ${item.project_name}`
+    return `In ${item.project_name}`
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-blue-50/30">
+      <AuthHeader />
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-2 bg-gradient-to-r from-gray-600 to-gray-700 rounded-lg">
+            <Trash2 className="size-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Trash</h1>
+            <p className="text-gray-600 text-sm">
+              Deleted projects, tasks and notes are kept for {TRASH_RETENTION_DAYS} days before they are permanently removed
+            </p>
+          </div>
+        </div>
+
+        {/* Success/Error Messages */}
+        {success && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" role="status">
+            <CheckCircle2 className="size-4" />
+            {success}
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2, 3, 4].map(i => (
+              <div key={i} className="h-20 bg-gray-200 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <Card className="bg-gradient-to-br from-gray-50 to-white border-gray-200/60">
+            <CardContent className="py-16 text-center">
+              <div className="w-16 h-16 mx-auto bg-gray-100 rounded-full flex items-center justify-center mb-4">
+                <Trash2 className="size-8 text-gray-500" />
+              </div>
+              <h2 className="text-xl font-bold text-gray-900 mb-1">The trash is empty</h2>
+              <p className="text-gray-600">Deleted projects, tasks and notes will appear here.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ul className="space-y-3" aria-label="Deleted items">
+            {items.map(item => {
+              const Icon = ITEM_ICONS[item.item_type]
+              const location = describeLocation(item)
+
+              return (
+                <li key={`${item.item_type}-${item.id}`} className="flex flex-wrap items-center gap-4 p-4 bg-white/80 rounded-xl border border-gray-200/60 shadow-sm">
+                  <div className="p-2 bg-gray-100 rounded-lg">
+                    <Icon className="size-5 text-gray-600" aria-hidden="true" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">
+                      {item.name}
+                      <span className="ml-2 text-xs font-medium text-gray-500 capitalize">{item.item_type}</span>
+                    </p>
+                    {location && (
+                      <p className="text-sm text-gray-600 truncate">
+                        {item.parent_in_trash ? location : (
+                          <Link href={`/projects/${item.project_id}`} className="hover:text-blue-700 hover:underline">
+                            {location}
+                          </Link>
+                        )}
+                      </p>
+                    )}
+                    <p className="text-xs text-gray-500" title={format(new Date(item.deleted_at), 'PPpp')}>
+                      Deleted {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true })} · removed permanently after {format(getTrashPurgeDate(item.deleted_at), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={restoringId !== null || item.parent_in_trash}
+                    >
+                      <RotateCcw className="size-4 mr-1" />
+                      {restoringId === item.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                    {item.parent_in_trash && (
+                      <p className="text-xs text-gray-500">
+                        Restore its {item.item_type === 'note' ? 'task' : 'project or parent task'} first
+                      </p>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CalendarPlus, Copy, Download, AlertCircle, CheckCircle2, RefreshCw } from 'lucide-react'
+
+import {
+  createCalendarFeed,
+  deleteCalendarFeed,
+  getCalendarFeed,
+  getProjects,
+  getUpcomingProjects,
+  getUpcomingTasks
+} from '@/lib/database'
+import { generateICalendar, generateICalendarFilename, getCalendarFeedUrl } from '@/lib/ical'
+import { CalendarFeed, CalendarFeedItem } from '@/types'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface CalendarFeedDialogProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// How far ahead the one-off download looks
+const DOWNLOAD_DAYS_AHEAD = 365
+
+/**
+ * Get due dates into calendar apps: download an .ics file of upcoming due dates,
+ * or subscribe with a private link that stays up to date
+ */
+export function CalendarFeedDialog({ isOpen, onClose }: CalendarFeedDialogProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [isWorking, setIsWorking] = useState(false)
+  const [includeCompleted, setIncludeCompleted] = useState(true)
+  const [confirmingReset, setConfirmingReset] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadFeed = async () => {
+      setLoading(true)
+      setError(null)
+      const result = await getCalendarFeed()
+      if (result.success) {
+        setFeed(result.data || null)
+      } else {
+        setError(result.error || 'Failed to load calendar subscription')
+      }
+      setLoading(false)
+    }
+
+    loadFeed()
+  }, [isOpen])
+
+  const feedUrl = feed ? getCalendarFeedUrl(window.location.origin, feed.token, !includeCompleted) : ''
+
+  const handleClose = () => {
+    if (isWorking) return
+
+    setConfirmingReset(false)
+    setError(null)
+    setSuccess(null)
+    onClose()
+  }
+
+  const handleDownload = async () => {
+    setIsWorking(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      // Upcoming tasks are the incomplete ones, so the file has nothing to mark as done
+      const [tasksResult, projectsResult, allProjectsResult] = await Promise.all([
+        getUpcomingTasks(DOWNLOAD_DAYS_AHEAD),
+        getUpcomingProjects(DOWNLOAD_DAYS_AHEAD),
+        getProjects()
+      ])
+
+      if (!tasksResult.success || !projectsResult.success || !allProjectsResult.success) {
+        setError(tasksResult.error || projectsResult.error || allProjectsResult.error || 'Failed to load due dates')
+        return
+      }
+
+      const projectNames = Object.fromEntries((allProjectsResult.data || []).map(p => [p.id, p.name]))
+      const items: CalendarFeedItem[] = [
+        ...(projectsResult.data || []).map(p => ({
+          item_type: 'project' as const,
+          id: p.id,
+          project_id: p.id,
+          project_name: p.name,
+          name: p.name,
+          priority: null,
+          due_date: p.due_date!,
+          completed: false,
+          updated_at: p.updated_at
+        })),
+        ...(tasksResult.data || []).map(t => ({
+          item_type: 'task' as const,
+          id: t.id,
+          project_id: t.project_id,
+          project_name: projectNames[t.project_id] || 'Unknown project',
+          name: t.name,
+          priority: t.priority,
+          due_date: t.due_date!,
+          completed: t.completed,
+          updated_at: t.updated_at
+        }))
+      ]
+
+      const calendar = generateICalendar(items, { appUrl: window.location.origin })
+      const filename = generateICalendarFilename()
+      const url = URL.createObjectURL(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      setSuccess(`Downloaded ${items.length} due ${items.length === 1 ? 'date' : 'dates'} as ${filename}`)
+    } catch (err) {
+      console.error('Error downloading calendar:', err)
+      setError('Failed to download calendar')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCreateFeed = async () => {
+    setIsWorking(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const result = await createCalendarFeed()
+      if (result.success && result.data) {
+        setFeed(result.data)
+        setSuccess(feed ? 'Link reset. Calendars using the old link will stop updating.' : 'Subscription link created')
+      } else {
+        setError(result.error || 'Failed to create subscription link')
+      }
+    } catch (err) {
+      console.error('Error creating calendar feed:', err)
+      setError('Failed to create subscription link')
+    } finally {
+      setConfirmingReset(false)
+      setIsWorking(false)
+    }
+  }
+
+  const handleDeleteFeed = async () => {
+    setIsWorking(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const result = await deleteCalendarFeed()
+      if (result.success) {
+        setFeed(null)
+        setSuccess('Subscription turned off')
+      } else {
+        setError(result.error || 'Failed to turn off subscription')
+      }
+    } catch (err) {
+      console.error('Error deleting calendar feed:', err)
+      setError('Failed to turn off subscription')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setSuccess('Link copied to clipboard')
+    } catch (err) {
+      console.error('Error copying calendar link:', err)
+      setError('Could not copy the link; select it and copy it instead')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="size-5 text-blue-600" />
+            Add to your calendar
+          </DialogTitle>
+          <DialogDescription>
+            Task and project due dates appear as all-day events with their priority, project and a link back here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5 py-2">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          {success && (
+            <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-green-700 text-sm" role="status">
+              <CheckCircle2 className="size-4 flex-shrink-0" />
+              <span>{success}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Subscribe</h3>
+            <p className="text-sm text-gray-600">
+              Calendar apps check this link for changes. Anyone with the link can see your due dates, so keep it private.
+            </p>
+
+            {loading ? (
+              <div className="h-9 bg-gray-200 rounded-md animate-pulse" />
+            ) : feed ? (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <Label htmlFor="calendar-feed-url" className="sr-only">Subscription link</Label>
+                  <Input
+                    id="calendar-feed-url"
+                    value={feedUrl}
+                    readOnly
+                    onFocus={(e) => e.target.select()}
+                    className="font-mono text-xs"
+                  />
+                  <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy subscription link">
+                    <Copy className="size-4" />
+                  </Button>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeCompleted}
+                    onChange={(e) => setIncludeCompleted(e.target.checked)}
+                    className="size-4 accent-blue-600"
+                  />
+                  Include completed tasks, marked with ✓
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {confirmingReset ? (
+                    <>
+                      <span className="text-sm text-amber-700">Calendars using the current link will stop updating.</span>
+                      <Button size="sm" variant="outline" onClick={handleCreateFeed} disabled={isWorking}>
+                        Reset link
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setConfirmingReset(false)} disabled={isWorking}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => setConfirmingReset(true)} disabled={isWorking}>
+                        <RefreshCw className="size-4 mr-1" />
+                        Reset link
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={handleDeleteFeed} disabled={isWorking} className="text-red-600 hover:text-red-700">
+                        Turn off
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={handleCreateFeed} disabled={isWorking}>
+                <CalendarPlus className="size-4 mr-2" />
+                Create subscription link
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <h3 className="text-sm font-medium text-gray-900">Download</h3>
+            <p className="text-sm text-gray-600">
+              A one-off .ics file of incomplete tasks and project deadlines due in the next year.
+            </p>
+            <Button variant="outline" onClick={handleDownload} disabled={isWorking}>
+              <Download className="size-4 mr-2" />
+              Download .ics
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isWorking}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import { format, isSameMonth, isToday } from 'date-fns'
+import { CheckCircle2, FolderOpen } from 'lucide-react'
+
+import { CalendarItem } from '@/types'
+
+interface CalendarGridProps {
+  days: Date[]
+  // Month being displayed; days outside it are dimmed in month view
+  currentMonth: Date
+  view: 'month' | 'week'
+  itemsByDate: Record<string, CalendarItem[]>
+  onReschedule: (item: CalendarItem, date: string) => void
+  onItemClick?: (item: CalendarItem) => void
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// Maximum items shown per day in month view before collapsing into "+N more"
+const MONTH_VIEW_ITEM_LIMIT = 3
+
+const getItemColor = (item: CalendarItem) => {
+  if (item.type === 'project') {
+    return 'bg-purple-100 text-purple-800 border-purple-300'
+  }
+  if (item.task.completed) {
+    return 'bg-gray-100 text-gray-500 border-gray-200 line-through'
+  }
+  switch (item.task.priority) {
+    case 'High':
+      return 'bg-red-100 text-red-800 border-red-300'
+    case 'Medium':
+      return 'bg-yellow-100 text-yellow-800 border-yellow-300'
+    case 'Low':
+      return 'bg-green-100 text-green-800 border-green-300'
+    default:
+      return 'bg-gray-100 text-gray-800 border-gray-300'
+  }
+}
+
+const getItemLabel = (item: CalendarItem) => {
+  return item.type === 'project' ? `${item.project.name} (project due)` : `${item.task.name} (${item.projectName})`
+}
+
+export function CalendarGrid({
+  days,
+  currentMonth,
+  view,
+  itemsByDate,
+  onReschedule,
+  onItemClick
+}: CalendarGridProps) {
+  const [draggedItem, setDraggedItem] = useState<CalendarItem | null>(null)
+  const [dropDate, setDropDate] = useState<string | null>(null)
+  const [expandedDate, setExpandedDate] = useState<string | null>(null)
+
+  const handleDragStart = (e: React.DragEvent, item: CalendarItem) => {
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', `${item.type}:${item.id}`)
+    setDraggedItem(item)
+  }
+
+  const handleDragEnd = () => {
+    setDraggedItem(null)
+    setDropDate(null)
+  }
+
+  const handleDragOver = (e: React.DragEvent, dateKey: string) => {
+    if (!draggedItem) return
+    e.preventDefault()
+    if (dropDate !== dateKey) {
+      setDropDate(dateKey)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, dateKey: string) => {
+    e.preventDefault()
+    const item = draggedItem
+    handleDragEnd()
+
+    if (item && item.date !== dateKey) {
+      onReschedule(item, dateKey)
+    }
+  }
+
+  return (
+    <div className="rounded-xl border border-gray-200/60 bg-white/80 shadow-lg overflow-hidden" role="grid" aria-label="Calendar">
+      <div className="grid grid-cols-7 border-b border-gray-200 bg-gradient-to-r from-blue-50/60 to-purple-50/40" role="row">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="px-2 py-2 text-xs font-semibold text-gray-600 uppercase tracking-wide text-center" role="columnheader">
+            {label}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7" role="rowgroup">
+        {days.map(day => {
+          const dateKey = format(day, 'yyyy-MM-dd')
+          const items = itemsByDate[dateKey] || []
+          const isOutsideMonth = view === 'month' && !isSameMonth(day, currentMonth)
+          const isExpanded = view === 'week' || expandedDate === dateKey
+          const visibleItems = isExpanded ? items : items.slice(0, MONTH_VIEW_ITEM_LIMIT)
+          const hiddenCount = items.length - visibleItems.length
+
+          return (
+            <div
+              key={dateKey}
+              role="gridcell"
+              aria-label={`${format(day, 'EEEE, MMMM d')}, ${items.length} items`}
+              onDragOver={(e) => handleDragOver(e, dateKey)}
+              onDrop={(e) => handleDrop(e, dateKey)}
+              className={`border-b border-r border-gray-100 p-1.5 transition-colors duration-150 ${
+                view === 'week' ? 'min-h-[320px]' : 'min-h-[110px]'
+              } ${isOutsideMonth ? 'bg-gray-50/70' : 'bg-white'} ${
+                dropDate === dateKey ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span
+                  className={`inline-flex items-center justify-center text-xs font-semibold rounded-full size-6 ${
+                    isToday(day)
+                      ? 'bg-gradient-to-br from-blue-600 to-indigo-600 text-white'
+                      : isOutsideMonth ? 'text-gray-400' : 'text-gray-700'
+                  }`}
+                >
+                  {format(day, 'd')}
+                </span>
+                {view === 'week' && (
+                  <span className="text-xs text-gray-500">{format(day, 'MMM')}</span>
+                )}
+              </div>
+
+              <ul className="space-y-1">
+                {visibleItems.map(item => (
+                  <li key={`${item.type}-${item.id}`}>
+                    <button
+                      type="button"
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, item)}
+                      onDragEnd={handleDragEnd}
+                      onClick={() => onItemClick?.(item)}
+                      className={`w-full flex items-center gap-1 px-1.5 py-0.5 rounded border text-left text-xs font-medium truncate cursor-grab active:cursor-grabbing focus:outline-none focus:ring-2 focus:ring-blue-500/50 ${getItemColor(item)} ${
+                        draggedItem?.type === item.type && draggedItem.id === item.id ? 'opacity-50' : ''
+                      }`}
+                      title={getItemLabel(item)}
+                      aria-label={getItemLabel(item)}
+                    >
+                      {item.type === 'project' ? (
+                        <FolderOpen className="size-3 shrink-0" aria-hidden="true" />
+                      ) : item.task.completed ? (
+                        <CheckCircle2 className="size-3 shrink-0" aria-hidden="true" />
+                      ) : null}
+                      <span className="truncate">{item.type === 'project' ? item.project.name : item.task.name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setExpandedDate(dateKey)}
+                  className="mt-1 text-xs font-medium text-blue-600 hover:underline"
+                >
+                  +{hiddenCount} more
+                </button>
+              )}
+              {view === 'month' && expandedDate === dateKey && items.length > MONTH_VIEW_ITEM_LIMIT && (
+                <button
+                  type="button"
+                  onClick={() => setExpandedDate(null)}
+                  className="mt-1 text-xs font-medium text-gray-500 hover:underline"
+                >
+                  Show less
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState } from 'react'
+import { Archive, FileText, File, AlertCircle, CheckCircle } from 'lucide-react'
+
+import { AccountExportFormat, generateAccountExport } from '@/lib/export'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+
+interface AccountExportButtonProps {
+  disabled?: boolean
+  className?: string
+}
+
+const FORMAT_DESCRIPTIONS: Record<AccountExportFormat, string> = {
+  zip: 'A status report PDF plus every project as JSON (importable) and Markdown',
+  pdf: 'A status report with overall progress and each project\'s open tasks',
+  json: 'Every project, task and note in one file, for backups'
+}
+
+/**
+ * Export every project the user can access in one download
+ */
+export function AccountExportButton({ disabled = false, className = '' }: AccountExportButtonProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [selectedFormat, setSelectedFormat] = useState<AccountExportFormat>('zip')
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [exportSuccess, setExportSuccess] = useState<string | null>(null)
+
+  const isExporting = progress !== null
+
+  const handleExport = async () => {
+    if (isExporting) return
+
+    setProgress({ completed: 0, total: 0 })
+    setExportError(null)
+    setExportSuccess(null)
+
+    try {
+      const result = await generateAccountExport(selectedFormat, (completed, total) => setProgress({ completed, total }))
+
+      if (!result.success || !result.data) {
+        setExportError(result.error || 'Failed to generate export')
+        return
+      }
+
+      const url = URL.createObjectURL(result.data.content)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.data.filename
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      setExportSuccess(`Successfully exported as ${result.data.filename}`)
+    } catch (error) {
+      console.error('Account export failed:', error)
+      setExportError(error instanceof Error ? error.message : 'An unexpected error occurred during export')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const handleCloseDialog = () => {
+    if (!isExporting) {
+      setIsDialogOpen(false)
+      setExportError(null)
+      setExportSuccess(null)
+    }
+  }
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setIsDialogOpen(true)}
+        disabled={disabled}
+        className={className}
+      >
+        <Archive className="size-5 mr-2" />
+        Export Everything
+      </Button>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && handleCloseDialog()}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Archive className="size-5 text-blue-600" />
+              Export all projects
+            </DialogTitle>
+            <DialogDescription>
+              Includes every project you own or that is shared with you, with an account-level summary.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <label htmlFor="account-format-select" className="text-sm font-medium">
+                Export Format
+              </label>
+              <Select
+                value={selectedFormat}
+                onValueChange={(value: AccountExportFormat) => setSelectedFormat(value)}
+                disabled={isExporting}
+              >
+                <SelectTrigger id="account-format-select">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zip">
+                    <div className="flex items-center gap-2">
+                      <Archive className="size-4" />
+                      <span>ZIP archive (.zip)</span>
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="pdf">
+                    <div className="flex items-center gap-2">
+                      <FileText className="size-4" />
+                      <span>PDF report (.pdf)</span>
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="json">
+                    <div className="flex items-center gap-2">
+                      <File className="size-4" />
+                      <span>JSON (.json)</span>
+                    </div>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="p-3 bg-muted rounded-lg">
+              <p className="text-sm text-muted-foreground">{FORMAT_DESCRIPTIONS[selectedFormat]}</p>
+            </div>
+
+            {progress && progress.total > 0 && (
+              <p className="text-sm text-gray-600" role="status">
+                Exporting project {Math.min(progress.completed + 1, progress.total)} of {progress.total}...
+              </p>
+            )}
+
+            {exportError && (
+              <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <AlertCircle className="size-4 text-red-600 shrink-0" />
+                <p className="text-sm text-red-700">{exportError}</p>
+              </div>
+            )}
+
+            {exportSuccess && (
+              <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg">
+                <CheckCircle className="size-4 text-green-600 shrink-0" />
+                <p className="text-sm text-green-700">{exportSuccess}</p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={handleCloseDialog} disabled={isExporting}>
+              {exportSuccess ? 'Close' : 'Cancel'}
+            </Button>
+            <Button type="button" onClick={handleExport} disabled={isExporting} className="min-w-[120px]">
+              {isExporting ? (
+                <div className="flex items-center gap-2">
+                  <div className="size-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                  Exporting...
+                </div>
+              ) : (
+                'Export'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -2,13 +2,39 @@
 
 import { Button } from "@/components/ui/button"
 import { useAuth } from "@/contexts/AuthContext"
-import { FolderOpen, LogOut, User, Sparkles, Crown } from "lucide-react"
+import { FolderOpen, LogOut, User, Sparkles, Crown, CalendarDays, ListChecks, Search, Trash2 } from "lucide-react"
 import Link from "next/link"
-import { useState } from "react"
+import { usePathname } from "next/navigation"
+import { useEffect, useState } from "react"
+import { SearchPalette } from "@/components/common/SearchPalette"
 
 export function AuthHeader() {
   const { user, signOut, loading } = useAuth()
   const [isLoggingOut, setIsLoggingOut] = useState(false)
+  const pathname = usePathname()
+  const [isSearchOpen, setIsSearchOpen] = useState(false)
+
+  // Open search from anywhere with Cmd+K / Ctrl+K
+  useEffect(() => {
+    if (!user) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsSearchOpen(true)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [user])
+
+  const navLinks = [
+    { href: '/dashboard', label: 'My Tasks', icon: ListChecks },
+    { href: '/projects', label: 'Projects', icon: FolderOpen },
+    { href: '/calendar', label: 'Calendar', icon: CalendarDays },
+    { href: '/trash', label: 'Trash', icon: Trash2 },
+  ]
 
   const handleLogout = async () => {
     setIsLoggingOut(true)
@@ -71,10 +97,47 @@ export function AuthHeader() {
           </div>
         </Link>
 
+        {/* Main Navigation */}
+        {user && (
+          <nav className="flex items-center gap-1" aria-label="Main navigation">
+            {navLinks.map(({ href, label, icon: Icon }) => {
+              const isActive = pathname?.startsWith(href)
+              return (
+                <Link
+                  key={href}
+                  href={href}
+                  className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                    isActive
+                      ? 'bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 border border-blue-200/60'
+                      : 'text-gray-600 hover:text-blue-700 hover:bg-blue-50/60'
+                  }`}
+                  aria-current={isActive ? 'page' : undefined}
+                >
+                  <Icon className="h-4 w-4" />
+                  <span className="hidden sm:inline">{label}</span>
+                </Link>
+              )
+            })}
+          </nav>
+        )}
+
         {/* Enhanced User Section with better mobile responsiveness */}
         <div className="flex items-center space-x-2 sm:space-x-4">
           {user && (
             <>
+              {/* Search */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSearchOpen(true)}
+                className="flex items-center gap-2 h-9 sm:h-10 px-3 bg-white/70 hover:bg-blue-50/60 border-gray-200/60 text-gray-500 hover:text-blue-700 transition-all duration-200 backdrop-blur-sm"
+                aria-label="Search projects, tasks and notes"
+              >
+                <Search className="h-4 w-4" />
+                <span className="hidden lg:inline text-sm">Search</span>
+                <kbd className="hidden lg:inline text-[10px] font-semibold border border-gray-200 rounded px-1 py-0.5 bg-gray-50">⌘K</kbd>
+              </Button>
+
               {/* Enhanced User Info - Responsive design */}
               <div className="hidden md:flex items-center space-x-3 px-3 sm:px-4 py-2 rounded-xl bg-gradient-to-r from-gray-50/80 to-blue-50/60 border border-gray-200/50 backdrop-blur-sm">
                 <div className="p-1.5 rounded-lg bg-gradient-to-br from-blue-500 to-indigo-600 shadow-md">
@@ -125,6 +188,8 @@ export function AuthHeader() {
           )}
         </div>
       </div>
+
+      {user && <SearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />}
     </header>
   )
 } 
\ No newline at end of file
@@ -1,10 +1,10 @@
 'use client'
 
 import { useState } from 'react'
-import { Download, FileText, File, ChevronDown, AlertCircle, CheckCircle } from 'lucide-react'
+import { Download, FileText, File, FileSpreadsheet, FileCode, ChevronDown, AlertCircle, CheckCircle } from 'lucide-react'
 
 import { Project } from '@/types'
-import { generateExportForFormat } from '@/lib/export'
+import { generateExportForFormat, getPdfReportOptionsError, PDF_REPORT_PRESETS, PdfReportOptions } from '@/lib/export'
 import { Button } from '@/components/ui/button'
 import { 
   Dialog, 
@@ -21,6 +21,7 @@ import {
   SelectTrigger, 
   SelectValue 
 } from '@/components/ui/select'
+import { PdfReportOptionsForm } from './PdfReportOptionsForm'
 
 interface ExportButtonProps {
   project: Project
@@ -32,7 +33,7 @@ interface ExportButtonProps {
   size?: 'sm' | 'default' | 'lg'
 }
 
-export type ExportFormat = 'pdf' | 'json'
+export type ExportFormat = 'pdf' | 'json' | 'csv' | 'markdown'
 
 export function ExportButton({ 
   project, 
@@ -45,10 +46,14 @@ export function ExportButton({
 }: ExportButtonProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('pdf')
+  const [includeNotes, setIncludeNotes] = useState(false)
+  const [pdfOptions, setPdfOptions] = useState<PdfReportOptions>(PDF_REPORT_PRESETS.detailed)
   const [isExporting, setIsExporting] = useState(false)
   const [exportError, setExportError] = useState<string | null>(null)
   const [exportSuccess, setExportSuccess] = useState<string | null>(null)
 
+  const pdfOptionsError = selectedFormat === 'pdf' ? getPdfReportOptionsError(pdfOptions) : null
+
   const handleExport = async () => {
     if (isExporting) return
 
@@ -58,7 +63,7 @@ export function ExportButton({
     
     try {
       // Generate export using our export utilities
-      const result = await generateExportForFormat(project.id, selectedFormat)
+      const result = await generateExportForFormat(project.id, selectedFormat, { includeNotes, pdf: pdfOptions })
       
       if (!result.success || !result.data) {
         const errorMessage = result.error || 'Failed to generate export'
@@ -98,10 +103,14 @@ export function ExportButton({
       // PDF content is already a data URI from jsPDF
       url = content
     } else {
-      // JSON content needs to be converted to blob
-      const blob = new Blob([content], { 
-        type: selectedFormat === 'json' ? 'application/json' : 'text/plain' 
-      })
+      // Text formats need to be converted to blob
+      const mimeTypes: Record<ExportFormat, string> = {
+        pdf: 'application/pdf',
+        json: 'application/json',
+        csv: 'text/csv',
+        markdown: 'text/markdown'
+      }
+      const blob = new Blob([content], { type: mimeTypes[selectedFormat] })
       url = URL.createObjectURL(blob)
     }
     
@@ -128,6 +137,8 @@ export function ExportButton({
     if (!isExporting) {
       setIsDialogOpen(false)
       setSelectedFormat('pdf') // Reset to default
+      setIncludeNotes(false)
+      setPdfOptions(PDF_REPORT_PRESETS.detailed)
       setExportError(null)
       setExportSuccess(null)
     }
@@ -139,6 +150,10 @@ export function ExportButton({
         return <FileText className="size-4" />
       case 'json':
         return <File className="size-4" />
+      case 'csv':
+        return <FileSpreadsheet className="size-4" />
+      case 'markdown':
+        return <FileCode className="size-4" />
       default:
         return <FileText className="size-4" />
     }
@@ -150,6 +165,10 @@ export function ExportButton({
         return 'Export as PDF (.pdf) - Professional document format for sharing and printing'
       case 'json':
         return 'Export as JSON (.json) - Structured data format for importing elsewhere'
+      case 'csv':
+        return 'Export as CSV (.csv) - One row per task for spreadsheets'
+      case 'markdown':
+        return 'Export as Markdown (.md) - Task checklist and notes for wikis and git repositories'
       default:
         return 'Export project data'
     }
@@ -170,14 +189,14 @@ export function ExportButton({
       </Button>
 
       <Dialog open={isDialogOpen} onOpenChange={handleCloseDialog}>
-        <DialogContent className="sm:max-w-[450px]">
+        <DialogContent className={`sm:max-w-[450px] ${selectedFormat === 'pdf' ? 'max-h-[90vh] overflow-y-auto' : ''}`}>
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Download className="size-5 text-blue-600" />
               Export Project: {project.name}
             </DialogTitle>
             <DialogDescription>
-              Choose the format for exporting your project data, including all tasks and notes.
+              Choose the format for exporting your project data. PDF reports can be tailored to who will read them.
             </DialogDescription>
           </DialogHeader>
 
@@ -208,6 +227,18 @@ export function ExportButton({
                       <span>JSON (.json)</span>
                     </div>
                   </SelectItem>
+                  <SelectItem value="csv">
+                    <div className="flex items-center gap-2">
+                      <FileSpreadsheet className="size-4" />
+                      <span>CSV (.csv)</span>
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="markdown">
+                    <div className="flex items-center gap-2">
+                      <FileCode className="size-4" />
+                      <span>Markdown (.md)</span>
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -218,15 +249,43 @@ export function ExportButton({
               </p>
             </div>
 
-            <div className="text-xs text-muted-foreground">
-              <p>Export will include:</p>
-              <ul className="list-disc list-inside mt-1 space-y-1">
-                <li>Project information and details</li>
-                <li>All tasks with priorities and due dates</li>
-                <li>All notes associated with tasks</li>
-                <li>Creation and update timestamps</li>
-              </ul>
-            </div>
+            {selectedFormat === 'csv' && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeNotes}
+                  onChange={(e) => setIncludeNotes(e.target.checked)}
+                  disabled={isExporting}
+                  className="size-4 accent-blue-600"
+                />
+                Include each task&apos;s notes in a Notes column
+              </label>
+            )}
+
+            {selectedFormat === 'pdf' && (
+              <PdfReportOptionsForm
+                options={pdfOptions}
+                onChange={setPdfOptions}
+                projectName={project.name}
+                disabled={isExporting}
+              />
+            )}
+
+            {pdfOptionsError && (
+              <p className="text-sm text-amber-700">{pdfOptionsError}</p>
+            )}
+
+            {selectedFormat !== 'pdf' && (
+              <div className="text-xs text-muted-foreground">
+                <p>Export will include:</p>
+                <ul className="list-disc list-inside mt-1 space-y-1">
+                  <li>Project information and details</li>
+                  <li>All tasks with priorities and due dates</li>
+                  <li>All notes associated with tasks</li>
+                  <li>Creation and update timestamps</li>
+                </ul>
+              </div>
+            )}
 
             {/* Error Message */}
             {exportError && (
@@ -257,7 +316,7 @@ export function ExportButton({
             <Button 
               type="button"
               onClick={handleExport}
-              disabled={isExporting || !!exportSuccess}
+              disabled={isExporting || !!exportSuccess || !!pdfOptionsError}
               className="min-w-[120px]"
             >
               {isExporting ? (
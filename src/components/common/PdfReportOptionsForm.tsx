@@ -0,0 +1,239 @@
+'use client'
+
+import { Dispatch, SetStateAction, useState } from 'react'
+import { X } from 'lucide-react'
+
+import { PDF_REPORT_PRESETS, PdfReportOptions, PdfReportPreset, PdfReportSection } from '@/lib/export'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface PdfReportOptionsFormProps {
+  options: PdfReportOptions
+  // Takes updaters too, so a logo that finishes loading later doesn't undo other changes
+  onChange: Dispatch<SetStateAction<PdfReportOptions>>
+  // Shown as the title placeholder
+  projectName: string
+  disabled?: boolean
+}
+
+const SECTION_LABELS: { section: PdfReportSection; label: string }[] = [
+  { section: 'cover', label: 'Overview with description and dates' },
+  { section: 'stats', label: 'Project statistics' },
+  { section: 'active', label: 'Active tasks' },
+  { section: 'completed', label: 'Completed tasks' },
+  { section: 'notes', label: 'Notes under each task' }
+]
+
+const PRESET_LABELS: Record<PdfReportPreset, string> = {
+  detailed: 'Detailed report',
+  summary: 'Client summary'
+}
+
+const PRIORITIES = ['High', 'Medium', 'Low'] as const
+
+// Logos are embedded in the PDF, so keep them small
+const MAX_LOGO_BYTES = 1024 * 1024
+
+/**
+ * Choose what a project PDF report contains and how its pages are set up
+ */
+export function PdfReportOptionsForm({ options, onChange, projectName, disabled = false }: PdfReportOptionsFormProps) {
+  const [logoError, setLogoError] = useState<string | null>(null)
+
+  const update = (changes: Partial<PdfReportOptions>) => onChange(prev => ({ ...prev, ...changes }))
+
+  // Presets choose the content; the title, logo and page setup are kept
+  const applyPreset = (preset: PdfReportPreset) => {
+    const { sections, priorities } = PDF_REPORT_PRESETS[preset]
+    update({ sections, priorities, dueFrom: undefined, dueTo: undefined })
+  }
+
+  const togglePriority = (priority: typeof PRIORITIES[number], checked: boolean) => {
+    onChange(prev => ({
+      ...prev,
+      priorities: checked
+        ? PRIORITIES.filter(p => p === priority || prev.priorities.includes(p))
+        : prev.priorities.filter(p => p !== priority)
+    }))
+  }
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    setLogoError(null)
+    if (!file) return
+
+    if (file.type !== 'image/png' && file.type !== 'image/jpeg') {
+      setLogoError('Choose a PNG or JPEG image')
+      return
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError('Choose an image smaller than 1 MB')
+      return
+    }
+
+    const reader = new FileReader()
+    reader.onload = () => update({ logo: reader.result as string })
+    reader.onerror = () => setLogoError('The image could not be read')
+    reader.readAsDataURL(file)
+  }
+
+  return (
+    <div className="space-y-4 border rounded-lg p-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(PRESET_LABELS) as PdfReportPreset[]).map(preset => (
+          <Button
+            key={preset}
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => applyPreset(preset)}
+            disabled={disabled}
+          >
+            {PRESET_LABELS[preset]}
+          </Button>
+        ))}
+      </div>
+
+      <fieldset className="space-y-1.5">
+        <legend className="text-sm font-medium mb-1">Sections</legend>
+        {SECTION_LABELS.map(({ section, label }) => (
+          <label key={section} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={options.sections[section]}
+              onChange={(e) => {
+                const checked = e.target.checked
+                onChange(prev => ({ ...prev, sections: { ...prev.sections, [section]: checked } }))
+              }}
+              disabled={disabled}
+              className="size-4 accent-blue-600"
+            />
+            {label}
+          </label>
+        ))}
+      </fieldset>
+
+      <fieldset className="space-y-1.5">
+        <legend className="text-sm font-medium mb-1">Tasks to list</legend>
+        <div className="flex gap-4">
+          {PRIORITIES.map(priority => (
+            <label key={priority} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={options.priorities.includes(priority)}
+                onChange={(e) => togglePriority(priority, e.target.checked)}
+                disabled={disabled}
+                className="size-4 accent-blue-600"
+              />
+              {priority}
+            </label>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="pdf-due-from" className="text-xs text-gray-600">Due from</Label>
+            <Input
+              id="pdf-due-from"
+              type="date"
+              value={options.dueFrom || ''}
+              onChange={(e) => update({ dueFrom: e.target.value || undefined })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pdf-due-to" className="text-xs text-gray-600">Due by</Label>
+            <Input
+              id="pdf-due-to"
+              type="date"
+              value={options.dueTo || ''}
+              onChange={(e) => update({ dueTo: e.target.value || undefined })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        {(options.dueFrom || options.dueTo) && (
+          <p className="text-xs text-gray-500">Tasks without a due date are left out.</p>
+        )}
+      </fieldset>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="pdf-page-size" className="text-xs text-gray-600">Page size</Label>
+          <Select
+            value={options.pageSize}
+            onValueChange={(value: PdfReportOptions['pageSize']) => update({ pageSize: value })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="pdf-page-size" size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="a4">A4</SelectItem>
+              <SelectItem value="letter">US Letter</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="pdf-orientation" className="text-xs text-gray-600">Orientation</Label>
+          <Select
+            value={options.orientation}
+            onValueChange={(value: PdfReportOptions['orientation']) => update({ orientation: value })}
+            disabled={disabled}
+          >
+            <SelectTrigger id="pdf-orientation" size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="portrait">Portrait</SelectItem>
+              <SelectItem value="landscape">Landscape</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pdf-title" className="text-xs text-gray-600">Report title</Label>
+        <Input
+          id="pdf-title"
+          value={options.title || ''}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder={projectName}
+          maxLength={100}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="pdf-logo" className="text-xs text-gray-600">Logo (PNG or JPEG)</Label>
+        {options.logo ? (
+          <div className="flex items-center gap-3">
+            {/* eslint-disable-next-line @next/next/no-img-element -- data URL preview */}
+            <img src={options.logo} alt="Report logo" className="h-10 max-w-[160px] object-contain border rounded" />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ logo: undefined })}
+              disabled={disabled}
+            >
+              <X className="size-4 mr-1" />
+              Remove
+            </Button>
+          </div>
+        ) : (
+          <Input
+            id="pdf-logo"
+            type="file"
+            accept="image/png,image/jpeg"
+            onChange={handleLogoChange}
+            disabled={disabled}
+          />
+        )}
+        {logoError && <p className="text-xs text-red-600">{logoError}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Search, FolderOpen, CheckSquare, StickyNote, Loader2, AlertCircle } from 'lucide-react'
+
+import { SearchResult } from '@/types'
+import { searchAll } from '@/lib/database'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog'
+
+interface SearchPaletteProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 250
+
+const RESULT_ICONS = {
+  project: FolderOpen,
+  task: CheckSquare,
+  note: StickyNote
+}
+
+const RESULT_LABELS = {
+  project: 'Project',
+  task: 'Task',
+  note: 'Note'
+}
+
+/**
+ * Render a search snippet, highlighting the parts the database wrapped in <mark></mark>.
+ * The snippet is split on the markers rather than injected as HTML.
+ */
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/)
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1 ? (
+        <mark key={index} className="bg-yellow-200/80 text-gray-900 rounded-sm px-0.5">{part}</mark>
+      ) : (
+        <span key={index}>{part}</span>
+      ))}
+    </>
+  )
+}
+
+const getResultHref = (result: SearchResult) => {
+  // Tasks and notes open their task on the project page
+  return result.task_id
+    ? `/projects/${result.project_id}?task=${result.task_id}`
+    : `/projects/${result.project_id}`
+}
+
+const getResultContext = (result: SearchResult) => {
+  switch (result.result_type) {
+    case 'project':
+      return null
+    case 'task':
+      return result.project_name
+    case 'note':
+      return `${result.project_name} › ${result.task_name}`
+  }
+}
+
+export function SearchPalette({ isOpen, onClose }: SearchPaletteProps) {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SearchResult[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (query.trim() === '') {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+
+    // Ignore responses for queries that have since changed
+    let isCurrent = true
+    setIsSearching(true)
+
+    const timer = setTimeout(async () => {
+      const result = await searchAll(query)
+      if (!isCurrent) return
+
+      if (result.success && result.data) {
+        setResults(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Search failed')
+      }
+      setActiveIndex(0)
+      setIsSearching(false)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      isCurrent = false
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  const handleClose = () => {
+    setQuery('')
+    setResults([])
+    setError(null)
+    onClose()
+  }
+
+  const openResult = (result: SearchResult) => {
+    handleClose()
+    router.push(getResultHref(result))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex(prev => Math.min(prev + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex(prev => Math.max(prev - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      openResult(results[activeIndex])
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent
+        className="sm:max-w-2xl p-0 gap-0 overflow-hidden top-[20%] translate-y-0"
+        showCloseButton={false}
+        onOpenAutoFocus={(e) => {
+          e.preventDefault()
+          inputRef.current?.focus()
+        }}
+      >
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <DialogDescription className="sr-only">Search across your projects, tasks and notes</DialogDescription>
+
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200">
+          {isSearching ? (
+            <Loader2 className="size-5 text-blue-600 animate-spin shrink-0" aria-hidden="true" />
+          ) : (
+            <Search className="size-5 text-gray-400 shrink-0" aria-hidden="true" />
+          )}
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search projects, tasks and notes..."
+            className="flex-1 h-14 bg-transparent text-base outline-none placeholder:text-gray-400"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="search-results"
+            aria-activedescendant={results[activeIndex] ? `search-result-${activeIndex}` : undefined}
+            aria-label="Search"
+          />
+          <kbd className="hidden sm:inline text-xs text-gray-400 border border-gray-200 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {error && (
+            <div className="flex items-center gap-2 m-3 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {query.trim() !== '' && !isSearching && !error && results.length === 0 && (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">No results for &ldquo;{query.trim()}&rdquo;</p>
+          )}
+
+          {query.trim() === '' && (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">
+              Type to search project names and descriptions, task names, and note titles and content
+            </p>
+          )}
+
+          {results.length > 0 && (
+            <ul id="search-results" role="listbox" aria-label="Search results" className="py-2">
+              {results.map((result, index) => {
+                const Icon = RESULT_ICONS[result.result_type]
+                const context = getResultContext(result)
+                const isActive = index === activeIndex
+
+                return (
+                  <li
+                    key={`${result.result_type}-${result.id}`}
+                    id={`search-result-${index}`}
+                    role="option"
+                    aria-selected={isActive}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => openResult(result)}
+                    className={`flex gap-3 mx-2 px-3 py-2.5 rounded-lg cursor-pointer ${isActive ? 'bg-blue-50' : ''}`}
+                  >
+                    <div className={`p-1.5 h-fit rounded-md ${isActive ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-500'}`}>
+                      <Icon className="size-4" aria-hidden="true" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 truncate">
+                          {result.result_type === 'task' ? <HighlightedSnippet snippet={result.snippet} /> : result.title}
+                        </span>
+                        <span className="shrink-0 text-[10px] font-semibold uppercase tracking-wide text-gray-400">
+                          {RESULT_LABELS[result.result_type]}
+                        </span>
+                      </div>
+                      {context && <p className="text-xs text-gray-500 truncate">{context}</p>}
+                      {result.result_type !== 'task' && (
+                        <p className="mt-0.5 text-sm text-gray-600 line-clamp-2">
+                          <HighlightedSnippet snippet={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
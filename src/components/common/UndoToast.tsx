@@ -0,0 +1,48 @@
+'use client'
+
+import { RotateCcw, X, AlertCircle } from 'lucide-react'
+
+import type { UndoEntry } from '@/contexts/UndoContext'
+import { Button } from '@/components/ui/button'
+
+interface UndoToastProps {
+  entry: UndoEntry
+  onUndo: () => void
+  onDismiss: () => void
+}
+
+export function UndoToast({ entry, onUndo, onDismiss }: UndoToastProps) {
+  return (
+    <div className="animate-in slide-in-from-bottom-4 duration-300 flex items-center gap-3 p-3 pl-4 bg-gray-900 text-white rounded-xl shadow-2xl" role="status">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate" title={entry.label}>{entry.label}</p>
+        {entry.error && (
+          <p className="flex items-center gap-1 text-xs text-red-300">
+            <AlertCircle className="size-3 shrink-0" />
+            {entry.error}
+          </p>
+        )}
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onUndo}
+        disabled={entry.isUndoing}
+        className="text-blue-300 hover:text-blue-200 hover:bg-white/10"
+      >
+        <RotateCcw className="size-4 mr-1" />
+        {entry.isUndoing ? 'Undoing...' : 'Undo'}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onDismiss}
+        disabled={entry.isUndoing}
+        className="size-8 text-gray-400 hover:text-white hover:bg-white/10"
+        aria-label="Dismiss"
+      >
+        <X className="size-4" />
+      </Button>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { format, formatDistanceToNow } from 'date-fns'
 import { Calendar, Edit, Trash2, ChevronDown, ChevronUp, StickyNote, Clock, AlertTriangle } from 'lucide-react'
 
 import { Note } from '@/types'
+import { TRASH_RETENTION_DAYS } from '@/lib/task-utils'
 import { 
   Card, 
   CardHeader, 
@@ -391,7 +392,7 @@ export function NoteCard({
                   Delete Note
                 </DialogTitle>
                 <DialogDescription className="text-sm text-gray-500 mt-1">
-                  This action cannot be undone.
+                  You can restore it from the trash for {TRASH_RETENTION_DAYS} days.
                 </DialogDescription>
               </div>
             </div>
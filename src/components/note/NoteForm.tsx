@@ -33,7 +33,7 @@ import {
 interface NoteFormProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (noteData: Omit<Note, 'created_at' | 'updated_at'> | Omit<Note, 'id' | 'created_at' | 'updated_at'>) => Promise<void>
+  onSubmit: (noteData: Omit<Note, 'created_at' | 'updated_at' | 'deleted_at'> | Omit<Note, 'id' | 'created_at' | 'updated_at' | 'deleted_at'>) => Promise<void>
   note?: Note | null
   taskId: string
   isLoading?: boolean
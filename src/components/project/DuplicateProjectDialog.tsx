@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Copy, AlertCircle } from 'lucide-react'
+
+import { Project } from '@/types'
+import { duplicateProject } from '@/lib/database'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface DuplicateProjectDialogProps {
+  project: Project | null
+  isOpen: boolean
+  onClose: () => void
+  onDuplicated?: (copy: Project) => void
+}
+
+/**
+ * Choose how a project is copied: its name, whether notes come along,
+ * whether tasks start over and how far the dates move
+ */
+export function DuplicateProjectDialog({ project, isOpen, onClose, onDuplicated }: DuplicateProjectDialogProps) {
+  const [name, setName] = useState('')
+  const [includeNotes, setIncludeNotes] = useState(true)
+  const [resetCompletion, setResetCompletion] = useState(true)
+  const [shiftDays, setShiftDays] = useState('0')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !project) return
+
+    setName(`${project.name} (copy)`)
+    setIncludeNotes(true)
+    setResetCompletion(true)
+    setShiftDays('0')
+    setError(null)
+  }, [isOpen, project])
+
+  const shiftDaysValue = Number(shiftDays)
+  const isShiftValid = Number.isInteger(shiftDaysValue)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!project || !name.trim() || !isShiftValid || isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const result = await duplicateProject(project.id, {
+        name: name.trim(),
+        includeNotes,
+        resetCompletion,
+        shiftDays: shiftDaysValue
+      })
+      if (result.success && result.data) {
+        onDuplicated?.(result.data)
+        onClose()
+      } else {
+        setError(result.error || 'Failed to duplicate project')
+      }
+    } catch (err) {
+      console.error('Error duplicating project:', err)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!project) return null
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="size-5 text-blue-600" />
+            Duplicate project
+          </DialogTitle>
+          <DialogDescription>
+            Copies &quot;{project.name}&quot; with its statuses, tasks, subtasks and dependencies into a new project you own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-name">Name</Label>
+            <Input
+              id="duplicate-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-shift-days">Shift dates by (days)</Label>
+            <Input
+              id="duplicate-shift-days"
+              type="number"
+              step={1}
+              value={shiftDays}
+              onChange={(e) => setShiftDays(e.target.value)}
+              disabled={isSaving}
+              className="w-32"
+            />
+            <p className="text-xs text-gray-500">Moves the project&apos;s and every task&apos;s start and due dates.</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeNotes}
+              onChange={(e) => setIncludeNotes(e.target.checked)}
+              disabled={isSaving}
+              className="size-4 accent-blue-600"
+            />
+            Copy notes
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={resetCompletion}
+              onChange={(e) => setResetCompletion(e.target.checked)}
+              disabled={isSaving}
+              className="size-4 accent-blue-600"
+            />
+            Reset tasks to the first open status
+          </label>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || !isShiftValid || isSaving}>
+              {isSaving ? 'Duplicating...' : 'Duplicate'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
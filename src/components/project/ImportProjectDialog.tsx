@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { Upload, AlertCircle, FileJson } from 'lucide-react'
+
+import { Project } from '@/types'
+import { importProject } from '@/lib/database'
+import { ExportData } from '@/lib/export'
+import { parseProjectImport, getProjectImportPreview } from '@/lib/import'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ImportProjectDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  onImported?: (project: Project) => void
+}
+
+/**
+ * Pick a JSON project export, preview it and recreate it as a new project
+ */
+export function ImportProjectDialog({ isOpen, onClose, onImported }: ImportProjectDialogProps) {
+  const [importData, setImportData] = useState<ExportData | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const preview = importData ? getProjectImportPreview(importData) : null
+
+  const handleClose = () => {
+    if (isImporting) return
+
+    setImportData(null)
+    setError(null)
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setImportData(null)
+    setError(null)
+    if (!file) return
+
+    try {
+      const result = parseProjectImport(await file.text())
+      if (result.success && result.data) {
+        setImportData(result.data)
+      } else {
+        setError(result.error || 'The file could not be read')
+      }
+    } catch (err) {
+      console.error('Error reading import file:', err)
+      setError('The file could not be read')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!importData || isImporting) return
+
+    setIsImporting(true)
+    setError(null)
+
+    try {
+      const result = await importProject(importData)
+      if (result.success && result.data) {
+        onImported?.(result.data)
+        setImportData(null)
+        onClose()
+      } else {
+        setError(result.error || 'Failed to import project')
+      }
+    } catch (err) {
+      console.error('Error importing project:', err)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="size-5 text-blue-600" />
+            Import project
+          </DialogTitle>
+          <DialogDescription>
+            Recreate a project from a JSON export. It is added as a new project you own;
+            tags, assignees and dependencies are not part of exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Export file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+          </div>
+
+          {preview && (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900 space-y-1">
+              <p className="flex items-center gap-2 font-semibold">
+                <FileJson className="size-4 text-blue-600" />
+                {preview.projectName}
+              </p>
+              <p className="text-blue-700">Exported {preview.exportDate} · version {preview.version}</p>
+              <ul className="list-disc pl-5 text-blue-800">
+                <li>{preview.taskCount} tasks and {preview.subtaskCount} subtasks ({preview.completedTaskCount} completed)</li>
+                <li>{preview.noteCount} notes</li>
+                <li>
+                  {preview.statusCount > 0
+                    ? `${preview.statusCount} statuses`
+                    : 'Default statuses (this export has none)'}
+                </li>
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!importData || isImporting}>
+            {isImporting ? 'Importing...' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
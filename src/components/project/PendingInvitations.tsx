@@ -0,0 +1,109 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Mail, Check, X, AlertCircle } from 'lucide-react'
+
+import { PendingInvitation } from '@/types'
+import { getMyInvitations, acceptProjectInvitation, declineProjectInvitation } from '@/lib/database'
+import { Button } from '@/components/ui/button'
+
+interface PendingInvitationsProps {
+  // Called after joining a project so the caller can reload its list
+  onAccepted: (invitation: PendingInvitation) => void
+}
+
+/**
+ * Banner listing projects the current user has been invited to. Renders nothing when there are none.
+ */
+export function PendingInvitations({ onAccepted }: PendingInvitationsProps) {
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadInvitations = async () => {
+      const result = await getMyInvitations()
+      if (result.success && result.data) {
+        setInvitations(result.data)
+      }
+    }
+    loadInvitations()
+  }, [])
+
+  const respond = async (invitation: PendingInvitation, accept: boolean) => {
+    if (respondingId) return
+
+    setRespondingId(invitation.id)
+    setError(null)
+
+    const result = accept
+      ? await acceptProjectInvitation(invitation.id)
+      : await declineProjectInvitation(invitation.id)
+
+    if (result.success) {
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id))
+      if (accept) {
+        onAccepted(invitation)
+      }
+    } else {
+      setError(result.error || 'Failed to respond to invitation')
+    }
+    setRespondingId(null)
+  }
+
+  if (invitations.length === 0) return null
+
+  return (
+    <div className="animate-in slide-in-from-top-4 duration-300">
+      <div className="p-4 bg-gradient-to-r from-purple-50 to-blue-50 border border-purple-200 rounded-xl shadow-sm space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-purple-200 rounded-full">
+            <Mail className="size-4 text-purple-700" />
+          </div>
+          <p className="text-purple-900 font-medium">
+            You&apos;ve been invited to {invitations.length === 1 ? 'a project' : `${invitations.length} projects`}
+          </p>
+        </div>
+
+        <ul className="space-y-2">
+          {invitations.map(invitation => (
+            <li key={invitation.id} className="flex flex-wrap items-center gap-3 p-3 bg-white/80 rounded-lg border border-purple-100">
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-gray-900 truncate">{invitation.project_name}</p>
+                <p className="text-sm text-gray-600">
+                  {invitation.invited_by_email ? `${invitation.invited_by_email} invited you` : 'You were invited'} as {invitation.role === 'owner' ? 'an owner' : `a ${invitation.role}`}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => respond(invitation, true)}
+                  disabled={respondingId !== null}
+                >
+                  <Check className="size-4 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => respond(invitation, false)}
+                  disabled={respondingId !== null}
+                >
+                  <X className="size-4 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-red-700" role="alert">
+            <AlertCircle className="size-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { format, formatDistanceToNow, parseISO } from 'date-fns'
+import { FolderOpen, Target, StickyNote, AlertCircle, RefreshCw } from 'lucide-react'
+
+import { ProjectActivity, ActivityChange, ActivityEntityType, TaskStatus, TaskRecurrence } from '@/types'
+import { getProjectActivity, getProjectMembers } from '@/lib/database'
+import { describeRecurrence, getInitials } from '@/lib/task-utils'
+import { useAuth } from '@/contexts/AuthContext'
+import { Button } from '@/components/ui/button'
+
+interface ProjectActivityFeedProps {
+  projectId: string
+  // Used to show status names instead of IDs
+  statuses: TaskStatus[]
+}
+
+const PAGE_SIZE = 20
+
+const ENTITY_ICONS: Record<ActivityEntityType, typeof FolderOpen> = {
+  project: FolderOpen,
+  task: Target,
+  note: StickyNote
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  title: 'Title',
+  description: 'Description',
+  content: 'Content',
+  start_date: 'Start date',
+  due_date: 'Due date',
+  priority: 'Priority',
+  completed: 'Completed',
+  status_id: 'Status',
+  recurrence: 'Repeats',
+  assignee_id: 'Assignee',
+  parent_task_id: 'Parent task',
+  project_id: 'Project',
+  task_id: 'Task'
+}
+
+// Long or opaque values are summarised rather than shown
+const SUMMARISED_FIELDS = ['description', 'content', 'parent_task_id', 'project_id', 'task_id']
+
+/**
+ * A paginated feed of who changed what in a project, newest first
+ */
+export function ProjectActivityFeed({ projectId, statuses }: ProjectActivityFeedProps) {
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<ProjectActivity[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Member emails by user ID, for showing assignee changes
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({})
+
+  const loadPage = useCallback(async (offset: number) => {
+    setLoading(true)
+    setError(null)
+
+    const result = await getProjectActivity(projectId, { limit: PAGE_SIZE, offset })
+    if (result.success && result.data) {
+      const { items, has_more } = result.data
+      setEntries(prev => offset === 0 ? items : [...prev, ...items])
+      setHasMore(has_more)
+    } else {
+      setError(result.error || 'Failed to load activity')
+    }
+    setLoading(false)
+  }, [projectId])
+
+  useEffect(() => {
+    loadPage(0)
+
+    const loadMembers = async () => {
+      const result = await getProjectMembers(projectId)
+      if (result.success && result.data) {
+        setMemberEmails(Object.fromEntries(result.data.map(member => [member.user_id, member.profile.email])))
+      }
+    }
+    loadMembers()
+  }, [projectId, loadPage])
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return 'none'
+
+    switch (field) {
+      case 'start_date':
+      case 'due_date':
+        return format(parseISO(String(value)), 'MMM d, yyyy')
+      case 'status_id':
+        return statuses.find(status => status.id === value)?.name || 'a deleted status'
+      case 'assignee_id':
+        return memberEmails[String(value)] || 'a former member'
+      case 'completed':
+        return value ? 'yes' : 'no'
+      case 'recurrence':
+        return describeRecurrence(value as TaskRecurrence)
+      default:
+        return String(value)
+    }
+  }
+
+  const describeChange = (field: string, change: ActivityChange) => {
+    const label = FIELD_LABELS[field] || field
+    if (SUMMARISED_FIELDS.includes(field)) {
+      return `${label} changed`
+    }
+    return `${label}: ${formatValue(field, change.from)} → ${formatValue(field, change.to)}`
+  }
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+          <AlertCircle className="size-4 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {entries.length === 0 && !loading && !error ? (
+        <p className="text-sm text-gray-500 text-center py-6">No activity yet</p>
+      ) : (
+        <ol className="space-y-3" aria-label="Project activity">
+          {entries.map(entry => {
+            const EntityIcon = ENTITY_ICONS[entry.entity_type]
+            const actorEmail = entry.actor?.email
+            const actorName = entry.actor_id === user?.id ? 'You' : actorEmail || 'Someone'
+            const changes = Object.entries(entry.changes || {})
+
+            return (
+              <li key={entry.id} className="flex gap-3 rounded-lg border border-gray-200/60 bg-white/80 p-3">
+                <span
+                  className="inline-flex items-center justify-center size-8 shrink-0 rounded-full bg-gradient-to-br from-gray-400 to-gray-500 text-xs font-semibold text-white"
+                  aria-hidden="true"
+                >
+                  {actorEmail ? getInitials(actorEmail) : '?'}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-900">
+                    <span className="font-semibold">{actorName}</span>{' '}
+                    {entry.action} {entry.entity_type}{' '}
+                    <span className="inline-flex items-center gap-1 font-medium">
+                      <EntityIcon className="size-3.5 text-gray-500" aria-hidden="true" />
+                      {entry.entity_name || 'untitled'}
+                    </span>
+                  </p>
+                  {changes.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                      {changes.map(([field, change]) => (
+                        <li key={field}>{describeChange(field, change)}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="mt-1 text-xs text-gray-400" title={format(new Date(entry.created_at), 'PPpp')}>
+                    {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+
+      {loading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-14 bg-gray-200 rounded-lg animate-pulse" />
+          ))}
+        </div>
+      ) : (
+        <div className="flex justify-center gap-2">
+          {hasMore && (
+            <Button variant="outline" size="sm" onClick={() => loadPage(entries.length)}>
+              Load more
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={() => loadPage(0)}>
+            <RefreshCw className="size-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
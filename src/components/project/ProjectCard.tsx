@@ -2,9 +2,10 @@
 
 import { useState, useRef } from 'react'
 import { format } from 'date-fns'
-import { Calendar, Edit, Trash2, FolderOpen, Clock, AlertTriangle } from 'lucide-react'
+import { Calendar, Edit, Trash2, FolderOpen, Clock, AlertTriangle, Users, Copy } from 'lucide-react'
 
 import { Project } from '@/types'
+import { TRASH_RETENTION_DAYS } from '@/lib/task-utils'
 import { 
   Card, 
   CardHeader, 
@@ -22,11 +23,13 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { TagBadge } from '@/components/tag/TagBadge'
 
 interface ProjectCardProps {
   project: Project
   onEdit?: (project: Project) => void
   onDelete?: (projectId: string) => void
+  onDuplicate?: (project: Project) => void
   onView?: (projectId: string) => void
   isLoading?: boolean
   showActions?: boolean
@@ -37,6 +40,7 @@ export function ProjectCard({
   project, 
   onEdit, 
   onDelete, 
+  onDuplicate,
   onView,
   isLoading = false,
   showActions = true,
@@ -49,12 +53,22 @@ export function ProjectCard({
   const cardRef = useRef<HTMLDivElement>(null)
   const deleteButtonRef = useRef<HTMLButtonElement>(null)
 
+  // Projects fetched without a role are the user's own
+  const isOwner = !project.role || project.role === 'owner'
+  const canEdit = project.role !== 'viewer'
+
   const handleEdit = () => {
     if (onEdit && !isLoading) {
       onEdit(project)
     }
   }
 
+  const handleDuplicate = () => {
+    if (onDuplicate && !isLoading) {
+      onDuplicate(project)
+    }
+  }
+
   const handleDeleteClick = () => {
     setShowDeleteDialog(true)
   }
@@ -212,48 +226,69 @@ export function ProjectCard({
               </CardTitle>
             </div>
             
-            {showActions && (
+            {/* Any member can duplicate a project; the copy is their own */}
+            {showActions && (canEdit || onDuplicate) && (
               <CardAction 
                 role="toolbar" 
                 aria-label={`Actions for project ${project.name}`}
               >
                 <div className="flex gap-1">
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleEdit()
-                    }}
-                    disabled={isLoading}
-                    className="size-8 hover:bg-blue-50 hover:text-blue-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                    aria-label={`Edit project ${project.name}`}
-                    title={`Edit project ${project.name}`}
-                  >
-                    <Edit className="size-4" aria-hidden="true" />
-                  </Button>
-                  <Button
-                    ref={deleteButtonRef}
-                    variant="ghost"
-                    size="icon"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleDeleteClick()
-                    }}
-                    disabled={isLoading || isDeleting}
-                    className="size-8 hover:bg-red-50 hover:text-red-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-red-500/50"
-                    aria-label={`Delete project ${project.name}`}
-                    title={`Delete project ${project.name}`}
-                  >
-                    {isDeleting ? (
-                      <div 
-                        className="size-4 animate-spin rounded-full border-2 border-red-600 border-t-transparent"
-                        aria-label="Deleting project"
-                      />
-                    ) : (
-                      <Trash2 className="size-4" aria-hidden="true" />
-                    )}
-                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleEdit()
+                      }}
+                      disabled={isLoading}
+                      className="size-8 hover:bg-blue-50 hover:text-blue-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                      aria-label={`Edit project ${project.name}`}
+                      title={`Edit project ${project.name}`}
+                    >
+                      <Edit className="size-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                  {onDuplicate && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDuplicate()
+                      }}
+                      disabled={isLoading}
+                      className="size-8 hover:bg-blue-50 hover:text-blue-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                      aria-label={`Duplicate project ${project.name}`}
+                      title={`Duplicate project ${project.name}`}
+                    >
+                      <Copy className="size-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                  {isOwner && (
+                    <Button
+                      ref={deleteButtonRef}
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleDeleteClick()
+                      }}
+                      disabled={isLoading || isDeleting}
+                      className="size-8 hover:bg-red-50 hover:text-red-600 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+                      aria-label={`Delete project ${project.name}`}
+                      title={`Delete project ${project.name}`}
+                    >
+                      {isDeleting ? (
+                        <div 
+                          className="size-4 animate-spin rounded-full border-2 border-red-600 border-t-transparent"
+                          aria-label="Deleting project"
+                        />
+                      ) : (
+                        <Trash2 className="size-4" aria-hidden="true" />
+                      )}
+                    </Button>
+                  )}
                 </div>
               </CardAction>
             )}
@@ -306,6 +341,21 @@ export function ProjectCard({
                 </div>
               )}
             </div>
+
+            {!isOwner && (
+              <div className="inline-flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium border text-purple-700 bg-purple-50 border-purple-200">
+                <Users className="size-3" aria-hidden="true" />
+                <span>Shared with you · {project.role === 'editor' ? 'Editor' : 'Viewer'}</span>
+              </div>
+            )}
+
+            {project.tags && project.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5" aria-label="Tags">
+                {project.tags.map(tag => (
+                  <TagBadge key={tag.id} tag={tag} />
+                ))}
+              </div>
+            )}
           </div>
         </CardContent>
 
@@ -347,7 +397,7 @@ export function ProjectCard({
               id="delete-dialog-description"
             >
               Are you sure you want to delete <span className="font-semibold">&quot;{project.name}&quot;</span>? 
-              This action cannot be undone and will permanently remove the project and all its tasks.
+              The project and all its tasks will be moved to the trash, where you can restore them for {TRASH_RETENTION_DAYS} days.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="gap-2">
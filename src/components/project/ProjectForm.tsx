@@ -2,13 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { format } from 'date-fns'
-import { Calendar, FolderPlus, AlertCircle, CheckCircle, Info } from 'lucide-react'
+import { Calendar, FolderPlus, AlertCircle, CheckCircle, Info, Tags, LayoutTemplate, Trash2 } from 'lucide-react'
 
-import { Project } from '@/types'
+import { Project, CreateProjectData, ProjectTemplate } from '@/types'
+import { getProjectTemplates, deleteProjectTemplate } from '@/lib/database'
+import { isValidDateRange } from '@/lib/task-utils'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { TagPicker } from '@/components/tag/TagPicker'
 import { 
   Dialog, 
   DialogContent, 
@@ -21,7 +25,8 @@ import {
 interface ProjectFormProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (projectData: Omit<Project, 'id' | 'user_id' | 'created_at' | 'updated_at'>) => Promise<void>
+  // templateId is only passed when a new project is created from a template
+  onSubmit: (projectData: CreateProjectData, templateId?: string) => Promise<void>
   isLoading?: boolean
   mode?: 'create' | 'edit'
   initialData?: Project
@@ -30,12 +35,14 @@ interface ProjectFormProps {
 interface FormData {
   name: string
   description: string
+  start_date: string
   due_date: string
 }
 
 interface FormErrors {
   name?: string
   description?: string
+  start_date?: string
   due_date?: string
 }
 
@@ -47,6 +54,7 @@ interface FieldValidation {
 interface FormValidation {
   name: FieldValidation
   description: FieldValidation
+  start_date: FieldValidation
   due_date: FieldValidation
 }
 
@@ -61,14 +69,20 @@ export function ProjectForm({
   const [formData, setFormData] = useState<FormData>({
     name: '',
     description: '',
+    start_date: '',
     due_date: ''
   })
+  const [tagIds, setTagIds] = useState<string[]>([])
+  const [templates, setTemplates] = useState<ProjectTemplate[]>([])
+  const [templateId, setTemplateId] = useState('')
+  const [confirmDeleteTemplate, setConfirmDeleteTemplate] = useState(false)
 
   const [errors, setErrors] = useState<FormErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [validation, setValidation] = useState<FormValidation>({
     name: { isValid: false, isDirty: false },
     description: { isValid: true, isDirty: false },
+    start_date: { isValid: true, isDirty: false },
     due_date: { isValid: true, isDirty: false }
   })
 
@@ -78,25 +92,31 @@ export function ProjectForm({
       const newFormData = {
         name: initialData.name || '',
         description: initialData.description || '',
+        start_date: initialData.start_date ? format(new Date(initialData.start_date), 'yyyy-MM-dd') : '',
         due_date: initialData.due_date ? format(new Date(initialData.due_date), 'yyyy-MM-dd') : ''
       }
       setFormData(newFormData)
+      setTagIds(initialData.tags?.map(tag => tag.id) || [])
       
       // Validate initial data
       validateField('name', newFormData.name, false)
       validateField('description', newFormData.description, false)
+      validateField('start_date', newFormData.start_date, false)
       validateField('due_date', newFormData.due_date, false)
     } else {
       // Reset form for create mode
       const emptyFormData = {
         name: '',
         description: '',
+        start_date: '',
         due_date: ''
       }
       setFormData(emptyFormData)
+      setTagIds([])
       setValidation({
         name: { isValid: false, isDirty: false },
         description: { isValid: true, isDirty: false },
+        start_date: { isValid: true, isDirty: false },
         due_date: { isValid: true, isDirty: false }
       })
     }
@@ -104,6 +124,34 @@ export function ProjectForm({
     setErrors({})
   }, [initialData])
 
+  // Templates are only offered when creating a project
+  useEffect(() => {
+    if (!isOpen || mode !== 'create') return
+
+    const loadTemplates = async () => {
+      const result = await getProjectTemplates()
+      if (result.success && result.data) {
+        setTemplates(result.data)
+      }
+    }
+    loadTemplates()
+  }, [isOpen, mode])
+
+  const selectedTemplate = templates.find(template => template.id === templateId)
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate) return
+
+    const result = await deleteProjectTemplate(selectedTemplate.id)
+    if (result.success) {
+      setTemplates(prev => prev.filter(template => template.id !== selectedTemplate.id))
+      setTemplateId('')
+    } else {
+      console.error('Error deleting template:', result.error)
+    }
+    setConfirmDeleteTemplate(false)
+  }
+
   const validateField = (field: keyof FormData, value: string, isDirty: boolean = true) => {
     let isValid = true
     let error: string | undefined
@@ -161,12 +209,16 @@ export function ProjectForm({
     return isValid
   }
 
+  // Checked across both date fields, so it's derived from the current form data
+  const hasDateRangeError = !isValidDateRange(formData.start_date, formData.due_date)
+
   const validateForm = (): boolean => {
     const nameValid = validateField('name', formData.name)
     const descriptionValid = validateField('description', formData.description)
+    const startDateValid = validateField('start_date', formData.start_date)
     const dueDateValid = validateField('due_date', formData.due_date)
 
-    return nameValid && descriptionValid && dueDateValid
+    return nameValid && descriptionValid && startDateValid && dueDateValid && !hasDateRangeError
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -182,10 +234,12 @@ export function ProjectForm({
       const projectData = {
         name: formData.name.trim(),
         description: formData.description.trim() || null,
-        due_date: formData.due_date || null
+        start_date: formData.start_date || null,
+        due_date: formData.due_date || null,
+        tag_ids: tagIds
       }
 
-      await onSubmit(projectData)
+      await onSubmit(projectData, templateId || undefined)
       handleClose()
     } catch (error) {
       console.error('Error submitting project:', error)
@@ -200,12 +254,17 @@ export function ProjectForm({
     setFormData({
       name: '',
       description: '',
+      start_date: '',
       due_date: ''
     })
+    setTagIds([])
+    setTemplateId('')
+    setConfirmDeleteTemplate(false)
     setErrors({})
     setValidation({
       name: { isValid: false, isDirty: false },
       description: { isValid: true, isDirty: false },
+      start_date: { isValid: true, isDirty: false },
       due_date: { isValid: true, isDirty: false }
     })
     onClose()
@@ -256,7 +315,7 @@ export function ProjectForm({
     return null
   }
 
-  const isFormValid = validation.name.isValid && validation.description.isValid && validation.due_date.isValid
+  const isFormValid = validation.name.isValid && validation.description.isValid && validation.start_date.isValid && validation.due_date.isValid && !hasDateRangeError
   const isFormDisabled = isSubmitting || isLoading
 
   return (
@@ -282,6 +341,69 @@ export function ProjectForm({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-5">
+          {/* Template */}
+          {mode === 'create' && templates.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                <LayoutTemplate className="size-4" />
+                Template
+              </Label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={templateId || 'blank'}
+                  onValueChange={(value) => {
+                    setTemplateId(value === 'blank' ? '' : value)
+                    setConfirmDeleteTemplate(false)
+                  }}
+                  disabled={isFormDisabled}
+                >
+                  <SelectTrigger id="template" className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="blank">Blank project</SelectItem>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedTemplate && (
+                  confirmDeleteTemplate ? (
+                    <>
+                      <Button type="button" variant="destructive" size="sm" onClick={handleDeleteTemplate} disabled={isFormDisabled}>
+                        Delete
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => setConfirmDeleteTemplate(false)}>
+                        Keep
+                      </Button>
+                    </>
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setConfirmDeleteTemplate(true)}
+                      disabled={isFormDisabled}
+                      className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+                      aria-label="Delete template"
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  )
+                )}
+              </div>
+              {selectedTemplate && (
+                <div className="flex items-center gap-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
+                  <Info className="size-3 text-blue-500 flex-shrink-0" />
+                  <p className="text-sm text-blue-600">
+                    Adds {selectedTemplate.data.tasks.length} {selectedTemplate.data.tasks.length === 1 ? 'task' : 'tasks'}.
+                    Dates are shifted to count from the start date ({formData.start_date ? format(new Date(formData.start_date), 'MMMM d, yyyy') : 'today'}).
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Project Name */}
           <div className="space-y-2">
             <Label htmlFor="name" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -366,6 +488,36 @@ export function ProjectForm({
             </div>
           </div>
 
+          {/* Start Date */}
+          <div className="space-y-2">
+            <Label htmlFor="start_date" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              Start Date 
+              <span className="text-gray-400 font-normal">(optional)</span>
+              {getValidationIcon('start_date')}
+            </Label>
+            <div className="relative">
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => handleInputChange('start_date', e.target.value)}
+                disabled={isFormDisabled}
+                className={`transition-all duration-200 pr-10 ${hasDateRangeError ? 'border-red-500 focus:border-red-500 focus:ring-2 focus:ring-red-500/20 bg-red-50/30' : getFieldClassName('start_date')} [&::-webkit-calendar-picker-indicator]:hidden [&::-webkit-inner-spin-button]:hidden [&::-webkit-clear-button]:hidden`}
+                max={formData.due_date || undefined}
+              />
+              <Calendar 
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 size-4 text-gray-400 cursor-pointer hover:text-gray-600 transition-colors" 
+                onClick={() => (document.getElementById('start_date') as HTMLInputElement)?.showPicker?.()}
+              />
+            </div>
+            {hasDateRangeError && (
+              <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-md animate-in slide-in-from-top-1 duration-200">
+                <AlertCircle className="size-3 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-600">Start date must be on or before the due date</p>
+              </div>
+            )}
+          </div>
+
           {/* Due Date */}
           <div className="space-y-2">
             <Label htmlFor="due_date" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -402,6 +554,16 @@ export function ProjectForm({
             )}
           </div>
 
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              <Tags className="size-4" />
+              Tags
+              <span className="text-gray-400 font-normal">(optional)</span>
+            </Label>
+            <TagPicker selectedTagIds={tagIds} onChange={setTagIds} disabled={isFormDisabled} />
+          </div>
+
           <DialogFooter className="gap-3 pt-4">
             <Button 
               type="button" 
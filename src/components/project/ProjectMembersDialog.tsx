@@ -0,0 +1,289 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Users, Trash2, Send, AlertCircle, Mail, Crown } from 'lucide-react'
+
+import { ProjectMember, ProjectInvitation, ProjectRole } from '@/types'
+import {
+  getProjectMembers,
+  getProjectInvitations,
+  inviteProjectMember,
+  revokeProjectInvitation,
+  updateProjectMemberRole,
+  removeProjectMember
+} from '@/lib/database'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ProjectMembersDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  projectId: string
+  // The project's creator, who can't be removed or demoted
+  creatorId: string
+}
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+}
+
+function RoleSelect({ value, onChange, disabled, label }: {
+  value: ProjectRole
+  onChange: (role: ProjectRole) => void
+  disabled?: boolean
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as ProjectRole)} disabled={disabled}>
+      <SelectTrigger className="h-8 w-28 shrink-0" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ROLE_LABELS) as ProjectRole[]).map(role => (
+          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Lets a project owner invite people by email and manage members' roles
+ */
+export function ProjectMembersDialog({ isOpen, onClose, projectId, creatorId }: ProjectMembersDialogProps) {
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Invite form state
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('editor')
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    const [membersResult, invitationsResult] = await Promise.all([
+      getProjectMembers(projectId),
+      getProjectInvitations(projectId)
+    ])
+
+    if (membersResult.success && membersResult.data && invitationsResult.success && invitationsResult.data) {
+      setMembers(membersResult.data)
+      setInvitations(invitationsResult.data)
+    } else {
+      setError(membersResult.error || invitationsResult.error || 'Failed to load members')
+    }
+    setLoading(false)
+  }, [projectId])
+
+  useEffect(() => {
+    if (isOpen) {
+      loadData()
+    }
+  }, [isOpen, loadData])
+
+  const runUpdate = async (action: () => Promise<void>) => {
+    if (isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await action()
+    } catch (error) {
+      console.error('Error updating project members:', error)
+      setError('An unexpected error occurred while updating members')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRoleChange = (member: ProjectMember, role: ProjectRole) => {
+    runUpdate(async () => {
+      const result = await updateProjectMemberRole(member.id, role)
+      if (result.success && result.data) {
+        setMembers(prev => prev.map(m => m.id === member.id ? result.data! : m))
+      } else {
+        setError(result.error || 'Failed to change role')
+      }
+    })
+  }
+
+  const handleRemove = (member: ProjectMember) => {
+    runUpdate(async () => {
+      const result = await removeProjectMember(member.id)
+      if (result.success) {
+        setMembers(prev => prev.filter(m => m.id !== member.id))
+      } else {
+        setError(result.error || 'Failed to remove member')
+      }
+    })
+  }
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (inviteEmail.trim() === '') return
+
+    runUpdate(async () => {
+      const result = await inviteProjectMember(projectId, inviteEmail, inviteRole)
+      if (result.success && result.data) {
+        setInvitations(prev => [...prev, result.data!])
+        setInviteEmail('')
+      } else {
+        setError(result.error || 'Failed to send invitation')
+      }
+    })
+  }
+
+  const handleRevoke = (invitation: ProjectInvitation) => {
+    runUpdate(async () => {
+      const result = await revokeProjectInvitation(invitation.id)
+      if (result.success) {
+        setInvitations(prev => prev.filter(i => i.id !== invitation.id))
+      } else {
+        setError(result.error || 'Failed to revoke invitation')
+      }
+    })
+  }
+
+  const handleClose = () => {
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg bg-gradient-to-br from-white to-blue-50/30 border-blue-200/30 shadow-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-xl font-bold bg-gradient-to-r from-blue-700 to-purple-700 bg-clip-text text-transparent">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Users className="size-5 text-white" />
+            </div>
+            Share Project
+          </DialogTitle>
+          <DialogDescription>
+            Editors can change tasks and notes, viewers can only read them. Only owners can delete the project or manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2].map(i => (
+              <div key={i} className="h-12 bg-gray-200 rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <>
+            <ul className="space-y-2" aria-label="Project members">
+              {members.map(member => {
+                const isCreator = member.user_id === creatorId
+
+                return (
+                  <li key={member.id} className="flex items-center gap-2 rounded-lg border border-gray-200 bg-white/80 p-2">
+                    <span className="flex-1 min-w-0 truncate text-sm text-gray-900" title={member.profile.email}>
+                      {member.profile.email}
+                    </span>
+                    {isCreator ? (
+                      <span className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-md">
+                        <Crown className="size-3" aria-hidden="true" />
+                        Creator
+                      </span>
+                    ) : (
+                      <>
+                        <RoleSelect
+                          value={member.role}
+                          onChange={(role) => handleRoleChange(member, role)}
+                          disabled={isSaving}
+                          label={`Role for ${member.profile.email}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemove(member)}
+                          disabled={isSaving}
+                          className="size-8 hover:bg-red-50 hover:text-red-600"
+                          aria-label={`Remove ${member.profile.email}`}
+                        >
+                          <Trash2 className="size-4" />
+                        </Button>
+                      </>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-gray-700">Pending invitations</h4>
+                <ul className="space-y-2" aria-label="Pending invitations">
+                  {invitations.map(invitation => (
+                    <li key={invitation.id} className="flex items-center gap-2 rounded-lg border border-dashed border-gray-300 bg-gray-50/80 p-2">
+                      <Mail className="size-4 text-gray-400 shrink-0" aria-hidden="true" />
+                      <span className="flex-1 min-w-0 truncate text-sm text-gray-700" title={invitation.email}>
+                        {invitation.email}
+                      </span>
+                      <span className="text-xs text-gray-500 shrink-0">{ROLE_LABELS[invitation.role]}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(invitation)}
+                        disabled={isSaving}
+                        className="hover:bg-red-50 hover:text-red-600"
+                      >
+                        Revoke
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+
+        <form onSubmit={handleInvite} className="space-y-2 border-t border-gray-200 pt-4">
+          <Label htmlFor="invite-email">Invite by email</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="teammate@example.com"
+              disabled={isSaving}
+            />
+            <RoleSelect value={inviteRole} onChange={setInviteRole} disabled={isSaving} label="Role for invitation" />
+            <Button type="submit" size="sm" disabled={isSaving || inviteEmail.trim() === ''}>
+              <Send className="size-4 mr-1" />
+              Invite
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">
+            They&apos;ll see the invitation on their projects page after signing in with this email address.
+          </p>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { LayoutTemplate, AlertCircle } from 'lucide-react'
+
+import { Project, ProjectTemplate } from '@/types'
+import { saveProjectAsTemplate } from '@/lib/templates'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface SaveTemplateDialogProps {
+  project: Project
+  isOpen: boolean
+  onClose: () => void
+  onSaved?: (template: ProjectTemplate) => void
+}
+
+/**
+ * Name and save a project as a reusable template
+ */
+export function SaveTemplateDialog({ project, isOpen, onClose, onSaved }: SaveTemplateDialogProps) {
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(project.name)
+      setError(null)
+    }
+  }, [isOpen, project.name])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const result = await saveProjectAsTemplate(project.id, name.trim())
+      if (result.success && result.data) {
+        onSaved?.(result.data)
+        onClose()
+      } else {
+        setError(result.error || 'Failed to save template')
+      }
+    } catch (err) {
+      console.error('Error saving template:', err)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="size-5 text-blue-600" />
+            Save as template
+          </DialogTitle>
+          <DialogDescription>
+            Tasks, subtasks, priorities, recurrence and notes are saved. Dates are kept relative to the
+            project&apos;s start date, so they shift with the start date of each new project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Template name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSaving}
+              maxLength={100}
+            />
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : 'Save template'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,21 @@
+import { Tag } from '@/types'
+
+interface TagBadgeProps {
+  tag: Pick<Tag, 'name' | 'color'>
+  className?: string
+}
+
+/**
+ * A small chip showing a tag in its colour
+ */
+export function TagBadge({ tag, className = '' }: TagBadgeProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs font-medium ${className}`}
+      style={{ color: tag.color, backgroundColor: `${tag.color}1a`, borderColor: `${tag.color}4d` }}
+    >
+      <span className="size-1.5 rounded-full" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+      {tag.name}
+    </span>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { Tags } from 'lucide-react'
+
+import { Tag } from '@/types'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface TagFilterProps {
+  tags: Tag[]
+  // Selected tag ID, or null for all tags
+  value: string | null
+  onChange: (tagId: string | null) => void
+}
+
+export function TagFilter({ tags, value, onChange }: TagFilterProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Tags className="size-4 text-gray-500" />
+      <Select value={value || 'all'} onValueChange={(tagId) => onChange(tagId === 'all' ? null : tagId)}>
+        <SelectTrigger className="w-44 bg-white/70 backdrop-blur-sm border-gray-200 hover:bg-white transition-all duration-200" aria-label="Filter by tag">
+          <SelectValue placeholder="Filter by tag..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All tags</SelectItem>
+          {tags.map(tag => (
+            <SelectItem key={tag.id} value={tag.id}>
+              <div className="flex items-center gap-2">
+                <span className="size-2.5 rounded-full" style={{ backgroundColor: tag.color }} aria-hidden="true" />
+                <span>{tag.name}</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
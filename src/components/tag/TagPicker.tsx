@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Plus, Check, AlertCircle } from 'lucide-react'
+
+import { Tag } from '@/types'
+import { getTags, createTag } from '@/lib/database'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface TagPickerProps {
+  selectedTagIds: string[]
+  onChange: (tagIds: string[]) => void
+  disabled?: boolean
+}
+
+const DEFAULT_TAG_COLOR = '#3b82f6'
+
+/**
+ * Toggle the user's tags on and off, or create a new one inline.
+ * Rendered inside other forms, so it uses buttons rather than its own form element.
+ */
+export function TagPicker({ selectedTagIds, onChange, disabled = false }: TagPickerProps) {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isCreating, setIsCreating] = useState(false)
+
+  // New tag form state
+  const [newTagName, setNewTagName] = useState('')
+  const [newTagColor, setNewTagColor] = useState(DEFAULT_TAG_COLOR)
+
+  useEffect(() => {
+    const loadTags = async () => {
+      const result = await getTags()
+      if (result.success && result.data) {
+        setTags(result.data)
+      } else {
+        setError(result.error || 'Failed to load tags')
+      }
+      setLoading(false)
+    }
+    loadTags()
+  }, [])
+
+  const toggleTag = (tagId: string) => {
+    onChange(selectedTagIds.includes(tagId)
+      ? selectedTagIds.filter(id => id !== tagId)
+      : [...selectedTagIds, tagId])
+  }
+
+  const handleCreate = async () => {
+    if (newTagName.trim() === '' || isCreating) return
+
+    setIsCreating(true)
+    setError(null)
+
+    const result = await createTag({ name: newTagName, color: newTagColor })
+    if (result.success && result.data) {
+      const newTag = result.data
+      setTags(prev => [...prev, newTag].sort((a, b) => a.name.localeCompare(b.name)))
+      onChange([...selectedTagIds, newTag.id])
+      setNewTagName('')
+    } else {
+      setError(result.error || 'Failed to create tag')
+    }
+    setIsCreating(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      {loading ? (
+        <div className="h-7 w-40 bg-gray-200 rounded-full animate-pulse" />
+      ) : tags.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="Tags">
+          {tags.map(tag => {
+            const selected = selectedTagIds.includes(tag.id)
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => toggleTag(tag.id)}
+                disabled={disabled}
+                className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors duration-200 disabled:opacity-50"
+                style={selected
+                  ? { color: '#fff', backgroundColor: tag.color, borderColor: tag.color }
+                  : { color: tag.color, backgroundColor: `${tag.color}0d`, borderColor: `${tag.color}4d` }}
+                aria-pressed={selected}
+              >
+                {selected && <Check className="size-3" aria-hidden="true" />}
+                {tag.name}
+              </button>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">No tags yet. Create one below.</p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={newTagColor}
+          onChange={(e) => setNewTagColor(e.target.value)}
+          disabled={disabled || isCreating}
+          className="size-9 shrink-0 cursor-pointer rounded border border-gray-200 bg-transparent"
+          aria-label="Colour for new tag"
+        />
+        <Input
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          onKeyDown={(e) => {
+            // Don't submit the surrounding form
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleCreate()
+            }
+          }}
+          placeholder="New tag, e.g. @phone"
+          maxLength={50}
+          disabled={disabled || isCreating}
+          aria-label="New tag name"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          disabled={disabled || isCreating || newTagName.trim() === ''}
+        >
+          <Plus className="size-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-md">
+          <AlertCircle className="size-3 text-red-500 flex-shrink-0" />
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+    </div>
+  )
+}
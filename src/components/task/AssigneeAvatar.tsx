@@ -0,0 +1,22 @@
+import { Profile } from '@/types'
+import { getInitials } from '@/lib/task-utils'
+
+interface AssigneeAvatarProps {
+  assignee: Pick<Profile, 'email'>
+  className?: string
+}
+
+/**
+ * A round badge with the assignee's initials; their email is shown on hover
+ */
+export function AssigneeAvatar({ assignee, className = '' }: AssigneeAvatarProps) {
+  return (
+    <span
+      className={`inline-flex items-center justify-center size-6 shrink-0 rounded-full bg-gradient-to-br from-blue-500 to-purple-500 text-[10px] font-semibold text-white ${className}`}
+      title={`Assigned to ${assignee.email}`}
+      aria-label={`Assigned to ${assignee.email}`}
+    >
+      {getInitials(assignee.email)}
+    </span>
+  )
+}
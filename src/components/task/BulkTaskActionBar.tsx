@@ -0,0 +1,207 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle2, Circle, Flag, Calendar, FolderInput, Trash2, X } from 'lucide-react'
+
+import { Project, BulkUpdateTaskData } from '@/types'
+import { getProjects } from '@/lib/database'
+import { TRASH_RETENTION_DAYS } from '@/lib/task-utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface BulkTaskActionBarProps {
+  // The project the selected tasks are in, left out of the move targets
+  projectId: string
+  selectedCount: number
+  totalCount: number
+  onUpdate: (updates: BulkUpdateTaskData) => Promise<void>
+  onMove: (targetProject: Project) => Promise<void>
+  onDelete: () => Promise<void>
+  onSelectAll: () => void
+  onClearSelection: () => void
+}
+
+/**
+ * Actions for the tasks selected on the project page, shown while a selection exists
+ */
+export function BulkTaskActionBar({
+  projectId,
+  selectedCount,
+  totalCount,
+  onUpdate,
+  onMove,
+  onDelete,
+  onSelectAll,
+  onClearSelection
+}: BulkTaskActionBarProps) {
+  const [isWorking, setIsWorking] = useState(false)
+  const [dueDate, setDueDate] = useState('')
+  const [moveTargets, setMoveTargets] = useState<Project[]>([])
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+
+  // Tasks can only be moved to other projects the user can edit
+  useEffect(() => {
+    const loadMoveTargets = async () => {
+      const result = await getProjects()
+      if (result.success && result.data) {
+        setMoveTargets(result.data.filter(project => project.id !== projectId && project.role !== 'viewer'))
+      }
+    }
+    loadMoveTargets()
+  }, [projectId])
+
+  const run = async (action: () => Promise<void>) => {
+    if (isWorking) return
+
+    setIsWorking(true)
+    try {
+      await action()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleDeleteConfirm = async () => {
+    await run(onDelete)
+    setShowDeleteDialog(false)
+  }
+
+  const taskLabel = selectedCount === 1 ? '1 task' : `${selectedCount} tasks`
+
+  return (
+    <>
+      <div
+        className="sticky top-20 z-30 mb-4 flex flex-wrap items-center gap-2 p-3 bg-white/95 backdrop-blur-sm border border-blue-200 rounded-xl shadow-lg"
+        role="toolbar"
+        aria-label="Bulk task actions"
+      >
+        <span className="text-sm font-semibold text-gray-900 mr-1">{taskLabel} selected</span>
+        {selectedCount < totalCount && (
+          <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={isWorking}>
+            Select all
+          </Button>
+        )}
+
+        <div className="h-6 w-px bg-gray-200 mx-1" aria-hidden="true" />
+
+        <Button variant="outline" size="sm" onClick={() => run(() => onUpdate({ completed: true }))} disabled={isWorking}>
+          <CheckCircle2 className="size-4 mr-1 text-green-600" />
+          Complete
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => run(() => onUpdate({ completed: false }))} disabled={isWorking}>
+          <Circle className="size-4 mr-1 text-gray-500" />
+          Reopen
+        </Button>
+
+        <Select
+          value=""
+          onValueChange={(priority) => run(() => onUpdate({ priority: priority as BulkUpdateTaskData['priority'] }))}
+          disabled={isWorking}
+        >
+          <SelectTrigger size="sm" className="w-36" aria-label="Set priority">
+            <Flag className="size-4 text-gray-500" />
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="High">High</SelectItem>
+            <SelectItem value="Medium">Medium</SelectItem>
+            <SelectItem value="Low">Low</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            run(() => onUpdate({ due_date: dueDate || null }))
+          }}
+        >
+          <Input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className="h-8 w-40"
+            aria-label="Due date for the selected tasks"
+            disabled={isWorking}
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={isWorking}>
+            <Calendar className="size-4 mr-1" />
+            {dueDate ? 'Set due date' : 'Clear due date'}
+          </Button>
+        </form>
+
+        {moveTargets.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(targetProjectId) => run(() => onMove(moveTargets.find(project => project.id === targetProjectId)!))}
+            disabled={isWorking}
+          >
+            <SelectTrigger size="sm" className="w-48" aria-label="Move to project">
+              <FolderInput className="size-4 text-gray-500" />
+              <SelectValue placeholder="Move to..." />
+            </SelectTrigger>
+            <SelectContent>
+              {moveTargets.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowDeleteDialog(true)}
+          disabled={isWorking}
+          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+        >
+          <Trash2 className="size-4 mr-1" />
+          Delete
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClearSelection}
+          disabled={isWorking}
+          className="size-8 ml-auto"
+          aria-label="Clear selection"
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-red-600">
+              <Trash2 className="size-5" />
+              Delete {taskLabel}
+            </DialogTitle>
+            <DialogDescription>
+              The selected tasks, their subtasks and notes will be moved to the trash.
+              You can restore them from the trash within {TRASH_RETENTION_DAYS} days.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setShowDeleteDialog(false)} disabled={isWorking}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteConfirm} disabled={isWorking}>
+              {isWorking ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { Circle, CheckCircle2 } from 'lucide-react'
+
+import { Task, TaskWithSubtasks, TaskStatus, LinkedTask } from '@/types'
+import { getPositionBetween, sortTaskStatuses } from '@/lib/task-utils'
+import { TaskCard } from '@/components/task/TaskCard'
+
+interface TaskBoardProps {
+  tasks: TaskWithSubtasks[]
+  statuses: TaskStatus[]
+  getBlockedBy?: (taskId: string) => LinkedTask[]
+  // Omit to make the board read-only: cards can't be dragged and show no actions
+  onMoveTask?: (taskId: string, statusId: string, position: number) => void
+  onEdit?: (task: Task) => void
+  onDelete?: (taskId: string) => void
+  onToggleComplete?: (taskId: string, completed: boolean) => void
+  onViewDetails?: (task: Task) => void
+  onAddSubtask?: (parentTask: Task) => void
+}
+
+interface DropTarget {
+  statusId: string
+  // Task the dragged card will be placed before; null means the end of the column
+  beforeTaskId: string | null
+}
+
+export function TaskBoard({
+  tasks,
+  statuses,
+  getBlockedBy,
+  onMoveTask,
+  onEdit,
+  onDelete,
+  onToggleComplete,
+  onViewDetails,
+  onAddSubtask
+}: TaskBoardProps) {
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+
+  const getColumnTasks = (statusId: string) => {
+    return tasks
+      .filter(task => task.status_id === statusId)
+      .sort((a, b) => a.position - b.position)
+  }
+
+  const handleDragStart = (e: React.DragEvent, taskId: string) => {
+    e.dataTransfer.effectAllowed = 'move'
+    e.dataTransfer.setData('text/plain', taskId)
+    setDraggedTaskId(taskId)
+  }
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null)
+    setDropTarget(null)
+  }
+
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, statusId: string, index: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    // Drop before this card when over its top half, otherwise before the next one
+    const rect = e.currentTarget.getBoundingClientRect()
+    const columnTasks = getColumnTasks(statusId)
+    const beforeTask = e.clientY < rect.top + rect.height / 2 ? columnTasks[index] : columnTasks[index + 1]
+    const beforeTaskId = beforeTask?.id || null
+
+    if (dropTarget?.statusId !== statusId || dropTarget.beforeTaskId !== beforeTaskId) {
+      setDropTarget({ statusId, beforeTaskId })
+    }
+  }
+
+  const handleColumnDragOver = (e: React.DragEvent, statusId: string) => {
+    e.preventDefault()
+    if (dropTarget?.statusId !== statusId || dropTarget.beforeTaskId !== null) {
+      setDropTarget({ statusId, beforeTaskId: null })
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, statusId: string) => {
+    e.preventDefault()
+    const taskId = draggedTaskId || e.dataTransfer.getData('text/plain')
+    const target = dropTarget?.statusId === statusId ? dropTarget : { statusId, beforeTaskId: null }
+    handleDragEnd()
+
+    const task = tasks.find(t => t.id === taskId)
+    if (!task) return
+
+    const columnTasks = getColumnTasks(statusId)
+    const otherTasks = columnTasks.filter(t => t.id !== taskId)
+    const index = target.beforeTaskId
+      ? otherTasks.findIndex(t => t.id === target.beforeTaskId)
+      : otherTasks.length
+    const before = otherTasks[index - 1]
+    const after = otherTasks[index]
+
+    // Skip the update when the card was dropped back where it started
+    if (task.status_id === statusId) {
+      const currentIndex = columnTasks.findIndex(t => t.id === taskId)
+      if (columnTasks[currentIndex - 1]?.id === before?.id && columnTasks[currentIndex + 1]?.id === after?.id) {
+        return
+      }
+    }
+
+    onMoveTask?.(taskId, statusId, getPositionBetween(before?.position, after?.position))
+  }
+
+  const columns = sortTaskStatuses(statuses)
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2" role="list" aria-label="Task board">
+      {columns.map(status => {
+        const columnTasks = getColumnTasks(status.id)
+        const isDropColumn = draggedTaskId !== null && dropTarget?.statusId === status.id
+        const ColumnIcon = status.is_done ? CheckCircle2 : Circle
+
+        return (
+          <section
+            key={status.id}
+            role="listitem"
+            aria-label={`${status.name} column, ${columnTasks.length} tasks`}
+            onDragOver={(e) => handleColumnDragOver(e, status.id)}
+            onDrop={(e) => handleDrop(e, status.id)}
+            className={`flex flex-col flex-1 min-w-[280px] min-h-[200px] rounded-xl border p-3 transition-colors duration-200 ${
+              isDropColumn ? 'border-blue-300 bg-blue-50/50' : 'border-gray-200/60 bg-gray-50/50'
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="p-1.5 rounded-lg" style={{ backgroundColor: status.color }}>
+                  <ColumnIcon className="size-4 text-white" aria-hidden="true" />
+                </div>
+                <h4 className="font-semibold text-gray-900 truncate" title={status.name}>{status.name}</h4>
+              </div>
+              <span className="text-sm font-medium text-gray-500">{columnTasks.length}</span>
+            </div>
+
+            <div className="flex-1 space-y-3">
+              {columnTasks.map(({ subtasks, ...task }, index) => (
+                <div key={task.id}>
+                  {isDropColumn && dropTarget?.beforeTaskId === task.id && (
+                    <div className="h-1 mb-3 rounded-full bg-blue-400" aria-hidden="true" />
+                  )}
+                  <div
+                    draggable={!!onMoveTask}
+                    onDragStart={(e) => handleDragStart(e, task.id)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleCardDragOver(e, status.id, index)}
+                    className={`${onMoveTask ? 'cursor-grab active:cursor-grabbing' : ''} ${draggedTaskId === task.id ? 'opacity-50' : ''}`}
+                  >
+                    <TaskCard
+                      task={task}
+                      subtasks={subtasks}
+                      blockedBy={getBlockedBy?.(task.id)}
+                      onEdit={onEdit}
+                      onDelete={onDelete}
+                      onViewDetails={onViewDetails}
+                      onToggleComplete={onToggleComplete}
+                      onAddSubtask={onAddSubtask}
+                      showActions={!!onMoveTask}
+                    />
+                  </div>
+                </div>
+              ))}
+              {isDropColumn && dropTarget?.beforeTaskId === null && (
+                <div className="h-1 rounded-full bg-blue-400" aria-hidden="true" />
+              )}
+              {columnTasks.length === 0 && !isDropColumn && (
+                <p className="text-sm text-gray-500 text-center py-6">{onMoveTask ? 'Drop tasks here' : 'No tasks'}</p>
+              )}
+            </div>
+          </section>
+        )
+      })}
+    </div>
+  )
+}
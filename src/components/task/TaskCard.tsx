@@ -2,9 +2,10 @@
 
 import { useState, useRef } from 'react'
 import { format } from 'date-fns'
-import { Calendar, CheckCircle2, Circle, Edit, Trash2, Clock, StickyNote, AlertCircle, AlertTriangle } from 'lucide-react'
+import { Calendar, CheckCircle2, Circle, Edit, Trash2, Clock, StickyNote, AlertCircle, AlertTriangle, ChevronDown, ChevronRight, ListPlus, Lock, Repeat, FolderInput, Copy } from 'lucide-react'
 
-import { Task } from '@/types'
+import { Task, TaskWithSubtasks, LinkedTask } from '@/types'
+import { getSubtaskProgress, getIncompletePrerequisites, describeRecurrence, TRASH_RETENTION_DAYS } from '@/lib/task-utils'
 import { 
   Card, 
   CardHeader, 
@@ -22,24 +23,104 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
+import { TagBadge } from '@/components/tag/TagBadge'
+import { AssigneeAvatar } from '@/components/task/AssigneeAvatar'
 
 interface TaskCardProps {
   task: Task
+  subtasks?: TaskWithSubtasks[]
+  blockedBy?: LinkedTask[]
   onEdit?: (task: Task) => void
   onDelete?: (taskId: string) => void
   onToggleComplete?: (taskId: string, completed: boolean) => void
   onViewDetails?: (task: Task) => void
+  onAddSubtask?: (parentTask: Task) => void
+  onMoveToProject?: (task: Task) => void
+  onDuplicateToProject?: (task: Task) => void
+  // Shows a selection checkbox; range is true for shift-clicks
+  onSelect?: (taskId: string, range: boolean) => void
+  isSelected?: boolean
   isLoading?: boolean
   showActions?: boolean
   animationDelay?: number
 }
 
+interface SubtaskListProps {
+  subtasks: TaskWithSubtasks[]
+  depth: number
+  isLoading: boolean
+  onToggleComplete?: (taskId: string, completed: boolean) => void
+  onViewDetails?: (task: Task) => void
+}
+
+// Compact, recursive rendering of a task's subtasks inside its card
+function SubtaskList({ subtasks, depth, isLoading, onToggleComplete, onViewDetails }: SubtaskListProps) {
+  return (
+    <ul className="space-y-1" role="list">
+      {subtasks.map(subtask => (
+        <li key={subtask.id}>
+          <div
+            className="flex items-center gap-2 py-1 rounded-md hover:bg-blue-50/60 transition-colors duration-200"
+            style={{ paddingLeft: `${depth * 16}px` }}
+          >
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onToggleComplete?.(subtask.id, !subtask.completed)
+              }}
+              disabled={isLoading || !onToggleComplete}
+              className="shrink-0 focus:outline-none focus:ring-2 focus:ring-green-500/50 rounded-full"
+              aria-label={subtask.completed ? `Mark subtask "${subtask.name}" as incomplete` : `Mark subtask "${subtask.name}" as complete`}
+            >
+              {subtask.completed ? (
+                <CheckCircle2 className="size-4 text-green-600" aria-hidden="true" />
+              ) : (
+                <Circle className="size-4 text-gray-400 hover:text-green-600" aria-hidden="true" />
+              )}
+            </button>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation()
+                onViewDetails?.(subtask)
+              }}
+              className={`text-left text-sm truncate focus:outline-none focus:underline ${
+                subtask.completed ? 'line-through text-gray-400' : 'text-gray-700'
+              }`}
+              title={subtask.name}
+            >
+              {subtask.name}
+            </button>
+          </div>
+          {subtask.subtasks.length > 0 && (
+            <SubtaskList
+              subtasks={subtask.subtasks}
+              depth={depth + 1}
+              isLoading={isLoading}
+              onToggleComplete={onToggleComplete}
+              onViewDetails={onViewDetails}
+            />
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 export function TaskCard({ 
   task, 
+  subtasks = [],
+  blockedBy = [],
   onEdit, 
   onDelete, 
   onToggleComplete,
   onViewDetails,
+  onAddSubtask,
+  onMoveToProject,
+  onDuplicateToProject,
+  onSelect,
+  isSelected = false,
   isLoading = false,
   showActions = true,
   animationDelay = 0
@@ -47,6 +128,7 @@ export function TaskCard({
   const [isDeleting, setIsDeleting] = useState(false)
   const [isToggling, setIsToggling] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showSubtasks, setShowSubtasks] = useState(false)
   
   // Focus management refs
   const cardRef = useRef<HTMLDivElement>(null)
@@ -120,6 +202,12 @@ export function TaskCard({
     }
   }
 
+  const handleAddSubtask = () => {
+    if (onAddSubtask && !isLoading) {
+      onAddSubtask(task)
+    }
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     // Enter or Space to view task details
     if ((e.key === 'Enter' || e.key === ' ') && e.target === cardRef.current) {
@@ -228,6 +316,8 @@ export function TaskCard({
   }
 
   const PriorityIcon = getPriorityIcon(task.priority)
+  const subtaskProgress = getSubtaskProgress({ ...task, subtasks })
+  const incompletePrerequisites = task.completed ? [] : getIncompletePrerequisites(blockedBy)
 
   return (
     <>
@@ -244,6 +334,7 @@ export function TaskCard({
           cursor-pointer
           ${isLoading ? 'opacity-50 pointer-events-none' : ''}
           ${task.completed ? 'bg-gradient-to-br from-green-50/50 to-green-100/30 border-green-200/60' : ''}
+          ${isSelected ? 'ring-2 ring-blue-500' : ''}
           group
           relative overflow-hidden
         `}
@@ -270,6 +361,20 @@ export function TaskCard({
         <CardHeader className="pb-3 relative z-10">
           <div className="flex items-start justify-between">
             <div className="flex items-start gap-3 min-w-0 flex-1">
+              {onSelect && (
+                <input
+                  type="checkbox"
+                  checked={isSelected}
+                  readOnly
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onSelect(task.id, e.shiftKey)
+                  }}
+                  disabled={isLoading}
+                  className="size-4 mt-2.5 shrink-0 accent-blue-600 cursor-pointer"
+                  aria-label={`Select task "${task.name}"`}
+                />
+              )}
               <Button
                 ref={completionButtonRef}
                 variant="ghost"
@@ -278,7 +383,7 @@ export function TaskCard({
                   e.stopPropagation()
                   handleToggleComplete()
                 }}
-                disabled={isLoading || isToggling}
+                disabled={isLoading || isToggling || !onToggleComplete}
                 className="size-8 p-0 hover:bg-green-50 transition-all duration-200 shrink-0 mt-0.5 group/toggle focus:outline-none focus:ring-2 focus:ring-green-500/50"
                 aria-label={task.completed ? `Mark task "${task.name}" as incomplete` : `Mark task "${task.name}" as complete`}
                 aria-describedby={`task-completion-status-${task.id}`}
@@ -311,8 +416,9 @@ export function TaskCard({
                   Task is {task.completed ? 'completed' : 'not completed'}
                 </div>
                 
-                {/* Priority badge */}
-                <div className="mt-2">
+                {/* Priority and blocked badges */}
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  {task.assignee && <AssigneeAvatar assignee={task.assignee} />}
                   <div 
                     className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold ${getPriorityColor(task.priority)} shadow-sm`}
                     role="status"
@@ -321,6 +427,31 @@ export function TaskCard({
                     <PriorityIcon className="size-3" aria-hidden="true" />
                     <span aria-hidden="true">{task.priority.charAt(0).toUpperCase() + task.priority.slice(1)} Priority</span>
                   </div>
+                  {incompletePrerequisites.length > 0 && (
+                    <div
+                      className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold text-amber-700 bg-amber-50 border border-amber-200 shadow-sm"
+                      role="status"
+                      aria-label={`Blocked by ${incompletePrerequisites.map(prerequisite => prerequisite.name).join(', ')}`}
+                      title={`Blocked by: ${incompletePrerequisites.map(prerequisite => prerequisite.name).join(', ')}`}
+                    >
+                      <Lock className="size-3" aria-hidden="true" />
+                      <span aria-hidden="true">Blocked</span>
+                    </div>
+                  )}
+                  {task.recurrence && (
+                    <div
+                      className="inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold text-indigo-700 bg-indigo-50 border border-indigo-200 shadow-sm"
+                      role="status"
+                      aria-label={`Repeats: ${describeRecurrence(task.recurrence)}`}
+                      title={describeRecurrence(task.recurrence)}
+                    >
+                      <Repeat className="size-3" aria-hidden="true" />
+                      <span aria-hidden="true">Repeats</span>
+                    </div>
+                  )}
+                  {task.tags?.map(tag => (
+                    <TagBadge key={tag.id} tag={tag} />
+                  ))}
                 </div>
               </div>
             </div>
@@ -331,6 +462,54 @@ export function TaskCard({
                 aria-label={`Actions for task ${task.name}`}
               >
                 <div className="flex gap-1">
+                  {onAddSubtask && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleAddSubtask()
+                      }}
+                      disabled={isLoading}
+                      className="size-8 hover:bg-purple-50 hover:text-purple-600 transition-all duration-200 hover:scale-110 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                      aria-label={`Add subtask to ${task.name}`}
+                      title={`Add subtask to ${task.name}`}
+                    >
+                      <ListPlus className="size-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                  {onMoveToProject && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onMoveToProject(task)
+                      }}
+                      disabled={isLoading}
+                      className="size-8 hover:bg-blue-50 hover:text-blue-600 transition-all duration-200 hover:scale-110 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                      aria-label={`Move task ${task.name} to another project`}
+                      title="Move to project…"
+                    >
+                      <FolderInput className="size-4" aria-hidden="true" />
+                    </Button>
+                  )}
+                  {onDuplicateToProject && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onDuplicateToProject(task)
+                      }}
+                      disabled={isLoading}
+                      className="size-8 hover:bg-blue-50 hover:text-blue-600 transition-all duration-200 hover:scale-110 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                      aria-label={`Duplicate task ${task.name} to a project`}
+                      title="Duplicate to project…"
+                    >
+                      <Copy className="size-4" aria-hidden="true" />
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="icon"
@@ -419,6 +598,53 @@ export function TaskCard({
                 </div>
               )}
             </div>
+
+            {/* Subtasks with rolled-up completion */}
+            {subtaskProgress.total > 0 && (
+              <div className="pt-1">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setShowSubtasks(prev => !prev)
+                  }}
+                  className="w-full flex items-center gap-2 text-xs font-medium text-gray-600 hover:text-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500/50 rounded-md"
+                  aria-expanded={showSubtasks}
+                  aria-controls={`task-subtasks-${task.id}`}
+                >
+                  {showSubtasks ? (
+                    <ChevronDown className="size-4" aria-hidden="true" />
+                  ) : (
+                    <ChevronRight className="size-4" aria-hidden="true" />
+                  )}
+                  <span>Subtasks {subtaskProgress.completed}/{subtaskProgress.total}</span>
+                  <div 
+                    className="flex-1 h-1.5 bg-gray-200 rounded-full overflow-hidden"
+                    role="progressbar"
+                    aria-valuenow={subtaskProgress.percentage}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-label="Subtask completion"
+                  >
+                    <div 
+                      className="h-full bg-gradient-to-r from-green-500 to-green-600 transition-all duration-300"
+                      style={{ width: `${subtaskProgress.percentage}%` }}
+                    />
+                  </div>
+                </button>
+                {showSubtasks && (
+                  <div id={`task-subtasks-${task.id}`} className="mt-2">
+                    <SubtaskList
+                      subtasks={subtasks}
+                      depth={0}
+                      isLoading={isLoading}
+                      onToggleComplete={onToggleComplete}
+                      onViewDetails={onViewDetails}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </CardContent>
 
@@ -461,7 +687,7 @@ export function TaskCard({
                   Delete Task
                 </DialogTitle>
                 <DialogDescription className="text-sm text-gray-500 mt-1">
-                  This action cannot be undone.
+                  You can restore it from the trash for {TRASH_RETENTION_DAYS} days.
                 </DialogDescription>
               </div>
             </div>
@@ -476,7 +702,7 @@ export function TaskCard({
                 Are you sure you want to delete <span className="font-semibold text-gray-900">&quot;{task.name}&quot;</span>?
               </p>
               <p className="text-xs text-gray-500">
-                All notes and progress associated with this task will be permanently removed.
+                All notes and subtasks of this task will be moved to the trash with it.
               </p>
             </div>
           </div>
@@ -0,0 +1,238 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { FileSpreadsheet, AlertCircle, CheckCircle2 } from 'lucide-react'
+
+import { Task, TaskStatus } from '@/types'
+import { parseCsv } from '@/lib/csv'
+import { CSV_TASK_FIELDS, CsvColumnMapping, CsvTaskField, guessCsvColumnMapping, mapCsvTasks, importCsvTasks } from '@/lib/import'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface TaskCsvImportDialogProps {
+  projectId: string
+  // Completed rows go into the first done status
+  statuses: TaskStatus[]
+  isOpen: boolean
+  onClose: () => void
+  onImported?: (tasks: Task[]) => void
+}
+
+// Rows shown in the dry-run preview; the rest are only counted
+const PREVIEW_LIMIT = 50
+
+/**
+ * Load tasks from a CSV file: map its columns to task fields, check every row in a
+ * dry run and then create the valid rows as top-level tasks
+ */
+export function TaskCsvImportDialog({ projectId, statuses, isOpen, onClose, onImported }: TaskCsvImportDialogProps) {
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<CsvColumnMapping>({})
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const mappedRows = useMemo(
+    () => (mapping.name !== undefined ? mapCsvTasks(dataRows, mapping) : []),
+    [dataRows, mapping]
+  )
+  const validTasks = mappedRows.flatMap(row => (row.task ? [row.task] : []))
+  const invalidCount = mappedRows.length - validTasks.length
+
+  const reset = () => {
+    setHeaders([])
+    setDataRows([])
+    setMapping({})
+    setError(null)
+  }
+
+  const handleClose = () => {
+    if (isImporting) return
+
+    reset()
+    onClose()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    reset()
+    if (!file) return
+
+    try {
+      const [headerRow, ...rows] = parseCsv(await file.text())
+      if (!headerRow || rows.length === 0) {
+        setError('The file needs a header row and at least one task row')
+        return
+      }
+
+      setHeaders(headerRow)
+      setDataRows(rows)
+      setMapping(guessCsvColumnMapping(headerRow))
+    } catch (err) {
+      console.error('Error reading CSV file:', err)
+      setError('The file could not be read')
+    }
+  }
+
+  const handleMappingChange = (field: CsvTaskField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === 'none' ? undefined : Number(value) }))
+  }
+
+  const handleImport = async () => {
+    if (validTasks.length === 0 || isImporting) return
+
+    setIsImporting(true)
+    setError(null)
+
+    try {
+      const result = await importCsvTasks(projectId, validTasks, statuses)
+      if (result.success && result.data) {
+        onImported?.(result.data)
+        reset()
+        onClose()
+      } else {
+        setError(result.error || 'Failed to import tasks')
+      }
+    } catch (err) {
+      console.error('Error importing CSV tasks:', err)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="size-5 text-blue-600" />
+            Import tasks from CSV
+          </DialogTitle>
+          <DialogDescription>
+            The first row must hold column names. Rows are added as top-level tasks; rows with problems are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="csv-file">CSV file</Label>
+            <Input
+              id="csv-file"
+              type="file"
+              accept="text/csv,.csv"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+          </div>
+
+          {headers.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {CSV_TASK_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`csv-column-${field}`} className="text-xs text-gray-600">
+                      {label}{field === 'name' && <span className="text-red-500"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[field] !== undefined ? String(mapping[field]) : 'none'}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger id={`csv-column-${field}`} size="sm" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not imported</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {mapping.name === undefined ? (
+                <p className="text-sm text-amber-700">Choose the column that holds task names.</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-2 text-sm text-gray-700">
+                    <CheckCircle2 className="size-4 text-green-600" />
+                    {validTasks.length} of {mappedRows.length} rows ready to import
+                    {invalidCount > 0 && <span className="text-red-600">· {invalidCount} will be skipped</span>}
+                  </p>
+                  <div className="border rounded-lg overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead className="bg-gray-50 text-gray-600">
+                        <tr>
+                          <th className="px-2 py-1.5 text-left font-medium">Line</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Task</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Priority</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Start</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Due</th>
+                          <th className="px-2 py-1.5 text-left font-medium">Completed</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {mappedRows.slice(0, PREVIEW_LIMIT).map(row => (
+                          <tr key={row.line} className="border-t">
+                            <td className="px-2 py-1.5 text-gray-500">{row.line}</td>
+                            {row.task ? (
+                              <>
+                                <td className="px-2 py-1.5 text-gray-900">{row.task.name}</td>
+                                <td className="px-2 py-1.5">{row.task.priority}</td>
+                                <td className="px-2 py-1.5">{row.task.start_date || '—'}</td>
+                                <td className="px-2 py-1.5">{row.task.due_date || '—'}</td>
+                                <td className="px-2 py-1.5">{row.task.completed ? 'Yes' : 'No'}</td>
+                              </>
+                            ) : (
+                              <td colSpan={5} className="px-2 py-1.5 text-red-600">{row.error}</td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {mappedRows.length > PREVIEW_LIMIT && (
+                    <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT} rows.</p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={validTasks.length === 0 || isImporting}>
+            {isImporting
+              ? 'Importing...'
+              : `Import ${validTasks.length} ${validTasks.length === 1 ? 'task' : 'tasks'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
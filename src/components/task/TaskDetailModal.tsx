@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { format } from 'date-fns'
 import { 
   X, 
@@ -15,10 +15,18 @@ import {
   AlertCircle,
   ArrowUpDown,
   ArrowUp,
-  ArrowDown
+  ArrowDown,
+  Lock,
+  Repeat,
+  Link2,
+  Trash2,
+  Tags,
+  UserRound,
+  FolderInput,
+  Copy
 } from 'lucide-react'
 
-import { Task, Note, CreateNoteData, UpdateNoteData, ApiResponse } from '@/types'
+import { Task, TaskStatus, Note, CreateNoteData, UpdateNoteData, ApiResponse, LinkedTask } from '@/types'
 import { 
   Dialog, 
   DialogContent, 
@@ -30,22 +38,44 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { NoteCard } from '@/components/note/NoteCard'
 import { NoteForm } from '@/components/note/NoteForm'
+import { TagBadge } from '@/components/tag/TagBadge'
+import { AssigneeAvatar } from '@/components/task/AssigneeAvatar'
 import { 
   getNotesByTask, 
   createNote, 
   updateNote, 
   deleteNote,
-  toggleTaskCompletion 
+  toggleTaskCompletion,
+  updateTask,
+  getTasks,
+  getTaskDependencies,
+  getTaskDependents,
+  restoreNote,
+  revertTasks,
+  undoTaskCompletion
 } from '@/lib/database'
+import { useUndo } from '@/contexts/UndoContext'
+import { describeRecurrence, getIncompletePrerequisites, sortTaskStatuses } from '@/lib/task-utils'
 
 interface TaskDetailModalProps {
   task: Task | null
   isOpen: boolean
   onClose: () => void
   onTaskUpdate?: (updatedTask: Task) => void
+  // Called with the next occurrence when completing a recurring task
+  onTaskCreated?: (newTask: Task) => void
+  // Called when undoing a completion moves its next occurrence to the trash
+  onTaskRemoved?: (taskId: string) => void
+  onMoveToProject?: (task: Task) => void
+  onDuplicateToProject?: (task: Task) => void
+  onDependenciesChange?: (taskId: string, prerequisites: LinkedTask[]) => void
+  statuses?: TaskStatus[]
+  // Hides editing controls, for project viewers
+  readOnly?: boolean
 }
 
-export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDetailModalProps) {
+export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate, onTaskCreated, onTaskRemoved, onMoveToProject, onDuplicateToProject, onDependenciesChange, statuses = [], readOnly = false }: TaskDetailModalProps) {
+  const { pushUndo } = useUndo()
   const [notes, setNotes] = useState<Note[]>([])
   const [isLoadingNotes, setIsLoadingNotes] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -58,17 +88,33 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
   
   // Task completion state
   const [isTogglingCompletion, setIsTogglingCompletion] = useState(false)
+  const [isChangingStatus, setIsChangingStatus] = useState(false)
   
   // Note sorting state
   const [noteSortBy, setNoteSortBy] = useState<'newest' | 'oldest' | 'updated' | 'alphabetical'>('newest')
 
+  // Dependency state
+  const [prerequisites, setPrerequisites] = useState<LinkedTask[]>([])
+  const [dependents, setDependents] = useState<LinkedTask[]>([])
+  const [availableTasks, setAvailableTasks] = useState<Task[]>([])
+  const [isLoadingDependencies, setIsLoadingDependencies] = useState(false)
+  const [isSavingDependencies, setIsSavingDependencies] = useState(false)
+
+  // The task currently shown, so an undo that finishes after the modal moves on leaves its notes alone
+  const openTaskIdRef = useRef<string | null>(null)
+
   // Fetch notes when modal opens and task changes
   useEffect(() => {
+    openTaskIdRef.current = isOpen && task ? task.id : null
     if (isOpen && task) {
       fetchNotes()
+      fetchDependencies()
     } else if (!isOpen) {
       // Reset state when modal closes
       setNotes([])
+      setPrerequisites([])
+      setDependents([])
+      setAvailableTasks([])
       setError(null)
       setSuccessMessage(null)
       setIsNoteFormOpen(false)
@@ -105,6 +151,78 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
     }
   }
 
+  const fetchDependencies = async () => {
+    if (!task) return
+
+    setIsLoadingDependencies(true)
+
+    try {
+      const [prerequisitesResult, dependentsResult, tasksResult] = await Promise.all([
+        getTaskDependencies(task.id),
+        getTaskDependents(task.id),
+        getTasks()
+      ])
+
+      if (prerequisitesResult.success && prerequisitesResult.data) {
+        setPrerequisites(prerequisitesResult.data.map(dependency => dependency.linked_task))
+      } else {
+        setError(prerequisitesResult.error || 'Failed to load dependencies')
+      }
+
+      if (dependentsResult.success && dependentsResult.data) {
+        setDependents(dependentsResult.data.map(dependency => dependency.linked_task))
+      }
+
+      if (tasksResult.success && tasksResult.data) {
+        setAvailableTasks(tasksResult.data)
+      }
+    } catch (error) {
+      console.error('Error fetching dependencies:', error)
+      setError('An unexpected error occurred while loading dependencies')
+    } finally {
+      setIsLoadingDependencies(false)
+    }
+  }
+
+  const saveDependencies = async (nextPrerequisites: LinkedTask[], message: string) => {
+    if (!task || isSavingDependencies) return
+
+    setIsSavingDependencies(true)
+    setError(null)
+
+    try {
+      const result = await updateTask({
+        id: task.id,
+        depends_on_task_ids: nextPrerequisites.map(prerequisite => prerequisite.id)
+      })
+      if (result.success && result.data) {
+        setPrerequisites(nextPrerequisites)
+        onTaskUpdate?.(result.data)
+        onDependenciesChange?.(task.id, nextPrerequisites)
+        setSuccessMessage(message)
+      } else {
+        setError(result.error || 'Failed to update dependencies')
+      }
+    } catch (error) {
+      console.error('Error updating dependencies:', error)
+      setError('An unexpected error occurred while updating dependencies')
+    } finally {
+      setIsSavingDependencies(false)
+    }
+  }
+
+  const handleAddPrerequisite = (taskId: string) => {
+    const prerequisiteTask = availableTasks.find(t => t.id === taskId)
+    if (!prerequisiteTask) return
+
+    const { id, project_id, name, completed } = prerequisiteTask
+    saveDependencies([...prerequisites, { id, project_id, name, completed }], 'Dependency added successfully!')
+  }
+
+  const handleRemovePrerequisite = (taskId: string) => {
+    saveDependencies(prerequisites.filter(prerequisite => prerequisite.id !== taskId), 'Dependency removed successfully!')
+  }
+
   const handleToggleCompletion = async () => {
     if (!task || isTogglingCompletion) return
 
@@ -112,10 +230,29 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
     setError(null)
 
     try {
+      const previousTask = task
       const result = await toggleTaskCompletion(task.id)
       if (result.success && result.data) {
-        onTaskUpdate?.(result.data)
-        setSuccessMessage(`Task marked as ${result.data.completed ? 'completed' : 'incomplete'}!`)
+        const { task: updatedTask, next_occurrence: nextOccurrence } = result.data
+        onTaskUpdate?.(updatedTask)
+        if (nextOccurrence) {
+          onTaskCreated?.(nextOccurrence)
+        }
+        pushUndo({
+          label: nextOccurrence
+            ? `"${updatedTask.name}" completed and the next occurrence created`
+            : `"${updatedTask.name}" marked as ${updatedTask.completed ? 'completed' : 'not completed'}`,
+          undo: async () => {
+            const undoResult = await undoTaskCompletion([previousTask], nextOccurrence ? [nextOccurrence] : [])
+            if (undoResult.success && undoResult.data) {
+              onTaskUpdate?.(undoResult.data[0])
+              if (nextOccurrence) {
+                onTaskRemoved?.(nextOccurrence.id)
+              }
+            }
+            return undoResult
+          }
+        })
       } else {
         setError(result.error || 'Failed to update task')
       }
@@ -127,6 +264,38 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
     }
   }
 
+  const handleStatusChange = async (statusId: string) => {
+    if (!task || isChangingStatus || statusId === task.status_id) return
+
+    setIsChangingStatus(true)
+    setError(null)
+
+    try {
+      const previousTask = task
+      const result = await updateTask({ id: task.id, status_id: statusId })
+      if (result.success && result.data) {
+        onTaskUpdate?.(result.data)
+        pushUndo({
+          label: `"${task.name}" moved to ${statuses.find(status => status.id === statusId)?.name || 'another status'}`,
+          undo: async () => {
+            const undoResult = await revertTasks([previousTask])
+            if (undoResult.success && undoResult.data) {
+              onTaskUpdate?.(undoResult.data[0])
+            }
+            return undoResult
+          }
+        })
+      } else {
+        setError(result.error || 'Failed to update task status')
+      }
+    } catch (error) {
+      console.error('Error changing task status:', error)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsChangingStatus(false)
+    }
+  }
+
   const handleAddNote = () => {
     setEditingNote(null)
     setIsNoteFormOpen(true)
@@ -190,7 +359,16 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
       const result = await deleteNote(noteId)
       if (result.success) {
         setNotes(prev => prev.filter(note => note.id !== noteId))
-        setSuccessMessage('Note deleted successfully!')
+        pushUndo({
+          label: `"${noteToDelete.title}" moved to the trash`,
+          undo: async () => {
+            const restoreResult = await restoreNote(noteId)
+            if (restoreResult.success && openTaskIdRef.current === noteToDelete.task_id) {
+              setNotes(prev => [...prev.filter(note => note.id !== noteId), noteToDelete])
+            }
+            return restoreResult
+          }
+        })
       } else {
         setError(result.error || 'Failed to delete note')
       }
@@ -237,6 +415,11 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
 
   const sortedNotes = sortNotes(notes, noteSortBy)
 
+  const incompletePrerequisites = task?.completed ? [] : getIncompletePrerequisites(prerequisites)
+  const prerequisiteOptions = availableTasks.filter(t =>
+    t.id !== task?.id && !prerequisites.some(prerequisite => prerequisite.id === t.id)
+  )
+
   if (!task) return null
 
   return (
@@ -248,7 +431,7 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
               <div className="flex items-center gap-3">
                 <button
                   onClick={handleToggleCompletion}
-                  disabled={isTogglingCompletion}
+                  disabled={isTogglingCompletion || readOnly}
                   className="hover:scale-110 transition-all duration-200 relative"
                   title={task.completed ? 'Mark as incomplete' : 'Mark as complete'}
                 >
@@ -263,17 +446,52 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                 <span className={task.completed ? 'line-through text-muted-foreground' : ''}>
                   {task.name}
                 </span>
+                {incompletePrerequisites.length > 0 && (
+                  <span
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200"
+                    title={`Blocked by: ${incompletePrerequisites.map(prerequisite => prerequisite.name).join(', ')}`}
+                  >
+                    <Lock className="size-3" />
+                    Blocked
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {!readOnly && onMoveToProject && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onMoveToProject(task)}
+                    className="h-8 w-8 rounded-sm opacity-70 hover:opacity-100"
+                    title="Move to project…"
+                  >
+                    <FolderInput className="size-4" />
+                    <span className="sr-only">Move to project</span>
+                  </Button>
+                )}
+                {!readOnly && onDuplicateToProject && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onDuplicateToProject(task)}
+                    className="h-8 w-8 rounded-sm opacity-70 hover:opacity-100"
+                    title="Duplicate to project…"
+                  >
+                    <Copy className="size-4" />
+                    <span className="sr-only">Duplicate to project</span>
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onClose}
+                  className="h-8 w-8 rounded-sm opacity-70 hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                  title="Close"
+                >
+                  <X className="size-4" />
+                  <span className="sr-only">Close</span>
+                </Button>
               </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={onClose}
-                className="h-8 w-8 rounded-sm opacity-70 hover:opacity-100 focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                title="Close"
-              >
-                <X className="size-4" />
-                <span className="sr-only">Close</span>
-              </Button>
             </DialogTitle>
           </DialogHeader>
 
@@ -322,6 +540,41 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                       {formatDate(task.due_date)}
                     </span>
                   </div>
+
+                  {task.recurrence && (
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Repeat className="size-4 text-muted-foreground flex-shrink-0" />
+                      <span className="text-sm text-muted-foreground flex-shrink-0">Repeats:</span>
+                      <span className="text-sm truncate" title={describeRecurrence(task.recurrence)}>
+                        {describeRecurrence(task.recurrence)}
+                      </span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2 min-w-0">
+                    <UserRound className="size-4 text-muted-foreground flex-shrink-0" />
+                    <span className="text-sm text-muted-foreground flex-shrink-0">Assignee:</span>
+                    {task.assignee ? (
+                      <>
+                        <AssigneeAvatar assignee={task.assignee} />
+                        <span className="text-sm truncate" title={task.assignee.email}>{task.assignee.email}</span>
+                      </>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Unassigned</span>
+                    )}
+                  </div>
+
+                  {task.tags && task.tags.length > 0 && (
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Tags className="size-4 text-muted-foreground flex-shrink-0" />
+                      <span className="text-sm text-muted-foreground flex-shrink-0">Tags:</span>
+                      <div className="flex flex-wrap gap-1">
+                        {task.tags.map(tag => (
+                          <TagBadge key={tag.id} tag={tag} />
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   
                   <div className="flex items-center gap-2 min-w-0">
                     <div className="flex items-center gap-1 flex-shrink-0">
@@ -332,11 +585,29 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                       )}
                       <span className="text-sm text-muted-foreground">Status:</span>
                     </div>
-                    <span className={`text-sm font-medium flex-shrink-0 ${
-                      task.completed ? 'text-green-600' : 'text-yellow-600'
-                    }`}>
-                      {task.completed ? 'Completed' : 'In Progress'}
-                    </span>
+                    {statuses.length > 0 ? (
+                      <Select value={task.status_id} onValueChange={handleStatusChange} disabled={isChangingStatus || readOnly}>
+                        <SelectTrigger className="h-8 w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sortTaskStatuses(statuses).map(status => (
+                            <SelectItem key={status.id} value={status.id}>
+                              <div className="flex items-center gap-2">
+                                <span className="size-2.5 rounded-full" style={{ backgroundColor: status.color }} />
+                                {status.name}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className={`text-sm font-medium flex-shrink-0 ${
+                        task.completed ? 'text-green-600' : 'text-yellow-600'
+                      }`}>
+                        {task.completed ? 'Completed' : 'In Progress'}
+                      </span>
+                    )}
                   </div>
 
                   <div className="flex items-center gap-2 min-w-0">
@@ -350,6 +621,111 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
               </CardContent>
             </Card>
 
+            {/* Dependencies Section */}
+            <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm border border-gray-200/50 relative overflow-hidden">
+              <div className="absolute inset-0 bg-gradient-to-br from-amber-50/20 via-white to-orange-50/20 pointer-events-none" />
+
+              <CardHeader className="pb-4 relative z-10">
+                <div className="flex items-center justify-between mb-3">
+                  <CardTitle className="flex items-center gap-2">
+                    <Link2 className="size-5" />
+                    Dependencies
+                  </CardTitle>
+                  {!readOnly && prerequisiteOptions.length > 0 && (
+                    <Select
+                      value=""
+                      onValueChange={handleAddPrerequisite}
+                      disabled={isLoadingDependencies || isSavingDependencies}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Add a prerequisite..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {prerequisiteOptions.map(option => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+                <CardDescription className="text-sm text-muted-foreground">
+                  {incompletePrerequisites.length > 0
+                    ? `Waiting on ${incompletePrerequisites.length} incomplete ${incompletePrerequisites.length === 1 ? 'task' : 'tasks'} before this one can start`
+                    : 'Track which tasks must be finished before this one can start'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="relative z-10 space-y-4">
+                {isLoadingDependencies ? (
+                  <div className="animate-pulse space-y-2">
+                    <div className="h-4 bg-gradient-to-r from-gray-200 to-gray-100 rounded w-1/2"></div>
+                    <div className="h-4 bg-gradient-to-r from-gray-200 to-gray-100 rounded w-1/3"></div>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">Blocked by</h4>
+                      {prerequisites.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No prerequisites</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {prerequisites.map(prerequisite => (
+                            <li key={prerequisite.id} className="flex items-center justify-between gap-2 text-sm">
+                              <div className="flex items-center gap-2 min-w-0">
+                                {prerequisite.completed ? (
+                                  <CheckCircle className="size-4 text-green-600 flex-shrink-0" />
+                                ) : (
+                                  <Circle className="size-4 text-amber-500 flex-shrink-0" />
+                                )}
+                                <span className={`truncate ${prerequisite.completed ? 'line-through text-muted-foreground' : ''}`} title={prerequisite.name}>
+                                  {prerequisite.name}
+                                </span>
+                              </div>
+                              {!readOnly && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => handleRemovePrerequisite(prerequisite.id)}
+                                  disabled={isSavingDependencies}
+                                  className="size-7 hover:bg-red-50 hover:text-red-600"
+                                  title="Remove dependency"
+                                >
+                                  <Trash2 className="size-3.5" />
+                                  <span className="sr-only">Remove dependency on {prerequisite.name}</span>
+                                </Button>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">Blocks</h4>
+                      {dependents.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Not blocking any tasks</p>
+                      ) : (
+                        <ul className="space-y-1">
+                          {dependents.map(dependent => (
+                            <li key={dependent.id} className="flex items-center gap-2 text-sm min-w-0">
+                              {dependent.completed ? (
+                                <CheckCircle className="size-4 text-green-600 flex-shrink-0" />
+                              ) : (
+                                <Circle className="size-4 text-gray-400 flex-shrink-0" />
+                              )}
+                              <span className={`truncate ${dependent.completed ? 'line-through text-muted-foreground' : ''}`} title={dependent.name}>
+                                {dependent.name}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Enhanced Notes Section */}
             <Card className="shadow-lg border-0 bg-white/80 backdrop-blur-sm border border-gray-200/50 relative overflow-hidden">
               <div className="absolute inset-0 bg-gradient-to-br from-green-50/20 via-white to-blue-50/20 pointer-events-none" />
@@ -401,10 +777,12 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                         </Select>
                       </div>
                     )}
-                    <Button onClick={handleAddNote} size="sm">
-                      <Plus className="size-4 mr-2" />
-                      Add Note
-                    </Button>
+                    {!readOnly && (
+                      <Button onClick={handleAddNote} size="sm">
+                        <Plus className="size-4 mr-2" />
+                        Add Note
+                      </Button>
+                    )}
                   </div>
                 </div>
                 <CardDescription className="text-sm text-muted-foreground">
@@ -453,15 +831,19 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                     </div>
                     <h3 className="text-xl font-bold mb-3 bg-gradient-to-r from-gray-900 to-blue-800 bg-clip-text text-transparent">No notes yet</h3>
                     <p className="text-gray-600 mb-8 max-w-sm mx-auto leading-relaxed">
-                      Start adding notes to capture important details, progress updates, or ideas for this task.
+                      {readOnly
+                        ? 'Nobody has added notes to this task yet.'
+                        : 'Start adding notes to capture important details, progress updates, or ideas for this task.'}
                     </p>
-                    <Button 
-                      onClick={handleAddNote} 
-                      className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl hover:shadow-blue-500/25 transition-all duration-300 hover:scale-105"
-                    >
-                      <Plus className="size-4 mr-2" />
-                      Add Your First Note
-                    </Button>
+                    {!readOnly && (
+                      <Button 
+                        onClick={handleAddNote} 
+                        className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl hover:shadow-blue-500/25 transition-all duration-300 hover:scale-105"
+                      >
+                        <Plus className="size-4 mr-2" />
+                        Add Your First Note
+                      </Button>
+                    )}
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -471,6 +853,7 @@ export function TaskDetailModal({ task, isOpen, onClose, onTaskUpdate }: TaskDet
                         note={note}
                         onEdit={handleEditNote}
                         onDelete={handleDeleteNote}
+                        showActions={!readOnly}
                       />
                     ))}
                   </div>
@@ -2,13 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { format } from 'date-fns'
-import { Calendar, Target, AlertCircle, Clock, CheckCircle2, CheckCircle, Info } from 'lucide-react'
+import { Calendar, Target, AlertCircle, Clock, CheckCircle2, CheckCircle, Info, CornerDownRight, Repeat, Tags, UserRound } from 'lucide-react'
 
-import { Task } from '@/types'
+import { Task, CreateTaskData, UpdateTaskData, TaskRecurrence, ProjectMember } from '@/types'
+import { getProjectMembers } from '@/lib/database'
+import { describeRecurrence, isValidDateRange, isValidRecurrence } from '@/lib/task-utils'
+import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { TagPicker } from '@/components/tag/TagPicker'
 import { 
   Dialog, 
   DialogContent, 
@@ -18,24 +22,38 @@ import {
   DialogTitle 
 } from '@/components/ui/dialog'
 
+const WEEKDAY_OPTIONS = [
+  { day: 1, label: 'M', name: 'Monday' },
+  { day: 2, label: 'T', name: 'Tuesday' },
+  { day: 3, label: 'W', name: 'Wednesday' },
+  { day: 4, label: 'T', name: 'Thursday' },
+  { day: 5, label: 'F', name: 'Friday' },
+  { day: 6, label: 'S', name: 'Saturday' },
+  { day: 0, label: 'S', name: 'Sunday' }
+]
+
 interface TaskFormProps {
   isOpen: boolean
   onClose: () => void
-  onSubmit: (taskData: Omit<Task, 'created_at' | 'updated_at'> | Omit<Task, 'id' | 'created_at' | 'updated_at'>) => Promise<void>
+  onSubmit: (taskData: CreateTaskData | UpdateTaskData) => Promise<void>
   task?: Task | null
+  parentTask?: Task | null
   projectId: string
   isLoading?: boolean
 }
 
 interface FormData {
   name: string
+  start_date: string
   due_date: string
   priority: 'High' | 'Medium' | 'Low'
   completed: boolean
+  recurrence: TaskRecurrence | null
 }
 
 interface FormErrors {
   name?: string
+  start_date?: string
   due_date?: string
   priority?: string
 }
@@ -47,6 +65,7 @@ interface FieldValidation {
 
 interface FormValidation {
   name: FieldValidation
+  start_date: FieldValidation
   due_date: FieldValidation
   priority: FieldValidation
 }
@@ -56,20 +75,28 @@ export function TaskForm({
   onClose, 
   onSubmit, 
   task,
+  parentTask,
   projectId,
   isLoading = false
 }: TaskFormProps) {
   const [formData, setFormData] = useState<FormData>({
     name: task?.name || '',
+    start_date: task?.start_date ? format(new Date(task.start_date), 'yyyy-MM-dd') : '',
     due_date: task?.due_date ? format(new Date(task.due_date), 'yyyy-MM-dd') : '',
     priority: task?.priority || 'Medium',
-    completed: task?.completed || false
+    completed: task?.completed || false,
+    recurrence: task?.recurrence || null
   })
+  const [tagIds, setTagIds] = useState<string[]>(task?.tags?.map(tag => tag.id) || [])
+  const [assigneeId, setAssigneeId] = useState<string | null>(task?.assignee_id || null)
+  const [members, setMembers] = useState<ProjectMember[]>([])
+  const { user } = useAuth()
 
   const [errors, setErrors] = useState<FormErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [validation, setValidation] = useState<FormValidation>({
     name: { isValid: false, isDirty: false },
+    start_date: { isValid: true, isDirty: false },
     due_date: { isValid: true, isDirty: false },
     priority: { isValid: true, isDirty: false }
   })
@@ -79,27 +106,37 @@ export function TaskForm({
     if (task) {
       const newFormData = {
         name: task.name || '',
+        start_date: task.start_date ? format(new Date(task.start_date), 'yyyy-MM-dd') : '',
         due_date: task.due_date ? format(new Date(task.due_date), 'yyyy-MM-dd') : '',
         priority: task.priority || 'Medium',
-        completed: task.completed || false
+        completed: task.completed || false,
+        recurrence: task.recurrence || null
       }
       setFormData(newFormData)
+      setTagIds(task.tags?.map(tag => tag.id) || [])
+      setAssigneeId(task.assignee_id || null)
       
       // Validate initial data (only the fields that need validation)
       validateField('name', newFormData.name, false)
+      validateField('start_date', newFormData.start_date, false)
       validateField('due_date', newFormData.due_date, false)
       validateField('priority', newFormData.priority, false)
     } else {
       // Reset form for create mode
       const emptyFormData = {
         name: '',
+        start_date: '',
         due_date: '',
         priority: 'Medium' as const,
-        completed: false
+        completed: false,
+        recurrence: null
       }
       setFormData(emptyFormData)
+      setTagIds([])
+      setAssigneeId(null)
       setValidation({
         name: { isValid: false, isDirty: false },
+        start_date: { isValid: true, isDirty: false },
         due_date: { isValid: true, isDirty: false },
         priority: { isValid: true, isDirty: false }
       })
@@ -108,7 +145,20 @@ export function TaskForm({
     setErrors({})
   }, [task])
 
-  const validateField = (field: 'name' | 'due_date' | 'priority', value: string, isDirty: boolean = true) => {
+  // Tasks can only be assigned to the project's members
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadMembers = async () => {
+      const result = await getProjectMembers(projectId)
+      if (result.success && result.data) {
+        setMembers(result.data)
+      }
+    }
+    loadMembers()
+  }, [isOpen, projectId])
+
+  const validateField = (field: 'name' | 'start_date' | 'due_date' | 'priority', value: string, isDirty: boolean = true) => {
     let isValid = true
     let error: string | undefined
 
@@ -165,12 +215,17 @@ export function TaskForm({
     return isValid
   }
 
+  // Checked across both date fields, so it's derived from the current form data
+  const hasDateRangeError = !isValidDateRange(formData.start_date, formData.due_date)
+  const hasRecurrenceError = formData.recurrence !== null && !isValidRecurrence(formData.recurrence)
+
   const validateForm = (): boolean => {
     const nameValid = validateField('name', formData.name)
+    const startDateValid = validateField('start_date', formData.start_date)
     const dueDateValid = validateField('due_date', formData.due_date)
     const priorityValid = validateField('priority', formData.priority)
 
-    return nameValid && dueDateValid && priorityValid
+    return nameValid && startDateValid && dueDateValid && priorityValid && !hasDateRangeError && !hasRecurrenceError
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -185,10 +240,15 @@ export function TaskForm({
     try {
       const taskData = {
         project_id: projectId,
+        parent_task_id: task ? task.parent_task_id : parentTask?.id || null,
         name: formData.name.trim(),
+        start_date: formData.start_date || null,
         due_date: formData.due_date || null,
         priority: formData.priority,
         completed: formData.completed,
+        recurrence: formData.recurrence,
+        assignee_id: assigneeId,
+        tag_ids: tagIds,
         // Include the task ID when editing
         ...(task && { id: task.id })
       }
@@ -207,13 +267,18 @@ export function TaskForm({
     if (!isSubmitting && !isLoading) {
       setFormData({
         name: '',
+        start_date: '',
         due_date: '',
         priority: 'Medium',
-        completed: false
+        completed: false,
+        recurrence: null
       })
+      setTagIds([])
+      setAssigneeId(null)
       setErrors({})
       setValidation({
         name: { isValid: false, isDirty: false },
+        start_date: { isValid: true, isDirty: false },
         due_date: { isValid: true, isDirty: false },
         priority: { isValid: true, isDirty: false }
       })
@@ -221,18 +286,40 @@ export function TaskForm({
     }
   }
 
-  const handleInputChange = (field: keyof FormData, value: string | boolean) => {
+  const handleInputChange = (field: Exclude<keyof FormData, 'recurrence'>, value: string | boolean) => {
     setFormData(prev => ({ ...prev, [field]: value }))
     
     // Real-time validation with debounce (only for fields that need validation)
     if (field !== 'completed') {
       setTimeout(() => {
-        validateField(field as 'name' | 'due_date' | 'priority', value as string)
+        validateField(field as 'name' | 'start_date' | 'due_date' | 'priority', value as string)
       }, 300)
     }
   }
 
-  const getFieldClassName = (field: 'name' | 'due_date' | 'priority') => {
+  const handleRecurrenceTypeChange = (type: TaskRecurrence['type'] | 'none') => {
+    // Seed new rules from the due date so the first repeat lines up with it
+    const baseDate = formData.due_date ? new Date(`${formData.due_date}T00:00:00`) : new Date()
+    const recurrenceByType: Record<TaskRecurrence['type'], TaskRecurrence> = {
+      daily: { type: 'daily' },
+      weekly: { type: 'weekly', weekdays: [baseDate.getDay()] },
+      monthly: { type: 'monthly', day_of_month: baseDate.getDate() },
+      after_completion: { type: 'after_completion', days: 7 }
+    }
+    setFormData(prev => ({ ...prev, recurrence: type === 'none' ? null : recurrenceByType[type] }))
+  }
+
+  const toggleRecurrenceWeekday = (day: number) => {
+    setFormData(prev => {
+      if (prev.recurrence?.type !== 'weekly') return prev
+      const weekdays = prev.recurrence.weekdays.includes(day)
+        ? prev.recurrence.weekdays.filter(d => d !== day)
+        : [...prev.recurrence.weekdays, day]
+      return { ...prev, recurrence: { type: 'weekly', weekdays } }
+    })
+  }
+
+  const getFieldClassName = (field: 'name' | 'start_date' | 'due_date' | 'priority') => {
     const fieldValidation = validation[field]
     const hasError = errors[field]
     
@@ -251,7 +338,7 @@ export function TaskForm({
     return 'border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20'
   }
 
-  const getValidationIcon = (field: 'name' | 'due_date' | 'priority') => {
+  const getValidationIcon = (field: 'name' | 'start_date' | 'due_date' | 'priority') => {
     const fieldValidation = validation[field]
     const hasError = errors[field]
     
@@ -304,7 +391,7 @@ export function TaskForm({
   const priorityConfig = getPriorityConfig(formData.priority)
   const PriorityIcon = priorityConfig.icon
 
-  const isFormValid = validation.name.isValid && validation.due_date.isValid && validation.priority.isValid
+  const isFormValid = validation.name.isValid && validation.start_date.isValid && validation.due_date.isValid && validation.priority.isValid && !hasDateRangeError && !hasRecurrenceError
   const isFormDisabled = isSubmitting || isLoading
 
   return (
@@ -317,7 +404,7 @@ export function TaskForm({
             </div>
             <div>
               <span className="bg-gradient-to-r from-gray-900 to-blue-800 bg-clip-text text-transparent font-bold">
-                {task ? 'Edit Task' : 'Create New Task'}
+                {task ? 'Edit Task' : parentTask ? 'Create New Subtask' : 'Create New Task'}
               </span>
             </div>
           </DialogTitle>
@@ -330,6 +417,16 @@ export function TaskForm({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-5">
+          {/* Parent task (subtask creation) */}
+          {!task && parentTask && (
+            <div className="flex items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <CornerDownRight className="size-4 text-blue-600 flex-shrink-0" />
+              <p className="text-sm text-blue-700 truncate">
+                Subtask of <span className="font-semibold">{parentTask.name}</span>
+              </p>
+            </div>
+          )}
+
           {/* Task Name */}
           <div className="space-y-2">
             <Label htmlFor="name" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -428,6 +525,36 @@ export function TaskForm({
             </div>
           </div>
 
+          {/* Start Date */}
+          <div className="space-y-2">
+            <Label htmlFor="start_date" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              Start Date 
+              <span className="text-gray-400 font-normal">(optional)</span>
+              {getValidationIcon('start_date')}
+            </Label>
+            <div className="relative">
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => handleInputChange('start_date', e.target.value)}
+                disabled={isFormDisabled}
+                className={`transition-all duration-200 pr-10 ${hasDateRangeError ? 'border-red-500 focus:border-red-500 focus:ring-2 focus:ring-red-500/20 bg-red-50/30' : getFieldClassName('start_date')} [&::-webkit-calendar-picker-indicator]:hidden [&::-webkit-inner-spin-button]:hidden [&::-webkit-clear-button]:hidden`}
+                max={formData.due_date || undefined}
+              />
+              <Calendar 
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 size-4 text-gray-400 cursor-pointer hover:text-gray-600 transition-colors" 
+                onClick={() => (document.getElementById('start_date') as HTMLInputElement)?.showPicker?.()}
+              />
+            </div>
+            {hasDateRangeError && (
+              <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-md animate-in slide-in-from-top-1 duration-200">
+                <AlertCircle className="size-3 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-600">Start date must be on or before the due date</p>
+              </div>
+            )}
+          </div>
+
           {/* Due Date */}
           <div className="space-y-2">
             <Label htmlFor="due_date" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
@@ -464,6 +591,146 @@ export function TaskForm({
             )}
           </div>
 
+          {/* Recurrence */}
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              Repeat
+              <span className="text-gray-400 font-normal">(optional)</span>
+            </Label>
+            <Select 
+              value={formData.recurrence?.type || 'none'} 
+              onValueChange={(value) => handleRecurrenceTypeChange(value as TaskRecurrence['type'] | 'none')}
+              disabled={isFormDisabled}
+            >
+              <SelectTrigger className="transition-all duration-200 border-gray-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20">
+                <div className="flex items-center gap-2">
+                  <Repeat className="size-4" />
+                  <SelectValue />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly on chosen days</SelectItem>
+                <SelectItem value="monthly">Monthly on a day</SelectItem>
+                <SelectItem value="after_completion">Every N days after completion</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {formData.recurrence?.type === 'weekly' && (
+              <div className="flex gap-1" role="group" aria-label="Repeat on">
+                {WEEKDAY_OPTIONS.map(({ day, label, name }) => {
+                  const selected = formData.recurrence?.type === 'weekly' && formData.recurrence.weekdays.includes(day)
+                  return (
+                    <Button
+                      key={day}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleRecurrenceWeekday(day)}
+                      disabled={isFormDisabled}
+                      className={`size-9 p-0 ${selected ? 'bg-blue-600 border-blue-600 text-white hover:bg-blue-700 hover:text-white' : 'text-gray-600'}`}
+                      aria-pressed={selected}
+                      aria-label={name}
+                    >
+                      {label}
+                    </Button>
+                  )
+                })}
+              </div>
+            )}
+            {formData.recurrence?.type === 'monthly' && (
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <Label htmlFor="recurrence_day_of_month" className="font-normal">On day</Label>
+                <Input
+                  id="recurrence_day_of_month"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={formData.recurrence.day_of_month || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, recurrence: { type: 'monthly', day_of_month: Number(e.target.value) } }))}
+                  disabled={isFormDisabled}
+                  className="w-20"
+                />
+                <span className="text-gray-500">of each month</span>
+              </div>
+            )}
+            {formData.recurrence?.type === 'after_completion' && (
+              <div className="flex items-center gap-2 text-sm text-gray-700">
+                <Label htmlFor="recurrence_days" className="font-normal">Every</Label>
+                <Input
+                  id="recurrence_days"
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={formData.recurrence.days || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, recurrence: { type: 'after_completion', days: Number(e.target.value) } }))}
+                  disabled={isFormDisabled}
+                  className="w-20"
+                />
+                <span className="text-gray-500">days after completion</span>
+              </div>
+            )}
+
+            {hasRecurrenceError ? (
+              <div className="flex items-center gap-2 p-2 bg-red-50 border border-red-200 rounded-md animate-in slide-in-from-top-1 duration-200">
+                <AlertCircle className="size-3 text-red-500 flex-shrink-0" />
+                <p className="text-sm text-red-600">
+                  {formData.recurrence?.type === 'weekly' && 'Choose at least one day of the week'}
+                  {formData.recurrence?.type === 'monthly' && 'Day of the month must be between 1 and 31'}
+                  {formData.recurrence?.type === 'after_completion' && 'Number of days must be between 1 and 365'}
+                </p>
+              </div>
+            ) : formData.recurrence && (
+              <div className="flex items-center gap-2 p-2 bg-blue-50 border border-blue-200 rounded-md">
+                <Info className="size-3 text-blue-500 flex-shrink-0" />
+                <p className="text-sm text-blue-600">
+                  {describeRecurrence(formData.recurrence)}. Completing this task creates the next one.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Assignee */}
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              <UserRound className="size-4" />
+              Assignee
+              <span className="text-gray-400 font-normal">(optional)</span>
+            </Label>
+            <Select
+              value={assigneeId || 'unassigned'}
+              onValueChange={(value) => setAssigneeId(value === 'unassigned' ? null : value)}
+              disabled={isFormDisabled}
+            >
+              <SelectTrigger className="border-gray-200" aria-label="Assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.profile.email}{member.user_id === user?.id && ' (you)'}
+                  </SelectItem>
+                ))}
+                {/* Keep the current assignee selectable while members load */}
+                {task?.assignee && !members.some(member => member.user_id === task.assignee!.id) && (
+                  <SelectItem value={task.assignee.id}>{task.assignee.email}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Tags */}
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+              <Tags className="size-4" />
+              Tags
+              <span className="text-gray-400 font-normal">(optional)</span>
+            </Label>
+            <TagPicker selectedTagIds={tagIds} onChange={setTagIds} disabled={isFormDisabled} />
+          </div>
+
           {/* Completion Status (for edit mode) */}
           {task && (
             <div className="space-y-2">
@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FolderInput, Copy, AlertCircle } from 'lucide-react'
+
+import { Project, Task } from '@/types'
+import { getProjects, bulkMoveTasks, duplicateTask } from '@/lib/database'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+export type TaskProjectAction = 'move' | 'duplicate'
+
+interface TaskProjectDialogProps {
+  task: Task | null
+  action: TaskProjectAction
+  isOpen: boolean
+  onClose: () => void
+  // Called after the task (with its subtasks) has moved to another project
+  onMoved?: (task: Task, targetProject: Project) => void
+  onDuplicated?: (copy: Task, targetProject: Project) => void
+}
+
+/**
+ * Pick a project to move a task to, or to copy it into
+ */
+export function TaskProjectDialog({ task, action, isOpen, onClose, onMoved, onDuplicated }: TaskProjectDialogProps) {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [targetProjectId, setTargetProjectId] = useState('')
+  const [includeNotes, setIncludeNotes] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only projects the user can edit can receive tasks; a copy may also go into the same project
+  useEffect(() => {
+    if (!isOpen || !task) return
+
+    setTargetProjectId('')
+    setIncludeNotes(true)
+    setError(null)
+
+    const loadProjects = async () => {
+      const result = await getProjects()
+      if (result.success && result.data) {
+        setProjects(result.data.filter(project =>
+          project.role !== 'viewer' && (action === 'duplicate' || project.id !== task.project_id)
+        ))
+      } else {
+        setError(result.error || 'Failed to load projects')
+      }
+    }
+    loadProjects()
+  }, [isOpen, task, action])
+
+  const handleSubmit = async () => {
+    const targetProject = projects.find(project => project.id === targetProjectId)
+    if (!task || !targetProject || isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      if (action === 'move') {
+        const result = await bulkMoveTasks([task.id], targetProject.id)
+        if (result.success) {
+          onMoved?.(task, targetProject)
+          onClose()
+        } else {
+          setError(result.error || 'Failed to move task')
+        }
+      } else {
+        const result = await duplicateTask(task.id, targetProject.id, { includeNotes })
+        if (result.success && result.data) {
+          onDuplicated?.(result.data, targetProject)
+          onClose()
+        } else {
+          setError(result.error || 'Failed to duplicate task')
+        }
+      }
+    } catch (err) {
+      console.error(`Error ${action === 'move' ? 'moving' : 'duplicating'} task:`, err)
+      setError('An unexpected error occurred')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!task) return null
+
+  const Icon = action === 'move' ? FolderInput : Copy
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon className="size-5 text-blue-600" />
+            {action === 'move' ? 'Move to project' : 'Duplicate to project'}
+          </DialogTitle>
+          <DialogDescription>
+            {action === 'move'
+              ? `"${task.name}" and its subtasks will move to the chosen project and take its matching status.`
+              : `A copy of "${task.name}" will be added to the chosen project. Subtasks and dependencies are not copied.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+              <AlertCircle className="size-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="target-project">Project</Label>
+            <Select value={targetProjectId} onValueChange={setTargetProjectId} disabled={isSaving}>
+              <SelectTrigger id="target-project" className="w-full">
+                <SelectValue placeholder={projects.length > 0 ? 'Choose a project...' : 'No other projects you can edit'} />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}{project.id === task.project_id ? ' (this project)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {action === 'duplicate' && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeNotes}
+                onChange={(e) => setIncludeNotes(e.target.checked)}
+                disabled={isSaving}
+                className="size-4 accent-blue-600"
+              />
+              Copy the task&apos;s notes
+            </label>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!targetProjectId || isSaving}>
+            {isSaving
+              ? (action === 'move' ? 'Moving...' : 'Duplicating...')
+              : (action === 'move' ? 'Move' : 'Duplicate')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
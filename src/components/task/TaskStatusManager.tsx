@@ -0,0 +1,310 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowUp, ArrowDown, Trash2, Plus, AlertCircle, CheckCircle2, Settings2 } from 'lucide-react'
+
+import { TaskStatus } from '@/types'
+import { createTaskStatus, updateTaskStatus, deleteTaskStatus } from '@/lib/database'
+import { getPositionBetween, sortTaskStatuses } from '@/lib/task-utils'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface TaskStatusManagerProps {
+  isOpen: boolean
+  onClose: () => void
+  projectId: string
+  statuses: TaskStatus[]
+  // Number of tasks currently in each status, keyed by status ID
+  taskCounts: Record<string, number>
+  onStatusesChange: (statuses: TaskStatus[]) => void
+}
+
+const DEFAULT_STATUS_COLOR = '#6b7280'
+
+export function TaskStatusManager({
+  isOpen,
+  onClose,
+  projectId,
+  statuses,
+  taskCounts,
+  onStatusesChange
+}: TaskStatusManagerProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // New status form state
+  const [newStatusName, setNewStatusName] = useState('')
+  const [newStatusColor, setNewStatusColor] = useState(DEFAULT_STATUS_COLOR)
+  const [newStatusIsDone, setNewStatusIsDone] = useState(false)
+
+  // Delete flow state (tasks in the deleted status need somewhere to go)
+  const [deletingStatusId, setDeletingStatusId] = useState<string | null>(null)
+  const [replacementStatusId, setReplacementStatusId] = useState<string>('')
+
+  const sortedStatuses = sortTaskStatuses(statuses)
+  // A project needs an open and a done status, so the last of either kind can't change or go
+  const openCount = statuses.filter(s => !s.is_done).length
+  const doneCount = statuses.length - openCount
+  const isLastOfKind = (status: TaskStatus) => (status.is_done ? doneCount : openCount) <= 1
+
+  const runUpdate = async (action: () => Promise<void>) => {
+    if (isSaving) return
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      await action()
+    } catch (error) {
+      console.error('Error updating task statuses:', error)
+      setError('An unexpected error occurred while updating statuses')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleUpdate = (status: TaskStatus, updates: Partial<Pick<TaskStatus, 'name' | 'color' | 'is_done' | 'position'>>) => {
+    runUpdate(async () => {
+      const result = await updateTaskStatus({ id: status.id, ...updates })
+      if (result.success && result.data) {
+        onStatusesChange(statuses.map(s => s.id === status.id ? result.data! : s))
+      } else {
+        setError(result.error || 'Failed to update status')
+      }
+    })
+  }
+
+  const handleRename = (status: TaskStatus, name: string) => {
+    if (name.trim() === '' || name.trim() === status.name) return
+    handleUpdate(status, { name })
+  }
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const status = sortedStatuses[index]
+    const others = sortedStatuses.filter(s => s.id !== status.id)
+    const targetIndex = index + direction
+    const before = others[targetIndex - 1]
+    const after = others[targetIndex]
+    handleUpdate(status, { position: getPositionBetween(before?.position, after?.position) })
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (newStatusName.trim() === '') return
+
+    runUpdate(async () => {
+      const result = await createTaskStatus({
+        project_id: projectId,
+        name: newStatusName,
+        color: newStatusColor,
+        is_done: newStatusIsDone,
+        position: getPositionBetween(sortedStatuses[sortedStatuses.length - 1]?.position)
+      })
+      if (result.success && result.data) {
+        onStatusesChange([...statuses, result.data])
+        setNewStatusName('')
+        setNewStatusColor(DEFAULT_STATUS_COLOR)
+        setNewStatusIsDone(false)
+      } else {
+        setError(result.error || 'Failed to create status')
+      }
+    })
+  }
+
+  const startDelete = (status: TaskStatus) => {
+    setDeletingStatusId(status.id)
+    setReplacementStatusId(sortedStatuses.find(s => s.id !== status.id)?.id || '')
+  }
+
+  const confirmDelete = () => {
+    if (!deletingStatusId) return
+    const hasTasks = (taskCounts[deletingStatusId] || 0) > 0
+
+    runUpdate(async () => {
+      const result = await deleteTaskStatus(deletingStatusId, hasTasks ? replacementStatusId : undefined)
+      if (result.success) {
+        onStatusesChange(statuses.filter(s => s.id !== deletingStatusId))
+        setDeletingStatusId(null)
+      } else {
+        setError(result.error || 'Failed to delete status')
+      }
+    })
+  }
+
+  const handleClose = () => {
+    setError(null)
+    setDeletingStatusId(null)
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg bg-gradient-to-br from-white to-blue-50/30 border-blue-200/30 shadow-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3 text-xl font-bold bg-gradient-to-r from-blue-700 to-purple-700 bg-clip-text text-transparent">
+            <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-600 rounded-lg">
+              <Settings2 className="size-5 text-white" />
+            </div>
+            Task Statuses
+          </DialogTitle>
+          <DialogDescription>
+            Statuses become the columns of the board. Tasks in a status marked as done count as completed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm" role="alert">
+            <AlertCircle className="size-4 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <ul className="space-y-2" aria-label="Task statuses">
+          {sortedStatuses.map((status, index) => {
+            const taskCount = taskCounts[status.id] || 0
+
+            return (
+              <li key={status.id} className="rounded-lg border border-gray-200 bg-white/80 p-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={status.color}
+                    onChange={(e) => handleUpdate(status, { color: e.target.value })}
+                    disabled={isSaving}
+                    className="size-8 shrink-0 cursor-pointer rounded border border-gray-200 bg-transparent"
+                    aria-label={`Colour for ${status.name}`}
+                  />
+                  <Input
+                    key={`${status.id}-${status.name}`}
+                    defaultValue={status.name}
+                    maxLength={50}
+                    onBlur={(e) => handleRename(status, e.target.value)}
+                    disabled={isSaving}
+                    className="h-8"
+                    aria-label="Status name"
+                  />
+                  <label className="flex items-center gap-1 text-xs text-gray-600 shrink-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={status.is_done}
+                      onChange={(e) => handleUpdate(status, { is_done: e.target.checked })}
+                      disabled={isSaving || isLastOfKind(status)}
+                      className="size-4 accent-green-600"
+                    />
+                    Done
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={isSaving || index === 0}
+                    className="size-8"
+                    aria-label={`Move ${status.name} left`}
+                  >
+                    <ArrowUp className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={isSaving || index === sortedStatuses.length - 1}
+                    className="size-8"
+                    aria-label={`Move ${status.name} right`}
+                  >
+                    <ArrowDown className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => startDelete(status)}
+                    disabled={isSaving || isLastOfKind(status)}
+                    className="size-8 hover:bg-red-50 hover:text-red-600"
+                    aria-label={`Delete ${status.name}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+
+                {deletingStatusId === status.id && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md bg-red-50/60 p-2 text-sm">
+                    {taskCount > 0 ? (
+                      <>
+                        <span className="text-gray-700">
+                          Move {taskCount} {taskCount === 1 ? 'task' : 'tasks'} to
+                        </span>
+                        <Select value={replacementStatusId} onValueChange={setReplacementStatusId}>
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {sortedStatuses.filter(s => s.id !== status.id).map(s => (
+                              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </>
+                    ) : (
+                      <span className="text-gray-700">Delete this status?</span>
+                    )}
+                    <div className="ml-auto flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setDeletingStatusId(null)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                      <Button variant="destructive" size="sm" onClick={confirmDelete} disabled={isSaving}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+
+        <form onSubmit={handleCreate} className="space-y-2 border-t border-gray-200 pt-4">
+          <Label htmlFor="new-status-name">Add a status</Label>
+          <div className="flex items-center gap-2">
+            <input
+              type="color"
+              value={newStatusColor}
+              onChange={(e) => setNewStatusColor(e.target.value)}
+              className="size-9 shrink-0 cursor-pointer rounded border border-gray-200 bg-transparent"
+              aria-label="Colour for new status"
+            />
+            <Input
+              id="new-status-name"
+              value={newStatusName}
+              onChange={(e) => setNewStatusName(e.target.value)}
+              placeholder="e.g. In Review"
+              maxLength={50}
+              disabled={isSaving}
+            />
+            <label className="flex items-center gap-1 text-xs text-gray-600 shrink-0 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={newStatusIsDone}
+                onChange={(e) => setNewStatusIsDone(e.target.checked)}
+                className="size-4 accent-green-600"
+              />
+              <CheckCircle2 className="size-3 text-green-600" aria-hidden="true" />
+              Done
+            </label>
+            <Button type="submit" size="sm" disabled={isSaving || newStatusName.trim() === ''}>
+              <Plus className="size-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
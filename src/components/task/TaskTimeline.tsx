@@ -0,0 +1,242 @@
+'use client'
+
+import { useState } from 'react'
+import { addDays, differenceInCalendarDays, format, isToday, isWeekend, parseISO } from 'date-fns'
+import { CheckCircle2, FolderOpen } from 'lucide-react'
+
+import { Project, Task } from '@/types'
+
+export type TimelineItem =
+  | { type: 'task'; id: string; task: Task; depth: number }
+  | { type: 'project'; id: string; project: Project }
+
+interface TaskTimelineProps {
+  items: TimelineItem[]
+  days: Date[]
+  onChangeDates: (item: TimelineItem, startDate: string | null, dueDate: string | null) => void
+  onItemClick?: (item: TimelineItem) => void
+}
+
+type DragMode = 'start' | 'end' | 'move'
+
+interface DragState {
+  item: TimelineItem
+  mode: DragMode
+  originX: number
+  // Day offset from where the drag began, updated as the pointer moves
+  deltaDays: number
+}
+
+// Width of one day column in pixels
+const DAY_WIDTH = 32
+
+const getDates = (item: TimelineItem) => {
+  return item.type === 'project'
+    ? { startDate: item.project.start_date, dueDate: item.project.due_date }
+    : { startDate: item.task.start_date, dueDate: item.task.due_date }
+}
+
+const getBarColor = (item: TimelineItem) => {
+  if (item.type === 'project') {
+    return 'bg-purple-200 border-purple-400 text-purple-900'
+  }
+  if (item.task.completed) {
+    return 'bg-gray-200 border-gray-300 text-gray-500'
+  }
+  switch (item.task.priority) {
+    case 'High':
+      return 'bg-red-200 border-red-400 text-red-900'
+    case 'Medium':
+      return 'bg-yellow-200 border-yellow-400 text-yellow-900'
+    case 'Low':
+      return 'bg-green-200 border-green-400 text-green-900'
+    default:
+      return 'bg-gray-200 border-gray-400 text-gray-900'
+  }
+}
+
+/**
+ * Apply a drag to an item's dates. A task with only one date is drawn as a single day;
+ * dragging its other edge fills in the missing date. The range never ends before it starts.
+ */
+const getDraggedDates = (item: TimelineItem, mode: DragMode, deltaDays: number) => {
+  const { startDate, dueDate } = getDates(item)
+  const start = parseISO((startDate || dueDate)!)
+  const due = parseISO((dueDate || startDate)!)
+
+  let newStart = start
+  let newDue = due
+  if (mode === 'start') {
+    newStart = addDays(start, Math.min(deltaDays, differenceInCalendarDays(due, start)))
+  } else if (mode === 'end') {
+    newDue = addDays(due, Math.max(deltaDays, -differenceInCalendarDays(due, start)))
+  } else {
+    newStart = addDays(start, deltaDays)
+    newDue = addDays(due, deltaDays)
+  }
+
+  return {
+    startDate: startDate || mode === 'start' ? format(newStart, 'yyyy-MM-dd') : null,
+    dueDate: dueDate || mode === 'end' ? format(newDue, 'yyyy-MM-dd') : null
+  }
+}
+
+export function TaskTimeline({
+  items,
+  days,
+  onChangeDates,
+  onItemClick
+}: TaskTimelineProps) {
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  const rangeStart = days[0]
+  const scheduledItems = items.filter(item => {
+    const { startDate, dueDate } = getDates(item)
+    return startDate || dueDate
+  })
+
+  const handlePointerDown = (e: React.PointerEvent, item: TimelineItem, mode: DragMode) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    // Keep receiving move events while the pointer is outside the bar
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDrag({ item, mode, originX: e.clientX, deltaDays: 0 })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return
+    const deltaDays = Math.round((e.clientX - drag.originX) / DAY_WIDTH)
+    if (deltaDays !== drag.deltaDays) {
+      setDrag({ ...drag, deltaDays })
+    }
+  }
+
+  const handlePointerUp = () => {
+    if (!drag) return
+    const { item, mode, deltaDays } = drag
+    setDrag(null)
+
+    if (deltaDays === 0) {
+      // A click on the bar without moving opens the item
+      if (mode === 'move') {
+        onItemClick?.(item)
+      }
+      return
+    }
+
+    const { startDate, dueDate } = getDraggedDates(item, mode, deltaDays)
+    const current = getDates(item)
+    if (startDate !== current.startDate || dueDate !== current.dueDate) {
+      onChangeDates(item, startDate, dueDate)
+    }
+  }
+
+  const isDragging = (item: TimelineItem) => drag?.item.type === item.type && drag.item.id === item.id
+
+  return (
+    <div className="rounded-xl border border-gray-200/60 bg-white/80 shadow-lg overflow-x-auto" role="grid" aria-label="Timeline">
+      <div style={{ width: `calc(14rem + ${days.length * DAY_WIDTH}px)` }}>
+        {/* Day headers */}
+        <div className="flex border-b border-gray-200 bg-gradient-to-r from-blue-50/60 to-purple-50/40" role="row">
+          <div className="sticky left-0 z-20 w-56 shrink-0 px-3 py-2 text-xs font-semibold text-gray-600 uppercase tracking-wide bg-blue-50 border-r border-gray-200" role="columnheader">
+            Item
+          </div>
+          {days.map(day => (
+            <div
+              key={day.toISOString()}
+              role="columnheader"
+              className={`shrink-0 py-1 text-center text-[10px] leading-tight ${isWeekend(day) ? 'text-gray-400' : 'text-gray-600'}`}
+              style={{ width: DAY_WIDTH }}
+            >
+              {day.getDate() === 1 || day === rangeStart ? (
+                <div className="font-semibold text-blue-700">{format(day, 'MMM')}</div>
+              ) : (
+                <div>&nbsp;</div>
+              )}
+              <div
+                className={`mx-auto flex items-center justify-center rounded-full size-5 ${
+                  isToday(day) ? 'bg-gradient-to-br from-blue-600 to-indigo-600 text-white font-semibold' : ''
+                }`}
+              >
+                {format(day, 'd')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Rows */}
+        <div role="rowgroup">
+          {scheduledItems.map(item => {
+            const dragging = isDragging(item)
+            const { startDate, dueDate } = dragging
+              ? getDraggedDates(item, drag!.mode, drag!.deltaDays)
+              : getDates(item)
+            const start = parseISO((startDate || dueDate)!)
+            const due = parseISO((dueDate || startDate)!)
+            const left = differenceInCalendarDays(start, rangeStart) * DAY_WIDTH
+            const width = (differenceInCalendarDays(due, start) + 1) * DAY_WIDTH
+            const name = item.type === 'project' ? item.project.name : item.task.name
+            const rangeLabel = startDate && dueDate
+              ? `${format(start, 'MMM d')} – ${format(due, 'MMM d')}`
+              : startDate ? `Starts ${format(start, 'MMM d')}` : `Due ${format(due, 'MMM d')}`
+
+            return (
+              <div key={`${item.type}-${item.id}`} className="flex border-b border-gray-100 h-10" role="row">
+                <div
+                  className={`sticky left-0 z-10 w-56 shrink-0 flex items-center gap-1.5 px-3 text-sm border-r border-gray-200 ${
+                    item.type === 'project' ? 'bg-purple-50 font-semibold text-purple-900' : 'bg-white text-gray-800'
+                  }`}
+                  style={item.type === 'task' ? { paddingLeft: `${0.75 + item.depth}rem` } : undefined}
+                  role="rowheader"
+                >
+                  {item.type === 'project' ? (
+                    <FolderOpen className="size-4 shrink-0" aria-hidden="true" />
+                  ) : item.task.completed ? (
+                    <CheckCircle2 className="size-4 shrink-0 text-green-600" aria-hidden="true" />
+                  ) : null}
+                  <span className="truncate" title={name}>{name}</span>
+                </div>
+
+                <div className="relative flex" role="gridcell" aria-label={`${name}, ${rangeLabel}`}>
+                  {days.map(day => (
+                    <div
+                      key={day.toISOString()}
+                      className={`shrink-0 h-full border-r border-gray-50 ${isWeekend(day) ? 'bg-gray-50/80' : ''} ${isToday(day) ? 'bg-blue-50' : ''}`}
+                      style={{ width: DAY_WIDTH }}
+                    />
+                  ))}
+
+                  <div
+                    className={`absolute top-1.5 bottom-1.5 flex items-center rounded-md border text-xs font-medium select-none touch-none ${getBarColor(item)} ${
+                      dragging ? 'shadow-lg ring-2 ring-blue-400/60' : 'hover:shadow-md'
+                    } ${drag?.mode === 'move' && dragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+                    style={{ left, width }}
+                    onPointerDown={(e) => handlePointerDown(e, item, 'move')}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={() => setDrag(null)}
+                    title={`${name} (${rangeLabel})`}
+                  >
+                    {/* Edge handles; their pointer events bubble up to the bar's handlers */}
+                    <div
+                      className="absolute inset-y-0 left-0 w-2 cursor-ew-resize rounded-l-md hover:bg-black/10"
+                      onPointerDown={(e) => handlePointerDown(e, item, 'start')}
+                      aria-label={`Drag to change the start date of ${name}`}
+                    />
+                    <span className="truncate px-2.5">{width > DAY_WIDTH * 2 ? rangeLabel : ''}</span>
+                    <div
+                      className="absolute inset-y-0 right-0 w-2 cursor-ew-resize rounded-r-md hover:bg-black/10"
+                      onPointerDown={(e) => handlePointerDown(e, item, 'end')}
+                      aria-label={`Drag to change the due date of ${name}`}
+                    />
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -226,7 +226,7 @@ export function useRedirectIfAuthenticated(defaultRedirect: string = '/projects'
       
       // If there's a valid redirect destination, use it
       if (redirectedFrom) {
-        const protectedRoutes = ['/projects', '/dashboard', '/profile', '/settings']
+        const protectedRoutes = ['/projects', '/dashboard', '/trash', '/profile', '/settings']
         
         if (protectedRoutes.some(route => redirectedFrom.startsWith(route))) {
           const redirectUrl = new URL(redirectedFrom, window.location.origin)
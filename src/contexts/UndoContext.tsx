@@ -0,0 +1,115 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react'
+import { ApiResponse } from '@/types'
+import { UndoToast } from '@/components/common/UndoToast'
+
+// How long an action can be undone before it is committed and its toast closes
+const UNDO_WINDOW_MS = 8000
+// Only the most recent actions stay undoable
+const MAX_HISTORY = 3
+
+export interface UndoableAction {
+  // What was done, e.g. '"Write spec" moved to the trash'
+  label: string
+  // Replays the inverse operation and updates the caller's state
+  undo: () => Promise<ApiResponse<unknown>>
+}
+
+export interface UndoEntry extends UndoableAction {
+  id: number
+  isUndoing: boolean
+  error: string | null
+}
+
+interface UndoContextType {
+  pushUndo: (action: UndoableAction) => void
+}
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined)
+
+interface UndoProviderProps {
+  children: ReactNode
+}
+
+export function UndoProvider({ children }: UndoProviderProps) {
+  const [history, setHistory] = useState<UndoEntry[]>([])
+  const nextId = useRef(0)
+  const timers = useRef(new Map<number, ReturnType<typeof setTimeout>>())
+
+  // Drop an entry from the history, after which the action can no longer be undone
+  const commit = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id))
+    timers.current.delete(id)
+    setHistory(prev => prev.filter(entry => entry.id !== id))
+  }, [])
+
+  const startTimer = useCallback((id: number) => {
+    clearTimeout(timers.current.get(id))
+    timers.current.set(id, setTimeout(() => commit(id), UNDO_WINDOW_MS))
+  }, [commit])
+
+  const pushUndo = useCallback((action: UndoableAction) => {
+    const id = nextId.current++
+    setHistory(prev => [...prev, { ...action, id, isUndoing: false, error: null }].slice(-MAX_HISTORY))
+    startTimer(id)
+  }, [startTimer])
+
+  const handleUndo = async (entry: UndoEntry) => {
+    if (entry.isUndoing) return
+
+    // Keep the toast open while the inverse operation runs
+    clearTimeout(timers.current.get(entry.id))
+    setHistory(prev => prev.map(e => e.id === entry.id ? { ...e, isUndoing: true, error: null } : e))
+
+    let error: string | null = null
+    try {
+      const result = await entry.undo()
+      if (!result.success) {
+        error = result.error || 'Failed to undo'
+      }
+    } catch (err) {
+      console.error('Error undoing action:', err)
+      error = 'An unexpected error occurred while undoing'
+    }
+
+    if (error) {
+      setHistory(prev => prev.map(e => e.id === entry.id ? { ...e, isUndoing: false, error } : e))
+      startTimer(entry.id)
+    } else {
+      commit(entry.id)
+    }
+  }
+
+  useEffect(() => {
+    const activeTimers = timers.current
+    return () => activeTimers.forEach(timer => clearTimeout(timer))
+  }, [])
+
+  return (
+    <UndoContext.Provider value={{ pushUndo }}>
+      {children}
+      {history.length > 0 && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[60] flex flex-col gap-2 w-full max-w-md px-4" aria-live="polite">
+          {history.map(entry => (
+            <UndoToast
+              key={entry.id}
+              entry={entry}
+              onUndo={() => handleUndo(entry)}
+              onDismiss={() => commit(entry.id)}
+            />
+          ))}
+        </div>
+      )}
+    </UndoContext.Provider>
+  )
+}
+
+// Custom hook to offer undo after an action
+export function useUndo() {
+  const context = useContext(UndoContext)
+  if (context === undefined) {
+    throw new Error('useUndo must be used within an UndoProvider')
+  }
+  return context
+}
@@ -0,0 +1,82 @@
+// Minimal RFC 4180 CSV helpers shared by the CSV export and the task CSV import
+
+// Spreadsheet apps run values starting with these characters as formulas. Values that already
+// start with apostrophes before one are guarded too, so the import gets them back unchanged.
+const FORMULA_PREFIX = /^'*[=+\-@]/
+
+/**
+ * Quote a value when it contains a comma, quote or line break. Values that would run as a
+ * formula are prefixed with an apostrophe so spreadsheets show them as text.
+ */
+function escapeCsvValue(value: string): string {
+  const safeValue = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safeValue) ? `"${safeValue.replace(/"/g, '""')}"` : safeValue
+}
+
+/**
+ * Remove the apostrophe toCsv adds in front of formula-like values
+ */
+function unescapeFormulaValue(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value
+}
+
+/**
+ * Join rows of values into CSV text, one line per row
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n')
+}
+
+/**
+ * Split CSV text into rows of values, handling quoted fields with commas, quotes and
+ * line breaks. Blank lines are skipped and formula guards added by toCsv are removed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let value = ''
+  let inQuotes = false
+
+  // Spreadsheet apps often start UTF-8 files with a byte order mark
+  const input = text.replace(/^\uFEFF/, '')
+
+  const endRow = () => {
+    row.push(unescapeFormulaValue(value))
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    value = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(unescapeFormulaValue(value))
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      value += char
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
@@ -3,17 +3,53 @@ import {
   Project, 
   CreateProjectData, 
   UpdateProjectData, 
+  DuplicateProjectOptions,
   ProjectFilters,
+  ProjectRole,
+  ProjectMember,
+  ProjectInvitation,
+  PendingInvitation,
+  ProjectActivity,
+  PaginationOptions,
+  PaginatedResult,
   Task,
   CreateTaskData,
   UpdateTaskData,
   TaskFilters,
+  TaskWithSubtasks,
+  TaskRecurrence,
+  TaskCompletionResult,
+  BulkUpdateTaskData,
+  BulkTaskUpdateResult,
+  TaskStatus,
+  CreateTaskStatusData,
+  UpdateTaskStatusData,
+  TaskDependencyWithTask,
   Note,
   CreateNoteData,
   UpdateNoteData,
   NoteFilters,
+  SearchResult,
+  TrashItem,
+  Tag,
+  CreateTagData,
+  UpdateTagData,
+  ProjectTemplate,
+  CreateProjectTemplateData,
+  CalendarFeed,
   ApiResponse 
 } from '@/types'
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  getDescendantIds,
+  getNextOccurrenceDate,
+  isValidDateRange,
+  isValidRecurrence,
+  wouldCreateDependencyCycle
+} from './task-utils'
+import type { ExportData } from './export'
 
 /**
  * Create a new project for the authenticated user
@@ -40,11 +76,19 @@ export async function createProject(projectData: CreateProjectData): Promise<Api
       }
     }
 
+    if (!isValidDateRange(projectData.start_date, projectData.due_date)) {
+      return {
+        success: false,
+        error: 'Start date must be on or before the due date'
+      }
+    }
+
     // Prepare project data
     const newProject = {
       user_id: user.id,
       name: projectData.name.trim(),
       description: projectData.description?.trim() || null,
+      start_date: projectData.start_date || null,
       due_date: projectData.due_date || null,
     }
 
@@ -52,7 +96,7 @@ export async function createProject(projectData: CreateProjectData): Promise<Api
     const { data, error } = await supabase
       .from('projects')
       .insert([newProject])
-      .select()
+      .select('*, tags(*)')
       .single()
 
     if (error) {
@@ -63,9 +107,21 @@ export async function createProject(projectData: CreateProjectData): Promise<Api
       }
     }
 
+    if (projectData.tag_ids && projectData.tag_ids.length > 0) {
+      const tagsResult = await replaceProjectTags(data.id, projectData.tag_ids)
+      if (!tagsResult.success) {
+        return {
+          success: false,
+          error: tagsResult.error
+        }
+      }
+      data.tags = tagsResult.data
+    }
+
+    // The creator is added as an owner by a database trigger
     return {
       success: true,
-      data: data as Project
+      data: { ...data, role: 'owner' } as Project
     }
   } catch (error) {
     console.error('Unexpected error creating project:', error)
@@ -77,13 +133,13 @@ export async function createProject(projectData: CreateProjectData): Promise<Api
 }
 
 /**
- * Get a single project by ID (with user ownership validation)
+ * Get a single project by ID, with the current user's role on it
  */
 export async function getProject(projectId: string): Promise<ApiResponse<Project>> {
   try {
     const supabase = createClientComponentClient()
     
-    // Get current user for ownership validation
+    // Get current user to work out their role
     const { data: { user }, error: userError } = await supabase.auth.getUser()
     
     if (userError || !user) {
@@ -100,12 +156,13 @@ export async function getProject(projectId: string): Promise<ApiResponse<Project
       }
     }
 
-    // Fetch project with ownership validation via RLS
+    // RLS only returns projects the user is a member of
     const { data, error } = await supabase
       .from('projects')
-      .select('*')
+      .select('*, tags(*), project_members(user_id, role)')
       .eq('id', projectId)
-      .eq('user_id', user.id) // Explicit ownership check
+      .eq('project_members.user_id', user.id)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -124,7 +181,7 @@ export async function getProject(projectId: string): Promise<ApiResponse<Project
 
     return {
       success: true,
-      data: data as Project
+      data: withCurrentUserRole(data as unknown as Record<string, unknown>, user.id)
     }
   } catch (error) {
     console.error('Unexpected error fetching project:', error)
@@ -136,7 +193,7 @@ export async function getProject(projectId: string): Promise<ApiResponse<Project
 }
 
 /**
- * Get all projects for the authenticated user with optional filtering
+ * Get all projects the authenticated user is a member of, with optional filtering
  */
 export async function getProjects(filters?: ProjectFilters): Promise<ApiResponse<Project[]>> {
   try {
@@ -152,11 +209,18 @@ export async function getProjects(filters?: ProjectFilters): Promise<ApiResponse
       }
     }
 
-    // Build query with user filter
+    // Filtering by tag needs an inner join on project_tags
+    const tagIds = filters?.tag_ids || []
+    const columns: string = tagIds.length > 0
+      ? '*, tags(*), project_members(user_id, role), project_tags!inner(tag_id)'
+      : '*, tags(*), project_members(user_id, role)'
+
+    // RLS limits results to projects the user is a member of; only embed their own membership
     let query = supabase
       .from('projects')
-      .select('*')
-      .eq('user_id', user.id)
+      .select(columns)
+      .eq('project_members.user_id', user.id)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false }) // Most recent first
 
     // Apply optional filters
@@ -167,6 +231,9 @@ export async function getProjects(filters?: ProjectFilters): Promise<ApiResponse
       if (filters.due_date_after) {
         query = query.gte('due_date', filters.due_date_after)
       }
+      if (tagIds.length > 0) {
+        query = query.in('project_tags.tag_id', tagIds)
+      }
     }
 
     const { data, error } = await query
@@ -179,9 +246,17 @@ export async function getProjects(filters?: ProjectFilters): Promise<ApiResponse
       }
     }
 
+    // Remove the project_tags join data from response
+    const projects = ((data || []) as unknown as Record<string, unknown>[]).map(item => {
+      const { project_tags, ...projectData } = item
+      // Prevent unused variable warning
+      void project_tags
+      return withCurrentUserRole(projectData, user.id)
+    })
+
     return {
       success: true,
-      data: (data || []) as Project[]
+      data: projects
     }
   } catch (error) {
     console.error('Unexpected error fetching projects:', error)
@@ -199,7 +274,7 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
   try {
     const supabase = createClientComponentClient()
     
-    // Get current user for ownership validation
+    // Get current user
     const { data: { user }, error: userError } = await supabase.auth.getUser()
     
     if (userError || !user) {
@@ -216,6 +291,15 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
       }
     }
 
+    // Viewers can't change the project
+    const accessResult = await validateProjectEditAccess(updateData.id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
     // Validate name if provided
     if (updateData.name !== undefined && updateData.name.trim() === '') {
       return {
@@ -231,6 +315,7 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
     const cleanUpdates: Partial<{
       name: string
       description: string | null
+      start_date: string | null
       due_date: string | null
       updated_at: string
     }> = {}
@@ -241,6 +326,9 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
     if (projectUpdates.description !== undefined) {
       cleanUpdates.description = projectUpdates.description?.trim() || null
     }
+    if (projectUpdates.start_date !== undefined) {
+      cleanUpdates.start_date = projectUpdates.start_date || null
+    }
     if (projectUpdates.due_date !== undefined) {
       cleanUpdates.due_date = projectUpdates.due_date
     }
@@ -248,13 +336,13 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
     // Add updated_at timestamp
     cleanUpdates.updated_at = new Date().toISOString()
 
-    // Update project with ownership validation
+    // Update project (RLS allows owners and editors)
     const { data, error } = await supabase
       .from('projects')
       .update(cleanUpdates)
       .eq('id', id)
-      .eq('user_id', user.id) // Ensure user owns the project
-      .select()
+      .is('deleted_at', null)
+      .select('*, tags(*)')
       .single()
 
     if (error) {
@@ -264,6 +352,12 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
           error: 'Project not found or access denied'
         }
       }
+      if (error.code === '23514') {
+        return {
+          success: false,
+          error: 'Start date must be on or before the due date'
+        }
+      }
       console.error('Database error updating project:', error)
       return {
         success: false,
@@ -271,9 +365,20 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
       }
     }
 
+    if (projectUpdates.tag_ids !== undefined) {
+      const tagsResult = await replaceProjectTags(id, projectUpdates.tag_ids)
+      if (!tagsResult.success) {
+        return {
+          success: false,
+          error: tagsResult.error
+        }
+      }
+      data.tags = tagsResult.data
+    }
+
     return {
       success: true,
-      data: data as Project
+      data: { ...data, role: accessResult.data } as Project
     }
   } catch (error) {
     console.error('Unexpected error updating project:', error)
@@ -285,13 +390,13 @@ export async function updateProject(updateData: UpdateProjectData): Promise<ApiR
 }
 
 /**
- * Delete a project (and all associated tasks and notes via cascade)
+ * Move a project to the trash; its tasks and notes go with it and come back when it is restored
  */
 export async function deleteProject(projectId: string): Promise<ApiResponse<null>> {
   try {
     const supabase = createClientComponentClient()
     
-    // Get current user for ownership validation
+    // Get current user
     const { data: { user }, error: userError } = await supabase.auth.getUser()
     
     if (userError || !user) {
@@ -308,13 +413,29 @@ export async function deleteProject(projectId: string): Promise<ApiResponse<null
       }
     }
 
-    // Delete project with ownership validation
-    // Note: Related tasks and notes will be deleted automatically due to foreign key constraints
+    const { data: role, error: roleError } = await supabase.rpc('project_role', { target_project_id: projectId })
+
+    if (roleError) {
+      console.error('Database error checking project role:', roleError)
+      return {
+        success: false,
+        error: roleError.message
+      }
+    }
+
+    if (role !== 'owner') {
+      return {
+        success: false,
+        error: role ? 'Only project owners can delete a project' : 'Project not found or access denied'
+      }
+    }
+
+    // Trash project (a database trigger trashes its tasks and notes too)
     const { error } = await supabase
       .from('projects')
-      .delete()
+      .update({ deleted_at: new Date().toISOString() })
       .eq('id', projectId)
-      .eq('user_id', user.id) // Ensure user owns the project
+      .is('deleted_at', null)
 
     if (error) {
       console.error('Database error deleting project:', error)
@@ -338,7 +459,7 @@ export async function deleteProject(projectId: string): Promise<ApiResponse<null
 }
 
 /**
- * Get project count for the authenticated user
+ * Get the number of projects the authenticated user is a member of
  */
 export async function getProjectCount(): Promise<ApiResponse<number>> {
   try {
@@ -354,11 +475,11 @@ export async function getProjectCount(): Promise<ApiResponse<number>> {
       }
     }
 
-    // Get count of user's projects
+    // Count projects visible to the user through RLS
     const { count, error } = await supabase
       .from('projects')
       .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+      .is('deleted_at', null)
 
     if (error) {
       console.error('Database error counting projects:', error)
@@ -405,12 +526,12 @@ export async function projectExists(projectId: string): Promise<ApiResponse<bool
       }
     }
 
-    // Check if project exists for this user
+    // Check if project exists and the user is a member (via RLS)
     const { data, error } = await supabase
       .from('projects')
       .select('id')
       .eq('id', projectId)
-      .eq('user_id', user.id)
+      .is('deleted_at', null)
       .single()
 
     if (error) {
@@ -470,7 +591,7 @@ export async function getUpcomingProjects(daysAhead: number = 7): Promise<ApiRes
     const { data, error } = await supabase
       .from('projects')
       .select('*')
-      .eq('user_id', user.id)
+      .is('deleted_at', null)
       .gte('due_date', todayStr)
       .lte('due_date', futureDateStr)
       .order('due_date', { ascending: true })
@@ -496,20 +617,22 @@ export async function getUpcomingProjects(daysAhead: number = 7): Promise<ApiRes
   }
 }
 
-// ============================================================================
-// TASK DATABASE FUNCTIONS
-// ============================================================================
-
 /**
- * Create a new task for a project
+ * Deep-copy a project with its statuses, tasks, subtasks, dependencies and optionally notes.
+ * The copy is owned by the current user, so other people's assignments and tags are dropped.
  */
-export async function createTask(taskData: CreateTaskData): Promise<ApiResponse<Task>> {
+export async function duplicateProject(
+  projectId: string,
+  options: DuplicateProjectOptions = {}
+): Promise<ApiResponse<Project>> {
+  // Set once the copy exists, so any later failure can remove it
+  let copyId: string | null = null
+
   try {
     const supabase = createClientComponentClient()
-    
-    // Get current user
+
     const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
+
     if (userError || !user) {
       return {
         success: false,
@@ -517,127 +640,158 @@ export async function createTask(taskData: CreateTaskData): Promise<ApiResponse<
       }
     }
 
-    // Validate required fields
-    if (!taskData.name || taskData.name.trim() === '') {
+    const [projectResult, statusesResult, tasksResult] = await Promise.all([
+      getProject(projectId),
+      getTaskStatuses(projectId),
+      getTasksByProject(projectId)
+    ])
+
+    if (!projectResult.success || !projectResult.data) {
       return {
         success: false,
-        error: 'Task name is required'
+        error: projectResult.error || 'Project not found'
       }
     }
-
-    if (!taskData.project_id) {
+    if (!statusesResult.success || !statusesResult.data || !tasksResult.success || !tasksResult.data) {
       return {
         success: false,
-        error: 'Project ID is required'
+        error: statusesResult.error || tasksResult.error || 'Failed to load the project'
       }
     }
 
-    // Verify project exists and user owns it
-    const projectCheck = await projectExists(taskData.project_id)
-    if (!projectCheck.success || !projectCheck.data) {
+    const source = projectResult.data
+    const shiftDays = options.shiftDays || 0
+    const shiftDate = (date: string | null) =>
+      date && shiftDays ? format(addDays(parseISO(date), shiftDays), 'yyyy-MM-dd') : date
+
+    const copyResult = await createProject({
+      name: options.name?.trim() || `${source.name} (copy)`,
+      description: source.description,
+      start_date: shiftDate(source.start_date),
+      due_date: shiftDate(source.due_date),
+      tag_ids: source.tags?.filter(tag => tag.user_id === user.id).map(tag => tag.id)
+    })
+
+    if (!copyResult.success || !copyResult.data) {
+      return copyResult
+    }
+    const copy = copyResult.data
+    copyId = copy.id
+    const copyFailure = async (error: { message?: string }, what: string): Promise<ApiResponse<Project>> => {
+      console.error(`Database error copying ${what}:`, error)
+      await discardProject(copy.id)
       return {
         success: false,
-        error: 'Project not found or access denied'
+        error: `The project's ${what} could not be copied, so the copy was removed: ${error.message}`
       }
     }
 
-    // Prepare task data
-    const newTask = {
-      project_id: taskData.project_id,
-      name: taskData.name.trim(),
-      due_date: taskData.due_date || null,
-      priority: taskData.priority || 'Medium',
-      completed: false, // New tasks start as incomplete
+    const statusesCopy = await replaceDefaultTaskStatuses(copy.id, statusesResult.data)
+    if (!statusesCopy.success || !statusesCopy.data) {
+      return copyFailure({ message: statusesCopy.error }, 'statuses')
     }
+    const statusIdMap = statusesCopy.data
 
-    // Insert task into database
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert([newTask])
-      .select()
-      .single()
+    // Parents come before their subtasks and IDs are generated up front, so one insert keeps the hierarchy
+    const tasks = flattenTaskTree(tasksResult.data)
+    if (tasks.length === 0) {
+      return copyResult
+    }
 
-    if (error) {
-      console.error('Database error creating task:', error)
-      return {
-        success: false,
-        error: error.message
+    const taskIdMap = new Map(tasks.map(task => [task.id, crypto.randomUUID()]))
+
+    const { error: tasksError } = await supabase
+      .from('tasks')
+      .insert(tasks.map(task => ({
+        id: taskIdMap.get(task.id),
+        project_id: copy.id,
+        parent_task_id: task.parent_task_id ? taskIdMap.get(task.parent_task_id) ?? null : null,
+        // Without a status, the copy starts in the first open status
+        status_id: options.resetCompletion ? null : statusIdMap.get(task.status_id) ?? null,
+        name: task.name,
+        priority: task.priority,
+        position: task.position,
+        start_date: shiftDate(task.start_date),
+        due_date: shiftDate(task.due_date),
+        recurrence: task.recurrence,
+        // The user is the only member of the new project
+        assignee_id: task.assignee_id === user.id ? user.id : null
+      })))
+
+    if (tasksError) {
+      return copyFailure(tasksError, 'tasks')
+    }
+
+    const taskTags = tasks.flatMap(task => (task.tags || [])
+      .filter(tag => tag.user_id === user.id)
+      .map(tag => ({ task_id: taskIdMap.get(task.id), tag_id: tag.id })))
+
+    if (taskTags.length > 0) {
+      const { error } = await supabase
+        .from('task_tags')
+        .insert(taskTags)
+
+      if (error) {
+        return copyFailure(error, 'task tags')
       }
     }
 
-    return {
-      success: true,
-      data: data as Task
-    }
-  } catch (error) {
-    console.error('Unexpected error creating task:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    const { data: dependencies, error: dependenciesError } = await supabase
+      .from('task_dependencies')
+      .select('task_id, depends_on_task_id')
+      .in('task_id', tasks.map(task => task.id))
+
+    if (dependenciesError) {
+      return copyFailure(dependenciesError, 'dependencies')
     }
-  }
-}
 
-/**
- * Get a single task by ID (with user ownership validation)
- */
-export async function getTask(taskId: string): Promise<ApiResponse<Task>> {
-  try {
-    const supabase = createClientComponentClient()
-    
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
-    if (userError || !user) {
-      return {
-        success: false,
-        error: 'User not authenticated'
+    // Dependencies on tasks outside the copied set are left out
+    const copiedDependencies = (dependencies || [])
+      .filter(dependency => taskIdMap.has(dependency.depends_on_task_id))
+      .map(dependency => ({
+        task_id: taskIdMap.get(dependency.task_id),
+        depends_on_task_id: taskIdMap.get(dependency.depends_on_task_id)
+      }))
+
+    if (copiedDependencies.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert(copiedDependencies)
+
+      if (error) {
+        return copyFailure(error, 'dependencies')
       }
     }
 
-    if (!taskId) {
-      return {
-        success: false,
-        error: 'Task ID is required'
+    if (options.includeNotes) {
+      const { data: notes, error: notesError } = await supabase
+        .from('notes')
+        .select('task_id, title, content')
+        .in('task_id', tasks.map(task => task.id))
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+
+      if (notesError) {
+        return copyFailure(notesError, 'notes')
       }
-    }
 
-    // Fetch task with ownership validation through projects table
-    const { data, error } = await supabase
-      .from('tasks')
-      .select(`
-        *,
-        projects!inner(user_id)
-      `)
-      .eq('id', taskId)
-      .eq('projects.user_id', user.id)
-      .single()
+      if (notes && notes.length > 0) {
+        const { error } = await supabase
+          .from('notes')
+          .insert(notes.map(note => ({ ...note, task_id: taskIdMap.get(note.task_id) })))
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return {
-          success: false,
-          error: 'Task not found'
+        if (error) {
+          return copyFailure(error, 'notes')
         }
       }
-      console.error('Database error fetching task:', error)
-      return {
-        success: false,
-        error: error.message
-      }
     }
 
-    // Remove the projects relation data from response
-    const { projects, ...taskData } = data as Record<string, unknown>
-    // Prevent unused variable warning
-    void projects
-    
-    return {
-      success: true,
-      data: taskData as unknown as Task
-    }
+    return copyResult
   } catch (error) {
-    console.error('Unexpected error fetching task:', error)
+    console.error('Unexpected error duplicating project:', error)
+    if (copyId) {
+      await discardProject(copyId)
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -646,75 +800,116 @@ export async function getTask(taskId: string): Promise<ApiResponse<Task>> {
 }
 
 /**
- * Get all tasks for the authenticated user with optional filtering
+ * Recreate a project from validated JSON export data (see parseProjectImport) under the current user.
+ * Tasks must list parents before their subtasks. Exports carry no tags, assignees or dependencies.
  */
-export async function getTasks(filters?: TaskFilters): Promise<ApiResponse<Task[]>> {
+export async function importProject(exportData: ExportData): Promise<ApiResponse<Project>> {
+  // Set once the project exists, so any later failure can remove it
+  let importedId: string | null = null
+
   try {
     const supabase = createClientComponentClient()
-    
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
-    if (userError || !user) {
+    const { project } = exportData
+
+    const projectResult = await createProject({
+      name: project.name,
+      description: project.description || null,
+      start_date: project.start_date || null,
+      due_date: project.due_date || null
+    })
+
+    if (!projectResult.success || !projectResult.data) {
+      return projectResult
+    }
+    const imported = projectResult.data
+    importedId = imported.id
+    const importFailure = async (what: string, message?: string): Promise<ApiResponse<Project>> => {
+      await discardProject(imported.id)
       return {
         success: false,
-        error: 'User not authenticated'
+        error: `The project's ${what} could not be imported, so nothing was imported: ${message}`
       }
     }
 
-    // Build query with user ownership validation through projects
-    let query = supabase
-      .from('tasks')
-      .select(`
-        *,
-        projects!inner(user_id)
-      `)
-      .eq('projects.user_id', user.id)
-      .order('created_at', { ascending: false })
-
-    // Apply optional filters
-    if (filters) {
-      if (filters.project_id) {
-        query = query.eq('project_id', filters.project_id)
-      }
-      if (filters.priority) {
-        query = query.eq('priority', filters.priority)
-      }
-      if (filters.completed !== undefined) {
-        query = query.eq('completed', filters.completed)
-      }
-      if (filters.due_date_before) {
-        query = query.lte('due_date', filters.due_date_before)
-      }
-      if (filters.due_date_after) {
-        query = query.gte('due_date', filters.due_date_after)
+    // Exports made before statuses existed keep the new project's default statuses
+    let statusIdMap = new Map<string, string>()
+    if (project.statuses.length > 0) {
+      const statusesCopy = await replaceDefaultTaskStatuses(imported.id, project.statuses)
+      if (!statusesCopy.success || !statusesCopy.data) {
+        return importFailure('statuses', statusesCopy.error)
       }
+      statusIdMap = statusesCopy.data
     }
 
-    const { data, error } = await query
+    if (project.tasks.length === 0) {
+      return projectResult
+    }
 
-    if (error) {
-      console.error('Database error fetching tasks:', error)
-      return {
-        success: false,
-        error: error.message
+    const taskIdMap = new Map(project.tasks.map(task => [task.id, crypto.randomUUID()]))
+
+    const { error: tasksError } = await supabase
+      .from('tasks')
+      .insert(project.tasks.map(task => ({
+        id: taskIdMap.get(task.id),
+        project_id: imported.id,
+        parent_task_id: task.parent_task_id ? taskIdMap.get(task.parent_task_id) ?? null : null,
+        status_id: task.status_id ? statusIdMap.get(task.status_id) ?? null : null,
+        name: task.name,
+        priority: task.priority,
+        start_date: task.start_date || null,
+        due_date: task.due_date || null,
+        recurrence: task.recurrence || null,
+        created_at: task.created_at,
+        updated_at: task.updated_at
+      })))
+
+    if (tasksError) {
+      console.error('Database error importing tasks:', tasksError)
+      return importFailure('tasks', tasksError.message)
+    }
+
+    // Completed tasks without a restored status move to the first done status
+    const completedIds = project.tasks
+      .filter(task => task.completed && !(task.status_id && statusIdMap.has(task.status_id)))
+      .map(task => taskIdMap.get(task.id) as string)
+
+    if (completedIds.length > 0) {
+      const { error } = await supabase
+        .from('tasks')
+        .update({ completed: true })
+        .in('id', completedIds)
+
+      if (error) {
+        console.error('Database error completing imported tasks:', error)
+        return importFailure('task completion', error.message)
       }
     }
 
-    // Remove the projects relation data from response
-    const tasks = (data || []).map((item: Record<string, unknown>) => {
-      const { projects, ...taskData } = item
-      // Prevent unused variable warning
-      void projects
-      return taskData as unknown as Task
-    })
+    const notes = project.tasks.flatMap(task => task.notes.map(note => ({
+      task_id: taskIdMap.get(task.id),
+      title: note.title,
+      content: note.content,
+      created_at: note.created_at,
+      updated_at: note.updated_at
+    })))
 
-    return {
-      success: true,
-      data: tasks
+    if (notes.length > 0) {
+      const { error } = await supabase
+        .from('notes')
+        .insert(notes)
+
+      if (error) {
+        console.error('Database error importing notes:', error)
+        return importFailure('notes', error.message)
+      }
     }
+
+    return projectResult
   } catch (error) {
-    console.error('Unexpected error fetching tasks:', error)
+    console.error('Unexpected error importing project:', error)
+    if (importedId) {
+      await discardProject(importedId)
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -723,70 +918,155 @@ export async function getTasks(filters?: TaskFilters): Promise<ApiResponse<Task[
 }
 
 /**
- * Get all tasks for a specific project
+ * Swap a newly created project's seeded default statuses for copies of the given ones,
+ * returning a map from each given status ID to its copy's ID
  */
-export async function getTasksByProject(projectId: string): Promise<ApiResponse<Task[]>> {
-  try {
-    const supabase = createClientComponentClient()
-    
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
-    if (userError || !user) {
-      return {
-        success: false,
-        error: 'User not authenticated'
-      }
+async function replaceDefaultTaskStatuses(
+  projectId: string,
+  statuses: Pick<TaskStatus, 'id' | 'name' | 'color' | 'is_done' | 'position'>[]
+): Promise<ApiResponse<Map<string, string>>> {
+  const supabase = createClientComponentClient()
+
+  // Remove the defaults first: the copies often share their names, which are unique per project.
+  // The new project has no tasks yet, so nothing refers to them.
+  const { error: deleteError } = await supabase
+    .from('task_statuses')
+    .delete()
+    .eq('project_id', projectId)
+
+  if (deleteError) {
+    console.error('Database error removing default task statuses:', deleteError)
+    return {
+      success: false,
+      error: deleteError.message
     }
+  }
 
-    if (!projectId) {
-      return {
-        success: false,
-        error: 'Project ID is required'
-      }
+  const statusIdMap = new Map(statuses.map(status => [status.id, crypto.randomUUID()]))
+
+  const { error: insertError } = await supabase
+    .from('task_statuses')
+    .insert(statuses.map(status => ({
+      id: statusIdMap.get(status.id),
+      project_id: projectId,
+      name: status.name,
+      color: status.color,
+      is_done: status.is_done,
+      position: status.position
+    })))
+
+  if (insertError) {
+    console.error('Database error copying task statuses:', insertError)
+    return {
+      success: false,
+      error: insertError.message
     }
+  }
 
-    // Verify project ownership first
-    const projectCheck = await projectExists(projectId)
-    if (!projectCheck.success || !projectCheck.data) {
-      return {
-        success: false,
-        error: 'Project not found or access denied'
-      }
-    }
+  return {
+    success: true,
+    data: statusIdMap
+  }
+}
 
-    // Get tasks for the project
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .eq('project_id', projectId)
-      .order('created_at', { ascending: false })
+/**
+ * Permanently delete a project that failed to be copied or imported, along with whatever
+ * was added to it, so no half-built project is left behind
+ */
+async function discardProject(projectId: string): Promise<void> {
+  const supabase = createClientComponentClient()
 
-    if (error) {
-      console.error('Database error fetching project tasks:', error)
-      return {
-        success: false,
-        error: error.message
-      }
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', projectId)
+
+  if (error) {
+    console.error('Database error discarding incomplete project:', error)
+  }
+}
+
+/**
+ * Flatten the embedded project_members row into the current user's role.
+ * Creators are always owners, even before their membership row is visible.
+ */
+function withCurrentUserRole(row: Record<string, unknown>, userId: string): Project {
+  const { project_members, ...projectData } = row
+  const membership = (project_members as { user_id: string; role: ProjectRole }[] | null)?.[0]
+  return {
+    ...projectData,
+    role: projectData.user_id === userId ? 'owner' : membership?.role
+  } as unknown as Project
+}
+
+/**
+ * Check that the current user can change a project's contents, returning their role.
+ * Viewers and non-members are rejected.
+ */
+async function validateProjectEditAccess(projectId: string): Promise<ApiResponse<ProjectRole>> {
+  const supabase = createClientComponentClient()
+
+  const { data: role, error } = await supabase.rpc('project_role', { target_project_id: projectId })
+
+  if (error) {
+    console.error('Database error checking project role:', error)
+    return {
+      success: false,
+      error: error.message
     }
+  }
 
+  if (!role) {
     return {
-      success: true,
-      data: (data || []) as Task[]
+      success: false,
+      error: 'Project not found or access denied'
     }
-  } catch (error) {
-    console.error('Unexpected error fetching project tasks:', error)
+  }
+
+  if (role === 'viewer') {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      error: 'You have view-only access to this project'
     }
   }
+
+  return {
+    success: true,
+    data: role as ProjectRole
+  }
 }
 
 /**
- * Update an existing task
+ * Check that the current user can change a task's notes, via the task's project
  */
-export async function updateTask(updateData: UpdateTaskData): Promise<ApiResponse<Task>> {
+async function validateTaskEditAccess(taskId: string): Promise<ApiResponse<ProjectRole>> {
+  const supabase = createClientComponentClient()
+
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('project_id')
+    .eq('id', taskId)
+    .is('deleted_at', null)
+    .single()
+
+  if (error || !task) {
+    return {
+      success: false,
+      error: 'Task not found or access denied'
+    }
+  }
+
+  return validateProjectEditAccess(task.project_id)
+}
+
+// ============================================================================
+// TASK DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a new task for a project
+ */
+export async function createTask(taskData: CreateTaskData): Promise<ApiResponse<Task>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -800,92 +1080,126 @@ export async function updateTask(updateData: UpdateTaskData): Promise<ApiRespons
       }
     }
 
-    if (!updateData.id) {
+    // Validate required fields
+    if (!taskData.name || taskData.name.trim() === '') {
       return {
         success: false,
-        error: 'Task ID is required'
+        error: 'Task name is required'
       }
     }
 
-    // Validate name if provided
-    if (updateData.name !== undefined && updateData.name.trim() === '') {
+    if (!taskData.project_id) {
       return {
         success: false,
-        error: 'Task name cannot be empty'
+        error: 'Project ID is required'
       }
     }
 
-    // First verify the task exists and user has access to it
-    const taskCheck = await taskExists(updateData.id)
-    if (!taskCheck.success || !taskCheck.data) {
+    // Verify the user can add tasks to the project
+    const accessResult = await validateProjectEditAccess(taskData.project_id)
+    if (!accessResult.success) {
       return {
         success: false,
-        error: 'Task not found or access denied'
+        error: accessResult.error
       }
     }
 
-    // Prepare update data (exclude id)
-    const { id, ...taskUpdates } = updateData
-    
-    // Clean up the update data
-    const cleanUpdates: Partial<{
-      name: string
-      due_date: string | null
-      priority: 'High' | 'Medium' | 'Low'
-      completed: boolean
-      project_id: string
-      updated_at: string
-    }> = {}
-    
-    if (taskUpdates.name !== undefined) {
-      cleanUpdates.name = taskUpdates.name.trim()
+    // Subtasks must live in the same project as their parent
+    if (taskData.parent_task_id) {
+      const parentResult = await getTask(taskData.parent_task_id)
+      if (!parentResult.success || !parentResult.data) {
+        return {
+          success: false,
+          error: 'Parent task not found or access denied'
+        }
+      }
+      if (parentResult.data.project_id !== taskData.project_id) {
+        return {
+          success: false,
+          error: 'Parent task must belong to the same project'
+        }
+      }
     }
-    if (taskUpdates.due_date !== undefined) {
-      cleanUpdates.due_date = taskUpdates.due_date
+
+    if (taskData.status_id) {
+      const statusCheck = await validateTaskStatus(taskData.status_id, taskData.project_id)
+      if (!statusCheck.success) {
+        return {
+          success: false,
+          error: statusCheck.error
+        }
+      }
     }
-    if (taskUpdates.priority !== undefined) {
-      cleanUpdates.priority = taskUpdates.priority
+
+    if (!isValidDateRange(taskData.start_date, taskData.due_date)) {
+      return {
+        success: false,
+        error: 'Start date must be on or before the due date'
+      }
     }
-    if (taskUpdates.completed !== undefined) {
-      cleanUpdates.completed = taskUpdates.completed
+
+    if (taskData.recurrence && !isValidRecurrence(taskData.recurrence)) {
+      return {
+        success: false,
+        error: 'Invalid recurrence rule'
+      }
     }
-    if (taskUpdates.project_id !== undefined) {
-      // If project_id is being changed, verify the new project exists and user owns it
-      const projectCheck = await projectExists(taskUpdates.project_id)
-      if (!projectCheck.success || !projectCheck.data) {
+
+    if (taskData.assignee_id) {
+      const assigneeCheck = await validateTaskAssignee(taskData.assignee_id, taskData.project_id)
+      if (!assigneeCheck.success) {
         return {
           success: false,
-          error: 'Target project not found or access denied'
+          error: assigneeCheck.error
         }
       }
-      cleanUpdates.project_id = taskUpdates.project_id
     }
 
-    // Add updated_at timestamp
-    cleanUpdates.updated_at = new Date().toISOString()
+    // Prepare task data (without a status, the database assigns the project's first open status)
+    const newTask = {
+      project_id: taskData.project_id,
+      parent_task_id: taskData.parent_task_id || null,
+      name: taskData.name.trim(),
+      start_date: taskData.start_date || null,
+      due_date: taskData.due_date || null,
+      priority: taskData.priority || 'Medium',
+      recurrence: taskData.recurrence || null,
+      assignee_id: taskData.assignee_id || null,
+      ...(taskData.status_id && { status_id: taskData.status_id })
+    }
 
-    // Update task
+    // Insert task into database
     const { data, error } = await supabase
       .from('tasks')
-      .update(cleanUpdates)
-      .eq('id', id)
-      .select()
+      .insert([newTask])
+      .select('*, tags(*), assignee:profiles(id, email)')
       .single()
 
     if (error) {
-      console.error('Database error updating task:', error)
+      console.error('Database error creating task:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
+    if (taskData.tag_ids && taskData.tag_ids.length > 0) {
+      const tagsResult = await replaceTaskTags(data.id, taskData.tag_ids)
+      if (!tagsResult.success) {
+        return {
+          success: false,
+          error: tagsResult.error
+        }
+      }
+      data.tags = tagsResult.data
+    }
+
     return {
       success: true,
       data: data as Task
     }
   } catch (error) {
-    console.error('Unexpected error updating task:', error)
+    console.error('Unexpected error creating task:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -894,9 +1208,9 @@ export async function updateTask(updateData: UpdateTaskData): Promise<ApiRespons
 }
 
 /**
- * Delete a task (and all associated notes via cascade)
+ * Get a single task by ID (with user ownership validation)
  */
-export async function deleteTask(taskId: string): Promise<ApiResponse<null>> {
+export async function getTask(taskId: string): Promise<ApiResponse<Task>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -917,35 +1231,44 @@ export async function deleteTask(taskId: string): Promise<ApiResponse<null>> {
       }
     }
 
-    // Verify task exists and user has access to it
-    const taskCheck = await taskExists(taskId)
-    if (!taskCheck.success || !taskCheck.data) {
-      return {
-        success: false,
-        error: 'Task not found or access denied'
-      }
-    }
-
-    // Delete task
-    const { error } = await supabase
+    // Fetch task (RLS limits access to projects the user is a member of)
+    const { data, error } = await supabase
       .from('tasks')
-      .delete()
+      .select(`
+        *,
+        tags(*),
+        assignee:profiles(id, email),
+        projects!inner(user_id)
+      `)
       .eq('id', taskId)
+      .is('deleted_at', null)
+      .single()
 
     if (error) {
-      console.error('Database error deleting task:', error)
+      if (error.code === 'PGRST116') {
+        return {
+          success: false,
+          error: 'Task not found'
+        }
+      }
+      console.error('Database error fetching task:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
+    // Remove the projects relation data from response
+    const { projects, ...taskData } = data as Record<string, unknown>
+    // Prevent unused variable warning
+    void projects
+    
     return {
       success: true,
-      data: null
+      data: taskData as unknown as Task
     }
   } catch (error) {
-    console.error('Unexpected error deleting task:', error)
+    console.error('Unexpected error fetching task:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -954,9 +1277,9 @@ export async function deleteTask(taskId: string): Promise<ApiResponse<null>> {
 }
 
 /**
- * Get task count for the authenticated user (optionally by project)
+ * Get all tasks for the authenticated user with optional filtering
  */
-export async function getTaskCount(projectId?: string): Promise<ApiResponse<number>> {
+export async function getTasks(filters?: TaskFilters): Promise<ApiResponse<Task[]>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -970,36 +1293,79 @@ export async function getTaskCount(projectId?: string): Promise<ApiResponse<numb
       }
     }
 
-    // Build query with user ownership validation through projects
+    // Filtering by tag needs an inner join on task_tags
+    const tagIds = filters?.tag_ids || []
+    const columns: string = tagIds.length > 0
+      ? '*, tags(*), assignee:profiles(id, email), projects!inner(user_id), task_tags!inner(tag_id)'
+      : '*, tags(*), assignee:profiles(id, email), projects!inner(user_id)'
+
+    // Build query (RLS limits results to projects the user is a member of)
     let query = supabase
       .from('tasks')
-      .select(`
-        *,
-        projects!inner(user_id)
-      `, { count: 'exact', head: true })
-      .eq('projects.user_id', user.id)
+      .select(columns)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
 
-    // Add project filter if specified
-    if (projectId) {
-      query = query.eq('project_id', projectId)
+    // Apply optional filters
+    if (filters) {
+      if (filters.project_id) {
+        query = query.eq('project_id', filters.project_id)
+      }
+      if (filters.parent_task_id !== undefined) {
+        query = filters.parent_task_id === null
+          ? query.is('parent_task_id', null)
+          : query.eq('parent_task_id', filters.parent_task_id)
+      }
+      if (filters.priority) {
+        query = query.eq('priority', filters.priority)
+      }
+      if (filters.completed !== undefined) {
+        query = query.eq('completed', filters.completed)
+      }
+      if (filters.status_id) {
+        query = query.eq('status_id', filters.status_id)
+      }
+      if (filters.due_date_before) {
+        query = query.lte('due_date', filters.due_date_before)
+      }
+      if (filters.due_date_after) {
+        query = query.gte('due_date', filters.due_date_after)
+      }
+      if (tagIds.length > 0) {
+        query = query.in('task_tags.tag_id', tagIds)
+      }
+      if (filters.assignee_id !== undefined) {
+        query = filters.assignee_id === null
+          ? query.is('assignee_id', null)
+          : query.eq('assignee_id', filters.assignee_id)
+      }
     }
 
-    const { count, error } = await query
+    const { data, error } = await query
 
     if (error) {
-      console.error('Database error counting tasks:', error)
+      console.error('Database error fetching tasks:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
+    // Remove the projects and task_tags relation data from response
+    const tasks = ((data || []) as unknown as Record<string, unknown>[]).map(item => {
+      const { projects, task_tags, ...taskData } = item
+      // Prevent unused variable warning
+      void projects
+      void task_tags
+      return taskData as unknown as Task
+    })
+
     return {
       success: true,
-      data: count || 0
+      data: tasks
     }
   } catch (error) {
-    console.error('Unexpected error counting tasks:', error)
+    console.error('Unexpected error fetching tasks:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1008,9 +1374,9 @@ export async function getTaskCount(projectId?: string): Promise<ApiResponse<numb
 }
 
 /**
- * Check if a task exists and user has access to it
+ * Get all tasks for a specific project as a tree of top-level tasks and their subtasks
  */
-export async function taskExists(taskId: string): Promise<ApiResponse<boolean>> {
+export async function getTasksByProject(projectId: string): Promise<ApiResponse<TaskWithSubtasks[]>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1024,32 +1390,32 @@ export async function taskExists(taskId: string): Promise<ApiResponse<boolean>>
       }
     }
 
-    if (!taskId) {
+    if (!projectId) {
       return {
         success: false,
-        error: 'Task ID is required'
+        error: 'Project ID is required'
       }
     }
 
-    // Check if task exists for this user through project ownership
+    // Verify project ownership first
+    const projectCheck = await projectExists(projectId)
+    if (!projectCheck.success || !projectCheck.data) {
+      return {
+        success: false,
+        error: 'Project not found or access denied'
+      }
+    }
+
+    // Get tasks for the project
     const { data, error } = await supabase
       .from('tasks')
-      .select(`
-        id,
-        projects!inner(user_id)
-      `)
-      .eq('id', taskId)
-      .eq('projects.user_id', user.id)
-      .single()
+      .select('*, tags(*), assignee:profiles(id, email)')
+      .eq('project_id', projectId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
 
     if (error) {
-      if (error.code === 'PGRST116') {
-        return {
-          success: true,
-          data: false
-        }
-      }
-      console.error('Database error checking task existence:', error)
+      console.error('Database error fetching project tasks:', error)
       return {
         success: false,
         error: error.message
@@ -1058,10 +1424,10 @@ export async function taskExists(taskId: string): Promise<ApiResponse<boolean>>
 
     return {
       success: true,
-      data: !!data
+      data: buildTaskTree((data || []) as Task[])
     }
   } catch (error) {
-    console.error('Unexpected error checking task existence:', error)
+    console.error('Unexpected error fetching project tasks:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1070,10 +1436,3499 @@ export async function taskExists(taskId: string): Promise<ApiResponse<boolean>>
 }
 
 /**
- * Get tasks with upcoming due dates (within specified days)
+ * Update an existing task. Changing its project moves its subtasks with it, and moves
+ * them back if the rest of the update fails.
  */
-export async function getUpcomingTasks(daysAhead: number = 7): Promise<ApiResponse<Task[]>> {
-  try {
+export async function updateTask(updateData: UpdateTaskData): Promise<ApiResponse<Task>> {
+  // The task and its subtasks as they were before a project change, so a failed edit can move them back
+  let movedTasks: Task[] = []
+  let previousProjectId: string | null = null
+
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!updateData.id) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Validate name if provided
+    if (updateData.name !== undefined && updateData.name.trim() === '') {
+      return {
+        success: false,
+        error: 'Task name cannot be empty'
+      }
+    }
+
+    // First verify the task exists and user can edit it
+    const currentTask = await getTask(updateData.id)
+    if (!currentTask.success || !currentTask.data) {
+      return {
+        success: false,
+        error: 'Task not found or access denied'
+      }
+    }
+
+    const accessResult = await validateProjectEditAccess(currentTask.data.project_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Prepare update data (exclude id)
+    const { id, ...taskUpdates } = updateData
+    
+    // Clean up the update data
+    const cleanUpdates: Partial<{
+      name: string
+      start_date: string | null
+      due_date: string | null
+      priority: 'High' | 'Medium' | 'Low'
+      completed: boolean
+      status_id: string
+      position: number
+      recurrence: TaskRecurrence | null
+      assignee_id: string | null
+      project_id: string
+      parent_task_id: string | null
+      updated_at: string
+    }> = {}
+    
+    if (taskUpdates.name !== undefined) {
+      cleanUpdates.name = taskUpdates.name.trim()
+    }
+    if (taskUpdates.start_date !== undefined || taskUpdates.due_date !== undefined) {
+      // Check the resulting range, since only one end may be changing
+      const startDate = taskUpdates.start_date !== undefined ? taskUpdates.start_date : currentTask.data.start_date
+      const dueDate = taskUpdates.due_date !== undefined ? taskUpdates.due_date : currentTask.data.due_date
+      if (!isValidDateRange(startDate, dueDate)) {
+        return {
+          success: false,
+          error: 'Start date must be on or before the due date'
+        }
+      }
+    }
+    if (taskUpdates.start_date !== undefined) {
+      cleanUpdates.start_date = taskUpdates.start_date || null
+    }
+    if (taskUpdates.due_date !== undefined) {
+      cleanUpdates.due_date = taskUpdates.due_date
+    }
+    if (taskUpdates.priority !== undefined) {
+      cleanUpdates.priority = taskUpdates.priority
+    }
+    // Completion follows the status; setting completed alone moves the task to a matching status
+    if (taskUpdates.status_id !== undefined) {
+      const statusCheck = await validateTaskStatus(
+        taskUpdates.status_id,
+        taskUpdates.project_id || currentTask.data.project_id
+      )
+      if (!statusCheck.success) {
+        return {
+          success: false,
+          error: statusCheck.error
+        }
+      }
+      cleanUpdates.status_id = taskUpdates.status_id
+    } else if (taskUpdates.completed !== undefined) {
+      cleanUpdates.completed = taskUpdates.completed
+    }
+    if (taskUpdates.position !== undefined) {
+      cleanUpdates.position = taskUpdates.position
+    }
+    if (taskUpdates.recurrence !== undefined) {
+      if (taskUpdates.recurrence && !isValidRecurrence(taskUpdates.recurrence)) {
+        return {
+          success: false,
+          error: 'Invalid recurrence rule'
+        }
+      }
+      cleanUpdates.recurrence = taskUpdates.recurrence
+    }
+    if (taskUpdates.project_id !== undefined) {
+      // If project_id is being changed, verify the user can edit the new project too
+      const targetAccess = await validateProjectEditAccess(taskUpdates.project_id)
+      if (!targetAccess.success) {
+        return {
+          success: false,
+          error: `Target project: ${targetAccess.error}`
+        }
+      }
+      cleanUpdates.project_id = taskUpdates.project_id
+      // A task moved to another project can no longer be a subtask of its old parent
+      if (taskUpdates.parent_task_id === undefined) {
+        cleanUpdates.parent_task_id = null
+      }
+    }
+    // Assignees must belong to the task's (possibly new) project
+    const assigneeId = taskUpdates.assignee_id !== undefined ? taskUpdates.assignee_id : currentTask.data.assignee_id
+    if (assigneeId && (taskUpdates.assignee_id !== undefined || taskUpdates.project_id !== undefined)) {
+      const assigneeCheck = await validateTaskAssignee(assigneeId, taskUpdates.project_id || currentTask.data.project_id)
+      if (!assigneeCheck.success) {
+        // Moving a task to a project its assignee isn't in leaves it unassigned
+        if (taskUpdates.assignee_id !== undefined) {
+          return {
+            success: false,
+            error: assigneeCheck.error
+          }
+        }
+        cleanUpdates.assignee_id = null
+      }
+    }
+    if (taskUpdates.assignee_id !== undefined) {
+      cleanUpdates.assignee_id = taskUpdates.assignee_id || null
+    }
+    if (taskUpdates.depends_on_task_ids !== undefined) {
+      const dependencyCheck = await validateTaskDependencies(id, taskUpdates.depends_on_task_ids)
+      if (!dependencyCheck.success) {
+        return {
+          success: false,
+          error: dependencyCheck.error
+        }
+      }
+    }
+    if (taskUpdates.parent_task_id !== undefined) {
+      if (taskUpdates.parent_task_id) {
+        const hierarchyCheck = await validateParentTask(id, taskUpdates.parent_task_id, taskUpdates.project_id)
+        if (!hierarchyCheck.success) {
+          return {
+            success: false,
+            error: hierarchyCheck.error
+          }
+        }
+      }
+      cleanUpdates.parent_task_id = taskUpdates.parent_task_id || null
+    }
+
+    // Subtasks move with the task, in the same statement, before the other changes are applied
+    if (cleanUpdates.project_id !== undefined && cleanUpdates.project_id !== currentTask.data.project_id) {
+      const targetsResult = await getBulkTargetTasks([id], true)
+      if (!targetsResult.success || !targetsResult.data) {
+        return {
+          success: false,
+          error: targetsResult.error
+        }
+      }
+
+      const moveResult = await moveTasksToProject(targetsResult.data, cleanUpdates.project_id)
+      if (!moveResult.success) {
+        return {
+          success: false,
+          error: moveResult.error
+        }
+      }
+      movedTasks = targetsResult.data
+      previousProjectId = currentTask.data.project_id
+    }
+    delete cleanUpdates.project_id
+
+    // Add updated_at timestamp
+    cleanUpdates.updated_at = new Date().toISOString()
+
+    // Update task
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(cleanUpdates)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select('*, tags(*), assignee:profiles(id, email)')
+      .single()
+
+    if (error) {
+      console.error('Database error updating task:', error)
+      if (previousProjectId) {
+        await moveTasksToProject(movedTasks, previousProjectId)
+      }
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    // The edit is saved, so the move stands even if the dependencies or tags below fail
+    previousProjectId = null
+
+    if (taskUpdates.depends_on_task_ids !== undefined) {
+      const replaceResult = await replaceTaskDependencies(id, taskUpdates.depends_on_task_ids)
+      if (!replaceResult.success) {
+        return {
+          success: false,
+          error: replaceResult.error
+        }
+      }
+    }
+
+    if (taskUpdates.tag_ids !== undefined) {
+      const tagsResult = await replaceTaskTags(id, taskUpdates.tag_ids)
+      if (!tagsResult.success) {
+        return {
+          success: false,
+          error: tagsResult.error
+        }
+      }
+      data.tags = tagsResult.data
+    }
+
+    return {
+      success: true,
+      data: data as Task
+    }
+  } catch (error) {
+    console.error('Unexpected error updating task:', error)
+    if (previousProjectId) {
+      await moveTasksToProject(movedTasks, previousProjectId)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Move a task to the trash; its subtasks and notes go with it and come back when it is restored
+ */
+export async function deleteTask(taskId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Verify task exists and user can edit its project
+    const taskResult = await getTask(taskId)
+    if (!taskResult.success || !taskResult.data) {
+      return {
+        success: false,
+        error: 'Task not found or access denied'
+      }
+    }
+
+    const accessResult = await validateProjectEditAccess(taskResult.data.project_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Trash task (a database trigger trashes its subtasks and notes too)
+    const { error } = await supabase
+      .from('tasks')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', taskId)
+      .is('deleted_at', null)
+
+    if (error) {
+      console.error('Database error deleting task:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting task:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get task count for the authenticated user (optionally by project)
+ */
+export async function getTaskCount(projectId?: string): Promise<ApiResponse<number>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    // Build query (RLS limits results to projects the user is a member of)
+    let query = supabase
+      .from('tasks')
+      .select(`
+        *,
+        projects!inner(user_id)
+      `, { count: 'exact', head: true })
+      .is('deleted_at', null)
+
+    // Add project filter if specified
+    if (projectId) {
+      query = query.eq('project_id', projectId)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+      console.error('Database error counting tasks:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: count || 0
+    }
+  } catch (error) {
+    console.error('Unexpected error counting tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Check if a task exists and user has access to it
+ */
+export async function taskExists(taskId: string): Promise<ApiResponse<boolean>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Check if task exists in a project the user is a member of (via RLS)
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        id,
+        projects!inner(user_id)
+      `)
+      .eq('id', taskId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: true,
+          data: false
+        }
+      }
+      console.error('Database error checking task existence:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: !!data
+    }
+  } catch (error) {
+    console.error('Unexpected error checking task existence:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get tasks with upcoming due dates (within specified days)
+ */
+export async function getUpcomingTasks(daysAhead: number = 7): Promise<ApiResponse<Task[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    // Calculate date range
+    const today = new Date()
+    const futureDate = new Date()
+    futureDate.setDate(today.getDate() + daysAhead)
+
+    const todayStr = today.toISOString().split('T')[0]
+    const futureDateStr = futureDate.toISOString().split('T')[0]
+
+    // Get tasks with due dates in the range
+    const { data, error } = await supabase
+      .from('tasks')
+      .select(`
+        *,
+        projects!inner(user_id)
+      `)
+      .is('deleted_at', null)
+      .gte('due_date', todayStr)
+      .lte('due_date', futureDateStr)
+      .eq('completed', false) // Only show incomplete tasks
+      .order('due_date', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching upcoming tasks:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    // Remove the projects relation data from response
+    const tasks = (data || []).map((item: Record<string, unknown>) => {
+      const { projects, ...taskData } = item
+      // Prevent unused variable warning
+      void projects
+      return taskData as unknown as Task
+    })
+
+    return {
+      success: true,
+      data: tasks
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching upcoming tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get tasks filtered by priority
+ */
+export async function getTasksByPriority(priority: 'High' | 'Medium' | 'Low'): Promise<ApiResponse<Task[]>> {
+  return getTasks({ priority })
+}
+
+/**
+ * Toggle task completion status, optionally applying the new status to all subtasks.
+ * Completing a recurring task also creates its next occurrence.
+ */
+export async function toggleTaskCompletion(
+  taskId: string,
+  options: { cascade?: boolean } = {}
+): Promise<ApiResponse<TaskCompletionResult>> {
+  try {
+    // First get the current task to find its completion status
+    const taskResult = await getTask(taskId)
+    if (!taskResult.success || !taskResult.data) {
+      return {
+        success: false,
+        error: taskResult.error || 'Task not found'
+      }
+    }
+
+    // Toggle the completion status
+    const newCompletedStatus = !taskResult.data.completed
+    
+    const result = await updateTask({
+      id: taskId,
+      completed: newCompletedStatus
+    })
+
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error
+      }
+    }
+
+    if (options.cascade) {
+      const cascadeResult = await setSubtasksCompletion(taskResult.data, newCompletedStatus)
+      if (!cascadeResult.success) {
+        return {
+          success: false,
+          error: cascadeResult.error
+        }
+      }
+    }
+
+    if (newCompletedStatus && result.data.recurrence) {
+      return await createNextOccurrence(result.data)
+    }
+
+    return {
+      success: true,
+      data: {
+        task: result.data,
+        next_occurrence: null
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error toggling task completion:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Create the next occurrence of a just-completed recurring task.
+ * The recurrence rule moves to the new task so reopening and re-completing
+ * the finished instance does not create duplicates.
+ */
+async function createNextOccurrence(task: Task): Promise<ApiResponse<TaskCompletionResult>> {
+  try {
+    const nextDueDate = getNextOccurrenceDate(task.recurrence!, task.due_date)
+    // Keep the same lead time between start and due date
+    const leadDays = task.start_date && task.due_date
+      ? differenceInCalendarDays(parseISO(task.due_date), parseISO(task.start_date))
+      : null
+
+    const nextResult = await createTask({
+      project_id: task.project_id,
+      parent_task_id: task.parent_task_id,
+      name: task.name,
+      start_date: leadDays !== null ? format(addDays(parseISO(nextDueDate), -leadDays), 'yyyy-MM-dd') : null,
+      due_date: nextDueDate,
+      priority: task.priority,
+      recurrence: task.recurrence,
+      assignee_id: task.assignee_id,
+      tag_ids: task.tags?.map(tag => tag.id)
+    })
+
+    if (!nextResult.success || !nextResult.data) {
+      return {
+        success: false,
+        error: nextResult.error || 'Failed to create the next occurrence'
+      }
+    }
+
+    const completedResult = await updateTask({ id: task.id, recurrence: null })
+    if (!completedResult.success || !completedResult.data) {
+      return {
+        success: false,
+        error: completedResult.error
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        task: completedResult.data,
+        next_occurrence: nextResult.data
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error creating next occurrence:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Set the completion status of every descendant of a task in a single update
+ */
+async function setSubtasksCompletion(task: Task, completed: boolean): Promise<ApiResponse<string[]>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, parent_task_id')
+      .eq('project_id', task.project_id)
+      .is('deleted_at', null)
+
+    if (error) {
+      console.error('Database error fetching subtasks:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    const descendantIds = getDescendantIds((data || []) as Task[], task.id)
+    if (descendantIds.length === 0) {
+      return {
+        success: true,
+        data: []
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('tasks')
+      .update({ completed, updated_at: new Date().toISOString() })
+      .in('id', descendantIds)
+
+    if (updateError) {
+      console.error('Database error updating subtasks:', updateError)
+      return {
+        success: false,
+        error: updateError.message
+      }
+    }
+
+    return {
+      success: true,
+      data: descendantIds
+    }
+  } catch (error) {
+    console.error('Unexpected error updating subtasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Check that a task can be placed under a new parent without leaving its project or creating a cycle
+ */
+async function validateParentTask(
+  taskId: string,
+  parentTaskId: string,
+  targetProjectId?: string
+): Promise<ApiResponse<null>> {
+  if (parentTaskId === taskId) {
+    return {
+      success: false,
+      error: 'A task cannot be its own parent'
+    }
+  }
+
+  const [taskResult, parentResult] = await Promise.all([
+    getTask(taskId),
+    getTask(parentTaskId)
+  ])
+
+  if (!taskResult.success || !taskResult.data) {
+    return {
+      success: false,
+      error: 'Task not found or access denied'
+    }
+  }
+
+  if (!parentResult.success || !parentResult.data) {
+    return {
+      success: false,
+      error: 'Parent task not found or access denied'
+    }
+  }
+
+  const projectId = targetProjectId || taskResult.data.project_id
+  if (parentResult.data.project_id !== projectId) {
+    return {
+      success: false,
+      error: 'Parent task must belong to the same project'
+    }
+  }
+
+  const supabase = createClientComponentClient()
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, parent_task_id')
+    .eq('project_id', projectId)
+
+  if (error) {
+    console.error('Database error checking task hierarchy:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+
+  if (getDescendantIds((data || []) as Task[], taskId).includes(parentTaskId)) {
+    return {
+      success: false,
+      error: 'A task cannot be moved under one of its own subtasks'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+/**
+ * Get completed tasks for the authenticated user
+ */
+export async function getCompletedTasks(): Promise<ApiResponse<Task[]>> {
+  return getTasks({ completed: true })
+}
+
+/**
+ * Get incomplete tasks for the authenticated user
+ */
+export async function getIncompleteTasks(): Promise<ApiResponse<Task[]>> {
+  return getTasks({ completed: false })
+}
+
+/**
+ * Put tasks back to an earlier copy of their status, position, priority, due date and recurrence,
+ * e.g. to undo a move. Completion follows the restored status.
+ */
+export async function revertTasks(previousTasks: Task[]): Promise<ApiResponse<Task[]>> {
+  try {
+    const reverted: Task[] = []
+
+    for (const previous of previousTasks) {
+      const result = await updateTask({
+        id: previous.id,
+        status_id: previous.status_id,
+        position: previous.position,
+        priority: previous.priority,
+        due_date: previous.due_date,
+        recurrence: previous.recurrence
+      })
+
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error || 'Failed to revert task'
+        }
+      }
+      reverted.push(result.data)
+    }
+
+    return {
+      success: true,
+      data: reverted
+    }
+  } catch (error) {
+    console.error('Unexpected error reverting tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Undo completing or reopening tasks: move the next occurrences it created to the trash,
+ * then revert the tasks and any subtasks the change cascaded to
+ */
+export async function undoTaskCompletion(
+  previousTasks: Task[],
+  nextOccurrences: Task[] = []
+): Promise<ApiResponse<Task[]>> {
+  if (nextOccurrences.length > 0) {
+    const deleteResult = await bulkDeleteTasks(nextOccurrences.map(task => task.id))
+    if (!deleteResult.success) {
+      return {
+        success: false,
+        error: deleteResult.error
+      }
+    }
+  }
+
+  return revertTasks(previousTasks)
+}
+
+/**
+ * Copy a task into a project, optionally with its notes. Subtasks and dependencies are not copied.
+ * The copy starts open, keeps only the current user's own tags and drops an assignee who is not a member of the target project.
+ */
+export async function duplicateTask(
+  taskId: string,
+  targetProjectId: string,
+  options: { includeNotes?: boolean } = {}
+): Promise<ApiResponse<Task>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    const taskResult = await getTask(taskId)
+    if (!taskResult.success || !taskResult.data) {
+      return {
+        success: false,
+        error: taskResult.error || 'Task not found'
+      }
+    }
+    const task = taskResult.data
+
+    const assigneeCheck = task.assignee_id
+      ? await validateTaskAssignee(task.assignee_id, targetProjectId)
+      : null
+
+    const copyResult = await createTask({
+      project_id: targetProjectId,
+      // A copy in the same project stays next to the original
+      parent_task_id: task.project_id === targetProjectId ? task.parent_task_id : null,
+      name: task.name,
+      start_date: task.start_date,
+      due_date: task.due_date,
+      priority: task.priority,
+      recurrence: task.recurrence,
+      assignee_id: assigneeCheck?.success ? task.assignee_id : null,
+      tag_ids: task.tags?.filter(tag => tag.user_id === user.id).map(tag => tag.id)
+    })
+
+    if (!copyResult.success || !copyResult.data) {
+      return {
+        success: false,
+        error: copyResult.error || 'Failed to duplicate task'
+      }
+    }
+
+    if (options.includeNotes) {
+      const notesResult = await getNotesByTask(taskId)
+      if (!notesResult.success || !notesResult.data) {
+        return {
+          success: false,
+          error: notesResult.error || 'Task copied, but its notes could not be loaded'
+        }
+      }
+
+      // Oldest first, so the copies keep their order
+      for (const note of [...notesResult.data].reverse()) {
+        const noteResult = await createNote({
+          task_id: copyResult.data.id,
+          title: note.title,
+          content: note.content
+        })
+        if (!noteResult.success) {
+          return {
+            success: false,
+            error: `Task copied, but not all of its notes: ${noteResult.error}`
+          }
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: copyResult.data
+    }
+  } catch (error) {
+    console.error('Unexpected error duplicating task:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+// ============================================================================
+// BULK TASK DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Load the tasks a bulk operation applies to, optionally with all of their subtasks,
+ * and check the user can edit every project involved
+ */
+async function getBulkTargetTasks(taskIds: string[], includeSubtasks: boolean): Promise<ApiResponse<Task[]>> {
+  const uniqueIds = Array.from(new Set(taskIds))
+
+  if (uniqueIds.length === 0) {
+    return {
+      success: false,
+      error: 'No tasks selected'
+    }
+  }
+
+  const supabase = createClientComponentClient()
+
+  const { data: selected, error } = await supabase
+    .from('tasks')
+    .select('id, project_id, parent_task_id, start_date, completed, assignee_id')
+    .in('id', uniqueIds)
+    .is('deleted_at', null)
+
+  if (error) {
+    console.error('Database error fetching selected tasks:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+
+  if ((selected || []).length !== uniqueIds.length) {
+    return {
+      success: false,
+      error: 'One or more tasks were not found or access denied'
+    }
+  }
+
+  const projectIds = Array.from(new Set(selected.map(task => task.project_id)))
+  const accessResults = await Promise.all(projectIds.map(projectId => validateProjectEditAccess(projectId)))
+  const deniedResult = accessResults.find(result => !result.success)
+  if (deniedResult) {
+    return {
+      success: false,
+      error: deniedResult.error
+    }
+  }
+
+  if (!includeSubtasks) {
+    return {
+      success: true,
+      data: selected as Task[]
+    }
+  }
+
+  const { data: projectTasks, error: projectTasksError } = await supabase
+    .from('tasks')
+    .select('id, project_id, parent_task_id, start_date, completed, assignee_id')
+    .in('project_id', projectIds)
+    .is('deleted_at', null)
+
+  if (projectTasksError) {
+    console.error('Database error fetching subtasks:', projectTasksError)
+    return {
+      success: false,
+      error: projectTasksError.message
+    }
+  }
+
+  const allTasks = (projectTasks || []) as Task[]
+  const targetIds = new Set(uniqueIds.flatMap(id => [id, ...getDescendantIds(allTasks, id)]))
+
+  return {
+    success: true,
+    data: allTasks.filter(task => targetIds.has(task.id))
+  }
+}
+
+/**
+ * Apply the same completion, priority or due date to many tasks in a single update.
+ * Completing tasks also completes their subtasks and creates the next occurrence of recurring ones.
+ */
+export async function bulkUpdateTasks(
+  taskIds: string[],
+  updates: BulkUpdateTaskData
+): Promise<ApiResponse<BulkTaskUpdateResult>> {
+  try {
+    if (updates.completed === undefined && updates.priority === undefined && updates.due_date === undefined) {
+      return {
+        success: false,
+        error: 'No changes to apply'
+      }
+    }
+
+    const targetsResult = await getBulkTargetTasks(taskIds, updates.completed === true)
+    if (!targetsResult.success || !targetsResult.data) {
+      return {
+        success: false,
+        error: targetsResult.error
+      }
+    }
+    const targets = targetsResult.data
+
+    if (updates.due_date !== undefined) {
+      const invalidCount = targets.filter(task => !isValidDateRange(task.start_date, updates.due_date)).length
+      if (invalidCount > 0) {
+        return {
+          success: false,
+          error: `${invalidCount === 1 ? '1 task starts' : `${invalidCount} tasks start`} after the new due date`
+        }
+      }
+    }
+
+    const cleanUpdates: Partial<{
+      completed: boolean
+      priority: 'High' | 'Medium' | 'Low'
+      due_date: string | null
+      updated_at: string
+    }> = {
+      updated_at: new Date().toISOString()
+    }
+    if (updates.completed !== undefined) {
+      cleanUpdates.completed = updates.completed
+    }
+    if (updates.priority !== undefined) {
+      cleanUpdates.priority = updates.priority
+    }
+    if (updates.due_date !== undefined) {
+      cleanUpdates.due_date = updates.due_date || null
+    }
+
+    const supabase = createClientComponentClient()
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(cleanUpdates)
+      .in('id', targets.map(task => task.id))
+      .is('deleted_at', null)
+      .select('*, tags(*), assignee:profiles(id, email)')
+
+    if (error) {
+      console.error('Database error updating tasks:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    const updatedTasks = (data || []) as Task[]
+    const nextOccurrences: Task[] = []
+
+    // Only the selected tasks repeat; subtasks completed along with them do not
+    if (updates.completed) {
+      const newlyCompletedIds = targets
+        .filter(task => !task.completed && taskIds.includes(task.id))
+        .map(task => task.id)
+
+      for (const task of updatedTasks.filter(t => t.recurrence && newlyCompletedIds.includes(t.id))) {
+        const occurrenceResult = await createNextOccurrence(task)
+        if (!occurrenceResult.success || !occurrenceResult.data) {
+          return {
+            success: false,
+            error: occurrenceResult.error
+          }
+        }
+        updatedTasks[updatedTasks.indexOf(task)] = occurrenceResult.data.task
+        if (occurrenceResult.data.next_occurrence) {
+          nextOccurrences.push(occurrenceResult.data.next_occurrence)
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        tasks: updatedTasks,
+        next_occurrences: nextOccurrences
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error updating tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Move tasks to a project in a single statement (see move_tasks), keeping each one's given parent
+ * and assignee where they are valid in that project. Returns the IDs of the moved tasks.
+ */
+async function moveTasksToProject(
+  tasks: Pick<Task, 'id' | 'parent_task_id' | 'assignee_id'>[],
+  targetProjectId: string
+): Promise<ApiResponse<string[]>> {
+  const supabase = createClientComponentClient()
+
+  const { data, error } = await supabase.rpc('move_tasks', {
+    moved_tasks: tasks.map(task => ({
+      id: task.id,
+      parent_task_id: task.parent_task_id,
+      assignee_id: task.assignee_id
+    })),
+    target_project_id: targetProjectId
+  })
+
+  if (error) {
+    console.error('Database error moving tasks:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+
+  return {
+    success: true,
+    data: (data || []) as string[]
+  }
+}
+
+/**
+ * Move many tasks, with their subtasks, to another project.
+ * Tasks leave parents that stay behind, lose assignees who are not members there
+ * and take the matching status in the new project.
+ */
+export async function bulkMoveTasks(taskIds: string[], targetProjectId: string): Promise<ApiResponse<string[]>> {
+  try {
+    const targetAccess = await validateProjectEditAccess(targetProjectId)
+    if (!targetAccess.success) {
+      return {
+        success: false,
+        error: `Target project: ${targetAccess.error}`
+      }
+    }
+
+    const targetsResult = await getBulkTargetTasks(taskIds, true)
+    if (!targetsResult.success || !targetsResult.data) {
+      return {
+        success: false,
+        error: targetsResult.error
+      }
+    }
+
+    const targets = targetsResult.data.filter(task => task.project_id !== targetProjectId)
+    if (targets.length === 0) {
+      return {
+        success: false,
+        error: 'The selected tasks are already in this project'
+      }
+    }
+
+    return moveTasksToProject(targets, targetProjectId)
+  } catch (error) {
+    console.error('Unexpected error moving tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Undo a move: put the tasks back in their project with the parents and assignees they had
+ * before it, given as copies taken beforehand
+ */
+export async function undoMoveTasks(previousTasks: Task[], projectId: string): Promise<ApiResponse<string[]>> {
+  try {
+    const accessResult = await validateProjectEditAccess(projectId)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    return moveTasksToProject(previousTasks, projectId)
+  } catch (error) {
+    console.error('Unexpected error undoing task move:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Move many tasks to the trash in a single update; their subtasks and notes go with them
+ */
+export async function bulkDeleteTasks(taskIds: string[]): Promise<ApiResponse<null>> {
+  try {
+    const targetsResult = await getBulkTargetTasks(taskIds, false)
+    if (!targetsResult.success || !targetsResult.data) {
+      return {
+        success: false,
+        error: targetsResult.error
+      }
+    }
+
+    const supabase = createClientComponentClient()
+    const { error } = await supabase
+      .from('tasks')
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', targetsResult.data.map(task => task.id))
+      .is('deleted_at', null)
+
+    if (error) {
+      console.error('Database error deleting tasks:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting tasks:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+// ============================================================================
+// TASK DEPENDENCY DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the tasks that block a task (its prerequisites)
+ */
+export async function getTaskDependencies(taskId: string): Promise<ApiResponse<TaskDependencyWithTask[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Fetch dependencies with the prerequisite task (access is enforced by RLS on both tasks)
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select(`
+        *,
+        linked_task:tasks!depends_on_task_id!inner(id, project_id, name, completed)
+      `)
+      .eq('task_id', taskId)
+      .is('linked_task.deleted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching task dependencies:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as unknown as TaskDependencyWithTask[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching task dependencies:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get the tasks that are blocked by a task (its dependents)
+ */
+export async function getTaskDependents(taskId: string): Promise<ApiResponse<TaskDependencyWithTask[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Fetch dependencies with the dependent task
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select(`
+        *,
+        linked_task:tasks!task_id!inner(id, project_id, name, completed)
+      `)
+      .eq('depends_on_task_id', taskId)
+      .is('linked_task.deleted_at', null)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching task dependents:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as unknown as TaskDependencyWithTask[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching task dependents:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get the prerequisites of every task in a project (prerequisites may live in other projects)
+ */
+export async function getProjectTaskDependencies(projectId: string): Promise<ApiResponse<TaskDependencyWithTask[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!projectId) {
+      return {
+        success: false,
+        error: 'Project ID is required'
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select(`
+        *,
+        linked_task:tasks!depends_on_task_id!inner(id, project_id, name, completed),
+        blocked_task:tasks!task_id!inner(project_id)
+      `)
+      .eq('blocked_task.project_id', projectId)
+      .is('blocked_task.deleted_at', null)
+      .is('linked_task.deleted_at', null)
+
+    if (error) {
+      console.error('Database error fetching project task dependencies:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    // Remove the blocked task relation data from response
+    const dependencies = (data || []).map((item: Record<string, unknown>) => {
+      const { blocked_task, ...dependencyData } = item
+      // Prevent unused variable warning
+      void blocked_task
+      return dependencyData as unknown as TaskDependencyWithTask
+    })
+
+    return {
+      success: true,
+      data: dependencies
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching project task dependencies:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Check that a task can depend on the given prerequisites without creating a cycle
+ */
+async function validateTaskDependencies(taskId: string, dependsOnTaskIds: string[]): Promise<ApiResponse<null>> {
+  const uniqueIds = Array.from(new Set(dependsOnTaskIds))
+
+  if (uniqueIds.includes(taskId)) {
+    return {
+      success: false,
+      error: 'A task cannot depend on itself'
+    }
+  }
+
+  if (uniqueIds.length === 0) {
+    return {
+      success: true,
+      data: null
+    }
+  }
+
+  const supabase = createClientComponentClient()
+
+  // Every prerequisite must be a task the user can access (RLS hides everything else)
+  const { data: prerequisites, error: prerequisitesError } = await supabase
+    .from('tasks')
+    .select('id')
+    .in('id', uniqueIds)
+    .is('deleted_at', null)
+
+  if (prerequisitesError) {
+    console.error('Database error checking prerequisite tasks:', prerequisitesError)
+    return {
+      success: false,
+      error: prerequisitesError.message
+    }
+  }
+
+  if ((prerequisites || []).length !== uniqueIds.length) {
+    return {
+      success: false,
+      error: 'Prerequisite task not found or access denied'
+    }
+  }
+
+  const { data: dependencies, error: dependenciesError } = await supabase
+    .from('task_dependencies')
+    .select('task_id, depends_on_task_id')
+
+  if (dependenciesError) {
+    console.error('Database error checking task dependencies:', dependenciesError)
+    return {
+      success: false,
+      error: dependenciesError.message
+    }
+  }
+
+  if (wouldCreateDependencyCycle(dependencies || [], taskId, uniqueIds)) {
+    return {
+      success: false,
+      error: 'This dependency would create a cycle between tasks'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+/**
+ * Replace the full set of prerequisites for a task
+ */
+async function replaceTaskDependencies(taskId: string, dependsOnTaskIds: string[]): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    const uniqueIds = Array.from(new Set(dependsOnTaskIds))
+
+    // Links to trashed prerequisites are left alone so they return if the prerequisite is restored
+    const { data: existing, error: fetchError } = await supabase
+      .from('task_dependencies')
+      .select('depends_on_task_id, prerequisite:tasks!depends_on_task_id!inner(id)')
+      .eq('task_id', taskId)
+      .is('prerequisite.deleted_at', null)
+
+    if (fetchError) {
+      console.error('Database error fetching task dependencies:', fetchError)
+      return {
+        success: false,
+        error: fetchError.message
+      }
+    }
+
+    const existingIds = (existing || []).map(dependency => dependency.depends_on_task_id as string)
+    const removedIds = existingIds.filter(id => !uniqueIds.includes(id))
+    const addedIds = uniqueIds.filter(id => !existingIds.includes(id))
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .delete()
+        .eq('task_id', taskId)
+        .in('depends_on_task_id', removedIds)
+
+      if (error) {
+        console.error('Database error removing task dependencies:', error)
+        return {
+          success: false,
+          error: error.message
+        }
+      }
+    }
+
+    if (addedIds.length > 0) {
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert(addedIds.map(id => ({ task_id: taskId, depends_on_task_id: id })))
+
+      if (error) {
+        console.error('Database error adding task dependencies:', error)
+        return {
+          success: false,
+          error: error.message
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error replacing task dependencies:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+// ============================================================================
+// TASK STATUS DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the configured statuses for a project in board order
+ */
+export async function getTaskStatuses(projectId: string): Promise<ApiResponse<TaskStatus[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!projectId) {
+      return {
+        success: false,
+        error: 'Project ID is required'
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('task_statuses')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('position', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching task statuses:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as TaskStatus[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching task statuses:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Add a status to a project (appended to the end of the board unless a position is given)
+ */
+export async function createTaskStatus(statusData: CreateTaskStatusData): Promise<ApiResponse<TaskStatus>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!statusData.name || statusData.name.trim() === '') {
+      return {
+        success: false,
+        error: 'Status name is required'
+      }
+    }
+
+    const accessResult = await validateProjectEditAccess(statusData.project_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    const newStatus = {
+      project_id: statusData.project_id,
+      name: statusData.name.trim(),
+      is_done: statusData.is_done || false,
+      ...(statusData.color && { color: statusData.color }),
+      ...(statusData.position !== undefined && { position: statusData.position })
+    }
+
+    const { data, error } = await supabase
+      .from('task_statuses')
+      .insert([newStatus])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating task status:', error)
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A status with this name already exists' : error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as TaskStatus
+    }
+  } catch (error) {
+    console.error('Unexpected error creating task status:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Update a status (tasks in it follow changes to is_done automatically).
+ * The project must keep at least one open and one done status.
+ */
+export async function updateTaskStatus(updateData: UpdateTaskStatusData): Promise<ApiResponse<TaskStatus>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!updateData.id) {
+      return {
+        success: false,
+        error: 'Status ID is required'
+      }
+    }
+
+    if (updateData.name !== undefined && updateData.name.trim() === '') {
+      return {
+        success: false,
+        error: 'Status name cannot be empty'
+      }
+    }
+
+    const { id, ...statusUpdates } = updateData
+
+    if (statusUpdates.is_done !== undefined) {
+      const { data: status, error: statusError } = await supabase
+        .from('task_statuses')
+        .select('project_id')
+        .eq('id', id)
+        .single()
+
+      if (statusError || !status) {
+        return {
+          success: false,
+          error: 'Status not found or access denied'
+        }
+      }
+
+      const remainingCheck = await validateRemainingStatuses(status.project_id, id, statusUpdates.is_done)
+      if (!remainingCheck.success) {
+        return {
+          success: false,
+          error: remainingCheck.error
+        }
+      }
+    }
+
+    const cleanUpdates: Partial<{
+      name: string
+      color: string
+      is_done: boolean
+      position: number
+      updated_at: string
+    }> = {}
+
+    if (statusUpdates.name !== undefined) {
+      cleanUpdates.name = statusUpdates.name.trim()
+    }
+    if (statusUpdates.color !== undefined) {
+      cleanUpdates.color = statusUpdates.color
+    }
+    if (statusUpdates.is_done !== undefined) {
+      cleanUpdates.is_done = statusUpdates.is_done
+    }
+    if (statusUpdates.position !== undefined) {
+      cleanUpdates.position = statusUpdates.position
+    }
+
+    cleanUpdates.updated_at = new Date().toISOString()
+
+    const { data, error } = await supabase
+      .from('task_statuses')
+      .update(cleanUpdates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: false,
+          error: 'Status not found or access denied'
+        }
+      }
+      console.error('Database error updating task status:', error)
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A status with this name already exists' : error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as TaskStatus
+    }
+  } catch (error) {
+    console.error('Unexpected error updating task status:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Delete a status, moving any tasks in it to a replacement status of the same project.
+ * The project must keep at least one open and one done status.
+ */
+export async function deleteTaskStatus(statusId: string, replacementStatusId?: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    const { data: status, error: statusError } = await supabase
+      .from('task_statuses')
+      .select('*')
+      .eq('id', statusId)
+      .single()
+
+    if (statusError || !status) {
+      return {
+        success: false,
+        error: 'Status not found or access denied'
+      }
+    }
+
+    const remainingCheck = await validateRemainingStatuses(status.project_id, statusId)
+    if (!remainingCheck.success) {
+      return {
+        success: false,
+        error: remainingCheck.error
+      }
+    }
+
+    if (replacementStatusId) {
+      if (replacementStatusId === statusId) {
+        return {
+          success: false,
+          error: 'Choose a different status to move tasks to'
+        }
+      }
+
+      const replacementCheck = await validateTaskStatus(replacementStatusId, status.project_id)
+      if (!replacementCheck.success) {
+        return {
+          success: false,
+          error: replacementCheck.error
+        }
+      }
+
+      const { error: moveError } = await supabase
+        .from('tasks')
+        .update({ status_id: replacementStatusId, updated_at: new Date().toISOString() })
+        .eq('status_id', statusId)
+
+      if (moveError) {
+        console.error('Database error moving tasks to replacement status:', moveError)
+        return {
+          success: false,
+          error: moveError.message
+        }
+      }
+    } else {
+      // Tasks in the trash aren't shown when choosing a replacement, so they move to the first remaining status
+      const { data: fallbackStatus, error: fallbackError } = await supabase
+        .from('task_statuses')
+        .select('id')
+        .eq('project_id', status.project_id)
+        .neq('id', statusId)
+        .order('position', { ascending: true })
+        .limit(1)
+        .single()
+
+      if (fallbackError || !fallbackStatus) {
+        console.error('Database error finding a status for trashed tasks:', fallbackError)
+        return {
+          success: false,
+          error: fallbackError?.message || 'Failed to find a status for trashed tasks'
+        }
+      }
+
+      const { error: moveError } = await supabase
+        .from('tasks')
+        .update({ status_id: fallbackStatus.id })
+        .eq('status_id', statusId)
+        .not('deleted_at', 'is', null)
+
+      if (moveError) {
+        console.error('Database error moving trashed tasks to another status:', moveError)
+        return {
+          success: false,
+          error: moveError.message
+        }
+      }
+    }
+
+    const { error } = await supabase
+      .from('task_statuses')
+      .delete()
+      .eq('id', statusId)
+
+    if (error) {
+      // Foreign key violation: tasks still use this status
+      if (error.code === '23503') {
+        return {
+          success: false,
+          error: 'Choose a status to move this status\'s tasks to before deleting it'
+        }
+      }
+      console.error('Database error deleting task status:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting task status:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Check that a project keeps at least one open and one done status once a status is
+ * deleted, or has its done flag set to isDone. Tasks need both to be completed and reopened.
+ */
+async function validateRemainingStatuses(
+  projectId: string,
+  statusId: string,
+  isDone?: boolean
+): Promise<ApiResponse<null>> {
+  const supabase = createClientComponentClient()
+
+  const { data, error } = await supabase
+    .from('task_statuses')
+    .select('id, is_done')
+    .eq('project_id', projectId)
+
+  if (error) {
+    console.error('Database error fetching task statuses:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+
+  // The status drops out when it is being deleted, otherwise it counts with its new flag
+  const doneFlags = (data || []).filter(status => status.id !== statusId).map(status => status.is_done)
+  if (isDone !== undefined) {
+    doneFlags.push(isDone)
+  }
+
+  if (!doneFlags.includes(false)) {
+    return {
+      success: false,
+      error: 'A project must have at least one status that is not done'
+    }
+  }
+  if (!doneFlags.includes(true)) {
+    return {
+      success: false,
+      error: 'A project must have at least one done status'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+/**
+ * Check that a status exists and belongs to the given project
+ */
+async function validateTaskStatus(statusId: string, projectId: string): Promise<ApiResponse<null>> {
+  const supabase = createClientComponentClient()
+
+  const { data, error } = await supabase
+    .from('task_statuses')
+    .select('project_id')
+    .eq('id', statusId)
+    .single()
+
+  if (error || !data) {
+    return {
+      success: false,
+      error: 'Status not found or access denied'
+    }
+  }
+
+  if (data.project_id !== projectId) {
+    return {
+      success: false,
+      error: 'Status must belong to the task\'s project'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+/**
+ * Check that a user is a member of the given project, so tasks there can be assigned to them
+ */
+async function validateTaskAssignee(assigneeId: string, projectId: string): Promise<ApiResponse<null>> {
+  const supabase = createClientComponentClient()
+
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('id')
+    .eq('project_id', projectId)
+    .eq('user_id', assigneeId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Database error checking task assignee:', error)
+    return {
+      success: false,
+      error: error.message
+    }
+  }
+
+  if (!data) {
+    return {
+      success: false,
+      error: 'Assignee must be a member of the task\'s project'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+// ============================================================================
+// PROJECT MEMBER DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a project's members with their email addresses, owners first
+ */
+export async function getProjectMembers(projectId: string): Promise<ApiResponse<ProjectMember[]>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    if (!projectId) {
+      return {
+        success: false,
+        error: 'Project ID is required'
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('project_members')
+      .select('*, profile:profiles(id, email)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching project members:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    const roleOrder: Record<ProjectRole, number> = { owner: 0, editor: 1, viewer: 2 }
+    const members = ((data || []) as ProjectMember[])
+      .sort((a, b) => roleOrder[a.role] - roleOrder[b.role])
+
+    return {
+      success: true,
+      data: members
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching project members:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Invite someone to a project by email. They see the invitation when they sign in with that address.
+ */
+export async function inviteProjectMember(
+  projectId: string,
+  email: string,
+  role: ProjectRole
+): Promise<ApiResponse<ProjectInvitation>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    // Get current user to record who sent the invitation
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    const normalizedEmail = email.trim().toLowerCase()
+    if (!/^[^@\s]+@[^@\s]+$/.test(normalizedEmail)) {
+      return {
+        success: false,
+        error: 'Please enter a valid email address'
+      }
+    }
+
+    const membersResult = await getProjectMembers(projectId)
+    if (!membersResult.success) {
+      return {
+        success: false,
+        error: membersResult.error
+      }
+    }
+    if (membersResult.data?.some(member => member.profile.email === normalizedEmail)) {
+      return {
+        success: false,
+        error: 'This person is already a member of the project'
+      }
+    }
+
+    // RLS only lets owners invite
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .insert([{
+        project_id: projectId,
+        email: normalizedEmail,
+        role,
+        invited_by: user.id
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return {
+          success: false,
+          error: 'This email address has already been invited'
+        }
+      }
+      console.error('Database error inviting project member:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as ProjectInvitation
+    }
+  } catch (error) {
+    console.error('Unexpected error inviting project member:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get a project's pending invitations (owners only)
+ */
+export async function getProjectInvitations(projectId: string): Promise<ApiResponse<ProjectInvitation[]>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    if (!projectId) {
+      return {
+        success: false,
+        error: 'Project ID is required'
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('project_invitations')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching project invitations:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as ProjectInvitation[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching project invitations:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Withdraw a pending invitation. Owners use this to revoke, invitees to decline.
+ */
+export async function revokeProjectInvitation(invitationId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    if (!invitationId) {
+      return {
+        success: false,
+        error: 'Invitation ID is required'
+      }
+    }
+
+    const { error } = await supabase
+      .from('project_invitations')
+      .delete()
+      .eq('id', invitationId)
+
+    if (error) {
+      console.error('Database error deleting project invitation:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting project invitation:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get invitations sent to the current user's email address
+ */
+export async function getMyInvitations(): Promise<ApiResponse<PendingInvitation[]>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    const { data, error } = await supabase.rpc('get_my_project_invitations')
+
+    if (error) {
+      console.error('Database error fetching invitations:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as PendingInvitation[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching invitations:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Accept an invitation, joining its project with the invited role.
+ * Returns the project's ID.
+ */
+export async function acceptProjectInvitation(invitationId: string): Promise<ApiResponse<string>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    if (!invitationId) {
+      return {
+        success: false,
+        error: 'Invitation ID is required'
+      }
+    }
+
+    const { data, error } = await supabase.rpc('accept_project_invitation', { invitation_id: invitationId })
+
+    if (error) {
+      console.error('Database error accepting invitation:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as string
+    }
+  } catch (error) {
+    console.error('Unexpected error accepting invitation:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Decline an invitation sent to the current user
+ */
+export async function declineProjectInvitation(invitationId: string): Promise<ApiResponse<null>> {
+  return revokeProjectInvitation(invitationId)
+}
+
+/**
+ * Change a member's role (owners only). The project's creator always stays an owner.
+ */
+export async function updateProjectMemberRole(memberId: string, role: ProjectRole): Promise<ApiResponse<ProjectMember>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    const creatorCheck = await validateNotProjectCreator(memberId)
+    if (!creatorCheck.success) {
+      return {
+        success: false,
+        error: creatorCheck.error
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('project_members')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', memberId)
+      .select('*, profile:profiles(id, email)')
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: false,
+          error: 'Member not found or access denied'
+        }
+      }
+      console.error('Database error updating project member:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as ProjectMember
+    }
+  } catch (error) {
+    console.error('Unexpected error updating project member:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Remove a member from a project. Owners can remove anyone but the creator; members can leave.
+ */
+export async function removeProjectMember(memberId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    const creatorCheck = await validateNotProjectCreator(memberId)
+    if (!creatorCheck.success) {
+      return {
+        success: false,
+        error: creatorCheck.error
+      }
+    }
+
+    const { error } = await supabase
+      .from('project_members')
+      .delete()
+      .eq('id', memberId)
+
+    if (error) {
+      console.error('Database error removing project member:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error removing project member:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Reject changes to the creator's membership, which would leave the project without its owner
+ */
+async function validateNotProjectCreator(memberId: string): Promise<ApiResponse<null>> {
+  const supabase = createClientComponentClient()
+
+  if (!memberId) {
+    return {
+      success: false,
+      error: 'Member ID is required'
+    }
+  }
+
+  const { data: member, error } = await supabase
+    .from('project_members')
+    .select('user_id, project:projects(user_id)')
+    .eq('id', memberId)
+    .single()
+
+  if (error || !member) {
+    return {
+      success: false,
+      error: 'Member not found or access denied'
+    }
+  }
+
+  const project = member.project as unknown as { user_id: string } | null
+  if (project?.user_id === member.user_id) {
+    return {
+      success: false,
+      error: 'The project creator cannot be removed or changed'
+    }
+  }
+
+  return {
+    success: true,
+    data: null
+  }
+}
+
+// ============================================================================
+// ACTIVITY DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a page of a project's activity log, newest first.
+ * Entries are written by database triggers whenever the project, its tasks or notes change.
+ */
+export async function getProjectActivity(
+  projectId: string,
+  { limit = 20, offset = 0 }: PaginationOptions = {}
+): Promise<ApiResponse<PaginatedResult<ProjectActivity>>> {
+  try {
+    const supabase = createClientComponentClient()
+
+    if (!projectId) {
+      return {
+        success: false,
+        error: 'Project ID is required'
+      }
+    }
+
+    // Fetch one extra row to tell whether another page follows
+    const { data, error } = await supabase
+      .from('project_activity')
+      .select('*, actor:profiles(id, email)')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit)
+
+    if (error) {
+      console.error('Database error fetching project activity:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    const rows = (data || []) as ProjectActivity[]
+
+    return {
+      success: true,
+      data: {
+        items: rows.slice(0, limit),
+        has_more: rows.length > limit
+      }
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching project activity:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+// ============================================================================
+// TAG DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get all of the user's tags, alphabetically
+ */
+export async function getTags(): Promise<ApiResponse<Tag[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching tags:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as Tag[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching tags:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Create a tag for the authenticated user
+ */
+export async function createTag(tagData: CreateTagData): Promise<ApiResponse<Tag>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!tagData.name || tagData.name.trim() === '') {
+      return {
+        success: false,
+        error: 'Tag name is required'
+      }
+    }
+
+    const newTag = {
+      user_id: user.id,
+      name: tagData.name.trim(),
+      ...(tagData.color && { color: tagData.color })
+    }
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert([newTag])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating tag:', error)
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A tag with this name already exists' : error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as Tag
+    }
+  } catch (error) {
+    console.error('Unexpected error creating tag:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Rename or recolour a tag
+ */
+export async function updateTag(updateData: UpdateTagData): Promise<ApiResponse<Tag>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!updateData.id) {
+      return {
+        success: false,
+        error: 'Tag ID is required'
+      }
+    }
+
+    if (updateData.name !== undefined && updateData.name.trim() === '') {
+      return {
+        success: false,
+        error: 'Tag name cannot be empty'
+      }
+    }
+
+    const { id, ...tagUpdates } = updateData
+
+    const cleanUpdates: Partial<{
+      name: string
+      color: string
+      updated_at: string
+    }> = {}
+
+    if (tagUpdates.name !== undefined) {
+      cleanUpdates.name = tagUpdates.name.trim()
+    }
+    if (tagUpdates.color !== undefined) {
+      cleanUpdates.color = tagUpdates.color
+    }
+
+    cleanUpdates.updated_at = new Date().toISOString()
+
+    const { data, error } = await supabase
+      .from('tags')
+      .update(cleanUpdates)
+      .eq('id', id)
+      .eq('user_id', user.id) // Ensure user owns the tag
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: false,
+          error: 'Tag not found or access denied'
+        }
+      }
+      console.error('Database error updating tag:', error)
+      return {
+        success: false,
+        error: error.code === '23505' ? 'A tag with this name already exists' : error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as Tag
+    }
+  } catch (error) {
+    console.error('Unexpected error updating tag:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Delete a tag (it is removed from every task and project via cascade)
+ */
+export async function deleteTag(tagId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!tagId) {
+      return {
+        success: false,
+        error: 'Tag ID is required'
+      }
+    }
+
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tagId)
+      .eq('user_id', user.id) // Ensure user owns the tag
+
+    if (error) {
+      console.error('Database error deleting tag:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting tag:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Replace the full set of tags on a task, returning the tags it now carries
+ */
+async function replaceTaskTags(taskId: string, tagIds: string[]): Promise<ApiResponse<Tag[]>> {
+  return replaceTags('task_tags', 'task_id', taskId, tagIds)
+}
+
+/**
+ * Replace the full set of tags on a project, returning the tags it now carries
+ */
+async function replaceProjectTags(projectId: string, tagIds: string[]): Promise<ApiResponse<Tag[]>> {
+  return replaceTags('project_tags', 'project_id', projectId, tagIds)
+}
+
+async function replaceTags(
+  joinTable: 'task_tags' | 'project_tags',
+  ownerColumn: 'task_id' | 'project_id',
+  ownerId: string,
+  tagIds: string[]
+): Promise<ApiResponse<Tag[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    const uniqueIds = Array.from(new Set(tagIds))
+
+    // Every tag must be one of the user's own (RLS hides everything else)
+    const { data: tags, error: tagsError } = await supabase
+      .from('tags')
+      .select('*')
+      .in('id', uniqueIds)
+      .order('name', { ascending: true })
+
+    if (tagsError) {
+      console.error('Database error checking tags:', tagsError)
+      return {
+        success: false,
+        error: tagsError.message
+      }
+    }
+
+    if ((tags || []).length !== uniqueIds.length) {
+      return {
+        success: false,
+        error: 'Tag not found or access denied'
+      }
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from(joinTable)
+      .select('tag_id')
+      .eq(ownerColumn, ownerId)
+
+    if (fetchError) {
+      console.error('Database error fetching tags:', fetchError)
+      return {
+        success: false,
+        error: fetchError.message
+      }
+    }
+
+    const existingIds = (existing || []).map(link => link.tag_id as string)
+    const removedIds = existingIds.filter(id => !uniqueIds.includes(id))
+    const addedIds = uniqueIds.filter(id => !existingIds.includes(id))
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from(joinTable)
+        .delete()
+        .eq(ownerColumn, ownerId)
+        .in('tag_id', removedIds)
+
+      if (error) {
+        console.error('Database error removing tags:', error)
+        return {
+          success: false,
+          error: error.message
+        }
+      }
+    }
+
+    if (addedIds.length > 0) {
+      const { error } = await supabase
+        .from(joinTable)
+        .insert(addedIds.map(id => ({ [ownerColumn]: ownerId, tag_id: id })))
+
+      if (error) {
+        console.error('Database error adding tags:', error)
+        return {
+          success: false,
+          error: error.message
+        }
+      }
+    }
+
+    return {
+      success: true,
+      data: (tags || []) as Tag[]
+    }
+  } catch (error) {
+    console.error('Unexpected error replacing tags:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+// ============================================================================
+// NOTE DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Create a new note for a task
+ */
+export async function createNote(noteData: CreateNoteData): Promise<ApiResponse<Note>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    // Validate required fields
+    if (!noteData.content || noteData.content.trim() === '') {
+      return {
+        success: false,
+        error: 'Note content is required'
+      }
+    }
+
+    if (!noteData.title || noteData.title.trim() === '') {
+      return {
+        success: false,
+        error: 'Note title is required'
+      }
+    }
+
+    if (!noteData.task_id) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Verify task exists and user can edit its project
+    const accessResult = await validateTaskEditAccess(noteData.task_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Prepare note data
+    const newNote = {
+      task_id: noteData.task_id,
+      title: noteData.title.trim(),
+      content: noteData.content.trim(),
+    }
+
+    // Insert note into database
+    const { data, error } = await supabase
+      .from('notes')
+      .insert([newNote])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating note:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as Note
+    }
+  } catch (error) {
+    console.error('Unexpected error creating note:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get a single note by ID (with user ownership validation)
+ */
+export async function getNote(noteId: string): Promise<ApiResponse<Note>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!noteId) {
+      return {
+        success: false,
+        error: 'Note ID is required'
+      }
+    }
+
+    // Fetch note (RLS limits access to projects the user is a member of)
+    const { data, error } = await supabase
+      .from('notes')
+      .select(`
+        *,
+        tasks!inner(
+          id,
+          projects!inner(user_id)
+        )
+      `)
+      .eq('id', noteId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: false,
+          error: 'Note not found'
+        }
+      }
+      console.error('Database error fetching note:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    // Remove the tasks relation data from response
+    const { tasks, ...noteData } = data as Record<string, unknown>
+    // Prevent unused variable warning
+    void tasks
+    
+    return {
+      success: true,
+      data: noteData as unknown as Note
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching note:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get all notes for the authenticated user with optional filtering
+ */
+export async function getNotes(filters?: NoteFilters): Promise<ApiResponse<Note[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    // Build query (RLS limits results to projects the user is a member of)
+    let query = supabase
+      .from('notes')
+      .select(`
+        *,
+        tasks!inner(
+          id,
+          projects!inner(user_id)
+        )
+      `)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+
+    // Apply optional filters
+    if (filters) {
+      if (filters.task_id) {
+        query = query.eq('task_id', filters.task_id)
+      }
+      if (filters.content_contains) {
+        query = query.ilike('content', `%${filters.content_contains}%`)
+      }
+      if (filters.created_before) {
+        query = query.lte('created_at', filters.created_before)
+      }
+      if (filters.created_after) {
+        query = query.gte('created_at', filters.created_after)
+      }
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      console.error('Database error fetching notes:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    // Remove the tasks relation data from response
+    const notes = (data || []).map((item: Record<string, unknown>) => {
+      const { tasks, ...noteData } = item
+      // Prevent unused variable warning
+      void tasks
+      return noteData as unknown as Note
+    })
+
+    return {
+      success: true,
+      data: notes
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching notes:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get all notes for a specific task
+ */
+export async function getNotesByTask(taskId: string): Promise<ApiResponse<Note[]>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
+
+    // Verify task ownership first
+    const taskCheck = await taskExists(taskId)
+    if (!taskCheck.success || !taskCheck.data) {
+      return {
+        success: false,
+        error: 'Task not found or access denied'
+      }
+    }
+
+    // Get notes for the task
+    const { data, error } = await supabase
+      .from('notes')
+      .select('*')
+      .eq('task_id', taskId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Database error fetching task notes:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as Note[]
+    }
+  } catch (error) {
+    console.error('Unexpected error fetching task notes:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Update an existing note
+ */
+export async function updateNote(updateData: UpdateNoteData): Promise<ApiResponse<Note>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!updateData.id) {
+      return {
+        success: false,
+        error: 'Note ID is required'
+      }
+    }
+
+    // Validate title if provided
+    if (updateData.title !== undefined && updateData.title.trim() === '') {
+      return {
+        success: false,
+        error: 'Note title cannot be empty'
+      }
+    }
+
+    // Validate content if provided
+    if (updateData.content !== undefined && updateData.content.trim() === '') {
+      return {
+        success: false,
+        error: 'Note content cannot be empty'
+      }
+    }
+
+    // First verify the note exists and user can edit it
+    const currentNote = await getNote(updateData.id)
+    if (!currentNote.success || !currentNote.data) {
+      return {
+        success: false,
+        error: 'Note not found or access denied'
+      }
+    }
+
+    const accessResult = await validateTaskEditAccess(currentNote.data.task_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Prepare update data (exclude id)
+    const { id, ...noteUpdates } = updateData
+    
+    // Clean up the update data
+    const cleanUpdates: Partial<{
+      title: string
+      content: string
+      task_id: string
+      updated_at: string
+    }> = {}
+    
+    if (noteUpdates.title !== undefined) {
+      cleanUpdates.title = noteUpdates.title.trim()
+    }
+    if (noteUpdates.content !== undefined) {
+      cleanUpdates.content = noteUpdates.content.trim()
+    }
+    if (noteUpdates.task_id !== undefined) {
+      // If task_id is being changed, verify the user can edit the new task too
+      const targetAccess = await validateTaskEditAccess(noteUpdates.task_id)
+      if (!targetAccess.success) {
+        return {
+          success: false,
+          error: `Target task: ${targetAccess.error}`
+        }
+      }
+      cleanUpdates.task_id = noteUpdates.task_id
+    }
+
+    // Add updated_at timestamp
+    cleanUpdates.updated_at = new Date().toISOString()
+
+    // Update note
+    const { data, error } = await supabase
+      .from('notes')
+      .update(cleanUpdates)
+      .eq('id', id)
+      .is('deleted_at', null)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error updating note:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: data as Note
+    }
+  } catch (error) {
+    console.error('Unexpected error updating note:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Move a note to the trash
+ */
+export async function deleteNote(noteId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!noteId) {
+      return {
+        success: false,
+        error: 'Note ID is required'
+      }
+    }
+
+    // Verify note exists and user can edit it
+    const noteResult = await getNote(noteId)
+    if (!noteResult.success || !noteResult.data) {
+      return {
+        success: false,
+        error: 'Note not found or access denied'
+      }
+    }
+
+    const accessResult = await validateTaskEditAccess(noteResult.data.task_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Trash note
+    const { error } = await supabase
+      .from('notes')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', noteId)
+      .is('deleted_at', null)
+
+    if (error) {
+      console.error('Database error deleting note:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: null
+    }
+  } catch (error) {
+    console.error('Unexpected error deleting note:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get note count for the authenticated user (optionally by task)
+ */
+export async function getNoteCount(taskId?: string): Promise<ApiResponse<number>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    // Build query (RLS limits results to projects the user is a member of)
+    let query = supabase
+      .from('notes')
+      .select(`
+        *,
+        tasks!inner(
+          id,
+          projects!inner(user_id)
+        )
+      `, { count: 'exact', head: true })
+      .is('deleted_at', null)
+
+    // Add task filter if specified
+    if (taskId) {
+      query = query.eq('task_id', taskId)
+    }
+
+    const { count, error } = await query
+
+    if (error) {
+      console.error('Database error counting notes:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: count || 0
+    }
+  } catch (error) {
+    console.error('Unexpected error counting notes:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Check if a note exists and user has access to it
+ */
+export async function noteExists(noteId: string): Promise<ApiResponse<boolean>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+
+    if (!noteId) {
+      return {
+        success: false,
+        error: 'Note ID is required'
+      }
+    }
+
+    // Check if note exists in a project the user is a member of (via RLS)
+    const { data, error } = await supabase
+      .from('notes')
+      .select(`
+        id,
+        tasks!inner(
+          id,
+          projects!inner(user_id)
+        )
+      `)
+      .eq('id', noteId)
+      .is('deleted_at', null)
+      .single()
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        return {
+          success: true,
+          data: false
+        }
+      }
+      console.error('Database error checking note existence:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: !!data
+    }
+  } catch (error) {
+    console.error('Unexpected error checking note existence:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
+
+/**
+ * Get recently created notes (within specified days)
+ */
+export async function getRecentNotes(daysBack: number = 7): Promise<ApiResponse<Note[]>> {
+  try {
     const supabase = createClientComponentClient()
     
     // Get current user
@@ -1088,47 +4943,47 @@ export async function getUpcomingTasks(daysAhead: number = 7): Promise<ApiRespon
 
     // Calculate date range
     const today = new Date()
-    const futureDate = new Date()
-    futureDate.setDate(today.getDate() + daysAhead)
+    const pastDate = new Date()
+    pastDate.setDate(today.getDate() - daysBack)
 
-    const todayStr = today.toISOString().split('T')[0]
-    const futureDateStr = futureDate.toISOString().split('T')[0]
+    const pastDateStr = pastDate.toISOString()
 
-    // Get tasks with due dates in the range
+    // Get notes created within the range
     const { data, error } = await supabase
-      .from('tasks')
+      .from('notes')
       .select(`
         *,
-        projects!inner(user_id)
+        tasks!inner(
+          id,
+          projects!inner(user_id)
+        )
       `)
-      .eq('projects.user_id', user.id)
-      .gte('due_date', todayStr)
-      .lte('due_date', futureDateStr)
-      .eq('completed', false) // Only show incomplete tasks
-      .order('due_date', { ascending: true })
+      .is('deleted_at', null)
+      .gte('created_at', pastDateStr)
+      .order('created_at', { ascending: false })
 
     if (error) {
-      console.error('Database error fetching upcoming tasks:', error)
+      console.error('Database error fetching recent notes:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
-    // Remove the projects relation data from response
-    const tasks = (data || []).map((item: Record<string, unknown>) => {
-      const { projects, ...taskData } = item
+    // Remove the tasks relation data from response
+    const notes = (data || []).map((item: Record<string, unknown>) => {
+      const { tasks, ...noteData } = item
       // Prevent unused variable warning
-      void projects
-      return taskData as unknown as Task
+      void tasks
+      return noteData as unknown as Note
     })
 
     return {
       success: true,
-      data: tasks
+      data: notes
     }
   } catch (error) {
-    console.error('Unexpected error fetching upcoming tasks:', error)
+    console.error('Unexpected error fetching recent notes:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1137,35 +4992,53 @@ export async function getUpcomingTasks(daysAhead: number = 7): Promise<ApiRespon
 }
 
 /**
- * Get tasks filtered by priority
+ * Search notes by content
  */
-export async function getTasksByPriority(priority: 'High' | 'Medium' | 'Low'): Promise<ApiResponse<Task[]>> {
-  return getTasks({ priority })
+export async function searchNotes(searchTerm: string): Promise<ApiResponse<Note[]>> {
+  return getNotes({ content_contains: searchTerm })
 }
 
+// ============================================================================
+// PROJECT TEMPLATE DATABASE FUNCTIONS
+// ============================================================================
+
 /**
- * Toggle task completion status
+ * Get all of the authenticated user's project templates, sorted by name
  */
-export async function toggleTaskCompletion(taskId: string): Promise<ApiResponse<Task>> {
+export async function getProjectTemplates(): Promise<ApiResponse<ProjectTemplate[]>> {
   try {
-    // First get the current task to find its completion status
-    const taskResult = await getTask(taskId)
-    if (!taskResult.success || !taskResult.data) {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
       return {
         success: false,
-        error: taskResult.error || 'Task not found'
+        error: 'User not authenticated'
       }
     }
 
-    // Toggle the completion status
-    const newCompletedStatus = !taskResult.data.completed
-    
-    return updateTask({
-      id: taskId,
-      completed: newCompletedStatus
-    })
+    const { data, error } = await supabase
+      .from('project_templates')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true })
+
+    if (error) {
+      console.error('Database error fetching project templates:', error)
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+
+    return {
+      success: true,
+      data: (data || []) as ProjectTemplate[]
+    }
   } catch (error) {
-    console.error('Unexpected error toggling task completion:', error)
+    console.error('Unexpected error fetching project templates:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1174,27 +5047,9 @@ export async function toggleTaskCompletion(taskId: string): Promise<ApiResponse<
 }
 
 /**
- * Get completed tasks for the authenticated user
- */
-export async function getCompletedTasks(): Promise<ApiResponse<Task[]>> {
-  return getTasks({ completed: true })
-}
-
-/**
- * Get incomplete tasks for the authenticated user
- */
-export async function getIncompleteTasks(): Promise<ApiResponse<Task[]>> {
-  return getTasks({ completed: false })
-}
-
-// ============================================================================
-// NOTE DATABASE FUNCTIONS
-// ============================================================================
-
-/**
- * Create a new note for a task
+ * Save a project template for the authenticated user
  */
-export async function createNote(noteData: CreateNoteData): Promise<ApiResponse<Note>> {
+export async function createProjectTemplate(templateData: CreateProjectTemplateData): Promise<ApiResponse<ProjectTemplate>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1208,53 +5063,69 @@ export async function createNote(noteData: CreateNoteData): Promise<ApiResponse<
       }
     }
 
-    // Validate required fields
-    if (!noteData.content || noteData.content.trim() === '') {
+    if (!templateData.name || templateData.name.trim() === '') {
       return {
         success: false,
-        error: 'Note content is required'
+        error: 'Template name is required'
       }
     }
 
-    if (!noteData.title || noteData.title.trim() === '') {
+    const { data, error } = await supabase
+      .from('project_templates')
+      .insert([{
+        user_id: user.id,
+        name: templateData.name.trim(),
+        data: templateData.data
+      }])
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Database error creating project template:', error)
       return {
         success: false,
-        error: 'Note title is required'
+        error: error.message
       }
     }
 
-    if (!noteData.task_id) {
-      return {
-        success: false,
-        error: 'Task ID is required'
-      }
+    return {
+      success: true,
+      data: data as ProjectTemplate
     }
+  } catch (error) {
+    console.error('Unexpected error creating project template:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
+    }
+  }
+}
 
-    // Verify task exists and user owns it (through project ownership)
-    const taskCheck = await taskExists(noteData.task_id)
-    if (!taskCheck.success || !taskCheck.data) {
+/**
+ * Delete one of the authenticated user's project templates
+ */
+export async function deleteProjectTemplate(templateId: string): Promise<ApiResponse<null>> {
+  try {
+    const supabase = createClientComponentClient()
+    
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
+    
+    if (userError || !user) {
       return {
         success: false,
-        error: 'Task not found or access denied'
+        error: 'User not authenticated'
       }
     }
 
-    // Prepare note data
-    const newNote = {
-      task_id: noteData.task_id,
-      title: noteData.title.trim(),
-      content: noteData.content.trim(),
-    }
-
-    // Insert note into database
-    const { data, error } = await supabase
-      .from('notes')
-      .insert([newNote])
-      .select()
-      .single()
+    const { error } = await supabase
+      .from('project_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('user_id', user.id) // Ensure user owns the template
 
     if (error) {
-      console.error('Database error creating note:', error)
+      console.error('Database error deleting project template:', error)
       return {
         success: false,
         error: error.message
@@ -1263,10 +5134,10 @@ export async function createNote(noteData: CreateNoteData): Promise<ApiResponse<
 
     return {
       success: true,
-      data: data as Note
+      data: null
     }
   } catch (error) {
-    console.error('Unexpected error creating note:', error)
+    console.error('Unexpected error deleting project template:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1275,68 +5146,105 @@ export async function createNote(noteData: CreateNoteData): Promise<ApiResponse<
 }
 
 /**
- * Get a single note by ID (with user ownership validation)
+ * Create a project from a template. Template dates are shifted to count from the project's
+ * start date (today when none is given); tasks start open in the project's first status.
  */
-export async function getNote(noteId: string): Promise<ApiResponse<Note>> {
+export async function createProjectFromTemplate(
+  templateId: string,
+  projectData: CreateProjectData
+): Promise<ApiResponse<Project>> {
+  // Set once the project exists, so any later failure can remove it
+  let projectId: string | null = null
+
   try {
     const supabase = createClientComponentClient()
-    
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser()
-    
-    if (userError || !user) {
+
+    const { data: template, error: templateError } = await supabase
+      .from('project_templates')
+      .select('*')
+      .eq('id', templateId)
+      .single()
+
+    if (templateError || !template) {
       return {
         success: false,
-        error: 'User not authenticated'
+        error: 'Template not found or access denied'
       }
     }
 
-    if (!noteId) {
+    const { description, due_offset_days, tasks } = (template as ProjectTemplate).data
+    const startDate = projectData.start_date || format(new Date(), 'yyyy-MM-dd')
+    const shiftDate = (offsetDays: number | null) =>
+      offsetDays === null ? null : format(addDays(parseISO(startDate), offsetDays), 'yyyy-MM-dd')
+
+    const projectResult = await createProject({
+      ...projectData,
+      description: projectData.description || description,
+      start_date: startDate,
+      due_date: projectData.due_date || shiftDate(due_offset_days)
+    })
+
+    if (!projectResult.success || !projectResult.data || tasks.length === 0) {
+      return projectResult
+    }
+    const project = projectResult.data
+    projectId = project.id
+
+    // IDs are generated up front so subtasks can point at their parents within one insert
+    const taskIds = tasks.map(() => crypto.randomUUID())
+    // Rows in one insert share a default position, so keep the template's order explicitly
+    const basePosition = Date.now() / 1000
+
+    const { error: tasksError } = await supabase
+      .from('tasks')
+      .insert(tasks.map((task, index) => ({
+        id: taskIds[index],
+        project_id: project.id,
+        parent_task_id: task.parent_index !== null ? taskIds[task.parent_index] : null,
+        name: task.name,
+        priority: task.priority,
+        position: basePosition + index,
+        start_date: shiftDate(task.start_offset_days),
+        due_date: shiftDate(task.due_offset_days),
+        recurrence: task.recurrence
+      })))
+
+    if (tasksError) {
+      console.error('Database error creating template tasks:', tasksError)
+      await discardProject(project.id)
       return {
         success: false,
-        error: 'Note ID is required'
+        error: `The template's tasks could not be added, so the project was removed: ${tasksError.message}`
       }
     }
 
-    // Fetch note with ownership validation through tasks -> projects chain
-    const { data, error } = await supabase
-      .from('notes')
-      .select(`
-        *,
-        tasks!inner(
-          id,
-          projects!inner(user_id)
-        )
-      `)
-      .eq('id', noteId)
-      .eq('tasks.projects.user_id', user.id)
-      .single()
+    const notes = tasks.flatMap((task, index) => task.notes.map(note => ({
+      task_id: taskIds[index],
+      title: note.title,
+      content: note.content
+    })))
 
-    if (error) {
-      if (error.code === 'PGRST116') {
+    if (notes.length > 0) {
+      const { error: notesError } = await supabase
+        .from('notes')
+        .insert(notes)
+
+      if (notesError) {
+        console.error('Database error creating template notes:', notesError)
+        await discardProject(project.id)
         return {
           success: false,
-          error: 'Note not found'
+          error: `The template's notes could not be added, so the project was removed: ${notesError.message}`
         }
       }
-      console.error('Database error fetching note:', error)
-      return {
-        success: false,
-        error: error.message
-      }
     }
 
-    // Remove the tasks relation data from response
-    const { tasks, ...noteData } = data as Record<string, unknown>
-    // Prevent unused variable warning
-    void tasks
-    
-    return {
-      success: true,
-      data: noteData as unknown as Note
-    }
+    return projectResult
   } catch (error) {
-    console.error('Unexpected error fetching note:', error)
+    console.error('Unexpected error creating project from template:', error)
+    if (projectId) {
+      await discardProject(projectId)
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1344,10 +5252,14 @@ export async function getNote(noteId: string): Promise<ApiResponse<Note>> {
   }
 }
 
+// ============================================================================
+// CALENDAR FEED DATABASE FUNCTIONS
+// ============================================================================
+
 /**
- * Get all notes for the authenticated user with optional filtering
+ * Get the authenticated user's calendar subscription, or null if they haven't created one
  */
-export async function getNotes(filters?: NoteFilters): Promise<ApiResponse<Note[]>> {
+export async function getCalendarFeed(): Promise<ApiResponse<CalendarFeed | null>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1361,59 +5273,26 @@ export async function getNotes(filters?: NoteFilters): Promise<ApiResponse<Note[
       }
     }
 
-    // Build query with user ownership validation through tasks -> projects
-    let query = supabase
-      .from('notes')
-      .select(`
-        *,
-        tasks!inner(
-          id,
-          projects!inner(user_id)
-        )
-      `)
-      .eq('tasks.projects.user_id', user.id)
-      .order('created_at', { ascending: false })
-
-    // Apply optional filters
-    if (filters) {
-      if (filters.task_id) {
-        query = query.eq('task_id', filters.task_id)
-      }
-      if (filters.content_contains) {
-        query = query.ilike('content', `%${filters.content_contains}%`)
-      }
-      if (filters.created_before) {
-        query = query.lte('created_at', filters.created_before)
-      }
-      if (filters.created_after) {
-        query = query.gte('created_at', filters.created_after)
-      }
-    }
-
-    const { data, error } = await query
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle()
 
     if (error) {
-      console.error('Database error fetching notes:', error)
+      console.error('Database error fetching calendar feed:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
-    // Remove the tasks relation data from response
-    const notes = (data || []).map((item: Record<string, unknown>) => {
-      const { tasks, ...noteData } = item
-      // Prevent unused variable warning
-      void tasks
-      return noteData as unknown as Note
-    })
-
     return {
       success: true,
-      data: notes
+      data: data as CalendarFeed | null
     }
   } catch (error) {
-    console.error('Unexpected error fetching notes:', error)
+    console.error('Unexpected error fetching calendar feed:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1422,9 +5301,10 @@ export async function getNotes(filters?: NoteFilters): Promise<ApiResponse<Note[
 }
 
 /**
- * Get all notes for a specific task
+ * Create a calendar subscription with a new token. Any existing token stops working,
+ * so this also resets a link that has been shared by mistake.
  */
-export async function getNotesByTask(taskId: string): Promise<ApiResponse<Note[]>> {
+export async function createCalendarFeed(): Promise<ApiResponse<CalendarFeed>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1438,31 +5318,28 @@ export async function getNotesByTask(taskId: string): Promise<ApiResponse<Note[]
       }
     }
 
-    if (!taskId) {
-      return {
-        success: false,
-        error: 'Task ID is required'
-      }
-    }
-
-    // Verify task ownership first
-    const taskCheck = await taskExists(taskId)
-    if (!taskCheck.success || !taskCheck.data) {
+    const { error: deleteError } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (deleteError) {
+      console.error('Database error replacing calendar feed:', deleteError)
       return {
         success: false,
-        error: 'Task not found or access denied'
+        error: deleteError.message
       }
     }
 
-    // Get notes for the task
+    // The token is generated by the database
     const { data, error } = await supabase
-      .from('notes')
-      .select('*')
-      .eq('task_id', taskId)
-      .order('created_at', { ascending: false })
+      .from('calendar_feeds')
+      .insert({ user_id: user.id })
+      .select()
+      .single()
 
     if (error) {
-      console.error('Database error fetching task notes:', error)
+      console.error('Database error creating calendar feed:', error)
       return {
         success: false,
         error: error.message
@@ -1471,10 +5348,10 @@ export async function getNotesByTask(taskId: string): Promise<ApiResponse<Note[]
 
     return {
       success: true,
-      data: (data || []) as Note[]
+      data: data as CalendarFeed
     }
   } catch (error) {
-    console.error('Unexpected error fetching task notes:', error)
+    console.error('Unexpected error creating calendar feed:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1483,9 +5360,9 @@ export async function getNotesByTask(taskId: string): Promise<ApiResponse<Note[]
 }
 
 /**
- * Update an existing note
+ * Turn off the authenticated user's calendar subscription; calendars using the link stop updating
  */
-export async function updateNote(updateData: UpdateNoteData): Promise<ApiResponse<Note>> {
+export async function deleteCalendarFeed(): Promise<ApiResponse<null>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1499,92 +5376,139 @@ export async function updateNote(updateData: UpdateNoteData): Promise<ApiRespons
       }
     }
 
-    if (!updateData.id) {
-      return {
-        success: false,
-        error: 'Note ID is required'
-      }
-    }
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', user.id)
 
-    // Validate title if provided
-    if (updateData.title !== undefined && updateData.title.trim() === '') {
+    if (error) {
+      console.error('Database error deleting calendar feed:', error)
       return {
         success: false,
-        error: 'Note title cannot be empty'
+        error: error.message
       }
     }
 
-    // Validate content if provided
-    if (updateData.content !== undefined && updateData.content.trim() === '') {
-      return {
-        success: false,
-        error: 'Note content cannot be empty'
-      }
+    return {
+      success: true,
+      data: null
     }
-
-    // First verify the note exists and user has access to it
-    const noteCheck = await noteExists(updateData.id)
-    if (!noteCheck.success || !noteCheck.data) {
-      return {
-        success: false,
-        error: 'Note not found or access denied'
-      }
+  } catch (error) {
+    console.error('Unexpected error deleting calendar feed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred'
     }
+  }
+}
 
-    // Prepare update data (exclude id)
-    const { id, ...noteUpdates } = updateData
+// ============================================================================
+// TRASH DATABASE FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the projects, tasks and notes in the trash, most recently deleted first.
+ * Items deleted along with their project or parent task are left out, since restoring it brings them back.
+ */
+export async function getTrash(): Promise<ApiResponse<TrashItem[]>> {
+  try {
+    const supabase = createClientComponentClient()
     
-    // Clean up the update data
-    const cleanUpdates: Partial<{
-      title: string
-      content: string
-      task_id: string
-      updated_at: string
-    }> = {}
+    // Get current user
+    const { data: { user }, error: userError } = await supabase.auth.getUser()
     
-    if (noteUpdates.title !== undefined) {
-      cleanUpdates.title = noteUpdates.title.trim()
-    }
-    if (noteUpdates.content !== undefined) {
-      cleanUpdates.content = noteUpdates.content.trim()
-    }
-    if (noteUpdates.task_id !== undefined) {
-      // If task_id is being changed, verify the new task exists and user owns it
-      const taskCheck = await taskExists(noteUpdates.task_id)
-      if (!taskCheck.success || !taskCheck.data) {
-        return {
-          success: false,
-          error: 'Target task not found or access denied'
-        }
+    if (userError || !user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
       }
-      cleanUpdates.task_id = noteUpdates.task_id
     }
 
-    // Add updated_at timestamp
-    cleanUpdates.updated_at = new Date().toISOString()
-
-    // Update note
-    const { data, error } = await supabase
-      .from('notes')
-      .update(cleanUpdates)
-      .eq('id', id)
-      .select()
-      .single()
-
+    // RLS limits results to projects the user is a member of
+    const [projectsResult, tasksResult, notesResult] = await Promise.all([
+      supabase
+        .from('projects')
+        .select('id, name, deleted_at')
+        .not('deleted_at', 'is', null),
+      supabase
+        .from('tasks')
+        .select('id, name, deleted_at, project_id, project:projects(name, deleted_at), parent:tasks!parent_task_id(deleted_at)')
+        .not('deleted_at', 'is', null),
+      supabase
+        .from('notes')
+        .select('id, title, deleted_at, task:tasks(name, project_id, deleted_at, project:projects(name))')
+        .not('deleted_at', 'is', null)
+    ])
+
+    const error = projectsResult.error || tasksResult.error || notesResult.error
     if (error) {
-      console.error('Database error updating note:', error)
+      console.error('Database error fetching trash:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
+    const projects = (projectsResult.data || []) as { id: string; name: string; deleted_at: string }[]
+    const tasks = (tasksResult.data || []) as unknown as {
+      id: string
+      name: string
+      deleted_at: string
+      project_id: string
+      project: { name: string; deleted_at: string | null }
+      parent: { deleted_at: string | null } | null
+    }[]
+    const notes = (notesResult.data || []) as unknown as {
+      id: string
+      title: string
+      deleted_at: string
+      task: { name: string; project_id: string; deleted_at: string | null; project: { name: string } }
+    }[]
+
+    // Children trashed with their parent share its deleted_at timestamp
+    const items: TrashItem[] = [
+      ...projects.map(project => ({
+        item_type: 'project' as const,
+        id: project.id,
+        name: project.name,
+        project_id: project.id,
+        project_name: project.name,
+        task_name: null,
+        deleted_at: project.deleted_at,
+        parent_in_trash: false
+      })),
+      ...tasks
+        .filter(task => task.project.deleted_at !== task.deleted_at && task.parent?.deleted_at !== task.deleted_at)
+        .map(task => ({
+          item_type: 'task' as const,
+          id: task.id,
+          name: task.name,
+          project_id: task.project_id,
+          project_name: task.project.name,
+          task_name: null,
+          deleted_at: task.deleted_at,
+          parent_in_trash: !!task.project.deleted_at || !!task.parent?.deleted_at
+        })),
+      ...notes
+        .filter(note => note.task.deleted_at !== note.deleted_at)
+        .map(note => ({
+          item_type: 'note' as const,
+          id: note.id,
+          name: note.title,
+          project_id: note.task.project_id,
+          project_name: note.task.project.name,
+          task_name: note.task.name,
+          deleted_at: note.deleted_at,
+          parent_in_trash: !!note.task.deleted_at
+        }))
+    ]
+
     return {
       success: true,
-      data: data as Note
+      data: items.sort((a, b) => b.deleted_at.localeCompare(a.deleted_at))
     }
   } catch (error) {
-    console.error('Unexpected error updating note:', error)
+    console.error('Unexpected error fetching trash:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1593,9 +5517,9 @@ export async function updateNote(updateData: UpdateNoteData): Promise<ApiRespons
 }
 
 /**
- * Delete a note
+ * Restore a project from the trash, along with the tasks and notes deleted with it
  */
-export async function deleteNote(noteId: string): Promise<ApiResponse<null>> {
+export async function restoreProject(projectId: string): Promise<ApiResponse<null>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1609,30 +5533,39 @@ export async function deleteNote(noteId: string): Promise<ApiResponse<null>> {
       }
     }
 
-    if (!noteId) {
+    if (!projectId) {
       return {
         success: false,
-        error: 'Note ID is required'
+        error: 'Project ID is required'
       }
     }
 
-    // Verify note exists and user has access to it
-    const noteCheck = await noteExists(noteId)
-    if (!noteCheck.success || !noteCheck.data) {
+    const { data: role, error: roleError } = await supabase.rpc('project_role', { target_project_id: projectId })
+
+    if (roleError) {
+      console.error('Database error checking project role:', roleError)
       return {
         success: false,
-        error: 'Note not found or access denied'
+        error: roleError.message
+      }
+    }
+
+    if (role !== 'owner') {
+      return {
+        success: false,
+        error: role ? 'Only project owners can restore a project' : 'Project not found or access denied'
       }
     }
 
-    // Delete note
+    // Restore project (a database trigger restores its tasks and notes too)
     const { error } = await supabase
-      .from('notes')
-      .delete()
-      .eq('id', noteId)
+      .from('projects')
+      .update({ deleted_at: null })
+      .eq('id', projectId)
+      .not('deleted_at', 'is', null)
 
     if (error) {
-      console.error('Database error deleting note:', error)
+      console.error('Database error restoring project:', error)
       return {
         success: false,
         error: error.message
@@ -1644,7 +5577,7 @@ export async function deleteNote(noteId: string): Promise<ApiResponse<null>> {
       data: null
     }
   } catch (error) {
-    console.error('Unexpected error deleting note:', error)
+    console.error('Unexpected error restoring project:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1653,9 +5586,10 @@ export async function deleteNote(noteId: string): Promise<ApiResponse<null>> {
 }
 
 /**
- * Get note count for the authenticated user (optionally by task)
+ * Restore a task from the trash, along with the subtasks and notes deleted with it.
+ * Its project and parent task must not be in the trash.
  */
-export async function getNoteCount(taskId?: string): Promise<ApiResponse<number>> {
+export async function restoreTask(taskId: string): Promise<ApiResponse<null>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1669,27 +5603,63 @@ export async function getNoteCount(taskId?: string): Promise<ApiResponse<number>
       }
     }
 
-    // Build query with user ownership validation through tasks -> projects
-    let query = supabase
-      .from('notes')
-      .select(`
-        *,
-        tasks!inner(
-          id,
-          projects!inner(user_id)
-        )
-      `, { count: 'exact', head: true })
-      .eq('tasks.projects.user_id', user.id)
+    if (!taskId) {
+      return {
+        success: false,
+        error: 'Task ID is required'
+      }
+    }
 
-    // Add task filter if specified
-    if (taskId) {
-      query = query.eq('task_id', taskId)
+    const { data, error: taskError } = await supabase
+      .from('tasks')
+      .select('project_id, project:projects(deleted_at), parent:tasks!parent_task_id(deleted_at)')
+      .eq('id', taskId)
+      .not('deleted_at', 'is', null)
+      .single()
+
+    if (taskError || !data) {
+      return {
+        success: false,
+        error: 'Task not found in the trash'
+      }
     }
 
-    const { count, error } = await query
+    const task = data as unknown as {
+      project_id: string
+      project: { deleted_at: string | null }
+      parent: { deleted_at: string | null } | null
+    }
+
+    if (task.project.deleted_at) {
+      return {
+        success: false,
+        error: 'Restore the task\'s project first'
+      }
+    }
+
+    if (task.parent?.deleted_at) {
+      return {
+        success: false,
+        error: 'Restore the parent task first'
+      }
+    }
+
+    const accessResult = await validateProjectEditAccess(task.project_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    // Restore task (a database trigger restores its subtasks and notes too)
+    const { error } = await supabase
+      .from('tasks')
+      .update({ deleted_at: null })
+      .eq('id', taskId)
 
     if (error) {
-      console.error('Database error counting notes:', error)
+      console.error('Database error restoring task:', error)
       return {
         success: false,
         error: error.message
@@ -1698,10 +5668,10 @@ export async function getNoteCount(taskId?: string): Promise<ApiResponse<number>
 
     return {
       success: true,
-      data: count || 0
+      data: null
     }
   } catch (error) {
-    console.error('Unexpected error counting notes:', error)
+    console.error('Unexpected error restoring task:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1710,9 +5680,9 @@ export async function getNoteCount(taskId?: string): Promise<ApiResponse<number>
 }
 
 /**
- * Check if a note exists and user has access to it
+ * Restore a note from the trash. Its task must not be in the trash.
  */
-export async function noteExists(noteId: string): Promise<ApiResponse<boolean>> {
+export async function restoreNote(noteId: string): Promise<ApiResponse<null>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1733,28 +5703,44 @@ export async function noteExists(noteId: string): Promise<ApiResponse<boolean>>
       }
     }
 
-    // Check if note exists for this user through task -> project ownership
-    const { data, error } = await supabase
+    const { data, error: noteError } = await supabase
       .from('notes')
-      .select(`
-        id,
-        tasks!inner(
-          id,
-          projects!inner(user_id)
-        )
-      `)
+      .select('task:tasks(project_id, deleted_at)')
       .eq('id', noteId)
-      .eq('tasks.projects.user_id', user.id)
+      .not('deleted_at', 'is', null)
       .single()
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return {
-          success: true,
-          data: false
-        }
+    if (noteError || !data) {
+      return {
+        success: false,
+        error: 'Note not found in the trash'
       }
-      console.error('Database error checking note existence:', error)
+    }
+
+    const { task } = data as unknown as { task: { project_id: string; deleted_at: string | null } }
+
+    if (task.deleted_at) {
+      return {
+        success: false,
+        error: 'Restore the note\'s task first'
+      }
+    }
+
+    const accessResult = await validateProjectEditAccess(task.project_id)
+    if (!accessResult.success) {
+      return {
+        success: false,
+        error: accessResult.error
+      }
+    }
+
+    const { error } = await supabase
+      .from('notes')
+      .update({ deleted_at: null })
+      .eq('id', noteId)
+
+    if (error) {
+      console.error('Database error restoring note:', error)
       return {
         success: false,
         error: error.message
@@ -1763,10 +5749,10 @@ export async function noteExists(noteId: string): Promise<ApiResponse<boolean>>
 
     return {
       success: true,
-      data: !!data
+      data: null
     }
   } catch (error) {
-    console.error('Unexpected error checking note existence:', error)
+    console.error('Unexpected error restoring note:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
@@ -1774,10 +5760,15 @@ export async function noteExists(noteId: string): Promise<ApiResponse<boolean>>
   }
 }
 
+// ============================================================================
+// SEARCH DATABASE FUNCTIONS
+// ============================================================================
+
 /**
- * Get recently created notes (within specified days)
+ * Full-text search across the user's projects, tasks and notes, best matches first.
+ * Snippets wrap matched words in <mark></mark>.
  */
-export async function getRecentNotes(daysBack: number = 7): Promise<ApiResponse<Note[]>> {
+export async function searchAll(query: string, limit: number = 20): Promise<ApiResponse<SearchResult[]>> {
   try {
     const supabase = createClientComponentClient()
     
@@ -1791,59 +5782,36 @@ export async function getRecentNotes(daysBack: number = 7): Promise<ApiResponse<
       }
     }
 
-    // Calculate date range
-    const today = new Date()
-    const pastDate = new Date()
-    pastDate.setDate(today.getDate() - daysBack)
-
-    const pastDateStr = pastDate.toISOString()
+    if (query.trim() === '') {
+      return {
+        success: true,
+        data: []
+      }
+    }
 
-    // Get notes created within the range
-    const { data, error } = await supabase
-      .from('notes')
-      .select(`
-        *,
-        tasks!inner(
-          id,
-          projects!inner(user_id)
-        )
-      `)
-      .eq('tasks.projects.user_id', user.id)
-      .gte('created_at', pastDateStr)
-      .order('created_at', { ascending: false })
+    // RLS on the underlying tables limits results to the user's projects; trashed items are left out
+    const { data, error } = await supabase.rpc('search_all', {
+      search_query: query.trim(),
+      result_limit: limit
+    })
 
     if (error) {
-      console.error('Database error fetching recent notes:', error)
+      console.error('Database error searching:', error)
       return {
         success: false,
         error: error.message
       }
     }
 
-    // Remove the tasks relation data from response
-    const notes = (data || []).map((item: Record<string, unknown>) => {
-      const { tasks, ...noteData } = item
-      // Prevent unused variable warning
-      void tasks
-      return noteData as unknown as Note
-    })
-
     return {
       success: true,
-      data: notes
+      data: (data || []) as SearchResult[]
     }
   } catch (error) {
-    console.error('Unexpected error fetching recent notes:', error)
+    console.error('Unexpected error searching:', error)
     return {
       success: false,
       error: error instanceof Error ? error.message : 'An unexpected error occurred'
     }
   }
 }
-
-/**
- * Search notes by content
- */
-export async function searchNotes(searchTerm: string): Promise<ApiResponse<Note[]>> {
-  return getNotes({ content_contains: searchTerm })
-} 
\ No newline at end of file
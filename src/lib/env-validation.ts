@@ -8,6 +8,8 @@ interface EnvConfig {
   
   // Optional Configuration
   CUSTOM_KEY?: string
+  // Must match the days passed to purge_trash by the purge-trash job (default 30)
+  NEXT_PUBLIC_TRASH_RETENTION_DAYS?: string
 }
 
 interface ValidationResult {
@@ -85,6 +87,11 @@ export function validateEnvironment(): ValidationResult {
     warnings.push('CUSTOM_KEY is very short, ensure this is intentional')
   }
 
+  const trashRetentionDays = process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS
+  if (trashRetentionDays && !(Number.isInteger(Number(trashRetentionDays)) && Number(trashRetentionDays) > 0)) {
+    warnings.push('NEXT_PUBLIC_TRASH_RETENTION_DAYS should be a positive whole number of days')
+  }
+
   // Check for common development issues
   if (process.env.NODE_ENV === 'production') {
     if (process.env.NEXT_PUBLIC_SUPABASE_URL?.includes('localhost')) {
@@ -152,6 +159,7 @@ export function getEnvConfig(): EnvConfig {
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL!,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     CUSTOM_KEY: process.env.CUSTOM_KEY,
+    NEXT_PUBLIC_TRASH_RETENTION_DAYS: process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS,
   }
 }
 
@@ -1,12 +1,21 @@
-import { Project, Task, Note, ApiResponse } from '@/types'
-import { getProject, getTasksByProject, getNotesByTask } from './database'
+import { Project, Task, TaskStatus, TaskRecurrence, Note, ApiResponse } from '@/types'
+import { format as formatDateFns } from 'date-fns'
+import { getProject, getProjects, getTasksByProject, getTaskStatuses, getNotesByTask } from './database'
+import { getCurrentUser } from './auth'
+import { describeRecurrence, flattenTaskTree, isTaskDone, sortTaskStatuses } from './task-utils'
+import { toCsv } from './csv'
+import { createZip, ZipEntry } from './zip'
 import jsPDF from 'jspdf'
 
+// Schema version written into every export; imports accept any version with the same major number
+export const EXPORT_VERSION = '1.0.0'
+
 // Export-specific data structures that extend the base types
 // These provide a clean, hierarchical representation for export
 
 export interface ExportNote {
   id: string
+  title: string
   content: string
   created_at: string
   updated_at: string
@@ -15,18 +24,31 @@ export interface ExportNote {
   timestamp: string
 }
 
+export interface ExportTaskStatus {
+  id: string
+  name: string
+  color: string
+  is_done: boolean
+  position: number
+}
+
 export interface ExportTask {
   id: string
+  parent_task_id?: string
+  status_id?: string
   name: string
   priority: 'High' | 'Medium' | 'Low'
   completed: boolean
+  start_date?: string
   due_date?: string
+  recurrence?: TaskRecurrence
   created_at: string
   updated_at: string
   // Associated notes in hierarchical structure
   notes: ExportNote[]
   // Computed fields for export
   status: string
+  formatted_start_date?: string
   formatted_due_date?: string
   notes_count: number
 }
@@ -35,12 +57,15 @@ export interface ExportProject {
   id: string
   name: string
   description?: string
+  start_date?: string
   due_date?: string
   created_at: string
   updated_at: string
   // Associated tasks in hierarchical structure
   tasks: ExportTask[]
+  statuses: ExportTaskStatus[]
   // Computed fields for export
+  formatted_start_date?: string
   formatted_due_date?: string
   tasks_count: number
   completed_tasks_count: number
@@ -53,25 +78,91 @@ export interface ExportProject {
 export interface ExportMetadata {
   export_date: string
   export_timestamp: string
-  format: 'pdf' | 'json'
+  format: 'pdf' | 'json' | 'csv' | 'markdown' | 'zip'
   version: string
-  project_count: 1 // For single project exports
+  project_count: number // 1 for single project exports
   total_tasks: number
   total_notes: number
   app_name: string
 }
 
+// Format-specific choices made when exporting
+export interface ExportOptions {
+  // CSV only: add a column with each task's notes joined together
+  includeNotes?: boolean
+  // PDF only: the report's sections, task filters and page setup
+  pdf?: PdfReportOptions
+}
+
+// Parts of a project PDF report below its header, which always shows the logo and title.
+// The cover is the project's description and dates; notes are listed under each task.
+export type PdfReportSection = 'cover' | 'stats' | 'active' | 'completed' | 'notes'
+
+export interface PdfReportOptions {
+  sections: Record<PdfReportSection, boolean>
+  // Only tasks with these priorities are listed
+  priorities: ExportTask['priority'][]
+  // Only tasks due in this range (yyyy-MM-dd) are listed; either end can be left open
+  dueFrom?: string
+  dueTo?: string
+  pageSize: 'a4' | 'letter'
+  orientation: 'portrait' | 'landscape'
+  // Heading used instead of the project name
+  title?: string
+  // PNG or JPEG data URL shown in the header instead of the TaskFlow name
+  logo?: string
+}
+
+export type PdfReportPreset = 'detailed' | 'summary'
+
+// A full internal report, and a client-facing summary without notes
+export const PDF_REPORT_PRESETS: Record<PdfReportPreset, PdfReportOptions> = {
+  detailed: {
+    sections: { cover: true, stats: true, active: true, completed: true, notes: true },
+    priorities: ['High', 'Medium', 'Low'],
+    pageSize: 'a4',
+    orientation: 'portrait'
+  },
+  summary: {
+    sections: { cover: true, stats: true, active: true, completed: true, notes: false },
+    priorities: ['High', 'Medium', 'Low'],
+    pageSize: 'a4',
+    orientation: 'portrait'
+  }
+}
+
 // Complete export data structure
 export interface ExportData {
   metadata: ExportMetadata
   project: ExportProject
 }
 
+// Totals across every project in an account export
+export interface AccountExportSummary {
+  user_email: string
+  project_count: number
+  total_tasks: number
+  completed_tasks: number
+  overdue_tasks: number
+  total_notes: number
+  completion_percentage: number
+}
+
+// Every project the user can access; each entry is a complete single-project export
+export interface AccountExportData {
+  metadata: ExportMetadata
+  summary: AccountExportSummary
+  projects: ExportData[]
+}
+
+export type AccountExportFormat = 'json' | 'pdf' | 'zip'
+
 // Utility function to transform database entities into export structure
 export function createExportData(
   project: Project,
   tasks: Task[],
-  taskNotes: Record<string, Note[]>
+  taskNotes: Record<string, Note[]>,
+  statuses: TaskStatus[] = []
 ): ExportData {
   const exportTimestamp = new Date().toISOString()
   const exportDate = new Date().toLocaleDateString('en-US', {
@@ -86,6 +177,7 @@ export function createExportData(
     
     const exportNotes: ExportNote[] = taskNotesArray.map(note => ({
       id: note.id,
+      title: note.title,
       content: note.content,
       created_at: note.created_at,
       updated_at: note.updated_at,
@@ -93,16 +185,25 @@ export function createExportData(
       timestamp: formatTimestamp(note.created_at)
     }))
 
+    // Completion comes from whether the task's status counts as done
+    const status = statuses.find(s => s.id === task.status_id)
+    const completed = isTaskDone(task, statuses)
+
     return {
       id: task.id,
+      parent_task_id: task.parent_task_id || undefined,
+      status_id: task.status_id || undefined,
       name: task.name,
       priority: task.priority,
-      completed: task.completed,
+      completed,
+      start_date: task.start_date || undefined,
       due_date: task.due_date || undefined,
+      recurrence: task.recurrence || undefined,
       created_at: task.created_at,
       updated_at: task.updated_at,
       notes: exportNotes,
-      status: task.completed ? 'Completed' : 'In Progress',
+      status: status ? status.name : completed ? 'Completed' : 'In Progress',
+      formatted_start_date: task.start_date ? formatDate(task.start_date) : undefined,
       formatted_due_date: task.due_date ? formatDate(task.due_date) : undefined,
       notes_count: exportNotes.length
     }
@@ -119,10 +220,19 @@ export function createExportData(
     id: project.id,
     name: project.name,
     description: project.description || undefined,
+    start_date: project.start_date || undefined,
     due_date: project.due_date || undefined,
     created_at: project.created_at,
     updated_at: project.updated_at,
     tasks: exportTasks,
+    statuses: sortTaskStatuses(statuses).map(({ id, name, color, is_done, position }) => ({
+      id,
+      name,
+      color,
+      is_done,
+      position
+    })),
+    formatted_start_date: project.start_date ? formatDate(project.start_date) : undefined,
     formatted_due_date: project.due_date ? formatDate(project.due_date) : undefined,
     tasks_count: exportTasks.length,
     completed_tasks_count: completedTasks,
@@ -135,7 +245,7 @@ export function createExportData(
     export_date: exportDate,
     export_timestamp: exportTimestamp,
     format: 'json', // Will be overridden by specific export functions
-    version: '1.0.0',
+    version: EXPORT_VERSION,
     project_count: 1,
     total_tasks: exportTasks.length,
     total_notes: totalNotes,
@@ -247,10 +357,22 @@ export async function aggregateProjectDataForExport(projectId: string): Promise<
       }
     }
 
+    // Flatten the task tree so subtasks are exported alongside their parents
+    const tasks = flattenTaskTree(tasksResult.data)
+
+    // Fetch the project's statuses (completion is derived from the "done" ones)
+    const statusesResult = await getTaskStatuses(projectId)
+    if (!statusesResult.success || !statusesResult.data) {
+      return {
+        success: false,
+        error: statusesResult.error || 'Failed to fetch project statuses'
+      }
+    }
+
     // Fetch notes for each task
     const taskNotes: Record<string, Note[]> = {}
     
-    for (const task of tasksResult.data) {
+    for (const task of tasks) {
       const notesResult = await getNotesByTask(task.id)
       if (notesResult.success && notesResult.data) {
         taskNotes[task.id] = notesResult.data
@@ -261,7 +383,7 @@ export async function aggregateProjectDataForExport(projectId: string): Promise<
     }
 
     // Create export data structure
-    const exportData = createExportData(projectResult.data, tasksResult.data, taskNotes)
+    const exportData = createExportData(projectResult.data, tasks, taskNotes, statusesResult.data)
     
     // Validate the export data
     if (!validateExportData(exportData)) {
@@ -285,6 +407,90 @@ export async function aggregateProjectDataForExport(projectId: string): Promise<
   }
 }
 
+/**
+ * Aggregate every project the user can access, with account-level totals, for an account export.
+ * Projects are loaded one at a time; onProgress reports how many are done.
+ */
+export async function aggregateAccountDataForExport(
+  onProgress?: (completed: number, total: number) => void
+): Promise<ApiResponse<AccountExportData>> {
+  try {
+    const [userResult, projectsResult] = await Promise.all([getCurrentUser(), getProjects()])
+
+    if (!userResult.success || !userResult.data?.user) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      }
+    }
+    if (!projectsResult.success || !projectsResult.data) {
+      return {
+        success: false,
+        error: projectsResult.error || 'Failed to fetch projects'
+      }
+    }
+
+    const projects: ExportData[] = []
+    onProgress?.(0, projectsResult.data.length)
+
+    for (const project of projectsResult.data) {
+      const projectResult = await aggregateProjectDataForExport(project.id)
+      if (!projectResult.success || !projectResult.data) {
+        return {
+          success: false,
+          error: `Failed to export "${project.name}": ${projectResult.error}`
+        }
+      }
+      projects.push(projectResult.data)
+      onProgress?.(projects.length, projectsResult.data.length)
+    }
+
+    const today = formatDateFns(new Date(), 'yyyy-MM-dd')
+    const allTasks = projects.flatMap(({ project }) => project.tasks)
+    const completedTasks = allTasks.filter(task => task.completed).length
+    const totalNotes = projects.reduce((sum, { project }) => sum + project.total_notes_count, 0)
+
+    const exportTimestamp = new Date().toISOString()
+    const metadata: ExportMetadata = {
+      export_date: new Date().toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      }),
+      export_timestamp: exportTimestamp,
+      format: 'json',
+      version: EXPORT_VERSION,
+      project_count: projects.length,
+      total_tasks: allTasks.length,
+      total_notes: totalNotes,
+      app_name: 'Personal Project Management'
+    }
+
+    return {
+      success: true,
+      data: {
+        metadata,
+        summary: {
+          user_email: userResult.data.user.email || '',
+          project_count: projects.length,
+          total_tasks: allTasks.length,
+          completed_tasks: completedTasks,
+          overdue_tasks: allTasks.filter(task => !task.completed && task.due_date && task.due_date < today).length,
+          total_notes: totalNotes,
+          completion_percentage: allTasks.length > 0 ? Math.round((completedTasks / allTasks.length) * 100) : 0
+        },
+        projects
+      }
+    }
+  } catch (error) {
+    console.error('Error aggregating account data for export:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred during data aggregation'
+    }
+  }
+}
+
 /**
  * Get export statistics for a project without generating full export data
  */
@@ -365,7 +571,8 @@ export async function hasExportableData(projectId: string): Promise<ApiResponse<
  */
 export async function generateExportForFormat(
   projectId: string, 
-  format: 'pdf' | 'json'
+  format: 'pdf' | 'json' | 'csv' | 'markdown',
+  options: ExportOptions = {}
 ): Promise<ApiResponse<{ content: string; filename: string }>> {
   try {
     // Get the export data
@@ -390,10 +597,28 @@ export async function generateExportForFormat(
         filename = generateJsonFilename(exportData.project)
         break
       
-      case 'pdf':
-        content = await generatePDF(exportData)
+      case 'pdf': {
+        const optionsError = options.pdf ? getPdfReportOptionsError(options.pdf) : null
+        if (optionsError) {
+          return {
+            success: false,
+            error: optionsError
+          }
+        }
+        content = await generatePDF(exportData, options.pdf)
         filename = generatePDFFilename(exportData.project)
         break
+      }
+
+      case 'csv':
+        content = generateCsv(exportData, options)
+        filename = generateCsvFilename(exportData.project)
+        break
+
+      case 'markdown':
+        content = generateMarkdown(exportData)
+        filename = generateMarkdownFilename(exportData.project)
+        break
       
       default:
         return {
@@ -416,6 +641,85 @@ export async function generateExportForFormat(
   }
 }
 
+/**
+ * Export every project the user can access as one JSON file, a PDF status report,
+ * or a zip holding the report plus each project's JSON (importable) and Markdown
+ */
+export async function generateAccountExport(
+  format: AccountExportFormat,
+  onProgress?: (completed: number, total: number) => void
+): Promise<ApiResponse<{ content: Blob; filename: string }>> {
+  try {
+    const accountResult = await aggregateAccountDataForExport(onProgress)
+
+    if (!accountResult.success || !accountResult.data) {
+      return {
+        success: false,
+        error: accountResult.error || 'Failed to aggregate export data'
+      }
+    }
+
+    const accountData = accountResult.data
+    accountData.metadata.format = format
+    const filename = `taskflow_account_export_${new Date().toISOString().split('T')[0]}.${format}`
+
+    let content: Blob
+
+    switch (format) {
+      case 'json':
+        content = new Blob([JSON.stringify(accountData, null, 2)], { type: 'application/json' })
+        break
+
+      case 'pdf':
+        content = new Blob([generateAccountPDF(accountData)], { type: 'application/pdf' })
+        break
+
+      case 'zip': {
+        const usedNames = new Set<string>()
+        const entries: ZipEntry[] = [
+          { name: 'status_report.pdf', content: new Uint8Array(generateAccountPDF(accountData)) },
+          { name: 'account_summary.json', content: JSON.stringify({ metadata: accountData.metadata, summary: accountData.summary }, null, 2) }
+        ]
+
+        accountData.projects.forEach(projectData => {
+          // Projects can share a name, so later ones get a numeric suffix
+          const baseName = projectData.project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase() || 'project'
+          let name = baseName
+          for (let i = 2; usedNames.has(name); i++) {
+            name = `${baseName}_${i}`
+          }
+          usedNames.add(name)
+
+          entries.push(
+            { name: `projects/${name}.json`, content: generateJson({ ...projectData, metadata: { ...projectData.metadata, format: 'json' } }) },
+            { name: `projects/${name}.md`, content: generateMarkdown(projectData) }
+          )
+        })
+
+        content = new Blob([createZip(entries)], { type: 'application/zip' })
+        break
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unsupported export format: ${format}`
+        }
+    }
+
+    return {
+      success: true,
+      data: { content, filename }
+    }
+  } catch (error) {
+    console.error(`Error generating ${format} account export:`, error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : `An unexpected error occurred during ${format} export generation`
+    }
+  }
+}
+
 // Generate JSON export
 export function generateJson(data: ExportData): string {
   return JSON.stringify(data, null, 2)
@@ -427,117 +731,226 @@ function generateJsonFilename(project: ExportProject): string {
   return `${sanitizedName}_export_${timestamp}.json`
 }
 
-// Generate PDF export
-export async function generatePDF(data: ExportData): Promise<string> {
-  const doc = new jsPDF()
-  const { project, metadata } = data
-  
-  let yPosition = 0
-  const pageWidth = doc.internal.pageSize.width
-  const pageHeight = doc.internal.pageSize.height
-  const margin = 25
-  const contentWidth = pageWidth - (margin * 2)
-  
-  // Color scheme (matching website theme)
-  const colors = {
-    primary: '#1f2937',      // Dark gray for headers
-    secondary: '#6b7280',    // Medium gray for subheaders
-    text: '#374151',         // Darker gray for body text
-    muted: '#9ca3af',        // Light gray for metadata
-    accent: '#3b82f6',       // Blue for highlights
-    success: '#10b981',      // Green for completed items
-    warning: '#f59e0b',      // Orange for medium priority
-    danger: '#ef4444'        // Red for high priority
+// Generate CSV export with one row per task; subtasks name their parent task
+export function generateCsv(data: ExportData, options: ExportOptions = {}): string {
+  const { project } = data
+  const taskNames = new Map(project.tasks.map(task => [task.id, task.name]))
+
+  const header = ['Project', 'Task', 'Parent Task', 'Status', 'Priority', 'Start Date', 'Due Date', 'Completed', 'Notes Count']
+  if (options.includeNotes) {
+    header.push('Notes')
   }
 
-  // Helper function to set text color
-  const setTextColor = (color: string) => {
-    const hex = color.replace('#', '')
-    const r = parseInt(hex.substr(0, 2), 16)
-    const g = parseInt(hex.substr(2, 2), 16)
-    const b = parseInt(hex.substr(4, 2), 16)
-    doc.setTextColor(r, g, b)
+  const rows = project.tasks.map(task => {
+    const row = [
+      project.name,
+      task.name,
+      task.parent_task_id ? taskNames.get(task.parent_task_id) || '' : '',
+      task.status,
+      task.priority,
+      task.start_date || '',
+      task.due_date || '',
+      task.completed ? 'Yes' : 'No',
+      String(task.notes_count)
+    ]
+    if (options.includeNotes) {
+      row.push(task.notes.map(note => `${note.title}: ${note.content}`).join('\n\n'))
+    }
+    return row
+  })
+
+  return toCsv([header, ...rows])
+}
+
+function generateCsvFilename(project: ExportProject): string {
+  const timestamp = new Date().toISOString().split('T')[0]
+  const sanitizedName = project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+  return `${sanitizedName}_tasks_${timestamp}.csv`
+}
+
+// Generate a Markdown document: project header, statistics, tasks as a checklist and notes per task
+export function generateMarkdown(data: ExportData): string {
+  const { project, metadata } = data
+  const lines: string[] = [`# ${escapeMarkdown(project.name)}`, '']
+
+  if (project.description) {
+    lines.push(...project.description.split('\n').map(line => `> ${line}`), '')
   }
 
-  // Helper function to add text with word wrapping and color
-  const addText = (text: string, x: number, y: number, options: { 
-    fontSize?: number, 
-    fontStyle?: string, 
-    maxWidth?: number,
-    color?: string,
-    align?: 'left' | 'center' | 'right'
-  } = {}): number => {
-    const { fontSize = 10, fontStyle = 'normal', maxWidth = contentWidth, color = colors.text, align = 'left' } = options
-    
-    doc.setFontSize(fontSize)
-    doc.setFont('helvetica', fontStyle as 'normal' | 'bold' | 'italic' | 'bolditalic')
-    setTextColor(color)
-    
-    const lines = doc.splitTextToSize(text, maxWidth)
-    
-    if (align === 'center') {
-      lines.forEach((line: string, i: number) => {
-        const textWidth = doc.getTextWidth(line)
-        const xPos = (pageWidth - textWidth) / 2
-        doc.text(line, xPos, y + (i * fontSize * 0.4))
-      })
-    } else {
-      doc.text(lines, x, y, { align: align as 'left' | 'center' | 'right' })
+  if (project.formatted_start_date) lines.push(`- **Start date:** ${project.formatted_start_date}`)
+  if (project.formatted_due_date) lines.push(`- **Due date:** ${project.formatted_due_date}`)
+  lines.push(`- **Exported:** ${metadata.export_date}`, '')
+
+  lines.push(
+    '## Summary',
+    '',
+    '| Tasks | Completed | Progress | Notes |',
+    '| ---: | ---: | ---: | ---: |',
+    `| ${project.tasks_count} | ${project.completed_tasks_count} | ${project.completion_percentage}% | ${project.total_notes_count} |`,
+    ''
+  )
+
+  const subtasksByParent = new Map<string, ExportTask[]>()
+  project.tasks.forEach(task => {
+    if (task.parent_task_id) {
+      subtasksByParent.set(task.parent_task_id, [...(subtasksByParent.get(task.parent_task_id) || []), task])
     }
-    
-    return y + (lines.length * fontSize * 0.4) + 2
+  })
+  const taskNames = new Map(project.tasks.map(task => [task.id, task.name]))
+
+  lines.push('## Tasks', '')
+  if (project.tasks.length === 0) {
+    lines.push('_No tasks yet._')
   }
 
-  // Helper function to add divider line
-  const addDivider = (y: number, color: string = colors.muted): number => {
-    const hex = color.replace('#', '')
-    const r = parseInt(hex.substr(0, 2), 16)
-    const g = parseInt(hex.substr(2, 2), 16)
-    const b = parseInt(hex.substr(4, 2), 16)
-    doc.setDrawColor(r, g, b)
-    doc.setLineWidth(0.5)
-    doc.line(margin, y, pageWidth - margin, y)
-    return y + 8
+  const addTask = (task: ExportTask, depth: number) => {
+    const details = [
+      task.status,
+      `${task.priority} priority`,
+      task.formatted_start_date && `Starts ${task.formatted_start_date}`,
+      task.formatted_due_date && `Due ${task.formatted_due_date}`,
+      task.recurrence && describeRecurrence(task.recurrence)
+    ].filter(Boolean)
+
+    lines.push(`${'  '.repeat(depth)}- [${task.completed ? 'x' : ' '}] **${escapeMarkdown(task.name)}** · ${details.join(' · ')}`)
+    subtasksByParent.get(task.id)?.forEach(subtask => addTask(subtask, depth + 1))
   }
+  project.tasks.filter(task => !task.parent_task_id).forEach(task => addTask(task, 0))
+  lines.push('')
 
-  // Helper function to add colored rectangle background
-  const addBackground = (x: number, y: number, width: number, height: number, color: string, opacity: number = 0.1) => {
-    const hex = color.replace('#', '')
-    const r = parseInt(hex.substr(0, 2), 16)
-    const g = parseInt(hex.substr(2, 2), 16)
-    const b = parseInt(hex.substr(4, 2), 16)
-    doc.setFillColor(r, g, b)
-    doc.setGState(doc.GState({ opacity: opacity }))
-    doc.rect(x, y, width, height, 'F')
-    doc.setGState(doc.GState({ opacity: 1 })) // Reset opacity
+  const tasksWithNotes = project.tasks.filter(task => task.notes.length > 0)
+  if (tasksWithNotes.length > 0) {
+    lines.push('## Notes', '')
+
+    tasksWithNotes.forEach(task => {
+      const parentName = task.parent_task_id ? taskNames.get(task.parent_task_id) : undefined
+      lines.push(`### ${escapeMarkdown(parentName ? `${parentName} › ${task.name}` : task.name)}`, '')
+
+      task.notes.forEach(note => {
+        lines.push(`#### ${escapeMarkdown(note.title)}`, '', `_${note.timestamp}_`, '', formatNoteMarkdown(note.content), '')
+      })
+    })
   }
 
-  // Helper function to check if we need a new page
-  const checkPageBreak = (neededSpace: number): number => {
-    if (yPosition + neededSpace > pageHeight - 30) {
-      doc.addPage()
-      return 25
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+function generateMarkdownFilename(project: ExportProject): string {
+  const timestamp = new Date().toISOString().split('T')[0]
+  const sanitizedName = project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
+  return `${sanitizedName}_export_${timestamp}.md`
+}
+
+// Escape characters that would otherwise turn names into markdown formatting
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#|<>])/g, '\\$1')
+}
+
+// Notes use "- ", "* " or "• " bullets; markdown output settles on "- "
+function formatNoteMarkdown(content: string): string {
+  return content
+    .split('\n')
+    .map(line => line.trimEnd().replace(/^(\s*)[•*-]\s+/, '$1- '))
+    .join('\n')
+    .trim()
+}
+
+// Check PDF report options before generating, returning a message for the first problem
+export function getPdfReportOptionsError(options: PdfReportOptions): string | null {
+  const { sections } = options
+  // Notes only appear under listed tasks, so they don't count as a section on their own
+  if (!sections.cover && !sections.stats && !sections.active && !sections.completed) {
+    return 'Choose at least one section for the report'
+  }
+  if (options.priorities.length === 0) {
+    return 'Choose at least one priority to include'
+  }
+  if (options.dueFrom && options.dueTo && options.dueFrom > options.dueTo) {
+    return 'The due date range ends before it starts'
+  }
+  return null
+}
+
+// Tasks listed in a PDF report after its priority and due date filters
+function filterReportTasks(tasks: ExportTask[], options: PdfReportOptions): ExportTask[] {
+  return tasks.filter(task => {
+    if (!options.priorities.includes(task.priority)) return false
+    if (options.dueFrom || options.dueTo) {
+      // A date range leaves out tasks without a due date
+      if (!task.due_date) return false
+      if (options.dueFrom && task.due_date < options.dueFrom) return false
+      if (options.dueTo && task.due_date > options.dueTo) return false
     }
-    return yPosition
+    return true
+  })
+}
+
+// Describe a PDF report's task filters, or null when every task is listed
+function describeReportFilters(options: PdfReportOptions): string | null {
+  const parts: string[] = []
+  if (options.priorities.length < 3) {
+    parts.push(`${options.priorities.join(' and ')} priority`)
+  }
+  if (options.dueFrom && options.dueTo) {
+    parts.push(`due ${formatDate(options.dueFrom)} – ${formatDate(options.dueTo)}`)
+  } else if (options.dueFrom) {
+    parts.push(`due from ${formatDate(options.dueFrom)}`)
+  } else if (options.dueTo) {
+    parts.push(`due by ${formatDate(options.dueTo)}`)
   }
+  return parts.length > 0 ? parts.join(', ') : null
+}
 
-      // HEADER - TaskFlow Branding
+// Generate PDF export, laid out and filtered by the report options
+export async function generatePDF(data: ExportData, options: PdfReportOptions = PDF_REPORT_PRESETS.detailed): Promise<string> {
+  const doc = new jsPDF({ orientation: options.orientation, format: options.pageSize })
+  const { project, metadata } = data
+  const { sections } = options
+  const title = options.title?.trim() || project.name
+  const reportTasks = filterReportTasks(project.tasks, options)
+  const filterDescription = describeReportFilters(options)
+  
+  let yPosition = 0
+  const {
+    pageWidth,
+    pageHeight,
+    margin,
+    contentWidth,
+    colors,
+    setTextColor,
+    addText,
+    addDivider,
+    addBackground,
+    addPageNumbers
+  } = createPdfWriter(doc)
+
+  // Helper function to check if we need a new page
+  const checkPageBreak = (neededSpace: number): number => startNewPageIfNeeded(doc, yPosition, neededSpace)
+
+  // HEADER - custom logo or TaskFlow branding, whichever sections are chosen
   yPosition = 25
   
   // Add blue background bar for header
   addBackground(0, 0, pageWidth, 45, colors.accent, 0.05)
   
-      // TaskFlow logo/title
+  if (options.logo) {
+    // Fit the logo in the header bar, keeping its proportions
+    const { width, height } = doc.getImageProperties(options.logo)
+    const scale = Math.min(60 / width, 25 / height)
+    doc.addImage(options.logo, margin, 10, width * scale, height * scale)
+    yPosition = 48
+  } else {
     yPosition = addText('TaskFlow', margin, yPosition + 5, { 
-    fontSize: 24, 
-    fontStyle: 'bold', 
-    color: colors.accent 
-  })
-  
-  yPosition = addText('Professional Project Management', margin, yPosition, { 
-    fontSize: 11, 
-    color: colors.secondary 
-  })
+      fontSize: 24, 
+      fontStyle: 'bold', 
+      color: colors.accent 
+    })
+    
+    yPosition = addText('Professional Project Management', margin, yPosition, { 
+      fontSize: 11, 
+      color: colors.secondary 
+    })
+  }
   
   // Export date - right aligned
   doc.setFontSize(9)
@@ -548,9 +961,9 @@ export async function generatePDF(data: ExportData): Promise<string> {
   
   yPosition += 15
 
-  // PROJECT TITLE SECTION
+  // REPORT TITLE SECTION
   yPosition = checkPageBreak(40)
-  yPosition = addText(project.name, margin, yPosition, { 
+  yPosition = addText(title, margin, yPosition, { 
     fontSize: 20, 
     fontStyle: 'bold', 
     color: colors.primary 
@@ -558,78 +971,95 @@ export async function generatePDF(data: ExportData): Promise<string> {
   
   yPosition = addDivider(yPosition + 2, colors.accent)
 
-  // PROJECT OVERVIEW SECTION
-  yPosition = checkPageBreak(60)
-  
-  // Description
-  if (project.description) {
-    yPosition = addText('Project Overview', margin, yPosition, { 
+  if (sections.cover) {
+    // PROJECT OVERVIEW SECTION
+    yPosition = checkPageBreak(60)
+    
+    // Description
+    if (project.description) {
+      yPosition = addText('Project Overview', margin, yPosition, { 
+        fontSize: 14, 
+        fontStyle: 'bold', 
+        color: colors.primary 
+      })
+      yPosition += 2
+      yPosition = addText(project.description, margin, yPosition, { 
+        fontSize: 11, 
+        color: colors.text 
+      })
+      yPosition += 8
+    }
+
+    // Start date if exists
+    if (project.formatted_start_date) {
+      yPosition = addText(`🗓️ Start Date: ${project.formatted_start_date}`, margin, yPosition, { 
+        fontSize: 12, 
+        fontStyle: 'bold', 
+        color: colors.warning 
+      })
+      yPosition += 10
+    }
+
+    // Due date if exists
+    if (project.formatted_due_date) {
+      yPosition = addText(`🗓️ Due Date: ${project.formatted_due_date}`, margin, yPosition, { 
+        fontSize: 12, 
+        fontStyle: 'bold', 
+        color: colors.warning 
+      })
+      yPosition += 10
+    }
+  }
+
+  if (sections.stats) {
+    // PROJECT STATISTICS CARD - always for the whole project, whatever the filters
+    yPosition = checkPageBreak(55)
+    
+    // Add light background for stats section
+    const statsHeight = 45
+    addBackground(margin - 5, yPosition - 5, contentWidth + 10, statsHeight, colors.accent, 0.03)
+    
+    yPosition = addText('Project Statistics', margin, yPosition, { 
       fontSize: 14, 
       fontStyle: 'bold', 
       color: colors.primary 
     })
-    yPosition += 2
-    yPosition = addText(project.description, margin, yPosition, { 
-      fontSize: 11, 
-      color: colors.text 
+    yPosition += 5
+    
+    // Stats in two columns
+    const leftColumn = margin + 5
+    const rightColumn = margin + (contentWidth / 2) + 5
+    
+    const leftStats = [
+      `📊 Total Tasks: ${project.tasks_count}`,
+      `📝 Total Notes: ${project.total_notes_count}`
+    ]
+    
+    const rightStats = [
+      `✅ Completed: ${project.completed_tasks_count}`,
+      `📈 Progress: ${project.completion_percentage}%`
+    ]
+    
+    let statsY = yPosition
+    leftStats.forEach(stat => {
+      statsY = addText(stat, leftColumn, statsY, { fontSize: 10, color: colors.text })
+      statsY += 2
     })
-    yPosition += 8
-  }
-
-  // PROJECT STATISTICS CARD
-  yPosition = checkPageBreak(55)
-  
-  // Add light background for stats section
-  const statsHeight = 45
-  addBackground(margin - 5, yPosition - 5, contentWidth + 10, statsHeight, colors.accent, 0.03)
-  
-  yPosition = addText('Project Statistics', margin, yPosition, { 
-    fontSize: 14, 
-    fontStyle: 'bold', 
-    color: colors.primary 
-  })
-  yPosition += 5
-  
-  // Stats in two columns
-  const leftColumn = margin + 5
-  const rightColumn = margin + (contentWidth / 2) + 5
-  
-  const leftStats = [
-    `📊 Total Tasks: ${project.tasks_count}`,
-    `📝 Total Notes: ${project.total_notes_count}`
-  ]
-  
-  const rightStats = [
-    `✅ Completed: ${project.completed_tasks_count}`,
-    `📈 Progress: ${project.completion_percentage}%`
-  ]
-  
-  let statsY = yPosition
-  leftStats.forEach(stat => {
-    statsY = addText(stat, leftColumn, statsY, { fontSize: 10, color: colors.text })
-    statsY += 2
-  })
-  
-  statsY = yPosition
-  rightStats.forEach(stat => {
-    statsY = addText(stat, rightColumn, statsY, { fontSize: 10, color: colors.text })
-    statsY += 2
-  })
-  
-  yPosition = Math.max(yPosition + 25, statsY + 10)
-
-  // Due date if exists
-  if (project.formatted_due_date) {
-    yPosition = addText(`🗓️ Due Date: ${project.formatted_due_date}`, margin, yPosition, { 
-      fontSize: 12, 
-      fontStyle: 'bold', 
-      color: colors.warning 
+    
+    statsY = yPosition
+    rightStats.forEach(stat => {
+      statsY = addText(stat, rightColumn, statsY, { fontSize: 10, color: colors.text })
+      statsY += 2
     })
-    yPosition += 10
+    
+    yPosition = Math.max(yPosition + 25, statsY + 10)
   }
 
   // TASKS SECTION
-  if (project.tasks.length > 0) {
+  const activeTasks = sections.active ? reportTasks.filter(task => !task.completed) : []
+  const completedTasks = sections.completed ? reportTasks.filter(task => task.completed) : []
+
+  if ((sections.active || sections.completed) && project.tasks.length > 0) {
     yPosition = checkPageBreak(30)
     yPosition = addDivider(yPosition, colors.accent)
     
@@ -638,11 +1068,23 @@ export async function generatePDF(data: ExportData): Promise<string> {
       fontStyle: 'bold', 
       color: colors.primary 
     })
-    yPosition += 8
+    yPosition += 2
 
-    // Group tasks by completion status
-    const activeTasks = project.tasks.filter(task => !task.completed)
-    const completedTasks = project.tasks.filter(task => task.completed)
+    if (filterDescription) {
+      yPosition = addText(`Showing tasks that are ${filterDescription} (${reportTasks.length} of ${project.tasks.length})`, margin, yPosition, { 
+        fontSize: 9, 
+        color: colors.secondary 
+      })
+    }
+    yPosition += 6
+
+    if (activeTasks.length === 0 && completedTasks.length === 0) {
+      yPosition = addText('No tasks match this report.', margin, yPosition, { 
+        fontSize: 10, 
+        color: colors.muted 
+      })
+      yPosition += 6
+    }
 
     // Active tasks
     if (activeTasks.length > 0) {
@@ -656,9 +1098,10 @@ export async function generatePDF(data: ExportData): Promise<string> {
 
       for (const task of activeTasks) {
         yPosition = checkPageBreak(40)
+        const notes = sections.notes ? task.notes : []
         
         // Task background
-        const taskHeight = 15 + (task.notes.length * 8)
+        const taskHeight = 15 + (notes.length * 8)
         addBackground(margin - 2, yPosition - 2, contentWidth + 4, taskHeight, colors.accent, 0.02)
         
         // Priority indicator and task name
@@ -672,8 +1115,11 @@ export async function generatePDF(data: ExportData): Promise<string> {
         })
         yPosition += 1
         
-        // Priority and due date info
+        // Priority and date info
         let taskInfo = `Priority: ${task.priority}`
+        if (task.formatted_start_date) {
+          taskInfo += ` • Starts: ${task.formatted_start_date}`
+        }
         if (task.formatted_due_date) {
           taskInfo += ` • Due: ${task.formatted_due_date}`
         }
@@ -684,15 +1130,15 @@ export async function generatePDF(data: ExportData): Promise<string> {
         yPosition += 1
         
         // Notes
-        if (task.notes.length > 0) {
-          yPosition = addText(`📝 Notes (${task.notes.length}):`, margin + 15, yPosition, { 
+        if (notes.length > 0) {
+          yPosition = addText(`📝 Notes (${notes.length}):`, margin + 15, yPosition, { 
             fontSize: 9, 
             fontStyle: 'bold', 
             color: colors.secondary 
           })
           yPosition += 1
           
-          for (const note of task.notes) {
+          for (const note of notes) {
             yPosition = checkPageBreak(15)
             yPosition = addText(`• ${note.formatted_content}`, margin + 20, yPosition, { 
               fontSize: 9, 
@@ -718,9 +1164,10 @@ export async function generatePDF(data: ExportData): Promise<string> {
 
       for (const task of completedTasks) {
         yPosition = checkPageBreak(25)
+        const notes = sections.notes ? task.notes : []
         
         // Completed task background (lighter)
-        const taskHeight = 12 + (task.notes.length * 6)
+        const taskHeight = 12 + (notes.length * 6)
         addBackground(margin - 2, yPosition - 2, contentWidth + 4, taskHeight, colors.success, 0.02)
         
         yPosition = addText(`✅ ${task.name}`, margin + 2, yPosition, { 
@@ -729,14 +1176,14 @@ export async function generatePDF(data: ExportData): Promise<string> {
         })
         yPosition += 1
         
-        if (task.notes.length > 0) {
-          yPosition = addText(`📝 ${task.notes.length} note(s)`, margin + 15, yPosition, { 
+        if (notes.length > 0) {
+          yPosition = addText(`📝 ${notes.length} note(s)`, margin + 15, yPosition, { 
             fontSize: 8, 
             color: colors.muted 
           })
           yPosition += 1
           
-          for (const note of task.notes) {
+          for (const note of notes) {
             yPosition = checkPageBreak(10)
             yPosition = addText(`• ${note.formatted_content}`, margin + 20, yPosition, { 
               fontSize: 8, 
@@ -763,15 +1210,7 @@ export async function generatePDF(data: ExportData): Promise<string> {
   })
   
   // Page number
-  const pageCount = doc.getNumberOfPages()
-  for (let i = 1; i <= pageCount; i++) {
-    doc.setPage(i)
-    doc.setFontSize(8)
-    setTextColor(colors.muted)
-    const pageText = `Page ${i} of ${pageCount}`
-    const pageTextWidth = doc.getTextWidth(pageText)
-    doc.text(pageText, pageWidth - margin - pageTextWidth, pageHeight - 10)
-  }
+  addPageNumbers()
 
   return doc.output('datauristring')
 }
@@ -780,4 +1219,248 @@ function generatePDFFilename(project: ExportProject): string {
   const timestamp = new Date().toISOString().split('T')[0]
   const sanitizedName = project.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()
   return `${sanitizedName}_export_${timestamp}.pdf`
+}
+
+// Generate an account-wide status report: overall totals, then each project's progress and open tasks
+export function generateAccountPDF(data: AccountExportData): ArrayBuffer {
+  const doc = new jsPDF()
+  const { metadata, summary, projects } = data
+
+  let yPosition = 0
+  const {
+    pageWidth,
+    pageHeight,
+    margin,
+    contentWidth,
+    colors,
+    setTextColor,
+    addText,
+    addDivider,
+    addBackground,
+    addPageNumbers
+  } = createPdfWriter(doc)
+
+  const checkPageBreak = (neededSpace: number): number => startNewPageIfNeeded(doc, yPosition, neededSpace)
+
+  // HEADER - TaskFlow Branding
+  yPosition = 25
+  addBackground(0, 0, pageWidth, 45, colors.accent, 0.05)
+
+  yPosition = addText('TaskFlow', margin, yPosition + 5, {
+    fontSize: 24,
+    fontStyle: 'bold',
+    color: colors.accent
+  })
+  yPosition = addText(`Account Status Report • ${summary.user_email}`, margin, yPosition, {
+    fontSize: 11,
+    color: colors.secondary
+  })
+
+  doc.setFontSize(9)
+  setTextColor(colors.muted)
+  const exportText = `Exported on ${metadata.export_date}`
+  doc.text(exportText, pageWidth - margin - doc.getTextWidth(exportText), 20)
+
+  yPosition += 15
+
+  // ACCOUNT SUMMARY CARD
+  addBackground(margin - 5, yPosition - 5, contentWidth + 10, 45, colors.accent, 0.03)
+  yPosition = addText('Summary', margin, yPosition, {
+    fontSize: 14,
+    fontStyle: 'bold',
+    color: colors.primary
+  })
+  yPosition += 5
+
+  const leftStats = [
+    `📁 Projects: ${summary.project_count}`,
+    `📊 Total Tasks: ${summary.total_tasks}`,
+    `📝 Total Notes: ${summary.total_notes}`
+  ]
+  const rightStats = [
+    `✅ Completed: ${summary.completed_tasks}`,
+    `📈 Progress: ${summary.completion_percentage}%`,
+    `⚠️ Overdue: ${summary.overdue_tasks}`
+  ]
+
+  let statsY = yPosition
+  leftStats.forEach(stat => {
+    statsY = addText(stat, margin + 5, statsY, { fontSize: 10 }) + 2
+  })
+  statsY = yPosition
+  rightStats.forEach(stat => {
+    statsY = addText(stat, margin + (contentWidth / 2) + 5, statsY, { fontSize: 10 }) + 2
+  })
+  yPosition = statsY + 12
+
+  // PROJECTS SECTION
+  const today = formatDateFns(new Date(), 'yyyy-MM-dd')
+
+  for (const { project } of projects) {
+    yPosition = checkPageBreak(40)
+    yPosition = addDivider(yPosition, colors.accent)
+    yPosition = addText(project.name, margin, yPosition, {
+      fontSize: 14,
+      fontStyle: 'bold',
+      color: colors.primary
+    })
+
+    const overdueCount = project.tasks.filter(task => !task.completed && task.due_date && task.due_date < today).length
+    let projectInfo = `Progress: ${project.completion_percentage}% • ${project.completed_tasks_count} of ${project.tasks_count} tasks done`
+    if (project.formatted_due_date) {
+      projectInfo += ` • Due: ${project.formatted_due_date}`
+    }
+    yPosition = addText(projectInfo, margin, yPosition, { fontSize: 10, color: colors.secondary })
+    if (overdueCount > 0) {
+      yPosition = addText(`⚠️ ${overdueCount} overdue`, margin, yPosition, { fontSize: 10, fontStyle: 'bold', color: colors.danger })
+    }
+    yPosition += 3
+
+    const activeTasks = project.tasks.filter(task => !task.completed)
+    if (activeTasks.length === 0) {
+      yPosition = addText(project.tasks.length > 0 ? 'All tasks completed' : 'No tasks yet', margin + 5, yPosition, {
+        fontSize: 9,
+        color: colors.muted
+      })
+    }
+
+    for (const task of activeTasks) {
+      yPosition = checkPageBreak(10)
+      const priorityColor = task.priority === 'High' ? colors.danger : task.priority === 'Medium' ? colors.warning : colors.success
+      const isOverdue = !!task.due_date && task.due_date < today
+      yPosition = addText(
+        `• [${task.priority}] ${task.name} — ${task.status}${task.formatted_due_date ? ` • Due: ${task.formatted_due_date}` : ''}`,
+        margin + 5,
+        yPosition,
+        { fontSize: 9, color: isOverdue ? colors.danger : priorityColor, maxWidth: contentWidth - 5 }
+      )
+    }
+    yPosition += 8
+  }
+
+  // FOOTER
+  addText(`Generated by TaskFlow • ${metadata.export_timestamp}`, margin, pageHeight - 20, {
+    fontSize: 8,
+    color: colors.muted
+  })
+  addPageNumbers()
+
+  return doc.output('arraybuffer')
+}
+
+// Shared layout, colors and drawing helpers for the PDF exports
+function createPdfWriter(doc: jsPDF) {
+  const pageWidth = doc.internal.pageSize.width
+  const pageHeight = doc.internal.pageSize.height
+  const margin = 25
+  const contentWidth = pageWidth - (margin * 2)
+  
+  // Color scheme (matching website theme)
+  const colors = {
+    primary: '#1f2937',      // Dark gray for headers
+    secondary: '#6b7280',    // Medium gray for subheaders
+    text: '#374151',         // Darker gray for body text
+    muted: '#9ca3af',        // Light gray for metadata
+    accent: '#3b82f6',       // Blue for highlights
+    success: '#10b981',      // Green for completed items
+    warning: '#f59e0b',      // Orange for medium priority
+    danger: '#ef4444'        // Red for high priority
+  }
+
+  // Helper function to set text color
+  const setTextColor = (color: string) => {
+    const hex = color.replace('#', '')
+    const r = parseInt(hex.substr(0, 2), 16)
+    const g = parseInt(hex.substr(2, 2), 16)
+    const b = parseInt(hex.substr(4, 2), 16)
+    doc.setTextColor(r, g, b)
+  }
+
+  // Helper function to add text with word wrapping and color
+  const addText = (text: string, x: number, y: number, options: { 
+    fontSize?: number, 
+    fontStyle?: string, 
+    maxWidth?: number,
+    color?: string,
+    align?: 'left' | 'center' | 'right'
+  } = {}): number => {
+    const { fontSize = 10, fontStyle = 'normal', maxWidth = contentWidth, color = colors.text, align = 'left' } = options
+    
+    doc.setFontSize(fontSize)
+    doc.setFont('helvetica', fontStyle as 'normal' | 'bold' | 'italic' | 'bolditalic')
+    setTextColor(color)
+    
+    const lines = doc.splitTextToSize(text, maxWidth)
+    
+    if (align === 'center') {
+      lines.forEach((line: string, i: number) => {
+        const textWidth = doc.getTextWidth(line)
+        const xPos = (pageWidth - textWidth) / 2
+        doc.text(line, xPos, y + (i * fontSize * 0.4))
+      })
+    } else {
+      doc.text(lines, x, y, { align: align as 'left' | 'center' | 'right' })
+    }
+    
+    return y + (lines.length * fontSize * 0.4) + 2
+  }
+
+  // Helper function to add divider line
+  const addDivider = (y: number, color: string = colors.muted): number => {
+    const hex = color.replace('#', '')
+    const r = parseInt(hex.substr(0, 2), 16)
+    const g = parseInt(hex.substr(2, 2), 16)
+    const b = parseInt(hex.substr(4, 2), 16)
+    doc.setDrawColor(r, g, b)
+    doc.setLineWidth(0.5)
+    doc.line(margin, y, pageWidth - margin, y)
+    return y + 8
+  }
+
+  // Helper function to add colored rectangle background
+  const addBackground = (x: number, y: number, width: number, height: number, color: string, opacity: number = 0.1) => {
+    const hex = color.replace('#', '')
+    const r = parseInt(hex.substr(0, 2), 16)
+    const g = parseInt(hex.substr(2, 2), 16)
+    const b = parseInt(hex.substr(4, 2), 16)
+    doc.setFillColor(r, g, b)
+    doc.setGState(doc.GState({ opacity: opacity }))
+    doc.rect(x, y, width, height, 'F')
+    doc.setGState(doc.GState({ opacity: 1 })) // Reset opacity
+  }
+
+  // Helper function to number every page in the bottom right corner
+  const addPageNumbers = () => {
+    const pageCount = doc.getNumberOfPages()
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i)
+      doc.setFontSize(8)
+      setTextColor(colors.muted)
+      const pageText = `Page ${i} of ${pageCount}`
+      const pageTextWidth = doc.getTextWidth(pageText)
+      doc.text(pageText, pageWidth - margin - pageTextWidth, pageHeight - 10)
+    }
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    margin,
+    contentWidth,
+    colors,
+    setTextColor,
+    addText,
+    addDivider,
+    addBackground,
+    addPageNumbers
+  }
+}
+
+// Start a new page when the content below y would run into the footer, returning where to continue
+function startNewPageIfNeeded(doc: jsPDF, y: number, neededSpace: number): number {
+  if (y + neededSpace > doc.internal.pageSize.height - 30) {
+    doc.addPage()
+    return 25
+  }
+  return y
 } 
\ No newline at end of file
@@ -0,0 +1,129 @@
+// iCalendar (RFC 5545) output shared by the .ics download and the subscription feed.
+// Due dates are all-day events, so they land on the same day in every time zone.
+
+import { addDays, format, parseISO } from 'date-fns'
+import { CalendarFeedItem } from '@/types'
+
+export interface ICalendarOptions {
+  // Origin that event links point at, e.g. https://taskflow.example.com
+  appUrl: string
+  calendarName?: string
+  // Leave completed tasks out instead of marking them as done
+  excludeCompleted?: boolean
+}
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest)
+const ICAL_PRIORITIES = { High: 1, Medium: 5, Low: 9 }
+
+/**
+ * Escape commas, semicolons, backslashes and line breaks in a text value
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line longer than 75 octets onto continuation lines that start with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentLength = 0
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    if (currentLength + charLength > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      currentLength = 0
+    }
+    current += char
+    currentLength += charLength
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function formatDateValue(date: Date): string {
+  return format(date, 'yyyyMMdd')
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Build an iCalendar file with one all-day event per task or project deadline.
+ * Completed tasks are prefixed with a check mark unless they are excluded.
+ */
+export function generateICalendar(items: CalendarFeedItem[], options: ICalendarOptions): string {
+  const { appUrl, calendarName = 'TaskFlow due dates', excludeCompleted = false } = options
+  const stamp = formatTimestamp(new Date())
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TaskFlow//Due Dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`
+  ]
+
+  items
+    .filter(item => !(excludeCompleted && item.completed))
+    .forEach(item => {
+      const link = `${appUrl}/projects/${item.project_id}`
+      const dueDate = parseISO(item.due_date)
+      const summary = item.item_type === 'project'
+        ? `Project deadline: ${item.name}`
+        : `${item.completed ? '✓ ' : ''}${item.name} (${item.project_name})`
+      const description = [
+        item.item_type === 'project' ? `Deadline for project ${item.project_name}` : `Task in ${item.project_name}`,
+        item.priority && `Priority: ${item.priority}`,
+        item.completed && 'Completed',
+        link
+      ].filter(Boolean).join('\n')
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${item.item_type}-${item.id}@taskflow`,
+        `DTSTAMP:${stamp}`,
+        `LAST-MODIFIED:${formatTimestamp(new Date(item.updated_at))}`,
+        `DTSTART;VALUE=DATE:${formatDateValue(dueDate)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(addDays(dueDate, 1))}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${link}`,
+        `CATEGORIES:${escapeText(item.project_name)}`,
+        // Due dates shouldn't block time in the calendar
+        'TRANSP:TRANSPARENT'
+      )
+      if (item.priority) {
+        lines.push(`PRIORITY:${ICAL_PRIORITIES[item.priority]}`)
+      }
+      lines.push('END:VEVENT')
+    })
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+export function generateICalendarFilename(): string {
+  const timestamp = new Date().toISOString().split('T')[0]
+  return `taskflow_due_dates_${timestamp}.ics`
+}
+
+/**
+ * The subscription URL for a calendar feed token
+ */
+export function getCalendarFeedUrl(appUrl: string, token: string, excludeCompleted: boolean = false): string {
+  return `${appUrl}/api/calendar/${token}.ics${excludeCompleted ? '?completed=exclude' : ''}`
+}
@@ -0,0 +1,456 @@
+import { format, isValid, parse, parseISO } from 'date-fns'
+
+import { ApiResponse, Task, TaskStatus } from '@/types'
+import { createTask, createNote } from './database'
+import { isValidDateRange, isValidRecurrence, sortTaskStatuses } from './task-utils'
+import { EXPORT_VERSION, ExportData, ExportTask, validateExportData } from './export'
+
+// Summary of what an import will create, shown before anything is written
+export interface ProjectImportPreview {
+  projectName: string
+  exportDate: string
+  version: string
+  taskCount: number
+  subtaskCount: number
+  completedTaskCount: number
+  noteCount: number
+  // 0 when the export predates statuses and the project's defaults will be used
+  statusCount: number
+}
+
+const PRIORITIES = ['High', 'Medium', 'Low']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isOptionalDate = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && isValid(parseISO(value)))
+
+const getMajorVersion = (version: string) => version.match(/^(\d+)\.\d+\.\d+$/)?.[1]
+
+/**
+ * Parse and validate the contents of a JSON project export. Fields added to the export
+ * format over time (statuses, note titles) are filled in for older files, and tasks are
+ * returned with every parent before its subtasks.
+ */
+export function parseProjectImport(text: string): ApiResponse<ExportData> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return {
+      success: false,
+      error: 'The file is not valid JSON'
+    }
+  }
+
+  if (!isRecord(raw) || !isRecord(raw.metadata) || !isRecord(raw.project)) {
+    return {
+      success: false,
+      error: 'The file is not a project export'
+    }
+  }
+
+  const version = raw.metadata.version
+  const majorVersion = typeof version === 'string' ? getMajorVersion(version) : undefined
+  if (!majorVersion) {
+    return {
+      success: false,
+      error: 'The export has no valid schema version'
+    }
+  }
+  if (majorVersion !== getMajorVersion(EXPORT_VERSION)) {
+    return {
+      success: false,
+      error: `Export version ${version} is not supported (expected ${getMajorVersion(EXPORT_VERSION)}.x)`
+    }
+  }
+
+  const structureError = validateImportStructure(raw.project)
+  if (structureError) {
+    return {
+      success: false,
+      error: structureError
+    }
+  }
+
+  const data = raw as unknown as ExportData
+  if (!validateExportData(data)) {
+    return {
+      success: false,
+      error: 'The export is missing its project, tasks or notes'
+    }
+  }
+
+  const { project } = data
+  const error = validateProjectFields(project)
+  if (error) {
+    return {
+      success: false,
+      error
+    }
+  }
+
+  const tasks = project.tasks.map(task => ({
+    ...task,
+    notes: task.notes.map(note => ({ ...note, title: note.title || 'Note' }))
+  }))
+
+  const orderedTasks = orderParentsFirst(tasks)
+  if (!orderedTasks) {
+    return {
+      success: false,
+      error: 'The export has subtasks whose parent task is missing'
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      ...data,
+      project: {
+        ...project,
+        statuses: Array.isArray(project.statuses) ? project.statuses : [],
+        tasks: orderedTasks
+      }
+    }
+  }
+}
+
+/**
+ * Check that the project, its tasks and their notes have the shape of an export before
+ * their values are read, returning a message for the first problem found
+ */
+function validateImportStructure(project: Record<string, unknown>): string | null {
+  if (typeof project.name !== 'string') {
+    return 'project.name must be a string'
+  }
+  if (project.description !== undefined && project.description !== null && typeof project.description !== 'string') {
+    return 'project.description must be a string'
+  }
+  if (!Array.isArray(project.tasks)) {
+    return 'project.tasks must be an array'
+  }
+
+  for (const [index, task] of project.tasks.entries()) {
+    const path = `tasks[${index}]`
+    if (!isRecord(task)) {
+      return `${path} must be an object`
+    }
+    if (typeof task.id !== 'string' || !task.id) {
+      return `${path}.id must be a non-empty string`
+    }
+    if (typeof task.name !== 'string') {
+      return `${path}.name must be a string`
+    }
+    if (task.parent_task_id !== undefined && task.parent_task_id !== null && typeof task.parent_task_id !== 'string') {
+      return `${path}.parent_task_id must be a string`
+    }
+    if (task.status_id !== undefined && task.status_id !== null && typeof task.status_id !== 'string') {
+      return `${path}.status_id must be a string`
+    }
+    if (task.completed !== undefined && typeof task.completed !== 'boolean') {
+      return `${path}.completed must be true or false`
+    }
+    if (task.recurrence !== undefined && task.recurrence !== null) {
+      if (!isRecord(task.recurrence)) {
+        return `${path}.recurrence must be an object`
+      }
+      if (task.recurrence.type === 'weekly' && !Array.isArray(task.recurrence.weekdays)) {
+        return `${path}.recurrence.weekdays must be an array`
+      }
+    }
+    if (!Array.isArray(task.notes)) {
+      return `${path}.notes must be an array`
+    }
+    const noteIndex = task.notes.findIndex(note => !isRecord(note))
+    if (noteIndex !== -1) {
+      return `${path}.notes[${noteIndex}] must be an object`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check the project, status, task and note fields against the database's rules,
+ * returning a message for the first problem found
+ */
+function validateProjectFields(project: ExportData['project']): string | null {
+  if (project.name.length > 100 || (project.description && project.description.length > 500)) {
+    return 'The project name or description is too long'
+  }
+  if (!isOptionalDate(project.start_date) || !isOptionalDate(project.due_date) ||
+    !isValidDateRange(project.start_date, project.due_date)) {
+    return 'The project has invalid dates'
+  }
+
+  if (project.statuses !== undefined) {
+    if (!Array.isArray(project.statuses)) {
+      return 'The export has invalid statuses'
+    }
+    const invalidStatus = project.statuses.find(status =>
+      !isRecord(status) || !status.id || typeof status.name !== 'string' || !status.name || status.name.length > 50 ||
+      !/^#[0-9a-fA-F]{6}$/.test(status.color) || typeof status.is_done !== 'boolean' || typeof status.position !== 'number'
+    )
+    if (invalidStatus) {
+      return 'The export has invalid statuses'
+    }
+    if (project.statuses.length > 0 && !project.statuses.some(status => !status.is_done)) {
+      return 'The export needs at least one status that is not done'
+    }
+    if (project.statuses.length > 0 && !project.statuses.some(status => status.is_done)) {
+      return 'The export needs at least one done status'
+    }
+  }
+
+  const taskIds = new Set<string>()
+  for (const task of project.tasks) {
+    if (taskIds.has(task.id)) {
+      return `Task "${task.name}" appears more than once`
+    }
+    taskIds.add(task.id)
+
+    if (task.name.length > 100) {
+      return `Task "${task.name.slice(0, 30)}..." has a name longer than 100 characters`
+    }
+    if (!PRIORITIES.includes(task.priority)) {
+      return `Task "${task.name}" has an invalid priority`
+    }
+    if (!isOptionalDate(task.start_date) || !isOptionalDate(task.due_date) ||
+      !isValidDateRange(task.start_date, task.due_date)) {
+      return `Task "${task.name}" has invalid dates`
+    }
+    if (task.recurrence && (!isRecord(task.recurrence) || !isValidRecurrence(task.recurrence))) {
+      return `Task "${task.name}" has an invalid recurrence`
+    }
+
+    const invalidNote = task.notes.find(note =>
+      typeof note.content !== 'string' || !note.content.trim() || note.content.length > 10000 ||
+      (note.title !== undefined && (typeof note.title !== 'string' || note.title.length > 100))
+    )
+    if (invalidNote) {
+      return `Task "${task.name}" has an invalid note`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Sort tasks so every parent comes before its subtasks, or return null when a parent
+ * is missing or the hierarchy loops
+ */
+function orderParentsFirst(tasks: ExportTask[]): ExportTask[] | null {
+  const ordered: ExportTask[] = []
+  const placed = new Set<string>()
+  let remaining = tasks
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(task => !task.parent_task_id || placed.has(task.parent_task_id))
+    if (ready.length === 0) {
+      return null
+    }
+
+    ready.forEach(task => {
+      ordered.push(task)
+      placed.add(task.id)
+    })
+    remaining = remaining.filter(task => !placed.has(task.id))
+  }
+
+  return ordered
+}
+
+/**
+ * Summarize a parsed export for the import preview
+ */
+export function getProjectImportPreview(data: ExportData): ProjectImportPreview {
+  const { project, metadata } = data
+
+  return {
+    projectName: project.name,
+    exportDate: metadata.export_date,
+    version: metadata.version,
+    taskCount: project.tasks.filter(task => !task.parent_task_id).length,
+    subtaskCount: project.tasks.filter(task => task.parent_task_id).length,
+    completedTaskCount: project.tasks.filter(task => task.completed).length,
+    noteCount: project.tasks.reduce((sum, task) => sum + task.notes.length, 0),
+    statusCount: project.statuses.length
+  }
+}
+
+// ============================================================================
+// TASK CSV IMPORT
+// ============================================================================
+
+// Task fields a CSV column can be mapped to
+export type CsvTaskField = 'name' | 'priority' | 'start_date' | 'due_date' | 'completed' | 'notes'
+
+// Column index in the CSV for each mapped field
+export type CsvColumnMapping = Partial<Record<CsvTaskField, number>>
+
+export const CSV_TASK_FIELDS: { field: CsvTaskField; label: string; headers: string[] }[] = [
+  { field: 'name', label: 'Task name', headers: ['task', 'name', 'task name', 'title'] },
+  { field: 'priority', label: 'Priority', headers: ['priority'] },
+  { field: 'start_date', label: 'Start date', headers: ['start date', 'start', 'start_date'] },
+  { field: 'due_date', label: 'Due date', headers: ['due date', 'due', 'due_date', 'deadline'] },
+  { field: 'completed', label: 'Completed', headers: ['completed', 'done', 'complete'] },
+  { field: 'notes', label: 'Notes', headers: ['notes', 'note', 'description'] }
+]
+
+export interface CsvTask {
+  name: string
+  priority: 'High' | 'Medium' | 'Low'
+  start_date: string | null
+  due_date: string | null
+  completed: boolean
+  notes: string
+}
+
+// One data row of the CSV after mapping, with the problem that keeps it from being imported
+export interface CsvTaskRow {
+  // Line in the file, counting the header as line 1
+  line: number
+  task?: CsvTask
+  error?: string
+}
+
+// ISO dates as exported, and the US style spreadsheets default to; years need four digits
+const CSV_DATE_FORMATS: [RegExp, string][] = [
+  [/^\d{4}-\d{1,2}-\d{1,2}$/, 'yyyy-M-d'],
+  [/^\d{1,2}\/\d{1,2}\/\d{4}$/, 'M/d/yyyy']
+]
+
+/**
+ * Map each field to the first column whose header matches one of its usual names
+ */
+export function guessCsvColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase())
+  const mapping: CsvColumnMapping = {}
+
+  CSV_TASK_FIELDS.forEach(({ field, headers: names }) => {
+    const index = normalized.findIndex(header => names.includes(header))
+    if (index !== -1) {
+      mapping[field] = index
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Read a spreadsheet date as yyyy-MM-dd; blank is null and anything unreadable is undefined
+ */
+function parseCsvDate(value: string): string | null | undefined {
+  if (!value) return null
+
+  const match = CSV_DATE_FORMATS.find(([pattern]) => pattern.test(value))
+  const date = match ? parse(value, match[1], new Date()) : null
+  return date && isValid(date) ? format(date, 'yyyy-MM-dd') : undefined
+}
+
+function parseCsvCompleted(value: string): boolean | undefined {
+  const normalized = value.toLowerCase()
+  if (['yes', 'y', 'true', '1', 'x', 'done', 'completed'].includes(normalized)) return true
+  if (['', 'no', 'n', 'false', '0', 'open'].includes(normalized)) return false
+  return undefined
+}
+
+/**
+ * Turn CSV data rows (without the header) into tasks using the column mapping,
+ * validating names, priorities and dates the same way the task form does
+ */
+export function mapCsvTasks(rows: string[][], mapping: CsvColumnMapping): CsvTaskRow[] {
+  const cell = (row: string[], field: CsvTaskField) =>
+    mapping[field] !== undefined ? (row[mapping[field]!] || '').trim() : ''
+
+  return rows.map((row, index) => {
+    const line = index + 2
+    const name = cell(row, 'name')
+    const priorityValue = cell(row, 'priority').toLowerCase()
+    const priority = PRIORITIES.find(option => option.toLowerCase() === priorityValue)
+    const startDate = parseCsvDate(cell(row, 'start_date'))
+    const dueDate = parseCsvDate(cell(row, 'due_date'))
+    const completed = parseCsvCompleted(cell(row, 'completed'))
+    const notes = cell(row, 'notes')
+
+    const error =
+      !name ? 'Task name is empty' :
+      name.length > 100 ? 'Task name is longer than 100 characters' :
+      priorityValue && !priority ? `Priority "${cell(row, 'priority')}" is not High, Medium or Low` :
+      startDate === undefined ? `Start date "${cell(row, 'start_date')}" is not a date` :
+      dueDate === undefined ? `Due date "${cell(row, 'due_date')}" is not a date` :
+      !isValidDateRange(startDate, dueDate) ? 'Start date is after the due date' :
+      completed === undefined ? `Completed "${cell(row, 'completed')}" is not yes or no` :
+      notes.length > 10000 ? 'Notes are longer than 10000 characters' :
+      undefined
+
+    if (error) {
+      return { line, error }
+    }
+
+    return {
+      line,
+      task: {
+        name,
+        priority: (priority || 'Medium') as CsvTask['priority'],
+        start_date: startDate ?? null,
+        due_date: dueDate ?? null,
+        completed: completed ?? false,
+        notes
+      }
+    }
+  })
+}
+
+/**
+ * Create the mapped CSV tasks in a project, one createTask call each. Completed tasks go
+ * straight into the project's first done status, and a Notes cell becomes a note.
+ */
+export async function importCsvTasks(
+  projectId: string,
+  tasks: CsvTask[],
+  statuses: TaskStatus[]
+): Promise<ApiResponse<Task[]>> {
+  const doneStatus = sortTaskStatuses(statuses).find(status => status.is_done)
+  const created: Task[] = []
+
+  for (const task of tasks) {
+    const taskResult = await createTask({
+      project_id: projectId,
+      name: task.name,
+      priority: task.priority,
+      start_date: task.start_date,
+      due_date: task.due_date,
+      status_id: task.completed ? doneStatus?.id : undefined
+    })
+
+    if (!taskResult.success || !taskResult.data) {
+      return {
+        success: false,
+        error: `Imported ${created.length} of ${tasks.length} tasks, then "${task.name}" failed: ${taskResult.error}`
+      }
+    }
+    created.push(taskResult.data)
+
+    if (task.notes) {
+      const noteResult = await createNote({
+        task_id: taskResult.data.id,
+        title: 'Imported notes',
+        content: task.notes
+      })
+      if (!noteResult.success) {
+        return {
+          success: false,
+          error: `Imported ${created.length} of ${tasks.length} tasks, but the notes for "${task.name}" failed: ${noteResult.error}`
+        }
+      }
+    }
+  }
+
+  return {
+    success: true,
+    data: created
+  }
+}
@@ -0,0 +1,308 @@
+import { addDays, addMonths, format, getDay, getDaysInMonth, parseISO, setDate, startOfDay, startOfMonth } from 'date-fns'
+
+import { Task, TaskWithSubtasks, TaskDependency, TaskDependencyWithTask, LinkedTask, TaskStatus, TaskRecurrence, Tag } from '@/types'
+
+// Pure helpers for working with task hierarchies and dependencies on the client and in the data layer
+
+/**
+ * Build a task tree from a flat list of tasks, preserving the input order of siblings.
+ * Tasks whose parent is not in the list are treated as top-level tasks.
+ */
+export function buildTaskTree(tasks: Task[]): TaskWithSubtasks[] {
+  const nodes = new Map<string, TaskWithSubtasks>()
+  tasks.forEach(task => {
+    nodes.set(task.id, { ...task, subtasks: [] })
+  })
+
+  const roots: TaskWithSubtasks[] = []
+  tasks.forEach(task => {
+    const node = nodes.get(task.id)!
+    const parent = task.parent_task_id ? nodes.get(task.parent_task_id) : undefined
+    if (parent) {
+      parent.subtasks.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots
+}
+
+/**
+ * Flatten a task tree back into a depth-first list of plain tasks
+ */
+export function flattenTaskTree(tree: TaskWithSubtasks[]): Task[] {
+  const result: Task[] = []
+
+  const visit = (nodes: TaskWithSubtasks[]) => {
+    nodes.forEach(node => {
+      const { subtasks, ...task } = node
+      result.push(task)
+      visit(subtasks)
+    })
+  }
+
+  visit(tree)
+  return result
+}
+
+/**
+ * Get the IDs of every descendant (children, grandchildren, ...) of a task
+ */
+export function getDescendantIds(tasks: Task[], taskId: string): string[] {
+  const childrenByParent = new Map<string, string[]>()
+  tasks.forEach(task => {
+    if (task.parent_task_id) {
+      const siblings = childrenByParent.get(task.parent_task_id) || []
+      siblings.push(task.id)
+      childrenByParent.set(task.parent_task_id, siblings)
+    }
+  })
+
+  const descendants: string[] = []
+  const queue = [...(childrenByParent.get(taskId) || [])]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    // Guard against malformed data containing cycles
+    if (descendants.includes(id) || id === taskId) continue
+    descendants.push(id)
+    queue.push(...(childrenByParent.get(id) || []))
+  }
+
+  return descendants
+}
+
+/**
+ * Roll up completion across all descendants of a task
+ */
+export function getSubtaskProgress(task: TaskWithSubtasks): {
+  completed: number
+  total: number
+  percentage: number
+} {
+  let completed = 0
+  let total = 0
+
+  const visit = (nodes: TaskWithSubtasks[]) => {
+    nodes.forEach(node => {
+      total++
+      if (node.completed) completed++
+      visit(node.subtasks)
+    })
+  }
+
+  visit(task.subtasks)
+
+  return {
+    completed,
+    total,
+    percentage: total > 0 ? Math.round((completed / total) * 100) : 0
+  }
+}
+
+/**
+ * Check whether making a task depend on the given prerequisites would create a dependency cycle.
+ * The task's existing prerequisites are ignored since the new set replaces them.
+ */
+export function wouldCreateDependencyCycle(
+  dependencies: Pick<TaskDependency, 'task_id' | 'depends_on_task_id'>[],
+  taskId: string,
+  dependsOnTaskIds: string[]
+): boolean {
+  const prerequisitesByTask = new Map<string, string[]>()
+  dependencies
+    .filter(dependency => dependency.task_id !== taskId)
+    .forEach(dependency => {
+      const prerequisites = prerequisitesByTask.get(dependency.task_id) || []
+      prerequisites.push(dependency.depends_on_task_id)
+      prerequisitesByTask.set(dependency.task_id, prerequisites)
+    })
+
+  // Walk prerequisites of the new prerequisites; reaching the task itself means a cycle
+  const visited = new Set<string>()
+  const stack = [...dependsOnTaskIds]
+  while (stack.length > 0) {
+    const id = stack.pop()!
+    if (id === taskId) return true
+    if (visited.has(id)) continue
+    visited.add(id)
+    stack.push(...(prerequisitesByTask.get(id) || []))
+  }
+
+  return false
+}
+
+/**
+ * Group prerequisite tasks by the task they block
+ */
+export function groupPrerequisitesByTask(dependencies: TaskDependencyWithTask[]): Record<string, LinkedTask[]> {
+  return dependencies.reduce<Record<string, LinkedTask[]>>((groups, dependency) => {
+    groups[dependency.task_id] = [...(groups[dependency.task_id] || []), dependency.linked_task]
+    return groups
+  }, {})
+}
+
+/**
+ * Get the prerequisites that are still keeping a task blocked
+ */
+export function getIncompletePrerequisites(prerequisites: LinkedTask[] = []): LinkedTask[] {
+  return prerequisites.filter(prerequisite => !prerequisite.completed)
+}
+
+/**
+ * Get a sort position that places a task between two neighbours in a board column.
+ * Either neighbour may be missing when dropping at the start or end of the column.
+ */
+export function getPositionBetween(before?: number, after?: number): number {
+  if (before !== undefined && after !== undefined) return (before + after) / 2
+  if (before !== undefined) return before + 1
+  if (after !== undefined) return after - 1
+  return Date.now() / 1000
+}
+
+/**
+ * Sort a project's statuses into board order
+ */
+export function sortTaskStatuses(statuses: TaskStatus[]): TaskStatus[] {
+  return [...statuses].sort((a, b) => a.position - b.position)
+}
+
+/**
+ * Check whether a task counts as done according to its project's statuses.
+ * Falls back to the stored completed flag when the task's status is not in the list.
+ */
+export function isTaskDone(task: Pick<Task, 'status_id' | 'completed'>, statuses: TaskStatus[]): boolean {
+  const status = statuses.find(s => s.id === task.status_id)
+  return status ? status.is_done : task.completed
+}
+
+/**
+ * Check that a start date does not fall after a due date (yyyy-MM-dd strings).
+ * Ranges with either end missing are always valid.
+ */
+export function isValidDateRange(startDate?: string | null, dueDate?: string | null): boolean {
+  if (!startDate || !dueDate) return true
+  return startDate <= dueDate
+}
+
+/**
+ * Check whether a task or project carries any of the given tags.
+ * An empty tag list matches everything.
+ */
+export function hasAnyTag(item: { tags?: Tag[] }, tagIds: string[]): boolean {
+  if (tagIds.length === 0) return true
+  return (item.tags || []).some(tag => tagIds.includes(tag.id))
+}
+
+/**
+ * Collect the distinct tags used across a list of tasks or projects, sorted by name
+ */
+export function getUniqueTags(items: { tags?: Tag[] }[]): Tag[] {
+  const tagsById = new Map<string, Tag>()
+  items.forEach(item => {
+    (item.tags || []).forEach(tag => tagsById.set(tag.id, tag))
+  })
+  return Array.from(tagsById.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Get up to two initials for an assignee from their email address, e.g. "jane.doe@…" → "JD"
+ */
+export function getInitials(email: string): string {
+  const parts = email.split('@')[0].split(/[._\-+]+/).filter(Boolean)
+  const initials = parts.length > 1 ? parts[0][0] + parts[1][0] : (parts[0] || email).slice(0, 2)
+  return initials.toUpperCase()
+}
+
+// Days deleted items stay in the trash; keep in step with the purge-trash job in database/schema.sql
+export const TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS) || 30
+
+/**
+ * Get the date a trashed item is due to be permanently deleted
+ */
+export function getTrashPurgeDate(deletedAt: string): Date {
+  return addDays(parseISO(deletedAt), TRASH_RETENTION_DAYS)
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Check that a recurrence rule has usable values for its type
+ */
+export function isValidRecurrence(recurrence: TaskRecurrence): boolean {
+  switch (recurrence.type) {
+    case 'daily':
+      return true
+    case 'weekly':
+      return recurrence.weekdays.length > 0 &&
+        recurrence.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+    case 'monthly':
+      return Number.isInteger(recurrence.day_of_month) && recurrence.day_of_month >= 1 && recurrence.day_of_month <= 31
+    case 'after_completion':
+      return Number.isInteger(recurrence.days) && recurrence.days >= 1 && recurrence.days <= 365
+    default:
+      return false
+  }
+}
+
+/**
+ * Describe a recurrence rule for display, e.g. "Weekly on Mon, Fri"
+ */
+export function describeRecurrence(recurrence: TaskRecurrence): string {
+  switch (recurrence.type) {
+    case 'daily':
+      return 'Daily'
+    case 'weekly':
+      return `Weekly on ${[...recurrence.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day]).join(', ')}`
+    case 'monthly':
+      return `Monthly on day ${recurrence.day_of_month}`
+    case 'after_completion':
+      return `${recurrence.days === 1 ? 'Every day' : `Every ${recurrence.days} days`} after completion`
+  }
+}
+
+/**
+ * Get the first date strictly after the given date that matches a calendar-based rule.
+ * Monthly rules fall back to the last day of shorter months.
+ */
+function getNextMatchingDate(recurrence: Exclude<TaskRecurrence, { type: 'after_completion' }>, date: Date): Date {
+  switch (recurrence.type) {
+    case 'daily':
+      return addDays(date, 1)
+    case 'weekly': {
+      let next = addDays(date, 1)
+      while (!recurrence.weekdays.includes(getDay(next))) {
+        next = addDays(next, 1)
+      }
+      return next
+    }
+    case 'monthly': {
+      const inMonth = (month: Date) => setDate(month, Math.min(recurrence.day_of_month, getDaysInMonth(month)))
+      const candidate = inMonth(date)
+      return candidate > date ? candidate : inMonth(addMonths(startOfMonth(date), 1))
+    }
+  }
+}
+
+/**
+ * Get the due date (yyyy-MM-dd) of a recurring task's next occurrence.
+ * Calendar rules step forward from the current due date (or the completion day when there is none)
+ * and skip occurrences already in the past; "after completion" rules count from the completion day.
+ */
+export function getNextOccurrenceDate(
+  recurrence: TaskRecurrence,
+  dueDate: string | null,
+  completedOn: Date = new Date()
+): string {
+  const completionDay = startOfDay(completedOn)
+  if (recurrence.type === 'after_completion') {
+    return format(addDays(completionDay, recurrence.days), 'yyyy-MM-dd')
+  }
+
+  let next = dueDate ? parseISO(dueDate) : completionDay
+  do {
+    next = getNextMatchingDate(recurrence, next)
+  } while (next < completionDay)
+
+  return format(next, 'yyyy-MM-dd')
+}
@@ -0,0 +1,60 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns'
+
+import { ApiResponse, ProjectTemplate, ProjectTemplateData } from '@/types'
+import { createProjectTemplate } from './database'
+import { aggregateProjectDataForExport, ExportData } from './export'
+
+/**
+ * Turn a project's export data into a template. Dates become day offsets from the project's
+ * start date (or its earliest task date when it has none) so they can be shifted later.
+ */
+export function createTemplateData(exportData: ExportData): ProjectTemplateData {
+  const { project } = exportData
+
+  const taskDates = project.tasks
+    .flatMap(task => [task.start_date, task.due_date])
+    .filter((date): date is string => !!date)
+    .sort()
+  const anchor = parseISO(project.start_date || taskDates[0] || project.created_at.slice(0, 10))
+
+  const toOffset = (date?: string) =>
+    date ? differenceInCalendarDays(parseISO(date), anchor) : null
+
+  // Export tasks list every parent before its subtasks, so parents can be referenced by index
+  const indexById = new Map(project.tasks.map((task, index) => [task.id, index]))
+
+  return {
+    description: project.description || null,
+    due_offset_days: toOffset(project.due_date),
+    tasks: project.tasks.map(task => ({
+      parent_index: task.parent_task_id ? indexById.get(task.parent_task_id) ?? null : null,
+      name: task.name,
+      priority: task.priority,
+      start_offset_days: toOffset(task.start_date),
+      due_offset_days: toOffset(task.due_date),
+      recurrence: task.recurrence || null,
+      notes: task.notes.map(note => ({
+        title: note.title,
+        content: note.content
+      }))
+    }))
+  }
+}
+
+/**
+ * Save a project, with its tasks and note skeletons, as a reusable template
+ */
+export async function saveProjectAsTemplate(projectId: string, name: string): Promise<ApiResponse<ProjectTemplate>> {
+  const exportResult = await aggregateProjectDataForExport(projectId)
+  if (!exportResult.success || !exportResult.data) {
+    return {
+      success: false,
+      error: exportResult.error || 'Failed to load the project'
+    }
+  }
+
+  return createProjectTemplate({
+    name,
+    data: createTemplateData(exportResult.data)
+  })
+}
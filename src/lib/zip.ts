@@ -0,0 +1,98 @@
+// Minimal ZIP archive writer for bundling exports. Files are stored without compression,
+// which every unzip tool reads and keeps this dependency-free.
+
+export interface ZipEntry {
+  // Path inside the archive, using "/" between folders
+  name: string
+  content: string | Uint8Array
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Build a ZIP archive from the given files
+ */
+export function createZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modifiedAt)
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content
+    const crc = crc32(data)
+
+    // Fields shared by the local and central headers, from "version needed" to "file name length"
+    const writeCommonFields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true) // Version needed to extract
+      view.setUint16(at + 2, 0x0800, true) // File names are UTF-8
+      view.setUint16(at + 4, 0, true) // Stored, no compression
+      view.setUint16(at + 6, time, true)
+      view.setUint16(at + 8, date, true)
+      view.setUint32(at + 10, crc, true)
+      view.setUint32(at + 14, data.length, true) // Compressed size
+      view.setUint32(at + 18, data.length, true) // Uncompressed size
+      view.setUint16(at + 22, name.length, true)
+    }
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    writeCommonFields(localView, 4)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true) // Version made by
+    writeCommonFields(centralView, 6)
+    centralView.setUint32(42, offset, true) // Offset of the local header
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true) // Entries on this disk
+  endView.setUint16(10, entries.length, true) // Total entries
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true) // Offset of the central directory
+
+  const parts = [...localParts, ...centralParts, end]
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  parts.forEach(part => {
+    zip.set(part, position)
+    position += part.length
+  })
+  return zip
+}
@@ -8,25 +8,180 @@ export interface User {
   updated_at: string
 }
 
+// Owners manage members and can delete the project; viewers are read-only
+export type ProjectRole = 'owner' | 'editor' | 'viewer'
+
 export interface Project {
   id: string
+  // The project's creator, always one of its owners
   user_id: string
   name: string
   description: string | null
+  start_date: string | null
   due_date: string | null
   created_at: string
   updated_at: string
+  // Set while the project is in the trash
+  deleted_at: string | null
+  // Embedded when the query joins project_tags
+  tags?: Tag[]
+  // The current user's role, set when the project is fetched
+  role?: ProjectRole
+}
+
+export interface Profile {
+  id: string
+  email: string
+  created_at: string
+  updated_at: string
+}
+
+export interface ProjectMember {
+  id: string
+  project_id: string
+  user_id: string
+  role: ProjectRole
+  created_at: string
+  updated_at: string
+  profile: Pick<Profile, 'id' | 'email'>
+}
+
+export interface ProjectInvitation {
+  id: string
+  project_id: string
+  email: string
+  role: ProjectRole
+  invited_by: string | null
+  created_at: string
+}
+
+// An invitation sent to the current user, with the name of the project it is for
+export interface PendingInvitation {
+  id: string
+  project_id: string
+  project_name: string
+  role: ProjectRole
+  invited_by_email: string | null
+  created_at: string
+}
+
+export type ActivityEntityType = 'project' | 'task' | 'note'
+
+export type ActivityAction = 'created' | 'updated' | 'deleted' | 'restored'
+
+// A field's value before and after an update, as stored in the database
+export interface ActivityChange {
+  from: unknown
+  to: unknown
+}
+
+export interface ProjectActivity {
+  id: string
+  project_id: string
+  // Null when the change wasn't made by a signed-in user, or they have since deleted their account
+  actor_id: string | null
+  entity_type: ActivityEntityType
+  entity_id: string
+  // Name or title at the time of the change
+  entity_name: string | null
+  action: ActivityAction
+  // Changed fields, keyed by column name; only set for updates
+  changes: Record<string, ActivityChange> | null
+  created_at: string
+  // Embedded when the query joins profiles
+  actor?: Pick<Profile, 'id' | 'email'> | null
 }
 
+export interface Tag {
+  id: string
+  user_id: string
+  name: string
+  color: string
+  created_at: string
+  updated_at: string
+}
+
+// A note copied into every task created from a template
+export interface TemplateNote {
+  title: string
+  content: string
+}
+
+// Dates are stored as whole days from the project's start, so they shift with it
+export interface TemplateTask {
+  // Index of the parent task in the template's task list (parents always come first)
+  parent_index: number | null
+  name: string
+  priority: 'High' | 'Medium' | 'Low'
+  start_offset_days: number | null
+  due_offset_days: number | null
+  recurrence: TaskRecurrence | null
+  notes: TemplateNote[]
+}
+
+export interface ProjectTemplateData {
+  description: string | null
+  due_offset_days: number | null
+  tasks: TemplateTask[]
+}
+
+export interface ProjectTemplate {
+  id: string
+  user_id: string
+  name: string
+  data: ProjectTemplateData
+  created_at: string
+  updated_at: string
+}
+
+export interface TaskStatus {
+  id: string
+  project_id: string
+  name: string
+  color: string
+  is_done: boolean
+  position: number
+  created_at: string
+  updated_at: string
+}
+
+// Weekdays use 0 = Sunday through 6 = Saturday
+export type TaskRecurrence =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'monthly'; day_of_month: number }
+  | { type: 'after_completion'; days: number }
+
 export interface Task {
   id: string
   project_id: string
+  parent_task_id: string | null
   name: string
+  start_date: string | null
   due_date: string | null
   priority: 'High' | 'Medium' | 'Low'
+  // Derived from the status's is_done flag
   completed: boolean
+  status_id: string
+  position: number
+  recurrence: TaskRecurrence | null
+  // The project member doing the work, or null when unassigned
+  assignee_id: string | null
   created_at: string
   updated_at: string
+  // Set while the task is in the trash
+  deleted_at: string | null
+  // Embedded when the query joins task_tags
+  tags?: Tag[]
+  // Embedded when the query joins profiles
+  assignee?: Pick<Profile, 'id' | 'email'> | null
+}
+
+export interface TaskDependency {
+  id: string
+  task_id: string
+  depends_on_task_id: string
+  created_at: string
 }
 
 export interface Note {
@@ -36,29 +191,88 @@ export interface Note {
   content: string
   created_at: string
   updated_at: string
+  // Set while the note is in the trash
+  deleted_at: string | null
 }
 
 // Form interfaces for creating/editing entities
 export interface CreateProjectData {
   name: string
   description?: string | null
+  start_date?: string | null
   due_date?: string | null
+  // Replaces the full set of tags on the project
+  tag_ids?: string[]
 }
 
 export interface UpdateProjectData extends Partial<CreateProjectData> {
   id: string
 }
 
+export interface DuplicateProjectOptions {
+  // Defaults to the source project's name with " (copy)"
+  name?: string
+  includeNotes?: boolean
+  // Copies start in the first open status instead of keeping their status
+  resetCompletion?: boolean
+  // Moves every project and task date by this many days
+  shiftDays?: number
+}
+
 export interface CreateTaskData {
   project_id: string
+  parent_task_id?: string | null
   name: string
+  start_date?: string | null
   due_date?: string | null
   priority?: 'High' | 'Medium' | 'Low'
+  status_id?: string
+  recurrence?: TaskRecurrence | null
+  // Must be a member of the task's project
+  assignee_id?: string | null
+  // Replaces the full set of tags on the task
+  tag_ids?: string[]
 }
 
 export interface UpdateTaskData extends Partial<CreateTaskData> {
   id: string
   completed?: boolean
+  position?: number
+  // Replaces the full set of tasks this task is blocked by
+  depends_on_task_ids?: string[]
+}
+
+// Changes that can be applied to many tasks at once
+export interface BulkUpdateTaskData {
+  completed?: boolean
+  priority?: 'High' | 'Medium' | 'Low'
+  due_date?: string | null
+}
+
+export interface CreateProjectTemplateData {
+  name: string
+  data: ProjectTemplateData
+}
+
+export interface CreateTaskStatusData {
+  project_id: string
+  name: string
+  color?: string
+  is_done?: boolean
+  position?: number
+}
+
+export interface UpdateTaskStatusData extends Partial<Omit<CreateTaskStatusData, 'project_id'>> {
+  id: string
+}
+
+export interface CreateTagData {
+  name: string
+  color?: string
+}
+
+export interface UpdateTagData extends Partial<CreateTagData> {
+  id: string
 }
 
 export interface CreateNoteData {
@@ -80,10 +294,85 @@ export interface TaskWithNotes extends Task {
   notes: Note[]
 }
 
+export interface TaskWithSubtasks extends Task {
+  subtasks: TaskWithSubtasks[]
+}
+
+export type LinkedTask = Pick<Task, 'id' | 'project_id' | 'name' | 'completed'>
+
+// A dependency together with the task on the other end of the link
+export interface TaskDependencyWithTask extends TaskDependency {
+  linked_task: LinkedTask
+}
+
+// Result of toggling completion; completing a recurring task also creates its next occurrence
+export interface TaskCompletionResult {
+  task: Task
+  next_occurrence: Task | null
+}
+
+// Result of a bulk update; completing recurring tasks also creates their next occurrences
+export interface BulkTaskUpdateResult {
+  tasks: Task[]
+  next_occurrences: Task[]
+}
+
+// An entry on the calendar: a task or a project deadline on its due date
+export type CalendarItem =
+  | { type: 'task'; id: string; date: string; task: Task; projectName: string }
+  | { type: 'project'; id: string; date: string; project: Project }
+
+// A user's calendar subscription; the token authenticates the feed URL
+export interface CalendarFeed {
+  user_id: string
+  token: string
+  created_at: string
+}
+
+// A due date published in the iCalendar feed; project items are project deadlines
+export interface CalendarFeedItem {
+  item_type: 'task' | 'project'
+  id: string
+  project_id: string
+  project_name: string
+  name: string
+  priority: 'High' | 'Medium' | 'Low' | null
+  due_date: string
+  completed: boolean
+  updated_at: string
+}
+
 export interface ProjectWithTasksAndNotes extends Project {
   tasks: TaskWithNotes[]
 }
 
+// A full-text search hit; snippet wraps matched words in <mark></mark>
+export interface SearchResult {
+  result_type: 'project' | 'task' | 'note'
+  id: string
+  project_id: string
+  task_id: string | null
+  title: string
+  snippet: string
+  project_name: string
+  task_name: string | null
+  rank: number
+}
+
+// A project, task or note in the trash. Items deleted along with their project or
+// parent task come back when it is restored, so they aren't listed separately.
+export interface TrashItem {
+  item_type: 'project' | 'task' | 'note'
+  id: string
+  name: string
+  project_id: string
+  project_name: string
+  task_name: string | null
+  deleted_at: string
+  // The item's project or task is also in the trash and has to be restored first
+  parent_in_trash: boolean
+}
+
 // API Response interfaces
 export interface ApiResponse<T = unknown> {
   data?: T
@@ -96,14 +385,35 @@ export interface ProjectFilters {
   user_id?: string
   due_date_before?: string
   due_date_after?: string
+  // Matches projects carrying any of these tags
+  tag_ids?: string[]
 }
 
 export interface TaskFilters {
   project_id?: string
+  parent_task_id?: string | null
   priority?: 'High' | 'Medium' | 'Low'
   completed?: boolean
+  status_id?: string
   due_date_before?: string
   due_date_after?: string
+  // Matches tasks carrying any of these tags
+  tag_ids?: string[]
+  // Matches tasks assigned to this user, or unassigned tasks when null
+  assignee_id?: string | null
+}
+
+export interface PaginationOptions {
+  // Page size
+  limit?: number
+  // Number of items to skip
+  offset?: number
+}
+
+export interface PaginatedResult<T> {
+  items: T[]
+  // Whether another page follows this one
+  has_more: boolean
 }
 
 export interface NoteFilters {
@@ -113,11 +423,4 @@ export interface NoteFilters {
   created_after?: string
 }
 
-// Export utility types
-export interface ExportData {
-  projects: ProjectWithTasksAndNotes[]
-  exported_at: string
-  user_email: string
-}
-
 export {}; // Make this an ES module 
\ No newline at end of file